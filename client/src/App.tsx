@@ -2,23 +2,48 @@ import { useState, useEffect, useCallback } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { FileUpload } from './components/FileUpload';
 import { ClassificationResult } from './components/ClassificationResult';
+import { ClassificationHistory } from './components/ClassificationHistory';
+import { ClassificationOverride } from './components/ClassificationOverride';
 import { CategoriesDisplay } from './components/CategoriesDisplay';
 import { CriteriaManagement } from './components/CriteriaManagement';
+import { ReviewQueue } from './components/ReviewQueue';
+import { BatchResults, type BatchFileEntry } from './components/BatchResults';
 import { trpc } from '@/utils/trpc';
-import { FileText, Settings, Loader2 } from 'lucide-react';
-import type { Category, ClassificationResponse } from '../../server/src/schema';
+import { uploadFile, uploadArchive, importEmail } from '@/utils/upload';
+import { mapWithConcurrency } from '@/utils/pool';
+import { findFileType, isArchive, isBatchFile } from '@/utils/formats';
+import { FileText, Settings, Loader2, ClipboardCheck } from 'lucide-react';
+import type { Category, ClassificationResponse, OverrideClassificationResponse, FileType, SupportedFormat } from '../../server/src/schema';
+
+const UPLOAD_CONCURRENCY = 3;
+const CLASSIFY_CHUNK_SIZE = 25; // Documents per classifyBatch call, so progress shows as chunks finish
+const createBatchEntry = (key: string, name: string, update: Partial<BatchFileEntry> = {}): BatchFileEntry => ({
+  key,
+  name,
+  status: 'pending',
+  documentId: null,
+  category: null,
+  confidenceScore: null,
+  error: null,
+  ...update
+});
 
 function App() {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [batchEntries, setBatchEntries] = useState<BatchFileEntry[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [isClassifying, setIsClassifying] = useState(false);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [formats, setFormats] = useState<SupportedFormat[]>([]);
   const [categoriesLoading, setCategoriesLoading] = useState(true);
   const [classificationResult, setClassificationResult] = useState<ClassificationResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('classifier');
+  const [multiLabel, setMultiLabel] = useState(false);
 
   const loadCategories = useCallback(async () => {
     try {
@@ -37,12 +62,21 @@ function App() {
     loadCategories();
   }, [loadCategories]);
 
+  // The formats the server can extract text from drive what the upload form accepts
+  useEffect(() => {
+    trpc.getSupportedFormats.query()
+      .then(setFormats)
+      .catch((error) => {
+        console.error('Failed to load supported formats:', error);
+        setError('Failed to load supported file formats. Please reload the page.');
+      });
+  }, []);
+
   const validateFile = (file: File): string | null => {
-    const allowedTypes = ['application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/plain'];
     const maxSize = 10 * 1024 * 1024; // 10MB
 
-    if (!allowedTypes.includes(file.type)) {
-      return 'Please select a valid PDF, DOCX, or TXT file.';
+    if (!isBatchFile(file) && findFileType(formats, file) === null) {
+      return `Please select a supported file (${formats.map((format) => format.label).join(', ')}), a ZIP archive or an MBOX mailbox.`;
     }
     if (file.size > maxSize) {
       return 'File size must be less than 10MB.';
@@ -50,37 +84,40 @@ function App() {
     return null;
   };
 
-  const handleFileSelect = (file: File) => {
-    const validationError = validateFile(file);
-    if (validationError) {
-      setError(validationError);
+  // Keeps the valid files and reports the rest; a folder usually holds a few unsupported ones
+  const handleFilesSelect = (files: File[]) => {
+    const accepted = files.filter((file) => validateFile(file) === null);
+    const rejected = files.filter((file) => validateFile(file) !== null);
+
+    if (files.length === 1 && rejected.length === 1) {
+      setError(validateFile(files[0]));
       return;
     }
-    
-    setError(null);
-    setSelectedFile(file);
+
+    setError(rejected.length > 0
+      ? `Skipped ${rejected.length} unsupported or oversized ${rejected.length === 1 ? 'file' : 'files'}: ${rejected.map((file) => file.name).join(', ')}`
+      : null);
+    setSelectedFiles(accepted);
+    setBatchEntries([]);
     setClassificationResult(null);
   };
 
-  const handleClearFile = () => {
-    setSelectedFile(null);
+  const handleRemoveFile = (index: number) => {
+    setSelectedFiles((files) => files.filter((_, fileIndex) => fileIndex !== index));
+  };
+
+  const handleClearFiles = () => {
+    setSelectedFiles([]);
+    setBatchEntries([]);
     setClassificationResult(null);
     setError(null);
   };
 
-  const getFileTypeFromFile = (file: File): 'pdf' | 'docx' | 'txt' => {
-    if (file.type === 'application/pdf') return 'pdf';
-    if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') return 'docx';
-    if (file.type === 'text/plain') return 'txt';
-    
-    // Fallback based on file extension
-    const extension = file.name.split('.').pop()?.toLowerCase();
-    if (extension === 'pdf') return 'pdf';
-    if (extension === 'docx') return 'docx';
-    return 'txt';
-  };
+  // validateFile only accepts files the registry resolves, so the fallback is never used for them
+  const getFileTypeFromFile = (file: File): FileType => findFileType(formats, file) ?? 'txt';
 
   const handleClassifyDocument = async () => {
+    const selectedFile = selectedFiles[0];
     if (!selectedFile) return;
 
     setIsUploading(true);
@@ -88,17 +125,13 @@ function App() {
     setError(null);
 
     try {
-      // First upload the document
-      const uploadResponse = await trpc.uploadDocument.mutate({
-        filename: selectedFile.name,
-        file_type: getFileTypeFromFile(selectedFile),
-        file_size: selectedFile.size,
-        content: selectedFile.type === 'text/plain' ? await selectedFile.text() : undefined,
-      });
+      // First stream the file to the server, which extracts its text
+      const uploadResponse = await uploadFile(selectedFile, getFileTypeFromFile(selectedFile));
 
       // Then classify the uploaded document
       const classificationResponse = await trpc.classifyDocument.mutate({
         document_id: uploadResponse.id,
+        mode: multiLabel ? 'multi' : 'single',
       });
 
       setClassificationResult(classificationResponse);
@@ -111,7 +144,110 @@ function App() {
     }
   };
 
-  const isClassifyDisabled = !selectedFile || isUploading || isClassifying;
+  // Upload every file a few at a time, then classify the uploaded documents in chunks
+  const handleClassifyBatch = async () => {
+    const updateEntry = (key: string, update: Partial<BatchFileEntry>) => {
+      setBatchEntries((entries) => entries.map((entry) => entry.key === key ? { ...entry, ...update } : entry));
+    };
+    const replaceEntry = (key: string, replacements: BatchFileEntry[]) => {
+      setBatchEntries((entries) => entries.flatMap((entry) => entry.key === key ? replacements : [entry]));
+    };
+
+    setIsUploading(true);
+    setIsClassifying(true);
+    setError(null);
+    setClassificationResult(null);
+    setBatchEntries(selectedFiles.map((file, index) => createBatchEntry(String(index), file.webkitRelativePath || file.name)));
+
+    try {
+      const uploadedByFile = await mapWithConcurrency(selectedFiles, UPLOAD_CONCURRENCY, async (file, index) => {
+        const key = String(index);
+        updateEntry(key, { status: 'uploading' });
+        try {
+          if (isBatchFile(file)) {
+            // The file's entry is replaced by its documents and the entries the server skipped
+            const detail = isArchive(file) ? await uploadArchive(file) : await importEmail(file);
+            const name = file.webkitRelativePath || file.name;
+            const documents = detail.documents.map(({ document }) => ({ key: `${key}/${document.id}`, documentId: document.id, name: `${name}/${document.filename}` }));
+            replaceEntry(key, [
+              ...documents.map((item) => createBatchEntry(item.key, item.name, { status: 'uploaded', documentId: item.documentId })),
+              ...detail.batch.skipped_entries.map((entry, skippedIndex) =>
+                createBatchEntry(`${key}/skipped-${skippedIndex}`, `${name}/${entry.path}`, { status: 'skipped', error: entry.reason })
+              )
+            ]);
+            return documents;
+          }
+
+          const document = await uploadFile(file, getFileTypeFromFile(file));
+          updateEntry(key, { status: 'uploaded', documentId: document.id });
+          return [{ key, documentId: document.id }];
+        } catch (uploadError) {
+          console.error(`Upload of ${file.name} failed:`, uploadError);
+          updateEntry(key, { status: 'failed', error: uploadError instanceof Error ? uploadError.message : 'Upload failed' });
+          return [];
+        }
+      });
+      setIsUploading(false);
+
+      const uploaded = uploadedByFile.flat();
+
+      for (let start = 0; start < uploaded.length; start += CLASSIFY_CHUNK_SIZE) {
+        const chunk = uploaded.slice(start, start + CLASSIFY_CHUNK_SIZE);
+        chunk.forEach(({ key }) => updateEntry(key, { status: 'classifying' }));
+        try {
+          const response = await trpc.classifyBatch.mutate({
+            document_ids: chunk.map(({ documentId }) => documentId),
+            mode: multiLabel ? 'multi' : 'single',
+          });
+          for (const item of response.items) {
+            const { key } = chunk.find(({ documentId }) => documentId === item.document_id)!;
+            updateEntry(key, {
+              status: item.status,
+              category: item.category,
+              confidenceScore: item.category ? item.result?.confidence_score ?? null : null,
+              error: item.error
+            });
+          }
+        } catch (batchError) {
+          console.error('Batch classification failed:', batchError);
+          chunk.forEach(({ key }) => updateEntry(key, { status: 'failed', error: 'Classification failed' }));
+        }
+      }
+    } finally {
+      setIsUploading(false);
+      setIsClassifying(false);
+    }
+  };
+
+  // Classify the same document again, e.g. after the criteria changed
+  const handleReclassify = async () => {
+    if (!classificationResult) return;
+
+    setIsClassifying(true);
+    setError(null);
+
+    try {
+      const classificationResponse = await trpc.classifyDocument.mutate({
+        document_id: classificationResult.document.id,
+        mode: multiLabel ? 'multi' : 'single',
+      });
+
+      setClassificationResult(classificationResponse);
+    } catch (error) {
+      console.error('Reclassification failed:', error);
+      setError('Reclassification failed. Please try again.');
+    } finally {
+      setIsClassifying(false);
+    }
+  };
+
+  // The manual result becomes the document's current one
+  const handleOverride = (response: OverrideClassificationResponse) => {
+    setClassificationResult((current) => current && { ...current, document: response.document });
+  };
+
+  const isBatch = selectedFiles.length > 1 || selectedFiles.some(isBatchFile);
+  const isClassifyDisabled = selectedFiles.length === 0 || isUploading || isClassifying;
 
   return (
     <div className="min-h-screen bg-gray-900">
@@ -127,7 +263,7 @@ function App() {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2 bg-gray-800 border-gray-700">
+          <TabsList className="grid w-full grid-cols-3 bg-gray-800 border-gray-700">
             <TabsTrigger
               value="classifier"
               className="data-[state=active]:bg-blue-600 data-[state=active]:text-white text-gray-300 hover:text-white"
@@ -142,6 +278,13 @@ function App() {
               <Settings className="h-4 w-4 mr-2" />
               Criteria Management
             </TabsTrigger>
+            <TabsTrigger
+              value="review"
+              className="data-[state=active]:bg-blue-600 data-[state=active]:text-white text-gray-300 hover:text-white"
+            >
+              <ClipboardCheck className="h-4 w-4 mr-2" />
+              Review Queue
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="classifier" className="space-y-6">
@@ -150,18 +293,31 @@ function App() {
 
             {/* File Upload */}
             <FileUpload
-              onFileSelect={handleFileSelect}
-              selectedFile={selectedFile}
-              onClearFile={handleClearFile}
+              onFilesSelect={handleFilesSelect}
+              formats={formats}
+              selectedFiles={selectedFiles}
+              onRemoveFile={handleRemoveFile}
+              onClearFiles={handleClearFiles}
               isUploading={isUploading}
               error={error}
             />
 
             {/* Classify Button */}
-            {selectedFile && (
-              <div className="text-center">
+            {selectedFiles.length > 0 && (
+              <div className="flex flex-col items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="multi-label"
+                    checked={multiLabel}
+                    onCheckedChange={setMultiLabel}
+                    disabled={isClassifyDisabled}
+                  />
+                  <Label htmlFor="multi-label" className="text-gray-300">
+                    Assign every matching category (multi-label)
+                  </Label>
+                </div>
                 <Button
-                  onClick={handleClassifyDocument}
+                  onClick={isBatch ? handleClassifyBatch : handleClassifyDocument}
                   disabled={isClassifyDisabled}
                   className="bg-blue-600 hover:bg-blue-700 text-white px-8 py-2 text-lg"
                 >
@@ -170,6 +326,8 @@ function App() {
                       <Loader2 className="h-5 w-5 mr-2 animate-spin" />
                       Classifying...
                     </>
+                  ) : isBatch ? (
+                    `Classify ${selectedFiles.length} ${selectedFiles.length === 1 ? 'File' : 'Files'}`
                   ) : (
                     'Classify Document'
                   )}
@@ -186,15 +344,43 @@ function App() {
               </Alert>
             )}
 
+            {/* Batch Progress and Summary */}
+            {batchEntries.length > 0 && (
+              <BatchResults entries={batchEntries} />
+            )}
+
             {/* Classification Result */}
             {classificationResult && (
               <ClassificationResult result={classificationResult} />
             )}
+
+            {/* Classification History */}
+            {classificationResult && (
+              <ClassificationHistory
+                documentId={classificationResult.document.id}
+                currentResultId={classificationResult.document.current_result_id}
+                onReclassify={handleReclassify}
+                isReclassifying={isClassifying}
+              />
+            )}
+
+            {/* Manual Override */}
+            {classificationResult && (
+              <ClassificationOverride
+                documentId={classificationResult.document.id}
+                categories={categories}
+                onOverride={handleOverride}
+              />
+            )}
           </TabsContent>
 
           <TabsContent value="criteria">
             <CriteriaManagement />
           </TabsContent>
+
+          <TabsContent value="review">
+            <ReviewQueue categories={categories} />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,139 @@
+import { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CategoryBadge } from './CategoryBadge';
+import { Layers, Loader2, CheckCircle, XCircle, Clock, AlertTriangle, MinusCircle } from 'lucide-react';
+import type { Category } from '../../../server/src/schema';
+
+export type BatchFileStatus = 'pending' | 'uploading' | 'uploaded' | 'classifying' | 'classified' | 'unclassified' | 'failed' | 'skipped';
+
+export interface BatchFileEntry {
+  key: string; // Stays the same while an archive's entry is replaced by its documents
+  name: string; // Relative path; documents from an archive are shown under the archive's name
+  status: BatchFileStatus;
+  documentId: number | null;
+  category: Category | null; // Top-ranked label once classified
+  confidenceScore: number | null;
+  error: string | null;
+}
+
+interface BatchResultsProps {
+  entries: BatchFileEntry[];
+}
+
+const STATUS_LABELS: Record<BatchFileStatus, string> = {
+  pending: 'Waiting',
+  uploading: 'Uploading',
+  uploaded: 'Uploaded',
+  classifying: 'Classifying',
+  classified: 'Classified',
+  unclassified: 'Unclassified',
+  failed: 'Failed',
+  skipped: 'Skipped',
+};
+
+const isFinished = (status: BatchFileStatus) =>
+  status === 'classified' || status === 'unclassified' || status === 'failed' || status === 'skipped';
+
+const StatusIcon = ({ status }: { status: BatchFileStatus }) => {
+  if (status === 'classified') return <CheckCircle className="h-4 w-4 text-green-400" />;
+  if (status === 'failed') return <XCircle className="h-4 w-4 text-red-400" />;
+  if (status === 'unclassified') return <AlertTriangle className="h-4 w-4 text-yellow-400" />;
+  if (status === 'skipped') return <MinusCircle className="h-4 w-4 text-gray-400" />;
+  if (status === 'pending' || status === 'uploaded') return <Clock className="h-4 w-4 text-gray-400" />;
+  return <Loader2 className="h-4 w-4 text-blue-400 animate-spin" />;
+};
+
+export function BatchResults({ entries }: BatchResultsProps) {
+  const finished = entries.filter((entry) => isFinished(entry.status)).length;
+
+  // Documents per top-ranked category, most common first
+  const categoryCounts = useMemo(() => {
+    const counts = new Map<number, { category: Category; count: number }>();
+    for (const entry of entries) {
+      if (entry.status === 'classified' && entry.category) {
+        const current = counts.get(entry.category.id) ?? { category: entry.category, count: 0 };
+        counts.set(entry.category.id, { ...current, count: current.count + 1 });
+      }
+    }
+    return [...counts.values()].sort((a, b) => b.count - a.count || a.category.name.localeCompare(b.category.name));
+  }, [entries]);
+
+  const unclassified = entries.filter((entry) => entry.status === 'unclassified').length;
+  const failed = entries.filter((entry) => entry.status === 'failed').length;
+  const skipped = entries.filter((entry) => entry.status === 'skipped').length;
+
+  return (
+    <Card className="w-full bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          Batch Classification
+          <span className="text-gray-400 text-sm font-normal">{finished} of {entries.length} done</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Progress value={entries.length > 0 ? (finished / entries.length) * 100 : 0} className="bg-gray-700" />
+
+        <Table>
+          <TableHeader>
+            <TableRow className="border-gray-700">
+              <TableHead className="text-gray-300">Category</TableHead>
+              <TableHead className="text-gray-300 text-right">Documents</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {categoryCounts.map(({ category, count }) => (
+              <TableRow key={category.id} className="border-gray-700">
+                <TableCell><CategoryBadge category={category} className="text-xs" /></TableCell>
+                <TableCell className="text-white text-right">{count}</TableCell>
+              </TableRow>
+            ))}
+            <TableRow className="border-gray-700">
+              <TableCell>
+                <Badge variant="outline" className="border-dashed border-gray-500 text-gray-300 text-xs">Unclassified</Badge>
+              </TableCell>
+              <TableCell className="text-white text-right">{unclassified}</TableCell>
+            </TableRow>
+            {failed > 0 && (
+              <TableRow className="border-gray-700">
+                <TableCell className="text-red-300">Failed</TableCell>
+                <TableCell className="text-red-300 text-right">{failed}</TableCell>
+              </TableRow>
+            )}
+            {skipped > 0 && (
+              <TableRow className="border-gray-700">
+                <TableCell className="text-gray-400">Skipped in archives</TableCell>
+                <TableCell className="text-gray-400 text-right">{skipped}</TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        <ul className="space-y-2 max-h-96 overflow-y-auto">
+          {entries.map((entry) => (
+            <li key={entry.key} className="flex flex-wrap items-center gap-2 bg-gray-700 rounded-lg p-2">
+              <StatusIcon status={entry.status} />
+              <span className="text-white text-sm">{entry.name}</span>
+              {entry.category ? (
+                <>
+                  <CategoryBadge category={entry.category} className="text-xs" />
+                  {entry.confidenceScore !== null && (
+                    <span className="text-gray-400 text-xs">{(entry.confidenceScore * 100).toFixed(1)}%</span>
+                  )}
+                </>
+              ) : (
+                <span className="text-gray-400 text-xs">{STATUS_LABELS[entry.status]}</span>
+              )}
+              {entry.error && (
+                <span className={`text-xs ${entry.status === 'skipped' ? 'text-gray-400' : 'text-red-300'}`}>{entry.error}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CategoryBadge } from './CategoryBadge';
+import { History, RefreshCw, Loader2, ArrowRight } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import type { ClassificationHistoryEntry } from '../../../server/src/schema';
+
+interface ClassificationHistoryProps {
+  documentId: number;
+  currentResultId: number | null; // The history reloads when the document is classified again
+  onReclassify?: () => void;
+  isReclassifying?: boolean;
+}
+
+// Categories assigned by a run, used to spot changes between runs
+const getCategoryKey = (entry: ClassificationHistoryEntry) =>
+  entry.results.map((item) => item.category?.id ?? 'unclassified').join(',');
+
+export function ClassificationHistory({ documentId, currentResultId, onReclassify, isReclassifying = false }: ClassificationHistoryProps) {
+  const [entries, setEntries] = useState<ClassificationHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const history = await trpc.getDocumentClassificationHistory.query({ document_id: documentId });
+      setEntries(history.entries);
+    } catch (error) {
+      console.error('Failed to load classification history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory, currentResultId]);
+
+  return (
+    <Card className="w-full bg-gray-800 border-gray-700">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-white flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Classification History
+        </CardTitle>
+        {onReclassify && (
+          <Button
+            onClick={onReclassify}
+            variant="ghost"
+            size="sm"
+            className="text-gray-400 hover:text-white hover:bg-gray-600"
+            disabled={isReclassifying}
+          >
+            {isReclassifying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+            Reclassify
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading && entries.length === 0 ? (
+          <div className="h-16 bg-gray-700 rounded-lg animate-pulse" />
+        ) : (
+          <ol className="relative border-l border-gray-600 ml-2 space-y-4">
+            {entries.map((entry, index) => {
+              const previous = entries[index + 1];
+              const changed = previous !== undefined && getCategoryKey(previous) !== getCategoryKey(entry);
+              const top = entry.results[0];
+              return (
+                <li key={entry.run?.id ?? `result-${top.result.id}`} className="ml-4">
+                  <span
+                    className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-gray-800 ${entry.is_current ? 'bg-blue-500' : 'bg-gray-500'}`}
+                  />
+                  <div className="flex flex-wrap items-center gap-2">
+                    {entry.results.map((item) => (
+                      item.category ? (
+                        <CategoryBadge key={item.result.id} category={item.category} className="text-xs" />
+                      ) : (
+                        <Badge key={item.result.id} variant="outline" className="border-dashed border-gray-500 text-gray-300 text-xs">
+                          Unclassified
+                        </Badge>
+                      )
+                    ))}
+                    {top.category && top.result.classification_method !== 'Manual' && (
+                      <span className="text-gray-400 text-sm">
+                        {(top.result.confidence_score * 100).toFixed(1)}%
+                      </span>
+                    )}
+                    {entry.is_current && (
+                      <Badge variant="secondary" className="bg-blue-900 text-blue-300 text-xs">
+                        Current
+                      </Badge>
+                    )}
+                    {changed && (
+                      <span className="flex items-center gap-1 text-yellow-300 text-xs">
+                        <ArrowRight className="h-3 w-3" />
+                        Changed from {previous.results.map((item) => item.category?.name ?? 'Unclassified').join(', ')}
+                      </span>
+                    )}
+                  </div>
+                  {top.result.classification_method === 'Manual' && (
+                    <p className="text-gray-300 text-sm mt-1">
+                      Set manually by {top.result.reviewer}: {top.result.override_reason}
+                    </p>
+                  )}
+                  <p className="text-gray-500 text-xs mt-1">
+                    {top.result.classified_at.toLocaleDateString()} at {top.result.classified_at.toLocaleTimeString()}
+                    {entry.run?.mode === 'multi' && ` • Multi-label (threshold ${((entry.run.threshold ?? 0) * 100).toFixed(0)}%)`}
+                  </p>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
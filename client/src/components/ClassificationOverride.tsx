@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { UserCheck, Loader2, Flag } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import type { Category, OverrideClassificationResponse } from '../../../server/src/schema';
+
+interface ClassificationOverrideProps {
+  documentId: number;
+  categories: Category[];
+  onOverride: (response: OverrideClassificationResponse) => void;
+}
+
+export function ClassificationOverride({ documentId, categories, onOverride }: ClassificationOverrideProps) {
+  const [categoryId, setCategoryId] = useState<number | null>(null);
+  const [reviewer, setReviewer] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (categoryId === null) return;
+
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await trpc.overrideClassification.mutate({
+        document_id: documentId,
+        category_id: categoryId,
+        reviewer,
+        reason
+      });
+      setReason('');
+      onOverride(response);
+    } catch (overrideError) {
+      console.error('Override failed:', overrideError);
+      setError('Failed to save the override. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Puts the current result on the review queue instead of correcting it directly
+  const handleDispute = async () => {
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await trpc.disputeClassification.mutate({ document_id: documentId, reviewer, reason });
+      setReason('');
+      setNotice('Flagged for review.');
+    } catch (disputeError) {
+      console.error('Dispute failed:', disputeError);
+      setError('Failed to flag the classification. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isSubmitDisabled = categoryId === null || !reviewer.trim() || !reason.trim() || isSaving;
+  const isDisputeDisabled = !reviewer.trim() || !reason.trim() || isSaving;
+
+  return (
+    <Card className="w-full bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <UserCheck className="h-5 w-5" />
+          Correct Classification
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label className="text-gray-300">Category</Label>
+              <Select
+                value={categoryId === null ? '' : categoryId.toString()}
+                onValueChange={(value: string) => setCategoryId(parseInt(value, 10))}
+              >
+                <SelectTrigger className="w-full bg-gray-700 border-gray-600 text-white">
+                  <SelectValue placeholder="Select a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category: Category) => (
+                    <SelectItem key={category.id} value={category.id.toString()}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="override-reviewer" className="text-gray-300">Reviewer</Label>
+              <Input
+                id="override-reviewer"
+                value={reviewer}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReviewer(e.target.value)}
+                placeholder="Your name"
+                className="bg-gray-700 border-gray-600 text-white"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="override-reason" className="text-gray-300">Reason</Label>
+            <Textarea
+              id="override-reason"
+              value={reason}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setReason(e.target.value)}
+              placeholder="Why the automatic classification was wrong"
+              className="bg-gray-700 border-gray-600 text-white"
+            />
+          </div>
+          {error && (
+            <Alert className="bg-red-900 border-red-700">
+              <AlertDescription className="text-red-300">{error}</AlertDescription>
+            </Alert>
+          )}
+          {notice && <p className="text-green-300 text-sm">{notice}</p>}
+          <div className="flex flex-wrap gap-2">
+            <Button type="submit" disabled={isSubmitDisabled} className="bg-blue-600 hover:bg-blue-700 text-white">
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Override
+            </Button>
+            <Button
+              type="button"
+              onClick={handleDispute}
+              disabled={isDisputeDisabled}
+              variant="outline"
+              className="border-yellow-600 text-yellow-300 bg-gray-700 hover:bg-gray-600"
+            >
+              <Flag className="h-4 w-4 mr-2" />
+              Flag for Review
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
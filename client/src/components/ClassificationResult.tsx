@@ -1,14 +1,77 @@
+import { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { CategoryBadge } from './CategoryBadge';
-import { FileText, CheckCircle, Target, Clock } from 'lucide-react';
-import type { ClassificationResponse } from '../../../server/src/schema';
+import { DocumentViewer, type HighlightSpan } from './DocumentViewer';
+import { FileText, CheckCircle, Target, Clock, Download, Loader2, Ban, AlertTriangle, ChevronRight, HelpCircle, UserCheck } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import type { ClassificationResponse, UnclassifiedReason } from '../../../server/src/schema';
+
+// Some browsers start reading a download's object URL only after click() returns
+const REVOKE_DOWNLOAD_URL_DELAY_MS = 1000;
+
+const UNCLASSIFIED_REASON_LABELS: Record<UnclassifiedReason, string> = {
+  no_content: 'No text could be extracted from this document.',
+  no_criteria: 'No classification criteria are configured yet.',
+  no_match: 'None of the classification criteria matched this document.',
+  vetoed: 'Every matching category was excluded by a veto criteria.',
+  below_threshold: 'No category scored above the multi-label threshold.'
+};
 
 interface ClassificationResultProps {
   result: ClassificationResponse;
 }
 
 export function ClassificationResult({ result }: ClassificationResultProps) {
+  const [isDownloading, setIsDownloading] = useState(false);
+  // Criteria whose hits are being stepped through, and the current hit
+  const [activeHit, setActiveHit] = useState<{ criteriaId: number; index: number } | null>(null);
+
+  // Hits of every assigned label, colored by category
+  const highlightSpans = useMemo<HighlightSpan[]>(() => result.labels.flatMap((label) => {
+    const names = new Map(label.matched_criteria_details.map((criteria) => [criteria.id, criteria.name]));
+    return label.result.match_spans.map((span) => ({
+      ...span,
+      color: label.category.color,
+      label: `${label.category.name}: ${names.get(span.criteria_id) ?? 'Unknown criteria'}`
+    }));
+  }), [result.labels]);
+
+  const getHits = (criteriaId: number) => highlightSpans.filter((span) => span.criteria_id === criteriaId);
+
+  // Clicking a criteria again moves to its next hit
+  const handleCriteriaClick = (criteriaId: number) => {
+    const hitCount = getHits(criteriaId).length;
+    if (hitCount === 0) {
+      return;
+    }
+    setActiveHit((current) => ({
+      criteriaId,
+      index: current?.criteriaId === criteriaId ? (current.index + 1) % hitCount : 0
+    }));
+  };
+
+  const activeSpan = activeHit ? getHits(activeHit.criteriaId)[activeHit.index] ?? null : null;
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const file = await trpc.downloadDocument.query({ id: result.document.id });
+      const bytes = Uint8Array.from(atob(file.data), (char) => char.charCodeAt(0));
+      const url = URL.createObjectURL(new Blob([bytes], { type: file.mime_type }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.filename;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), REVOKE_DOWNLOAD_URL_DELAY_MS);
+    } catch (error) {
+      console.error('Download failed:', error);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
   const getConfidenceIcon = (level: string) => {
     switch (level) {
       case 'high': return <CheckCircle className="h-4 w-4 text-green-400" />;
@@ -39,36 +102,108 @@ export function ClassificationResult({ result }: ClassificationResultProps) {
         {/* File Information */}
         <div>
           <h3 className="text-sm font-medium text-gray-300 mb-2">Document</h3>
-          <div className="bg-gray-700 rounded-lg p-3">
-            <p className="text-white font-medium">{result.document.filename}</p>
-            <p className="text-gray-400 text-sm">
-              {result.document.file_type.toUpperCase()} • {(result.document.file_size / 1024).toFixed(1)} KB
-            </p>
+          <div className="bg-gray-700 rounded-lg p-3 flex items-center justify-between">
+            <div>
+              <p className="text-white font-medium">{result.document.filename}</p>
+              <p className="text-gray-400 text-sm">
+                {result.document.file_type.toUpperCase()} • {(result.document.file_size / 1024).toFixed(1)} KB
+              </p>
+            </div>
+            {result.document.storage_key && (
+              <Button
+                onClick={handleDownload}
+                variant="ghost"
+                size="sm"
+                className="text-gray-400 hover:text-white hover:bg-gray-600"
+                disabled={isDownloading}
+              >
+                {isDownloading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+              </Button>
+            )}
           </div>
         </div>
 
+        {/* A reviewer's manual classification outranks this run */}
+        {result.document.current_result_id !== null && result.document.current_result_id !== result.result.id && (
+          <div className="bg-blue-900/30 border border-blue-700 rounded-lg p-3 flex gap-2">
+            <UserCheck className="h-4 w-4 text-blue-400 mt-0.5 shrink-0" />
+            <p className="text-blue-200 text-sm">
+              A reviewer set this document's category manually; that classification stays current.
+            </p>
+          </div>
+        )}
+
         {/* Classification Category */}
-        <div>
-          <h3 className="text-sm font-medium text-gray-300 mb-2">Category</h3>
-          <CategoryBadge category={result.category} className="text-sm" />
-          {result.category.description && (
-            <p className="text-gray-400 text-sm mt-2">{result.category.description}</p>
-          )}
-        </div>
+        {result.category ? (
+          <div>
+            <h3 className="text-sm font-medium text-gray-300 mb-2">Category</h3>
+            <CategoryBadge category={result.category} className="text-sm" />
+            {result.category.description && (
+              <p className="text-gray-400 text-sm mt-2">{result.category.description}</p>
+            )}
+          </div>
+        ) : (
+          <div className="bg-gray-700 border border-dashed border-gray-500 rounded-lg p-3 flex gap-2">
+            <HelpCircle className="h-5 w-5 text-gray-400 shrink-0" />
+            <div>
+              <p className="text-white font-medium">Unclassified — needs review</p>
+              {result.result.unclassified_reason && (
+                <p className="text-gray-400 text-sm mt-1">{UNCLASSIFIED_REASON_LABELS[result.result.unclassified_reason]}</p>
+              )}
+            </div>
+          </div>
+        )}
 
         {/* Confidence Level */}
-        <div>
-          <h3 className="text-sm font-medium text-gray-300 mb-2">Confidence</h3>
-          <div className="flex items-center gap-2">
-            <Badge className={`confidence-badge ${getConfidenceClass(result.result.confidence_level)}`}>
-              {getConfidenceIcon(result.result.confidence_level)}
-              <span className="ml-1 capitalize">{result.result.confidence_level}</span>
-            </Badge>
-            <span className="text-gray-400 text-sm">
-              {(result.result.confidence_score * 100).toFixed(1)}%
-            </span>
+        {result.category && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-300 mb-2">Confidence</h3>
+            <div className="flex items-center gap-2">
+              <Badge className={`confidence-badge ${getConfidenceClass(result.result.confidence_level)}`}>
+                {getConfidenceIcon(result.result.confidence_level)}
+                <span className="ml-1 capitalize">{result.result.confidence_level}</span>
+              </Badge>
+              <span className="text-gray-400 text-sm">
+                {(result.result.confidence_score * 100).toFixed(1)}%
+              </span>
+            </div>
           </div>
-        </div>
+        )}
+
+        {/* Ranked Labels (multi-label runs) */}
+        {result.labels.length > 1 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-300 mb-2">
+              All Labels ({result.labels.length})
+            </h3>
+            <div className="space-y-2">
+              {result.labels.map((label, index) => (
+                <div key={label.result.id} className="bg-gray-700 rounded-lg p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-gray-500 text-sm w-6">#{index + 1}</span>
+                      <CategoryBadge category={label.category} className="text-xs" />
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge className={`confidence-badge ${getConfidenceClass(label.result.confidence_level)}`}>
+                        {getConfidenceIcon(label.result.confidence_level)}
+                        <span className="ml-1 capitalize">{label.result.confidence_level}</span>
+                      </Badge>
+                      <span className="text-gray-400 text-sm w-14 text-right">
+                        {(label.result.confidence_score * 100).toFixed(1)}%
+                      </span>
+                    </div>
+                  </div>
+                  {label.result.matched_criteria.length > 0 && (
+                    <p className="text-gray-400 text-xs mt-2 ml-8">
+                      Matched: {label.result.matched_criteria.join(', ')}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
 
         {/* Classification Method */}
         <div>
@@ -84,15 +219,87 @@ export function ClassificationResult({ result }: ClassificationResultProps) {
             <h3 className="text-sm font-medium text-gray-300 mb-2">Matched Criteria</h3>
             <div className="space-y-2">
               {result.matched_criteria_details.map((criteria) => (
-                <div key={criteria.id} className="bg-gray-700 rounded-lg p-3">
+                <button
+                  type="button"
+                  key={criteria.id}
+                  onClick={() => handleCriteriaClick(criteria.id)}
+                  title="Show the next hit in the document"
+                  className={`w-full text-left bg-gray-700 hover:bg-gray-600 rounded-lg p-3 ${criteria.weight < 0 ? 'border-l-4 border-red-500' : ''} ${activeHit?.criteriaId === criteria.id ? 'ring-1 ring-blue-400' : ''}`}
+                >
                   <div className="flex items-center justify-between">
-                    <span className="text-white font-medium">{criteria.name}</span>
-                    <Badge variant="secondary" className="bg-blue-900 text-blue-300">
-                      Weight: {(criteria.weight * 100).toFixed(0)}%
-                    </Badge>
+                    <span className="text-white font-medium">
+                      {criteria.name}
+                      <span className="text-gray-400 text-sm font-normal ml-2">
+                        {criteria.match_count} {criteria.match_count === 1 ? 'match' : 'matches'}
+                      </span>
+                    </span>
+                    {criteria.weight < 0 ? (
+                      <Badge variant="secondary" className="bg-red-900 text-red-300">
+                        Exclusion: {(criteria.contribution * 100).toFixed(0)}%
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary" className="bg-blue-900 text-blue-300">
+                        Score: {(criteria.contribution * 100).toFixed(0)}% of {(criteria.weight * 100).toFixed(0)}%
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center justify-between mt-1">
+                    <p className="text-gray-400 text-sm font-mono">
+                      {criteria.pattern}
+                    </p>
+                    {activeHit?.criteriaId === criteria.id && (
+                      <span className="flex items-center text-gray-400 text-xs shrink-0 ml-2">
+                        Hit {activeHit.index + 1} of {getHits(criteria.id).length}
+                        <ChevronRight className="h-3 w-3 ml-1" />
+                      </span>
+                    )}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Highlighted Document Text */}
+        {result.document.content && highlightSpans.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-300 mb-2">Matches in Document</h3>
+            <DocumentViewer
+              content={result.document.content}
+              spans={highlightSpans}
+              activeCriteriaId={activeHit?.criteriaId ?? null}
+              activeSpan={activeSpan}
+            />
+          </div>
+        )}
+
+        {/* Skipped Criteria */}
+        {result.skipped_criteria.length > 0 && (
+          <div className="bg-yellow-900/30 border border-yellow-700 rounded-lg p-3 flex gap-2">
+            <AlertTriangle className="h-4 w-4 text-yellow-400 mt-0.5 shrink-0" />
+            <p className="text-yellow-200 text-sm">
+              Skipped {result.skipped_criteria.length === 1 ? 'a criteria' : `${result.skipped_criteria.length} criteria`} that
+              took too long to match: {result.skipped_criteria.map((criteria) => criteria.name).join(', ')}
+            </p>
+          </div>
+        )}
+
+        {/* Vetoed Categories */}
+        {result.vetoed_categories.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-300 mb-2">Excluded Categories</h3>
+            <div className="space-y-2">
+              {result.vetoed_categories.map((vetoed) => (
+                <div key={vetoed.category.id} className="bg-gray-700 rounded-lg p-3 border-l-4 border-red-500">
+                  <div className="flex items-center gap-2">
+                    <Ban className="h-4 w-4 text-red-400" />
+                    <CategoryBadge category={vetoed.category} className="text-xs" />
                   </div>
-                  <p className="text-gray-400 text-sm mt-1 font-mono">
-                    {criteria.pattern}
+                  <p className="text-gray-400 text-xs mt-2 ml-6">
+                    Vetoed by: {vetoed.matched_criteria_details
+                      .filter((criteria) => criteria.is_veto)
+                      .map((criteria) => criteria.name)
+                      .join(', ')}
                   </p>
                 </div>
               ))}
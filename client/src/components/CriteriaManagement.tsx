@@ -2,15 +2,379 @@ import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { CategoryBadge } from './CategoryBadge';
-import { Settings, Plus, Edit, Trash2 } from 'lucide-react';
+import { ReclassifyDocuments } from './ReclassifyDocuments';
+import { Settings, Plus, Edit, Trash2, FlaskConical, AlertTriangle } from 'lucide-react';
 import { trpc } from '@/utils/trpc';
-import type { CriteriaListResponse, Category } from '../../../server/src/schema';
+import type { CriteriaListResponse, Category, CriteriaScope, MatchType, MetadataKey, PositionMode, TestCriteriaResponse, TextMatch } from '../../../server/src/schema';
+
+const MATCH_TYPE_LABELS: Record<MatchType, string> = {
+  keyword: 'Keyword',
+  phrase: 'Exact phrase',
+  whole_word: 'Whole word',
+  regex: 'Regex',
+  regex_case_sensitive: 'Regex (case-sensitive)',
+  composite: 'Composite rule'
+};
+
+const POSITION_MODE_LABELS: Record<PositionMode, string> = {
+  anywhere: 'Anywhere',
+  leading: 'Leading text',
+  heading: 'Titles & headings',
+  body: 'Body text'
+};
+
+const SCOPE_LABELS: Record<CriteriaScope, string> = {
+  content: 'Content',
+  filename: 'Filename',
+  file_type: 'File type',
+  size: 'File size',
+  metadata: 'Metadata',
+  first_page: 'First page',
+  last_page: 'Last page'
+};
+
+const METADATA_KEY_LABELS: Record<MetadataKey, string> = {
+  title: 'Title',
+  headings: 'Headings',
+  sender: 'Sender',
+  recipients: 'Recipients',
+  subject: 'Subject',
+  date: 'Date'
+};
+
+type ListedCriteria = CriteriaListResponse['criteria'][number];
+
+const formatKilobytes = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`;
+
+const getScopeLabel = (criterion: ListedCriteria) => {
+  if (criterion.scope === 'metadata' && criterion.metadata_key) {
+    return `${SCOPE_LABELS.metadata}: ${METADATA_KEY_LABELS[criterion.metadata_key as MetadataKey] ?? criterion.metadata_key}`;
+  }
+  if (criterion.scope === 'size') {
+    const min = criterion.size_min === null ? null : formatKilobytes(criterion.size_min);
+    const max = criterion.size_max === null ? null : formatKilobytes(criterion.size_max);
+    return `${SCOPE_LABELS.size}: ${min && max ? `${min} – ${max}` : min ? `≥ ${min}` : `≤ ${max}`}`;
+  }
+  return SCOPE_LABELS[criterion.scope];
+};
+
+// Size bounds are edited in KB and stored in bytes; an empty field leaves that side open
+const toBytes = (kilobytes: string): number | null =>
+  kilobytes.trim() === '' ? null : Math.max(Math.round(parseFloat(kilobytes) * 1024) || 0, 0);
+
+const toKilobytes = (bytes: number | null): string => (bytes === null ? '' : (bytes / 1024).toString());
+
+interface CriteriaScopeEditorProps {
+  criterion: ListedCriteria;
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+function CriteriaScopeEditor({ criterion, onSaved, onCancel }: CriteriaScopeEditorProps) {
+  const [scope, setScope] = useState<CriteriaScope>(criterion.scope);
+  const [metadataKey, setMetadataKey] = useState<MetadataKey>((criterion.metadata_key as MetadataKey | null) ?? 'title');
+  const [sizeMin, setSizeMin] = useState(toKilobytes(criterion.size_min));
+  const [sizeMax, setSizeMax] = useState(toKilobytes(criterion.size_max));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await trpc.updateCriteria.mutate({
+        id: criterion.id,
+        scope,
+        metadata_key: scope === 'metadata' ? metadataKey : null,
+        size_min: scope === 'size' ? toBytes(sizeMin) : null,
+        size_max: scope === 'size' ? toBytes(sizeMax) : null
+      });
+      onSaved();
+    } catch (saveError) {
+      console.error('Failed to update criteria scope:', saveError);
+      setError(saveError instanceof Error ? saveError.message : 'Failed to update criteria scope');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 bg-gray-800 rounded-lg p-3 space-y-3">
+      <div className="grid gap-3 md:grid-cols-[200px_1fr]">
+        <div className="space-y-2">
+          <Label className="text-gray-300">Match against</Label>
+          <Select value={scope} onValueChange={(value: string) => setScope(value as CriteriaScope)}>
+            <SelectTrigger className="w-full bg-gray-700 border-gray-600 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SCOPE_LABELS) as CriteriaScope[]).map((value) => (
+                <SelectItem key={value} value={value}>{SCOPE_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {scope === 'metadata' && (
+          <div className="space-y-2">
+            <Label className="text-gray-300">Metadata field</Label>
+            <Select value={metadataKey} onValueChange={(value: string) => setMetadataKey(value as MetadataKey)}>
+              <SelectTrigger className="w-full bg-gray-700 border-gray-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(METADATA_KEY_LABELS) as MetadataKey[]).map((key) => (
+                  <SelectItem key={key} value={key}>{METADATA_KEY_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {scope === 'size' && (
+          <div className="grid gap-3 grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor={`size-min-${criterion.id}`} className="text-gray-300">Min size (KB)</Label>
+              <Input
+                id={`size-min-${criterion.id}`}
+                type="number"
+                min={0}
+                value={sizeMin}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSizeMin(e.target.value)}
+                placeholder="No minimum"
+                className="bg-gray-700 border-gray-600 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`size-max-${criterion.id}`} className="text-gray-300">Max size (KB)</Label>
+              <Input
+                id={`size-max-${criterion.id}`}
+                type="number"
+                min={0}
+                value={sizeMax}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSizeMax(e.target.value)}
+                placeholder="No maximum"
+                className="bg-gray-700 border-gray-600 text-white"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+      {error && (
+        <div className="bg-yellow-900/30 border border-yellow-700 rounded-lg p-3 flex gap-2">
+          <AlertTriangle className="h-4 w-4 text-yellow-400 mt-0.5 shrink-0" />
+          <p className="text-yellow-200 text-sm">{error}</p>
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel} className="text-gray-400 hover:text-white hover:bg-gray-600">
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={isSaving} className="bg-blue-600 hover:bg-blue-700 text-white">
+          {isSaving ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Wait for typing to pause before re-running the test
+const TEST_DEBOUNCE_MS = 300;
+
+// Split the sample into plain and highlighted segments; overlapping matches are merged
+const highlightSegments = (text: string, matches: TextMatch[]) => {
+  const segments: { text: string; highlighted: boolean }[] = [];
+  let offset = 0;
+  for (const match of [...matches].sort((a, b) => a.start - b.start)) {
+    if (match.end <= offset) {
+      continue;
+    }
+    const start = Math.max(match.start, offset);
+    if (start > offset) {
+      segments.push({ text: text.slice(offset, start), highlighted: false });
+    }
+    segments.push({ text: text.slice(start, match.end), highlighted: true });
+    offset = match.end;
+  }
+  if (offset < text.length) {
+    segments.push({ text: text.slice(offset), highlighted: false });
+  }
+  return segments;
+};
+
+interface CriteriaTesterProps {
+  categories: Category[];
+}
+
+function CriteriaTester({ categories }: CriteriaTesterProps) {
+  const [sampleText, setSampleText] = useState('');
+  const [pattern, setPattern] = useState('');
+  const [matchType, setMatchType] = useState<MatchType>('keyword');
+  const [weight, setWeight] = useState(1);
+  const [categoryId, setCategoryId] = useState<number | null>(null);
+  const [result, setResult] = useState<TestCriteriaResponse | null>(null);
+  const [testedText, setTestedText] = useState(''); // The sample the result's offsets refer to
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sampleText || !pattern) {
+      setResult(null);
+      setError(null);
+      return;
+    }
+
+    // Ignore responses for input that has changed since the request was sent
+    let isCurrent = true;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await trpc.testCriteria.mutate({
+          sample_text: sampleText,
+          criteria: [{ pattern, match_type: matchType, weight }],
+          category_id: categoryId ?? undefined
+        });
+        if (isCurrent) {
+          setResult(response);
+          setTestedText(sampleText);
+          setError(null);
+        }
+      } catch (testError) {
+        console.error('Failed to test criteria:', testError);
+        if (isCurrent) {
+          setResult(null);
+          setError(testError instanceof Error ? testError.message : 'Failed to test criteria');
+        }
+      }
+    }, TEST_DEBOUNCE_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [sampleText, pattern, matchType, weight, categoryId]);
+
+  const tested = result?.criteria[0];
+  const problem = error ?? tested?.error ?? (tested?.timed_out ? 'Matching took too long and was stopped' : null);
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <FlaskConical className="h-5 w-5" />
+          Try It
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-[1fr_200px_100px_200px]">
+          <div className="space-y-2">
+            <Label htmlFor="test-pattern" className="text-gray-300">Pattern</Label>
+            <Input
+              id="test-pattern"
+              value={pattern}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPattern(e.target.value)}
+              placeholder={matchType === 'composite' ? '"agreement" AND NOT "draft"' : 'invoice'}
+              className="bg-gray-700 border-gray-600 text-white font-mono"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-gray-300">Match type</Label>
+            <Select value={matchType} onValueChange={(value: string) => setMatchType(value as MatchType)}>
+              <SelectTrigger className="w-full bg-gray-700 border-gray-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(MATCH_TYPE_LABELS) as MatchType[]).map((type) => (
+                  <SelectItem key={type} value={type}>{MATCH_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="test-weight" className="text-gray-300">Weight</Label>
+            <Input
+              id="test-weight"
+              type="number"
+              min={-1}
+              max={1}
+              step={0.05}
+              value={weight}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setWeight(Math.min(Math.max(parseFloat(e.target.value) || 0, -1), 1))}
+              className="bg-gray-700 border-gray-600 text-white"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-gray-300">Scoring settings</Label>
+            <Select
+              value={categoryId === null ? 'default' : categoryId.toString()}
+              onValueChange={(value: string) => setCategoryId(value === 'default' ? null : parseInt(value, 10))}
+            >
+              <SelectTrigger className="w-full bg-gray-700 border-gray-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Defaults</SelectItem>
+                {categories.map((category: Category) => (
+                  <SelectItem key={category.id} value={category.id.toString()}>{category.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="test-sample" className="text-gray-300">Sample text</Label>
+          <Textarea
+            id="test-sample"
+            value={sampleText}
+            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setSampleText(e.target.value)}
+            placeholder="Paste some document text to test the pattern against"
+            className="bg-gray-700 border-gray-600 text-white min-h-32"
+          />
+        </div>
+
+        {problem && (
+          <div className="bg-yellow-900/30 border border-yellow-700 rounded-lg p-3 flex gap-2">
+            <AlertTriangle className="h-4 w-4 text-yellow-400 mt-0.5 shrink-0" />
+            <p className="text-yellow-200 text-sm">{problem}</p>
+          </div>
+        )}
+
+        {tested && !problem && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Badge variant="secondary" className="bg-gray-700 text-gray-300">
+                {tested.matches.length} {tested.matches.length === 1 ? 'match' : 'matches'}
+              </Badge>
+              <Badge
+                variant="secondary"
+                className={tested.contribution < 0 ? 'bg-red-900 text-red-300' : 'bg-blue-900 text-blue-300'}
+              >
+                Score: {(tested.contribution * 100).toFixed(0)}% of {(tested.weight * 100).toFixed(0)}%
+              </Badge>
+              <Badge variant="secondary" className="bg-gray-700 text-gray-300">
+                Normalized: {(result.normalized_score * 100).toFixed(0)}% ({result.confidence_level})
+              </Badge>
+            </div>
+            <p className="bg-gray-900 rounded-lg p-3 text-gray-300 text-sm whitespace-pre-wrap break-words max-h-64 overflow-y-auto">
+              {highlightSegments(testedText, tested.matches).map((segment, index) => (
+                segment.highlighted
+                  ? <mark key={index} className="bg-yellow-500/40 text-white rounded-sm">{segment.text}</mark>
+                  : <span key={index}>{segment.text}</span>
+              ))}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
 export function CriteriaManagement() {
   const [criteria, setCriteria] = useState<CriteriaListResponse['criteria']>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<number | null>(null);
 
   const loadData = useCallback(async () => {
     try {
@@ -89,21 +453,57 @@ export function CriteriaManagement() {
                       <div className="flex-1">
                         <div className="flex items-center gap-3 mb-2">
                           <h3 className="text-white font-medium">{criterion.name}</h3>
+                          <span className="text-gray-500 text-xs font-mono" title="Reference in composite rules">
+                            @{criterion.id}
+                          </span>
                           {category && (
                             <CategoryBadge category={category} className="text-xs" />
                           )}
                         </div>
-                        <p className="text-gray-300 font-mono text-sm bg-gray-800 rounded px-2 py-1">
-                          {criterion.pattern}
-                        </p>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline" className="border-gray-500 text-gray-300 text-xs shrink-0">
+                            {getScopeLabel(criterion)}
+                          </Badge>
+                          {criterion.scope !== 'size' && (
+                            <>
+                              <Badge variant="outline" className="border-gray-500 text-gray-300 text-xs shrink-0">
+                                {MATCH_TYPE_LABELS[criterion.match_type]}
+                              </Badge>
+                              <p className="flex-1 text-gray-300 font-mono text-sm bg-gray-800 rounded px-2 py-1">
+                                {criterion.pattern}
+                              </p>
+                            </>
+                          )}
+                        </div>
                       </div>
                       <div className="flex items-center gap-2 ml-4">
-                        <Badge variant="secondary" className="bg-blue-900 text-blue-300">
-                          Weight: {(criterion.weight * 100).toFixed(0)}%
-                        </Badge>
+                        {criterion.frequency_mode === 'diminishing' && (
+                          <Badge variant="outline" className="border-gray-500 text-gray-300">
+                            Counts repeats
+                          </Badge>
+                        )}
+                        {criterion.position_mode !== 'anywhere' && (
+                          <Badge variant="outline" className="border-gray-500 text-gray-300">
+                            {POSITION_MODE_LABELS[criterion.position_mode]}
+                            {criterion.position_mode === 'leading' && criterion.position_window !== null && ` (${criterion.position_window} chars)`}
+                          </Badge>
+                        )}
+                        {criterion.is_veto ? (
+                          <Badge variant="secondary" className="bg-red-900 text-red-300">
+                            Veto
+                          </Badge>
+                        ) : (
+                          <Badge
+                            variant="secondary"
+                            className={criterion.weight < 0 ? 'bg-red-900 text-red-300' : 'bg-blue-900 text-blue-300'}
+                          >
+                            Weight: {(criterion.weight * 100).toFixed(0)}%
+                          </Badge>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
+                          onClick={() => setEditingId(editingId === criterion.id ? null : criterion.id)}
                           className="text-gray-400 hover:text-white hover:bg-gray-600"
                         >
                           <Edit className="h-4 w-4" />
@@ -117,6 +517,16 @@ export function CriteriaManagement() {
                         </Button>
                       </div>
                     </div>
+                    {editingId === criterion.id && (
+                      <CriteriaScopeEditor
+                        criterion={criterion}
+                        onSaved={() => {
+                          setEditingId(null);
+                          loadData();
+                        }}
+                        onCancel={() => setEditingId(null)}
+                      />
+                    )}
                     <p className="text-gray-400 text-xs">
                       Created: {criterion.created_at.toLocaleDateString()}
                     </p>
@@ -128,6 +538,10 @@ export function CriteriaManagement() {
         </CardContent>
       </Card>
 
+      <CriteriaTester categories={categories} />
+
+      <ReclassifyDocuments />
+
       {/* Categories Management Section */}
       <Card className="bg-gray-800 border-gray-700">
         <CardHeader className="flex flex-row items-center justify-between">
@@ -0,0 +1,81 @@
+import { useEffect, useMemo, useRef } from 'react';
+import type { MatchSpan } from '../../../server/src/schema';
+
+export interface HighlightSpan extends MatchSpan {
+  color: string; // Category color as #RRGGBB
+  label: string; // Shown on hover
+}
+
+interface DocumentViewerProps {
+  content: string;
+  spans: HighlightSpan[];
+  activeCriteriaId?: number | null; // Criteria whose hits are emphasized
+  activeSpan?: MatchSpan | null; // Hit to scroll into view
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  spans: HighlightSpan[]; // Every span covering the segment, possibly overlapping
+}
+
+// Cut the content at every span boundary so overlapping hits can be drawn together
+const buildSegments = (content: string, spans: HighlightSpan[]): Segment[] => {
+  const boundaries = [...new Set([0, content.length, ...spans.flatMap((span) => [span.start, span.end])])]
+    .filter((offset) => offset <= content.length)
+    .sort((a, b) => a - b);
+  const sorted = [...spans].sort((a, b) => a.start - b.start);
+  const segments: Segment[] = [];
+  let open: HighlightSpan[] = [];
+  let next = 0;
+
+  for (let index = 0; index < boundaries.length - 1; index++) {
+    const start = boundaries[index];
+    const end = boundaries[index + 1];
+    open = open.filter((span) => span.end > start);
+    while (next < sorted.length && sorted[next].start <= start) {
+      if (sorted[next].end > start) {
+        open.push(sorted[next]);
+      }
+      next++;
+    }
+    segments.push({ start, end, spans: [...open] });
+  }
+  return segments;
+};
+
+export function DocumentViewer({ content, spans, activeCriteriaId = null, activeSpan = null }: DocumentViewerProps) {
+  const activeRef = useRef<HTMLElement | null>(null);
+  const segments = useMemo(() => buildSegments(content, spans), [content, spans]);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [activeSpan]);
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-3 text-gray-300 text-sm whitespace-pre-wrap break-words max-h-96 overflow-y-auto">
+      {segments.map((segment) => {
+        const text = content.slice(segment.start, segment.end);
+        if (segment.spans.length === 0) {
+          return <span key={segment.start}>{text}</span>;
+        }
+
+        const active = segment.spans.find((span) => span.criteria_id === activeCriteriaId);
+        const shown = active ?? segment.spans[0];
+        const isCurrentHit = activeSpan !== null && segment.start === activeSpan.start
+          && segment.spans.some((span) => span.criteria_id === activeSpan.criteria_id);
+        return (
+          <mark
+            key={segment.start}
+            ref={isCurrentHit ? (element) => { activeRef.current = element; } : undefined}
+            title={segment.spans.map((span) => span.label).join(', ')}
+            className={`text-white rounded-sm ${active ? 'ring-1 ring-white' : ''} ${isCurrentHit ? 'ring-2 ring-yellow-300' : ''}`}
+            style={{ backgroundColor: `${shown.color}${active ? 'CC' : '66'}` }}
+          >
+            {text}
+          </mark>
+        );
+      })}
+    </div>
+  );
+}
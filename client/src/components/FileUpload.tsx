@@ -2,61 +2,76 @@ import { useState, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Upload, File, X } from 'lucide-react';
+import { Upload, File, X, FolderOpen } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ARCHIVE_EXTENSION, MAILBOX_EXTENSION, getAcceptList, getExtension } from '@/utils/formats';
+import type { SupportedFormat } from '../../../server/src/schema';
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
-  selectedFile: File | null;
-  onClearFile: () => void;
+  onFilesSelect: (files: File[]) => void; // Every picked or dropped file; the parent validates them
+  formats: SupportedFormat[]; // Formats the server can extract text from
+  selectedFiles: File[];
+  onRemoveFile: (index: number) => void;
+  onClearFiles: () => void;
   isUploading?: boolean;
   error?: string | null;
 }
 
-const ALLOWED_FILE_TYPES = ['application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/plain'];
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-
-export function FileUpload({ onFileSelect, selectedFile, onClearFile, isUploading = false, error }: FileUploadProps) {
-  const [dragOver, setDragOver] = useState(false);
-
-  const validateFile = useCallback((file: File): string | null => {
-    if (!ALLOWED_FILE_TYPES.includes(file.type)) {
-      return 'Please select a valid PDF, DOCX, or TXT file.';
-    }
-    if (file.size > MAX_FILE_SIZE) {
-      return 'File size must be less than 10MB.';
+const readDirectoryEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+// Walks a dropped folder; readEntries returns its children in pages until it returns none
+const collectEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return [await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))];
+  }
+  if (!entry.isDirectory) {
+    return [];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+  for (let page = await readDirectoryEntries(reader); page.length > 0; page = await readDirectoryEntries(reader)) {
+    for (const child of page) {
+      files.push(...await collectEntryFiles(child));
     }
-    return null;
-  }, []);
+  }
+  return files;
+};
+
+const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  // Entries must be taken synchronously, before the drop event's data store is cleared
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files = await Promise.all(entries.map(collectEntryFiles));
+  return files.flat();
+};
+
+export function FileUpload({ onFilesSelect, formats, selectedFiles, onRemoveFile, onClearFiles, isUploading = false, error }: FileUploadProps) {
+  const [dragOver, setDragOver] = useState(false);
 
   const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    const validationError = validateFile(file);
-    if (validationError) {
-      // File validation will be handled by parent component
-      return;
-    }
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = ''; // Picking the same files again still fires a change
+    if (files.length === 0) return;
 
-    onFileSelect(file);
-  }, [validateFile, onFileSelect]);
+    onFilesSelect(files);
+  }, [onFilesSelect]);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
     setDragOver(false);
 
-    const file = e.dataTransfer.files?.[0];
-    if (!file) return;
-
-    const validationError = validateFile(file);
-    if (validationError) {
-      // File validation will be handled by parent component
-      return;
-    }
+    const files = await collectDroppedFiles(e.dataTransfer);
+    if (files.length === 0) return;
 
-    onFileSelect(file);
-  }, [validateFile, onFileSelect]);
+    onFilesSelect(files);
+  }, [onFilesSelect]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -67,26 +82,25 @@ export function FileUpload({ onFileSelect, selectedFile, onClearFile, isUploadin
     setDragOver(false);
   }, []);
 
-  const getFileTypeFromName = (filename: string): string => {
-    const extension = filename.split('.').pop()?.toLowerCase();
-    switch (extension) {
-      case 'pdf': return 'pdf';
-      case 'docx': return 'docx';
-      case 'txt': return 'txt';
-      default: return 'unknown';
-    }
+  const getFormatLabel = (filename: string): string => {
+    const extension = getExtension(filename);
+    if (extension === ARCHIVE_EXTENSION) return 'ZIP';
+    if (extension === MAILBOX_EXTENSION) return 'Mailbox';
+    return formats.find((format) => format.extensions.includes(extension))?.label ?? 'Unknown';
   };
 
+  const totalSize = selectedFiles.reduce((sum, file) => sum + file.size, 0);
+
   return (
     <Card className="w-full bg-gray-800 border-gray-700">
       <CardHeader>
         <CardTitle className="text-white flex items-center gap-2">
           <Upload className="h-5 w-5" />
-          Upload Document
+          Upload Documents
         </CardTitle>
       </CardHeader>
       <CardContent>
-        {!selectedFile ? (
+        {selectedFiles.length === 0 ? (
           <div
             className={`file-drop-zone ${dragOver ? 'drag-over' : ''}`}
             onDrop={handleDrop}
@@ -94,50 +108,90 @@ export function FileUpload({ onFileSelect, selectedFile, onClearFile, isUploadin
             onDragLeave={handleDragLeave}
           >
             <Upload className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-            <p className="text-gray-300 mb-2">Drag and drop your document here</p>
+            <p className="text-gray-300 mb-2">Drag and drop documents or a folder here</p>
             <p className="text-gray-500 text-sm mb-4">or</p>
             <Input
               type="file"
-              accept=".pdf,.docx,.txt"
+              accept={getAcceptList(formats)}
+              multiple
               onChange={handleFileChange}
               className="hidden"
               id="file-input"
               disabled={isUploading}
             />
-            <Button
-              onClick={() => document.getElementById('file-input')?.click()}
-              variant="secondary"
-              className="bg-gray-700 hover:bg-gray-600 text-white"
+            <Input
+              type="file"
+              multiple
+              onChange={handleFileChange}
+              className="hidden"
+              id="folder-input"
               disabled={isUploading}
-            >
-              Choose File
-            </Button>
+              // React does not know the non-standard folder picker attribute
+              ref={(input) => input?.setAttribute('webkitdirectory', '')}
+            />
+            <div className="flex justify-center gap-2">
+              <Button
+                onClick={() => document.getElementById('file-input')?.click()}
+                variant="secondary"
+                className="bg-gray-700 hover:bg-gray-600 text-white"
+                disabled={isUploading}
+              >
+                Choose Files
+              </Button>
+              <Button
+                onClick={() => document.getElementById('folder-input')?.click()}
+                variant="secondary"
+                className="bg-gray-700 hover:bg-gray-600 text-white"
+                disabled={isUploading}
+              >
+                <FolderOpen className="h-4 w-4 mr-2" />
+                Choose Folder
+              </Button>
+            </div>
             <p className="text-gray-500 text-xs mt-4">
-              Supported formats: PDF, DOCX, TXT (max 10MB)
+              Supported formats: {formats.map((format) => format.label).join(', ')}, ZIP archives of them, or MBOX mailboxes (max 10MB each)
             </p>
           </div>
         ) : (
-          <div className="bg-gray-700 rounded-lg p-4">
+          <div className="bg-gray-700 rounded-lg p-4 space-y-3">
             <div className="flex items-center justify-between">
-              <div className="flex items-center gap-3">
-                <File className="h-8 w-8 text-blue-400" />
-                <div>
-                  <p className="text-white font-medium">{selectedFile.name}</p>
-                  <p className="text-gray-400 text-sm">
-                    {getFileTypeFromName(selectedFile.name).toUpperCase()} • {(selectedFile.size / 1024).toFixed(1)} KB
-                  </p>
-                </div>
-              </div>
+              <p className="text-gray-300 text-sm">
+                {selectedFiles.length} {selectedFiles.length === 1 ? 'file' : 'files'} • {(totalSize / 1024).toFixed(1)} KB
+              </p>
               <Button
-                onClick={onClearFile}
+                onClick={onClearFiles}
                 variant="ghost"
                 size="sm"
                 className="text-gray-400 hover:text-white hover:bg-gray-600"
                 disabled={isUploading}
               >
-                <X className="h-4 w-4" />
+                Clear
               </Button>
             </div>
+            <ul className="space-y-2 max-h-64 overflow-y-auto">
+              {selectedFiles.map((file, index) => (
+                <li key={`${file.webkitRelativePath || file.name}-${index}`} className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <File className="h-6 w-6 text-blue-400" />
+                    <div>
+                      <p className="text-white font-medium">{file.webkitRelativePath || file.name}</p>
+                      <p className="text-gray-400 text-sm">
+                        {getFormatLabel(file.name)} • {(file.size / 1024).toFixed(1)} KB
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    onClick={() => onRemoveFile(index)}
+                    variant="ghost"
+                    size="sm"
+                    className="text-gray-400 hover:text-white hover:bg-gray-600"
+                    disabled={isUploading}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
           </div>
         )}
 
@@ -151,4 +205,4 @@ export function FileUpload({ onFileSelect, selectedFile, onClearFile, isUploadin
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
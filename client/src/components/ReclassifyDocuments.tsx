@@ -0,0 +1,138 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CategoryBadge } from './CategoryBadge';
+import { RefreshCw, Loader2, ArrowRight } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import type { Category, ReclassificationJobDetail } from '../../../server/src/schema';
+
+const POLL_INTERVAL_MS = 1000;
+
+const CategoryCell = ({ category }: { category: Category | null }) => (
+  category ? (
+    <CategoryBadge category={category} className="text-xs" />
+  ) : (
+    <Badge variant="outline" className="border-dashed border-gray-500 text-gray-300 text-xs">
+      Unclassified
+    </Badge>
+  )
+);
+
+// Runs classification again over every document after criteria or categories changed
+export function ReclassifyDocuments() {
+  const [detail, setDetail] = useState<ReclassificationJobDetail | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const jobId = detail?.job.id ?? null;
+  const isRunning = detail !== null && (detail.job.status === 'queued' || detail.job.status === 'running');
+
+  // Poll the job until it finishes
+  useEffect(() => {
+    if (jobId === null || !isRunning) return;
+
+    const timer = setInterval(async () => {
+      try {
+        setDetail(await trpc.getReclassificationJob.query({ id: jobId }));
+      } catch (pollError) {
+        console.error('Failed to load reclassification job:', pollError);
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [jobId, isRunning]);
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    setError(null);
+    try {
+      const job = await trpc.reclassifyDocuments.mutate();
+      setDetail({ job, changes: [] });
+    } catch (startError) {
+      console.error('Failed to start reclassification:', startError);
+      setError('Failed to start reclassification. Please try again.');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!detail?.job.job_id) return;
+    try {
+      await trpc.cancelJob.mutate({ id: detail.job.job_id });
+    } catch (cancelError) {
+      console.error('Failed to cancel reclassification:', cancelError);
+      setError('Failed to cancel reclassification. Please try again.');
+    }
+  };
+
+  const job = detail?.job;
+  const percent = job && job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0;
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-white flex items-center gap-2">
+          <RefreshCw className="h-5 w-5" />
+          Reclassify Documents
+        </CardTitle>
+        <div className="flex gap-2">
+          {isRunning && (
+            <Button onClick={handleCancel} variant="outline" className="border-gray-600 text-gray-200 bg-gray-700 hover:bg-gray-600">
+              Cancel
+            </Button>
+          )}
+          <Button
+            onClick={handleStart}
+            disabled={isStarting || isRunning}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            {(isStarting || isRunning) && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Reclassify All
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-gray-400 text-sm">
+          Stored results are not updated when criteria or categories change. Run classification again over every document
+          to bring them up to date.
+        </p>
+
+        {error && (
+          <Alert className="bg-red-900 border-red-700">
+            <AlertDescription className="text-red-300">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {job && (
+          <div className="space-y-2">
+            <Progress value={job.status === 'completed' ? 100 : percent} className="bg-gray-700" />
+            <p className="text-gray-300 text-sm">
+              {job.status === 'queued' && 'Waiting to start…'}
+              {job.status === 'running' && `Processed ${job.processed} of ${job.total} documents`}
+              {job.status === 'completed' && `Done: ${job.changed} of ${job.total} documents changed category`}
+              {job.status === 'failed' && `Failed after ${job.processed} of ${job.total} documents: ${job.error}`}
+              {job.status === 'cancelled' && `Cancelled after ${job.processed} of ${job.total} documents`}
+              {job.failed > 0 && ` • ${job.failed} could not be classified`}
+            </p>
+          </div>
+        )}
+
+        {detail && detail.changes.length > 0 && (
+          <ul className="space-y-2">
+            {detail.changes.map((entry) => (
+              <li key={entry.change.id} className="flex flex-wrap items-center gap-2 bg-gray-700 rounded-lg p-2">
+                <span className="text-white text-sm">{entry.document.filename}</span>
+                <CategoryCell category={entry.previous_category} />
+                <ArrowRight className="h-3 w-3 text-gray-400" />
+                <CategoryCell category={entry.new_category} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
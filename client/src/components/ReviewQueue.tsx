@@ -0,0 +1,272 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CategoryBadge } from './CategoryBadge';
+import { DocumentViewer, type HighlightSpan } from './DocumentViewer';
+import { ClipboardCheck, RefreshCw, Loader2, Hand, Check } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import type { Category, ReviewQueueEntry, ReviewReason } from '../../../server/src/schema';
+
+interface ReviewQueueProps {
+  categories: Category[];
+}
+
+const REVIEW_REASON_LABELS: Record<ReviewReason, string> = {
+  low_confidence: 'Low confidence',
+  unclassified: 'Unclassified',
+  disputed: 'Disputed',
+};
+
+// Keyboard input is left alone while the reviewer is typing
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+
+export function ReviewQueue({ categories }: ReviewQueueProps) {
+  const [entries, setEntries] = useState<ReviewQueueEntry[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [reviewer, setReviewer] = useState('');
+  const [reason, setReason] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const queue = await trpc.getReviewQueue.query();
+      setEntries(queue);
+      setSelectedIndex((index) => Math.min(index, Math.max(queue.length - 1, 0)));
+    } catch (loadError) {
+      console.error('Failed to load review queue:', loadError);
+      setError('Failed to load the review queue. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const selected: ReviewQueueEntry | undefined = entries[selectedIndex];
+
+  // Run a queue action for the selected item, then reload so claims by others show up
+  const runAction = useCallback(async (action: (entry: ReviewQueueEntry, name: string) => Promise<unknown>) => {
+    if (!selected || isSaving) return;
+    if (!reviewer.trim()) {
+      setError('Enter your name before reviewing.');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action(selected, reviewer.trim());
+      await loadQueue();
+    } catch (actionError) {
+      console.error('Review action failed:', actionError);
+      setError(actionError instanceof Error ? actionError.message : 'Review action failed. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [selected, isSaving, reviewer, loadQueue]);
+
+  const handleClaim = useCallback(() => runAction((entry, name) =>
+    trpc.claimReviewItem.mutate({ id: entry.item.id, reviewer: name })
+  ), [runAction]);
+
+  const handleAccept = useCallback(() => runAction((entry, name) =>
+    trpc.acceptReviewItem.mutate({ id: entry.item.id, reviewer: name })
+  ), [runAction]);
+
+  const handleReassign = useCallback((category: Category) => runAction(async (entry, name) => {
+    await trpc.reassignReviewItem.mutate({
+      id: entry.item.id,
+      reviewer: name,
+      category_id: category.id,
+      reason: reason.trim() || undefined,
+    });
+    setReason('');
+  }), [runAction, reason]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTypingTarget(event.target) || event.metaKey || event.ctrlKey || event.altKey) return;
+
+      if (event.key === 'j' || event.key === 'ArrowDown') {
+        event.preventDefault();
+        setSelectedIndex((index) => Math.min(index + 1, Math.max(entries.length - 1, 0)));
+      } else if (event.key === 'k' || event.key === 'ArrowUp') {
+        event.preventDefault();
+        setSelectedIndex((index) => Math.max(index - 1, 0));
+      } else if (event.key === 'c') {
+        handleClaim();
+      } else if (event.key === 'a') {
+        handleAccept();
+      } else if (/^[1-9]$/.test(event.key)) {
+        const category = categories[parseInt(event.key, 10) - 1];
+        if (category) {
+          handleReassign(category);
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [entries.length, categories, handleClaim, handleAccept, handleReassign]);
+
+  const highlightSpans = useMemo<HighlightSpan[]>(() => {
+    if (!selected?.category) return [];
+    const category = selected.category;
+    return selected.result.match_spans.map((span) => ({ ...span, color: category.color, label: category.name }));
+  }, [selected]);
+
+  return (
+    <div className="space-y-6">
+      <Card className="w-full bg-gray-800 border-gray-700">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-white flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Review Queue
+            <Badge variant="secondary" className="bg-gray-700 text-gray-300">{entries.length}</Badge>
+          </CardTitle>
+          <Button
+            onClick={loadQueue}
+            variant="ghost"
+            size="sm"
+            className="text-gray-400 hover:text-white hover:bg-gray-600"
+            disabled={isLoading}
+          >
+            {isLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="review-reviewer" className="text-gray-300">Reviewer</Label>
+              <Input
+                id="review-reviewer"
+                value={reviewer}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReviewer(e.target.value)}
+                placeholder="Your name"
+                className="bg-gray-700 border-gray-600 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="review-reason" className="text-gray-300">Reassignment reason (optional)</Label>
+              <Input
+                id="review-reason"
+                value={reason}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReason(e.target.value)}
+                placeholder="Why the category is changed"
+                className="bg-gray-700 border-gray-600 text-white"
+              />
+            </div>
+          </div>
+
+          <p className="text-gray-500 text-xs">
+            Shortcuts: <kbd>j</kbd>/<kbd>k</kbd> or arrows to move, <kbd>c</kbd> to claim, <kbd>a</kbd> to accept,
+            {' '}<kbd>1</kbd>–<kbd>9</kbd> to reassign to a category
+          </p>
+
+          {error && (
+            <Alert className="bg-red-900 border-red-700">
+              <AlertDescription className="text-red-300">{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {isLoading && entries.length === 0 ? (
+            <div className="h-16 bg-gray-700 rounded-lg animate-pulse" />
+          ) : entries.length === 0 ? (
+            <p className="text-gray-400 text-sm">Nothing to review.</p>
+          ) : (
+            <ul className="space-y-2">
+              {entries.map((entry, index) => (
+                <li key={entry.item.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedIndex(index)}
+                    className={`w-full text-left rounded-lg p-3 border ${index === selectedIndex ? 'bg-gray-700 border-blue-500' : 'bg-gray-900 border-gray-700 hover:border-gray-500'}`}
+                  >
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-white font-medium">{entry.document.filename}</span>
+                      <Badge variant="outline" className="border-yellow-600 text-yellow-300 text-xs">
+                        {REVIEW_REASON_LABELS[entry.item.reason]}
+                      </Badge>
+                      {entry.category ? (
+                        <CategoryBadge category={entry.category} className="text-xs" />
+                      ) : (
+                        <Badge variant="outline" className="border-dashed border-gray-500 text-gray-300 text-xs">
+                          Unclassified
+                        </Badge>
+                      )}
+                      {entry.category && (
+                        <span className="text-gray-400 text-sm">
+                          {(entry.result.confidence_score * 100).toFixed(1)}%
+                        </span>
+                      )}
+                      {entry.item.status === 'claimed' && (
+                        <span className="text-blue-300 text-xs">Claimed by {entry.item.claimed_by}</span>
+                      )}
+                    </div>
+                    {entry.item.note && (
+                      <p className="text-gray-400 text-sm mt-1">{entry.item.note}</p>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card className="w-full bg-gray-800 border-gray-700">
+          <CardHeader>
+            <CardTitle className="text-white">{selected.document.filename}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handleClaim} disabled={isSaving} variant="outline" className="border-gray-600 text-gray-200 bg-gray-700 hover:bg-gray-600">
+                <Hand className="h-4 w-4 mr-2" />
+                Claim (c)
+              </Button>
+              <Button onClick={handleAccept} disabled={isSaving} className="bg-green-700 hover:bg-green-600 text-white">
+                {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Check className="h-4 w-4 mr-2" />}
+                Accept (a)
+              </Button>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-gray-300">Reassign to</Label>
+              <div className="flex flex-wrap gap-2">
+                {categories.map((category, index) => (
+                  <Button
+                    key={category.id}
+                    onClick={() => handleReassign(category)}
+                    disabled={isSaving}
+                    variant="outline"
+                    size="sm"
+                    className="border-gray-600 text-gray-200 bg-gray-700 hover:bg-gray-600"
+                  >
+                    {index < 9 && <span className="text-gray-400 mr-1">{index + 1}</span>}
+                    {category.name}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            {selected.document.content ? (
+              <DocumentViewer content={selected.document.content} spans={highlightSpans} />
+            ) : (
+              <p className="text-gray-400 text-sm">No text could be extracted from this document.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import type { FileType, SupportedFormat } from '../../../server/src/schema';
+
+// Zip archives are expanded by the server into one document per supported entry
+export const ARCHIVE_EXTENSION = 'zip';
+const ARCHIVE_TYPES = ['application/zip', 'application/x-zip-compressed'];
+
+export const getExtension = (filename: string) => {
+  const dot = filename.lastIndexOf('.');
+  return dot === -1 ? '' : filename.slice(dot + 1).toLowerCase();
+};
+
+export const isArchive = (file: File) => ARCHIVE_TYPES.includes(file.type) || getExtension(file.name) === ARCHIVE_EXTENSION;
+
+// Emails and mbox mailboxes are imported by the server as one document per message and supported attachment
+export const MAILBOX_EXTENSION = 'mbox';
+const EMAIL_EXTENSIONS = ['eml', MAILBOX_EXTENSION];
+
+export const isEmail = (file: File) => EMAIL_EXTENSIONS.includes(getExtension(file.name));
+
+// Files the server expands into a document batch
+export const isBatchFile = (file: File) => isArchive(file) || isEmail(file);
+
+// Matches on the extension first, since browsers report some formats (CSV, Markdown) with varying MIME types
+export const findFileType = (formats: SupportedFormat[], file: File): FileType | null => {
+  const extension = getExtension(file.name);
+  const format = formats.find((candidate) => candidate.extensions.includes(extension))
+    ?? formats.find((candidate) => candidate.mime_types.includes(file.type));
+  return format?.file_type ?? null;
+};
+
+// Value for a file input's accept attribute
+export const getAcceptList = (formats: SupportedFormat[]) =>
+  [...formats.flatMap((format) => format.extensions), ARCHIVE_EXTENSION, MAILBOX_EXTENSION].map((extension) => `.${extension}`).join(',');
@@ -0,0 +1,51 @@
+import superjson from 'superjson';
+import type { SuperJSONResult } from 'superjson';
+import type { Document, DocumentBatchDetail } from '../../../server/src/schema';
+import { trpc } from './trpc';
+
+// How often to check on a batch the server is still importing
+const BATCH_POLL_INTERVAL_MS = 1000;
+
+const postUpload = async <T>(file: File, fields: Record<string, string> = {}): Promise<T> => {
+  const body = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    body.append(name, value);
+  }
+  body.append('file', file, file.name);
+
+  const response = await fetch('/api/upload', { method: 'POST', body });
+  const payload = await response.json();
+
+  if (!response.ok) {
+    throw new Error(payload.error ?? `Upload failed with status ${response.status}`);
+  }
+  return superjson.deserialize<T>(payload as SuperJSONResult);
+};
+
+// Streams the raw file to the server's multipart endpoint instead of base64-encoding it into a tRPC call
+export function uploadFile(file: File, fileType: Document['file_type']): Promise<Document> {
+  return postUpload<Document>(file, { file_type: fileType });
+}
+
+// Batches are imported by a background job; resolves with the batch's documents once the job is done
+async function waitForBatch(queued: DocumentBatchDetail): Promise<DocumentBatchDetail> {
+  let detail = queued;
+  while (detail.batch.status === 'queued' || detail.batch.status === 'running') {
+    await new Promise((resolve) => setTimeout(resolve, BATCH_POLL_INTERVAL_MS));
+    detail = await trpc.getDocumentBatch.query({ id: detail.batch.id });
+  }
+  if (detail.batch.status !== 'completed') {
+    throw new Error(detail.batch.error ?? `Import ${detail.batch.status}`);
+  }
+  return detail;
+}
+
+// The server expands a zip archive into a batch with one document per supported entry
+export async function uploadArchive(file: File): Promise<DocumentBatchDetail> {
+  return waitForBatch(await postUpload<DocumentBatchDetail>(file, { file_type: 'zip' }));
+}
+
+// The server imports an .eml message or .mbox mailbox into a batch with its messages and their attachments
+export async function importEmail(file: File): Promise<DocumentBatchDetail> {
+  return waitForBatch(await postUpload<DocumentBatchDetail>(file));
+}
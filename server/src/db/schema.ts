@@ -1,12 +1,45 @@
-import { serial, text, pgTable, timestamp, integer, numeric, pgEnum } from 'drizzle-orm/pg-core';
+import { serial, text, pgTable, timestamp, integer, numeric, pgEnum, boolean } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
+import { FILE_TYPES } from '../lib/extractors/formats';
 
-// Enum for file types
-export const fileTypeEnum = pgEnum('file_type', ['pdf', 'docx', 'txt']);
+// Enum for file types, one per registered extractor
+export const fileTypeEnum = pgEnum('file_type', FILE_TYPES);
 
 // Enum for confidence levels
 export const confidenceLevelEnum = pgEnum('confidence_level', ['low', 'medium', 'high']);
 
+// Enum for classification modes
+export const classificationModeEnum = pgEnum('classification_mode', ['single', 'multi']);
+
+// Enum for score normalization strategies
+export const normalizationModeEnum = pgEnum('normalization_mode', ['fixed', 'category_total']);
+
+// Enum for how criteria patterns are matched
+export const matchTypeEnum = pgEnum('match_type', ['keyword', 'phrase', 'whole_word', 'regex', 'regex_case_sensitive', 'composite']);
+
+// Enums for how criteria matches are scored
+export const frequencyModeEnum = pgEnum('frequency_mode', ['presence', 'diminishing']);
+export const positionModeEnum = pgEnum('position_mode', ['anywhere', 'leading', 'heading', 'body']);
+
+// Enum for what part of a document criteria are matched against
+export const criteriaScopeEnum = pgEnum('criteria_scope', ['content', 'filename', 'file_type', 'size', 'metadata', 'first_page', 'last_page']);
+
+// Enum for why a classification run could not assign any category
+export const unclassifiedReasonEnum = pgEnum('unclassified_reason', ['no_content', 'no_criteria', 'no_match', 'vetoed', 'below_threshold']);
+
+// Enums for the review queue
+export const reviewReasonEnum = pgEnum('review_reason', ['low_confidence', 'unclassified', 'disputed']);
+export const reviewStatusEnum = pgEnum('review_status', ['pending', 'claimed', 'accepted', 'reassigned', 'superseded']);
+
+// Enum for the state of a document batch import
+export const documentBatchStatusEnum = pgEnum('document_batch_status', ['queued', 'running', 'completed', 'failed', 'cancelled']);
+
+// Enum for the state of a reclassification job
+export const reclassificationJobStatusEnum = pgEnum('reclassification_job_status', ['queued', 'running', 'completed', 'failed', 'cancelled']);
+
+// Enum for the state of a background job; dead jobs used up their attempts
+export const jobStatusEnum = pgEnum('job_status', ['pending', 'running', 'completed', 'dead', 'cancelled']);
+
 // Categories table for classification categories
 export const categoriesTable = pgTable('categories', {
   id: serial('id').primaryKey(),
@@ -21,11 +54,40 @@ export const criteriaTable = pgTable('criteria', {
   id: serial('id').primaryKey(),
   category_id: integer('category_id').notNull(),
   name: text('name').notNull(),
-  pattern: text('pattern').notNull(), // Regex pattern or keyword for matching
-  weight: numeric('weight', { precision: 3, scale: 2 }).notNull(), // Weight for scoring (0.00-1.00)
+  pattern: text('pattern').notNull(), // Interpreted according to match_type
+  match_type: matchTypeEnum('match_type').notNull().default('regex'), // Existing criteria were regexes
+  weight: numeric('weight', { precision: 3, scale: 2 }).notNull(), // Weight for scoring (-1.00-1.00), negative to subtract
+  is_veto: boolean('is_veto').notNull().default(false), // A match disqualifies the category
+  frequency_mode: frequencyModeEnum('frequency_mode').notNull().default('presence'),
+  position_mode: positionModeEnum('position_mode').notNull().default('anywhere'),
+  position_window: integer('position_window'), // Leading region size in characters, null for the default
+  scope: criteriaScopeEnum('scope').notNull().default('content'),
+  metadata_key: text('metadata_key'), // Metadata field matched in metadata scope, null otherwise
+  size_min: integer('size_min'), // Inclusive bounds in bytes for size scope, null when open
+  size_max: integer('size_max'),
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Global scoring defaults - a single row with id 1
+export const classificationSettingsTable = pgTable('classification_settings', {
+  id: integer('id').primaryKey().default(1),
+  normalization_mode: normalizationModeEnum('normalization_mode').notNull().default('fixed'),
+  normalization_divisor: numeric('normalization_divisor', { precision: 6, scale: 2 }).notNull().default('3.00'), // Raw score that maps to 1.0 in fixed mode
+  high_threshold: numeric('high_threshold', { precision: 4, scale: 3 }).notNull().default('0.666'), // Normalized score for "high"
+  medium_threshold: numeric('medium_threshold', { precision: 4, scale: 3 }).notNull().default('0.333'), // Normalized score for "medium"
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Per-category overrides of the global scoring defaults; null columns inherit the default
+export const categorySettingsTable = pgTable('category_settings', {
+  category_id: integer('category_id').primaryKey(),
+  normalization_mode: normalizationModeEnum('normalization_mode'),
+  normalization_divisor: numeric('normalization_divisor', { precision: 6, scale: 2 }),
+  high_threshold: numeric('high_threshold', { precision: 4, scale: 3 }),
+  medium_threshold: numeric('medium_threshold', { precision: 4, scale: 3 }),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // Documents table for uploaded files
 export const documentsTable = pgTable('documents', {
   id: serial('id').primaryKey(),
@@ -33,25 +95,141 @@ export const documentsTable = pgTable('documents', {
   file_type: fileTypeEnum('file_type').notNull(),
   file_size: integer('file_size').notNull(), // File size in bytes
   content: text('content'), // Extracted text content, nullable
+  page_count: integer('page_count'), // Page count for paged formats, nullable
+  storage_key: text('storage_key'), // Key of the original file in the storage backend, nullable
+  content_hash: text('content_hash'), // SHA-256 hex digest of the original file, nullable
+  mime_type: text('mime_type'), // MIME type of the original file, nullable
+  metadata: text('metadata'), // JSON structural hints from extraction, nullable
+  current_result_id: integer('current_result_id'), // Manual override or top result of the latest run, nullable
+  batch_id: integer('batch_id'), // Archive the document was expanded from, nullable
   uploaded_at: timestamp('uploaded_at').defaultNow().notNull(),
 });
 
+// Document batches - one per uploaded archive; each supported entry becomes a document
+export const documentBatchesTable = pgTable('document_batches', {
+  id: serial('id').primaryKey(),
+  filename: text('filename').notNull(), // Name of the uploaded archive
+  file_size: integer('file_size').notNull(), // Archive size in bytes
+  skipped_entries: text('skipped_entries').notNull().default('[]'), // JSON array of entries that did not become documents
+  job_id: integer('job_id'), // Background job importing the batch, nullable
+  status: documentBatchStatusEnum('status').notNull().default('queued'),
+  storage_key: text('storage_key'), // Uploaded file awaiting import, null once imported
+  error: text('error'), // Why the import failed, nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  completed_at: timestamp('completed_at'),
+});
+
+// Classification runs table - groups the results produced by one classification call
+export const classificationRunsTable = pgTable('classification_runs', {
+  id: serial('id').primaryKey(),
+  document_id: integer('document_id').notNull(),
+  mode: classificationModeEnum('mode').notNull(),
+  threshold: numeric('threshold', { precision: 4, scale: 3 }), // Multi-label cutoff, nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
 // Classification results table
 export const classificationResultsTable = pgTable('classification_results', {
   id: serial('id').primaryKey(),
+  run_id: integer('run_id'), // Nullable for results recorded before runs existed
   document_id: integer('document_id').notNull(),
-  category_id: integer('category_id').notNull(),
+  category_id: integer('category_id'), // Null when the document could not be classified
+  unclassified_reason: unclassifiedReasonEnum('unclassified_reason'), // Set exactly when category_id is null
   confidence_level: confidenceLevelEnum('confidence_level').notNull(),
   confidence_score: numeric('confidence_score', { precision: 4, scale: 3 }).notNull(), // 0.000-1.000
-  classification_method: text('classification_method').notNull(),
+  classification_method: text('classification_method').notNull(), // "Pattern Matching" or "Manual"
   matched_criteria: text('matched_criteria').notNull(), // JSON array of matched criteria names
+  match_spans: text('match_spans').notNull().default('[]'), // JSON array of {criteria_id, start, end, text} in document order
+  reviewer: text('reviewer'), // Who set a manual result, nullable
+  override_reason: text('override_reason'), // Why a manual result was set, nullable
+  supersedes_result_id: integer('supersedes_result_id'), // Result a manual result replaces, nullable
   classified_at: timestamp('classified_at').defaultNow().notNull(),
 });
 
+// Review queue - documents waiting for a reviewer; at most one open (pending or claimed) item per document
+export const reviewQueueTable = pgTable('review_queue_items', {
+  id: serial('id').primaryKey(),
+  document_id: integer('document_id').notNull(),
+  result_id: integer('result_id').notNull(), // Result under review, kept in step with the document's current result
+  reason: reviewReasonEnum('reason').notNull(),
+  note: text('note'), // Why a reviewer disputed the result, nullable
+  status: reviewStatusEnum('status').notNull().default('pending'),
+  claimed_by: text('claimed_by'),
+  claimed_at: timestamp('claimed_at'),
+  resolved_by: text('resolved_by'),
+  resolved_at: timestamp('resolved_at'),
+  resolution_result_id: integer('resolution_result_id'), // Manual result recorded when reassigned
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Reclassification jobs - background runs of classifyDocument over many documents
+export const reclassificationJobsTable = pgTable('reclassification_jobs', {
+  id: serial('id').primaryKey(),
+  job_id: integer('job_id'), // Background job running the reclassification, nullable
+  status: reclassificationJobStatusEnum('status').notNull().default('queued'),
+  filter: text('filter').notNull().default('{}'), // JSON object selecting the documents to reclassify
+  mode: classificationModeEnum('mode').notNull().default('single'),
+  threshold: numeric('threshold', { precision: 4, scale: 3 }), // Multi-label cutoff, null in single-label mode
+  total: integer('total').notNull().default(0), // Documents selected by the filter
+  processed: integer('processed').notNull().default(0),
+  changed: integer('changed').notNull().default(0), // Documents whose current category changed
+  failed: integer('failed').notNull().default(0),
+  error: text('error'), // Why the job failed, nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  started_at: timestamp('started_at'),
+  completed_at: timestamp('completed_at'),
+});
+
+// Reclassification documents - the documents a job selected and their current result before its first attempt,
+// so a retried attempt compares against the state before the job rather than what an earlier attempt left
+export const reclassificationDocumentsTable = pgTable('reclassification_documents', {
+  id: serial('id').primaryKey(),
+  job_id: integer('job_id').notNull(),
+  document_id: integer('document_id').notNull(),
+  previous_result_id: integer('previous_result_id'), // Nullable for documents never classified before
+  previous_category_id: integer('previous_category_id'), // Null when previously unclassified
+});
+
+// Reclassification changes - one row per document whose current category changed during a job
+export const reclassificationChangesTable = pgTable('reclassification_changes', {
+  id: serial('id').primaryKey(),
+  job_id: integer('job_id').notNull(),
+  document_id: integer('document_id').notNull(),
+  previous_result_id: integer('previous_result_id'), // Nullable for documents never classified before
+  previous_category_id: integer('previous_category_id'), // Null when previously unclassified
+  new_result_id: integer('new_result_id').notNull(),
+  new_category_id: integer('new_category_id'), // Null when now unclassified
+});
+
+// Jobs - background work claimed by the worker loop with SELECT ... FOR UPDATE SKIP LOCKED
+export const jobsTable = pgTable('jobs', {
+  id: serial('id').primaryKey(),
+  type: text('type').notNull(), // Name of the registered job handler
+  payload: text('payload').notNull().default('{}'), // JSON object passed to the handler
+  status: jobStatusEnum('status').notNull().default('pending'),
+  attempts: integer('attempts').notNull().default(0),
+  max_attempts: integer('max_attempts').notNull().default(5),
+  run_at: timestamp('run_at').defaultNow().notNull(), // Not claimed before this time; pushed back after a failed attempt
+  locked_by: text('locked_by'), // Worker running the job
+  locked_at: timestamp('locked_at'),
+  cancel_requested_at: timestamp('cancel_requested_at'), // Set when a running job is asked to stop
+  last_error: text('last_error'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  completed_at: timestamp('completed_at'),
+});
+
 // Define relations between tables
-export const categoriesRelations = relations(categoriesTable, ({ many }) => ({
+export const categoriesRelations = relations(categoriesTable, ({ one, many }) => ({
   criteria: many(criteriaTable),
   classificationResults: many(classificationResultsTable),
+  settings: one(categorySettingsTable),
+}));
+
+export const categorySettingsRelations = relations(categorySettingsTable, ({ one }) => ({
+  category: one(categoriesTable, {
+    fields: [categorySettingsTable.category_id],
+    references: [categoriesTable.id],
+  }),
 }));
 
 export const criteriaRelations = relations(criteriaTable, ({ one }) => ({
@@ -61,11 +239,33 @@ export const criteriaRelations = relations(criteriaTable, ({ one }) => ({
   }),
 }));
 
-export const documentsRelations = relations(documentsTable, ({ many }) => ({
+export const documentsRelations = relations(documentsTable, ({ one, many }) => ({
+  batch: one(documentBatchesTable, {
+    fields: [documentsTable.batch_id],
+    references: [documentBatchesTable.id],
+  }),
+  classificationResults: many(classificationResultsTable),
+  classificationRuns: many(classificationRunsTable),
+  reviewQueueItems: many(reviewQueueTable),
+}));
+
+export const documentBatchesRelations = relations(documentBatchesTable, ({ many }) => ({
+  documents: many(documentsTable),
+}));
+
+export const classificationRunsRelations = relations(classificationRunsTable, ({ one, many }) => ({
+  document: one(documentsTable, {
+    fields: [classificationRunsTable.document_id],
+    references: [documentsTable.id],
+  }),
   classificationResults: many(classificationResultsTable),
 }));
 
 export const classificationResultsRelations = relations(classificationResultsTable, ({ one }) => ({
+  run: one(classificationRunsTable, {
+    fields: [classificationResultsTable.run_id],
+    references: [classificationRunsTable.id],
+  }),
   document: one(documentsTable, {
     fields: [classificationResultsTable.document_id],
     references: [documentsTable.id],
@@ -76,6 +276,44 @@ export const classificationResultsRelations = relations(classificationResultsTab
   }),
 }));
 
+export const reviewQueueRelations = relations(reviewQueueTable, ({ one }) => ({
+  document: one(documentsTable, {
+    fields: [reviewQueueTable.document_id],
+    references: [documentsTable.id],
+  }),
+  result: one(classificationResultsTable, {
+    fields: [reviewQueueTable.result_id],
+    references: [classificationResultsTable.id],
+  }),
+}));
+
+export const reclassificationJobsRelations = relations(reclassificationJobsTable, ({ many }) => ({
+  documents: many(reclassificationDocumentsTable),
+  changes: many(reclassificationChangesTable),
+}));
+
+export const reclassificationDocumentsRelations = relations(reclassificationDocumentsTable, ({ one }) => ({
+  job: one(reclassificationJobsTable, {
+    fields: [reclassificationDocumentsTable.job_id],
+    references: [reclassificationJobsTable.id],
+  }),
+  document: one(documentsTable, {
+    fields: [reclassificationDocumentsTable.document_id],
+    references: [documentsTable.id],
+  }),
+}));
+
+export const reclassificationChangesRelations = relations(reclassificationChangesTable, ({ one }) => ({
+  job: one(reclassificationJobsTable, {
+    fields: [reclassificationChangesTable.job_id],
+    references: [reclassificationJobsTable.id],
+  }),
+  document: one(documentsTable, {
+    fields: [reclassificationChangesTable.document_id],
+    references: [documentsTable.id],
+  }),
+}));
+
 // TypeScript types for table schemas
 export type Category = typeof categoriesTable.$inferSelect;
 export type NewCategory = typeof categoriesTable.$inferInsert;
@@ -83,23 +321,64 @@ export type NewCategory = typeof categoriesTable.$inferInsert;
 export type Criteria = typeof criteriaTable.$inferSelect;
 export type NewCriteria = typeof criteriaTable.$inferInsert;
 
+export type ClassificationSettings = typeof classificationSettingsTable.$inferSelect;
+export type CategorySettings = typeof categorySettingsTable.$inferSelect;
+export type NewCategorySettings = typeof categorySettingsTable.$inferInsert;
+
 export type Document = typeof documentsTable.$inferSelect;
 export type NewDocument = typeof documentsTable.$inferInsert;
 
+export type DocumentBatch = typeof documentBatchesTable.$inferSelect;
+export type NewDocumentBatch = typeof documentBatchesTable.$inferInsert;
+
+export type ClassificationRun = typeof classificationRunsTable.$inferSelect;
+export type NewClassificationRun = typeof classificationRunsTable.$inferInsert;
+
 export type ClassificationResult = typeof classificationResultsTable.$inferSelect;
 export type NewClassificationResult = typeof classificationResultsTable.$inferInsert;
 
+export type ReviewQueueItem = typeof reviewQueueTable.$inferSelect;
+export type NewReviewQueueItem = typeof reviewQueueTable.$inferInsert;
+
+export type ReclassificationJob = typeof reclassificationJobsTable.$inferSelect;
+export type NewReclassificationJob = typeof reclassificationJobsTable.$inferInsert;
+
+export type ReclassificationDocument = typeof reclassificationDocumentsTable.$inferSelect;
+export type NewReclassificationDocument = typeof reclassificationDocumentsTable.$inferInsert;
+
+export type ReclassificationChange = typeof reclassificationChangesTable.$inferSelect;
+export type NewReclassificationChange = typeof reclassificationChangesTable.$inferInsert;
+
+export type Job = typeof jobsTable.$inferSelect;
+export type NewJob = typeof jobsTable.$inferInsert;
+
 // Export all tables and relations for proper query building
 export const tables = {
   categories: categoriesTable,
   criteria: criteriaTable,
+  classificationSettings: classificationSettingsTable,
+  categorySettings: categorySettingsTable,
   documents: documentsTable,
+  documentBatches: documentBatchesTable,
+  classificationRuns: classificationRunsTable,
   classificationResults: classificationResultsTable,
+  reviewQueue: reviewQueueTable,
+  reclassificationJobs: reclassificationJobsTable,
+  reclassificationDocuments: reclassificationDocumentsTable,
+  reclassificationChanges: reclassificationChangesTable,
+  jobs: jobsTable,
 };
 
 export const relations_export = {
   categoriesRelations,
+  categorySettingsRelations,
   criteriaRelations,
   documentsRelations,
+  documentBatchesRelations,
+  classificationRunsRelations,
   classificationResultsRelations,
+  reviewQueueRelations,
+  reclassificationJobsRelations,
+  reclassificationDocumentsRelations,
+  reclassificationChangesRelations,
 };
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { reviewQueueTable } from '../db/schema';
+import { type ReviewItemInput, type ReviewQueueItem } from '../schema';
+import { getActionableReviewItem, isActionableBy } from './claim_review_item';
+import { toReviewQueueItem } from './get_review_queue';
+import { and, eq } from 'drizzle-orm';
+
+// Confirms the result under review; the document keeps its current result
+export const acceptReviewItem = async (input: ReviewItemInput): Promise<ReviewQueueItem> => {
+  try {
+    await getActionableReviewItem(input);
+
+    // Re-check in the update so an item another reviewer resolved or claimed in between is left alone
+    const items = await db.update(reviewQueueTable)
+      .set({ status: 'accepted', resolved_by: input.reviewer, resolved_at: new Date() })
+      .where(and(eq(reviewQueueTable.id, input.id), isActionableBy(input.reviewer)))
+      .returning()
+      .execute();
+
+    if (items.length === 0) {
+      throw new Error(`Review item with id ${input.id} was resolved or claimed by another reviewer`);
+    }
+
+    return toReviewQueueItem(items[0]);
+  } catch (error) {
+    console.error('Review item acceptance failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,13 @@
+import { type Job } from '../schema';
+import { cancelJob as cancelQueuedJob } from '../lib/jobs';
+import { toJob } from './get_jobs';
+
+// A running job keeps its status until the handler notices the cancellation request
+export async function cancelJob(id: number): Promise<Job> {
+  try {
+    return toJob(await cancelQueuedJob(id));
+  } catch (error) {
+    console.error('Job cancellation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,61 @@
+import { db } from '../db';
+import { reviewQueueTable, type ReviewQueueItem as ReviewQueueItemRow } from '../db/schema';
+import { type ReviewItemInput, type ReviewQueueItem } from '../schema';
+import { REVIEW_CLAIM_TIMEOUT_MS, OPEN_REVIEW_STATUSES, isClaimActive } from '../lib/review_queue';
+import { toReviewQueueItem } from './get_review_queue';
+import { and, eq, lt, or } from 'drizzle-orm';
+
+// Fetches an open item the reviewer may act on: unclaimed, claimed by them, or with an expired claim
+export const getActionableReviewItem = async (input: ReviewItemInput): Promise<ReviewQueueItemRow> => {
+  const items = await db.select()
+    .from(reviewQueueTable)
+    .where(eq(reviewQueueTable.id, input.id))
+    .execute();
+
+  if (items.length === 0) {
+    throw new Error(`Review item with id ${input.id} not found`);
+  }
+
+  const item = items[0];
+  if (!OPEN_REVIEW_STATUSES.includes(item.status)) {
+    throw new Error(`Review item with id ${input.id} is already ${item.status}`);
+  }
+  if (isClaimActive(item) && item.claimed_by !== input.reviewer) {
+    throw new Error(`Review item with id ${input.id} is claimed by ${item.claimed_by}`);
+  }
+
+  return item;
+};
+
+// The same check as getActionableReviewItem, for the WHERE of the update that acts on the item,
+// so a reviewer acting on it in between is not overwritten
+export const isActionableBy = (reviewer: string) => {
+  const claimCutoff = new Date(Date.now() - REVIEW_CLAIM_TIMEOUT_MS);
+  return or(
+    eq(reviewQueueTable.status, 'pending'),
+    and(eq(reviewQueueTable.status, 'claimed'), eq(reviewQueueTable.claimed_by, reviewer)),
+    and(eq(reviewQueueTable.status, 'claimed'), lt(reviewQueueTable.claimed_at, claimCutoff))
+  );
+};
+
+export const claimReviewItem = async (input: ReviewItemInput): Promise<ReviewQueueItem> => {
+  try {
+    await getActionableReviewItem(input);
+
+    // Re-check the claim in the update so two reviewers cannot take the item at once
+    const items = await db.update(reviewQueueTable)
+      .set({ status: 'claimed', claimed_by: input.reviewer, claimed_at: new Date() })
+      .where(and(eq(reviewQueueTable.id, input.id), isActionableBy(input.reviewer)))
+      .returning()
+      .execute();
+
+    if (items.length === 0) {
+      throw new Error(`Review item with id ${input.id} was claimed by another reviewer`);
+    }
+
+    return toReviewQueueItem(items[0]);
+  } catch (error) {
+    console.error('Review item claim failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,77 @@
+import { db } from '../db';
+import { documentsTable } from '../db/schema';
+import { type ClassifyBatchInput, type ClassifyBatchResponse, type BatchItemResult, type CategoryCount } from '../schema';
+import { classifyDocument } from './classify_document';
+import { mapWithConcurrency } from '../lib/concurrency';
+import { asc, eq } from 'drizzle-orm';
+
+// Keeps a large batch from holding every database connection at once
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+// Documents expanded from an archive, in archive order
+const getBatchDocumentIds = async (batchId: number): Promise<number[]> => {
+  const documents = await db.select({ id: documentsTable.id })
+    .from(documentsTable)
+    .where(eq(documentsTable.batch_id, batchId))
+    .orderBy(asc(documentsTable.id))
+    .execute();
+
+  if (documents.length === 0) {
+    throw new Error(`Document batch with id ${batchId} has no documents`);
+  }
+  return documents.map(document => document.id);
+};
+
+export const classifyBatch = async (input: ClassifyBatchInput): Promise<ClassifyBatchResponse> => {
+  try {
+    const documentIds = input.batch_id === undefined
+      ? [...new Set(input.document_ids)]
+      : await getBatchDocumentIds(input.batch_id);
+
+    const items = await mapWithConcurrency(documentIds, input.concurrency ?? DEFAULT_BATCH_CONCURRENCY, async (documentId): Promise<BatchItemResult> => {
+      try {
+        const response = await classifyDocument({ document_id: documentId, mode: input.mode, threshold: input.threshold });
+        return {
+          document_id: documentId,
+          status: response.category ? 'classified' : 'unclassified',
+          result: response.result,
+          category: response.category,
+          labels: response.labels.map(label => label.category),
+          error: null,
+        };
+      } catch (error) {
+        return {
+          document_id: documentId,
+          status: 'failed',
+          result: null,
+          category: null,
+          labels: [],
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    });
+
+    const categoryCounts = new Map<number, CategoryCount>();
+    for (const item of items) {
+      if (item.category) {
+        const entry = categoryCounts.get(item.category.id) ?? { category: item.category, count: 0 };
+        entry.count++;
+        categoryCounts.set(item.category.id, entry);
+      }
+    }
+
+    return {
+      items,
+      summary: {
+        total: items.length,
+        classified: items.filter(item => item.status === 'classified').length,
+        unclassified: items.filter(item => item.status === 'unclassified').length,
+        failed: items.filter(item => item.status === 'failed').length,
+        category_counts: [...categoryCounts.values()].sort((a, b) => b.count - a.count || a.category.id - b.category.id),
+      },
+    };
+  } catch (error) {
+    console.error('Batch classification failed:', error);
+    throw error;
+  }
+};
@@ -1,10 +1,72 @@
 import { db } from '../db';
-import { documentsTable, criteriaTable, categoriesTable, classificationResultsTable } from '../db/schema';
-import { type ClassifyDocumentInput, type ClassificationResponse } from '../schema';
+import { documentsTable, criteriaTable, categoriesTable, classificationResultsTable, classificationRunsTable } from '../db/schema';
+import { type ClassifyDocumentInput, type ClassificationResponse, type ClassificationLabel, type SkippedCriteria, type UnclassifiedReason } from '../schema';
+import { scoreCategories, findScopedMatches, type CategoryScore, type ClassifiableDocument } from '../lib/classifier';
+import { getClassificationSettings } from './get_classification_settings';
+import { toClassificationResult } from './get_classification_results';
+import { MANUAL_CLASSIFICATION_METHOD } from './override_classification';
+import { syncReviewQueue } from '../lib/review_queue';
+import { toDocument } from './get_documents';
 import { eq } from 'drizzle-orm';
 
+// Default multi-label cutoff on the normalized score (0-1)
+export const DEFAULT_MULTI_LABEL_THRESHOLD = 0.2;
+
+// Match every criteria against its scope under the time budget and score each category that has criteria, best first
+export const scoreDocument = async (document: ClassifiableDocument): Promise<{ categoryScores: CategoryScore[]; skippedCriteria: SkippedCriteria[]; }> => {
+  const criteriaWithCategories = await db.select()
+    .from(criteriaTable)
+    .innerJoin(categoriesTable, eq(criteriaTable.category_id, categoriesTable.id))
+    .execute();
+
+  if (criteriaWithCategories.length === 0) {
+    return { categoryScores: [], skippedCriteria: [] };
+  }
+
+  const { matches, timed_out } = await findScopedMatches(document, criteriaWithCategories.map(row => row.criteria));
+  const settings = await getClassificationSettings();
+  return {
+    categoryScores: scoreCategories(document, criteriaWithCategories, matches, settings.defaults, settings.category_overrides),
+    skippedCriteria: criteriaWithCategories
+      .filter(({ criteria }) => timed_out.includes(criteria.id))
+      .map(({ criteria }) => ({ id: criteria.id, category_id: criteria.category_id, name: criteria.name, reason: 'timeout' as const })),
+  };
+};
+
+// Multi-label cutoff for a classification request, null in single-label mode
+export const getLabelThreshold = (input: Pick<ClassifyDocumentInput, 'mode' | 'threshold'>): number | null =>
+  input.mode === 'multi' ? input.threshold ?? DEFAULT_MULTI_LABEL_THRESHOLD : null;
+
+// Categories that matched and were not vetoed
+export const getMatchingScores = (categoryScores: CategoryScore[]): CategoryScore[] =>
+  categoryScores.filter(categoryScore => !categoryScore.vetoed && categoryScore.score > 0);
+
+// The labels to assign: the best matching category, or every one at or above the threshold
+export const selectLabelScores = (categoryScores: CategoryScore[], threshold: number | null): CategoryScore[] => {
+  const matchingScores = getMatchingScores(categoryScores);
+  return threshold === null
+    ? matchingScores.slice(0, 1)
+    : matchingScores.filter(categoryScore => categoryScore.normalized_score >= threshold);
+};
+
+// Why no label could be assigned to the content
+export const getUnclassifiedReason = (content: string | null, categoryScores: CategoryScore[]): UnclassifiedReason => {
+  if (!content) {
+    return 'no_content';
+  }
+  if (categoryScores.length === 0) {
+    return 'no_criteria';
+  }
+  if (getMatchingScores(categoryScores).length > 0) {
+    return 'below_threshold';
+  }
+  return categoryScores.some(categoryScore => categoryScore.vetoed) ? 'vetoed' : 'no_match';
+};
+
 export const classifyDocument = async (input: ClassifyDocumentInput): Promise<ClassificationResponse> => {
   try {
+    const mode = input.mode ?? 'single';
+
     // 1. Fetch document content
     const documents = await db.select()
       .from(documentsTable)
@@ -15,147 +77,104 @@ export const classifyDocument = async (input: ClassifyDocumentInput): Promise<Cl
       throw new Error('Document not found');
     }
 
-    const document = documents[0];
-
-    if (!document.content) {
-      throw new Error('Document has no extractable content for classification');
-    }
-
-    // 2. Fetch all classification criteria with their categories
-    const criteriaWithCategories = await db.select()
-      .from(criteriaTable)
-      .innerJoin(categoriesTable, eq(criteriaTable.category_id, categoriesTable.id))
-      .execute();
-
-    if (criteriaWithCategories.length === 0) {
-      throw new Error('No classification criteria available');
-    }
-
-    // 3. Apply pattern matching and calculate scores
-    const categoryScores: Record<number, {
-      score: number;
-      matchedCriteria: Array<{ id: number; name: string; pattern: string; weight: number; }>;
-      category: typeof categoriesTable.$inferSelect;
-    }> = {};
-
-    const documentContent = document.content.toLowerCase();
-
-    for (const criteriaRow of criteriaWithCategories) {
-      const criteria = criteriaRow.criteria;
-      const category = criteriaRow.categories;
-      const weight = parseFloat(criteria.weight);
-
-      // Initialize category score if not exists
-      if (!categoryScores[category.id]) {
-        categoryScores[category.id] = {
-          score: 0,
-          matchedCriteria: [],
-          category: category
-        };
+    const document = toDocument(documents[0]);
+
+    // 2. Apply pattern matching under a time budget and calculate scores with each category's settings.
+    // Documents without text are still scored, since filename, size and metadata criteria may match them.
+    const { categoryScores, skippedCriteria } = await scoreDocument(document);
+
+    // 3. Pick the labels to assign: the best category, or every category above the threshold
+    const threshold = getLabelThreshold(input);
+    const selectedScores = selectLabelScores(categoryScores, threshold);
+    const unclassifiedReason = selectedScores.length === 0 ? getUnclassifiedReason(document.content, categoryScores) : null;
+
+    // 4. Store the run and one result row per label, or a single unclassified row
+    const { run, results, topResult, currentResultId } = await db.transaction(async tx => {
+      const runs = await tx.insert(classificationRunsTable)
+        .values({
+          document_id: input.document_id,
+          mode,
+          threshold: threshold === null ? null : threshold.toString(),
+        })
+        .returning()
+        .execute();
+
+      const results = await tx.insert(classificationResultsTable)
+        .values(unclassifiedReason === null
+          ? selectedScores.map(categoryScore => ({
+            run_id: runs[0].id,
+            document_id: input.document_id,
+            category_id: categoryScore.category.id,
+            confidence_level: categoryScore.confidence_level,
+            confidence_score: categoryScore.normalized_score.toString(),
+            classification_method: 'Pattern Matching',
+            matched_criteria: JSON.stringify(categoryScore.matched_criteria.map(c => c.name)),
+            match_spans: JSON.stringify(categoryScore.match_spans)
+          }))
+          : [{
+            run_id: runs[0].id,
+            document_id: input.document_id,
+            category_id: null,
+            unclassified_reason: unclassifiedReason,
+            confidence_level: 'low' as const,
+            confidence_score: '0',
+            classification_method: 'Pattern Matching',
+            matched_criteria: '[]'
+          }])
+        .returning()
+        .execute();
+
+      // The top-ranked label (or the unclassified row) becomes the document's current result,
+      // unless a reviewer set the category by hand
+      const topResult = unclassifiedReason === null
+        ? results.find(result => result.category_id === selectedScores[0].category.id)!
+        : results[0];
+      const currentResults = document.current_result_id === null ? [] : await tx.select()
+        .from(classificationResultsTable)
+        .where(eq(classificationResultsTable.id, document.current_result_id))
+        .execute();
+      const isManual = currentResults[0]?.classification_method === MANUAL_CLASSIFICATION_METHOD;
+      if (!isManual) {
+        await tx.update(documentsTable)
+          .set({ current_result_id: topResult.id })
+          .where(eq(documentsTable.id, input.document_id))
+          .execute();
+        await syncReviewQueue(tx, topResult);
       }
 
-      // Test pattern matching
-      let isMatch = false;
-      try {
-        // Try as regex first, fallback to simple string matching
-        const regex = new RegExp(criteria.pattern, 'i');
-        isMatch = regex.test(documentContent);
-      } catch {
-        // If regex is invalid, use simple string matching
-        isMatch = documentContent.includes(criteria.pattern.toLowerCase());
-      }
+      return { run: runs[0], results, topResult, currentResultId: isManual ? document.current_result_id : topResult.id };
+    });
 
-      if (isMatch) {
-        categoryScores[category.id].score += weight;
-        categoryScores[category.id].matchedCriteria.push({
-          id: criteria.id,
-          name: criteria.name,
-          pattern: criteria.pattern,
-          weight: weight
-        });
-      }
-    }
-
-    // 4. Determine best matching category
-    let bestCategoryId: number | null = null;
-    let bestScore = 0;
-
-    for (const [categoryId, data] of Object.entries(categoryScores)) {
-      if (data.score > bestScore) {
-        bestScore = data.score;
-        bestCategoryId = parseInt(categoryId);
-      }
-    }
+    const labels: ClassificationLabel[] = selectedScores.map(categoryScore => ({
+      result: toClassificationResult(results.find(result => result.category_id === categoryScore.category.id)!),
+      category: categoryScore.category,
+      matched_criteria_details: categoryScore.matched_criteria
+    }));
 
-    if (!bestCategoryId || bestScore === 0) {
-      throw new Error('No matching classification criteria found for this document');
-    }
-
-    const bestCategory = categoryScores[bestCategoryId];
-
-    // 5. Determine confidence level based on score
-    let confidenceLevel: 'low' | 'medium' | 'high';
-    if (bestScore >= 2.0) {
-      confidenceLevel = 'high';
-    } else if (bestScore >= 1.0) {
-      confidenceLevel = 'medium';
-    } else {
-      confidenceLevel = 'low';
-    }
-
-    // Normalize confidence score to 0-1 range (cap at 1.0)
-    const normalizedScore = Math.min(bestScore / 3.0, 1.0);
-
-    // 6. Store classification result
-    const classificationResults = await db.insert(classificationResultsTable)
-      .values({
-        document_id: input.document_id,
-        category_id: bestCategoryId,
-        confidence_level: confidenceLevel,
-        confidence_score: normalizedScore.toString(),
-        classification_method: 'Pattern Matching',
-        matched_criteria: JSON.stringify(bestCategory.matchedCriteria.map(c => c.name))
-      })
-      .returning()
-      .execute();
-
-    const classificationResult = classificationResults[0];
-
-    // 7. Fetch full criteria details for matched criteria
-    const matchedCriteriaIds = bestCategory.matchedCriteria.map(c => c.id);
-    const matchedCriteriaDetails = await db.select()
-      .from(criteriaTable)
-      .where(eq(criteriaTable.category_id, bestCategoryId))
-      .execute();
-
-    const filteredCriteriaDetails = matchedCriteriaDetails
-      .filter(criteria => matchedCriteriaIds.includes(criteria.id))
-      .map(criteria => ({
-        ...criteria,
-        weight: parseFloat(criteria.weight)
-      }));
-
-    // 8. Return structured response
+    // 5. Return structured response
     return {
       document: {
         ...document,
+        current_result_id: currentResultId,
         uploaded_at: document.uploaded_at
       },
-      result: {
-        ...classificationResult,
-        confidence_score: parseFloat(classificationResult.confidence_score),
-        matched_criteria: JSON.parse(classificationResult.matched_criteria),
-        classified_at: classificationResult.classified_at
-      },
-      category: {
-        ...bestCategory.category,
-        created_at: bestCategory.category.created_at
+      run: {
+        ...run,
+        threshold: run.threshold === null ? null : parseFloat(run.threshold)
       },
-      matched_criteria_details: filteredCriteriaDetails
+      result: toClassificationResult(topResult),
+      category: labels[0]?.category ?? null,
+      matched_criteria_details: labels[0]?.matched_criteria_details ?? [],
+      labels,
+      vetoed_categories: categoryScores.filter(categoryScore => categoryScore.vetoed).map(categoryScore => ({
+        category: categoryScore.category,
+        matched_criteria_details: categoryScore.matched_criteria
+      })),
+      skipped_criteria: skippedCriteria
     };
 
   } catch (error) {
     console.error('Document classification failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -1,7 +1,60 @@
 import { db } from '../db';
 import { criteriaTable, categoriesTable } from '../db/schema';
-import { type CreateCriteriaInput, type Criteria } from '../schema';
-import { eq } from 'drizzle-orm';
+import { type CreateCriteriaInput, type Criteria, type MatchType } from '../schema';
+import { validatePattern, parseComposite, getCompositeReferences } from '../lib/classifier';
+import { eq, inArray } from 'drizzle-orm';
+
+// Check the pattern for its match type; composite rules must reference existing, non-composite criteria
+export const validateCriteriaPattern = async (pattern: string, matchType: MatchType, criteriaId?: number): Promise<void> => {
+  validatePattern(pattern, matchType);
+  if (matchType !== 'composite') {
+    return;
+  }
+
+  const references = getCompositeReferences(parseComposite(pattern));
+  if (criteriaId !== undefined && references.includes(criteriaId)) {
+    throw new Error('Composite rule cannot reference itself');
+  }
+  if (references.length === 0) {
+    return;
+  }
+
+  const referenced = await db.select({ id: criteriaTable.id, match_type: criteriaTable.match_type, scope: criteriaTable.scope })
+    .from(criteriaTable)
+    .where(inArray(criteriaTable.id, references))
+    .execute();
+
+  const missing = references.filter(id => !referenced.some(row => row.id === id));
+  if (missing.length > 0) {
+    throw new Error(`Composite rule references unknown criteria: ${missing.map(id => `@${id}`).join(', ')}`);
+  }
+  const nested = referenced.filter(row => row.match_type === 'composite');
+  if (nested.length > 0) {
+    throw new Error(`Composite rule cannot reference other composite rules: ${nested.map(row => `@${row.id}`).join(', ')}`);
+  }
+  const sized = referenced.filter(row => row.scope === 'size');
+  if (sized.length > 0) {
+    throw new Error(`Composite rule cannot reference size criteria: ${sized.map(row => `@${row.id}`).join(', ')}`);
+  }
+};
+
+// Composite rules whose expression references the given criteria
+export const getReferencingComposites = async (criteriaId: number): Promise<{ id: number; name: string; }[]> => {
+  const composites = await db.select({ id: criteriaTable.id, name: criteriaTable.name, pattern: criteriaTable.pattern })
+    .from(criteriaTable)
+    .where(eq(criteriaTable.match_type, 'composite'))
+    .execute();
+
+  return composites
+    .filter(composite => {
+      try {
+        return getCompositeReferences(parseComposite(composite.pattern)).includes(criteriaId);
+      } catch {
+        return false;
+      }
+    })
+    .map(({ id, name }) => ({ id, name }));
+};
 
 export const createCriteria = async (input: CreateCriteriaInput): Promise<Criteria> => {
   try {
@@ -15,13 +68,28 @@ export const createCriteria = async (input: CreateCriteriaInput): Promise<Criter
       throw new Error(`Category with id ${input.category_id} does not exist`);
     }
 
+    const matchType = input.match_type ?? 'regex';
+    const scope = input.scope ?? 'content';
+    if (scope !== 'size') {
+      await validateCriteriaPattern(input.pattern, matchType);
+    }
+
     // Insert criteria record
     const result = await db.insert(criteriaTable)
       .values({
         category_id: input.category_id,
         name: input.name,
         pattern: input.pattern,
+        match_type: matchType,
         weight: input.weight.toString(), // Convert number to string for numeric column
+        is_veto: input.is_veto ?? false,
+        frequency_mode: input.frequency_mode ?? 'presence',
+        position_mode: input.position_mode ?? 'anywhere',
+        position_window: input.position_window ?? null,
+        scope,
+        metadata_key: input.metadata_key ?? null,
+        size_min: input.size_min ?? null,
+        size_max: input.size_max ?? null,
       })
       .returning()
       .execute();
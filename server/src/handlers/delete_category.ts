@@ -1,10 +1,45 @@
 import { db } from '../db';
-import { categoriesTable, criteriaTable, classificationResultsTable } from '../db/schema';
-import { eq } from 'drizzle-orm';
+import { categoriesTable, criteriaTable, classificationResultsTable, categorySettingsTable, documentsTable, reviewQueueTable } from '../db/schema';
+import { getReferencingComposites } from './create_criteria';
+import { eq, inArray } from 'drizzle-orm';
 
 export async function deleteCategory(categoryId: number): Promise<boolean> {
   try {
-    // First delete related classification results
+    // Composite rules in other categories would silently stop matching without the criteria deleted here
+    const criteria = await db.select({ id: criteriaTable.id })
+      .from(criteriaTable)
+      .where(eq(criteriaTable.category_id, categoryId))
+      .execute();
+    const deletedIds = new Set(criteria.map(row => row.id));
+    for (const { id } of criteria) {
+      const referencedBy = (await getReferencingComposites(id)).filter(composite => !deletedIds.has(composite.id));
+      if (referencedBy.length > 0) {
+        throw new Error(`Criteria is referenced by composite rule "${referencedBy[0].name}"`);
+      }
+    }
+
+    // Documents whose current result is about to go no longer have one
+    await db.update(documentsTable)
+      .set({ current_result_id: null })
+      .where(inArray(
+        documentsTable.current_result_id,
+        db.select({ id: classificationResultsTable.id })
+          .from(classificationResultsTable)
+          .where(eq(classificationResultsTable.category_id, categoryId))
+      ))
+      .execute();
+
+    // Review items about those results go with them
+    await db.delete(reviewQueueTable)
+      .where(inArray(
+        reviewQueueTable.result_id,
+        db.select({ id: classificationResultsTable.id })
+          .from(classificationResultsTable)
+          .where(eq(classificationResultsTable.category_id, categoryId))
+      ))
+      .execute();
+
+    // Then delete related classification results
     await db.delete(classificationResultsTable)
       .where(eq(classificationResultsTable.category_id, categoryId))
       .execute();
@@ -14,6 +49,11 @@ export async function deleteCategory(categoryId: number): Promise<boolean> {
       .where(eq(criteriaTable.category_id, categoryId))
       .execute();
 
+    // Drop any scoring overrides for the category
+    await db.delete(categorySettingsTable)
+      .where(eq(categorySettingsTable.category_id, categoryId))
+      .execute();
+
     // Finally delete the category itself
     const result = await db.delete(categoriesTable)
       .where(eq(categoriesTable.id, categoryId))
@@ -1,9 +1,16 @@
 import { db } from '../db';
 import { criteriaTable } from '../db/schema';
+import { getReferencingComposites } from './create_criteria';
 import { eq } from 'drizzle-orm';
 
 export const deleteCriteria = async (criteriaId: number): Promise<boolean> => {
   try {
+    // Composite rules would silently stop matching without it
+    const referencedBy = await getReferencingComposites(criteriaId);
+    if (referencedBy.length > 0) {
+      throw new Error(`Criteria is referenced by composite rule "${referencedBy[0].name}"`);
+    }
+
     // Delete the criteria record
     const result = await db.delete(criteriaTable)
       .where(eq(criteriaTable.id, criteriaId))
@@ -0,0 +1,47 @@
+import { db } from '../db';
+import { documentsTable, reviewQueueTable } from '../db/schema';
+import { type DisputeClassificationInput, type ReviewQueueItem } from '../schema';
+import { getOpenReviewItem } from '../lib/review_queue';
+import { toReviewQueueItem } from './get_review_queue';
+import { eq } from 'drizzle-orm';
+
+// Puts a document's current result on the review queue, or marks its open item as disputed
+export const disputeClassification = async (input: DisputeClassificationInput): Promise<ReviewQueueItem> => {
+  try {
+    const documents = await db.select()
+      .from(documentsTable)
+      .where(eq(documentsTable.id, input.document_id))
+      .execute();
+
+    if (documents.length === 0) {
+      throw new Error('Document not found');
+    }
+
+    const resultId = documents[0].current_result_id;
+    if (resultId === null) {
+      throw new Error('Document has no classification to dispute');
+    }
+
+    const note = `${input.reviewer}: ${input.reason}`;
+    const item = await db.transaction(async tx => {
+      const openItem = await getOpenReviewItem(tx, input.document_id);
+      const items = openItem
+        ? await tx.update(reviewQueueTable)
+          .set({ reason: 'disputed', note, result_id: resultId })
+          .where(eq(reviewQueueTable.id, openItem.id))
+          .returning()
+          .execute()
+        : await tx.insert(reviewQueueTable)
+          .values({ document_id: input.document_id, result_id: resultId, reason: 'disputed', note })
+          .returning()
+          .execute();
+
+      return items[0];
+    });
+
+    return toReviewQueueItem(item);
+  } catch (error) {
+    console.error('Classification dispute failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { documentsTable } from '../db/schema';
+import { type DocumentDownload } from '../schema';
+import { getStorage } from '../lib/storage';
+import { eq } from 'drizzle-orm';
+
+export const downloadDocument = async (documentId: number): Promise<DocumentDownload> => {
+  try {
+    const documents = await db.select()
+      .from(documentsTable)
+      .where(eq(documentsTable.id, documentId))
+      .execute();
+
+    if (documents.length === 0) {
+      throw new Error('Document not found');
+    }
+
+    const document = documents[0];
+
+    // Documents created from client-supplied text have no original file
+    if (!document.storage_key) {
+      throw new Error('Document has no stored original file');
+    }
+
+    const data = await getStorage().get(document.storage_key);
+
+    return {
+      filename: document.filename,
+      mime_type: document.mime_type ?? 'application/octet-stream',
+      file_size: data.byteLength,
+      data: Buffer.from(data).toString('base64'),
+    };
+  } catch (error) {
+    console.error('Document download failed:', error);
+    throw error;
+  }
+};
@@ -1,21 +1,26 @@
 import { db } from '../db';
-import { classificationResultsTable } from '../db/schema';
-import { type ClassificationResult } from '../schema';
+import { classificationResultsTable, type ClassificationResult as ClassificationResultRow } from '../db/schema';
+import { type ClassificationResult, type GetClassificationResultsInput } from '../schema';
+import { eq } from 'drizzle-orm';
 
-export async function getClassificationResults(): Promise<ClassificationResult[]> {
+// Convert numeric and JSON columns of a stored result
+export const toClassificationResult = (result: ClassificationResultRow): ClassificationResult => ({
+  ...result,
+  confidence_score: parseFloat(result.confidence_score), // Convert string back to number
+  matched_criteria: JSON.parse(result.matched_criteria), // Parse JSON string to array
+  match_spans: JSON.parse(result.match_spans)
+});
+
+export async function getClassificationResults(input: GetClassificationResultsInput = {}): Promise<ClassificationResult[]> {
   try {
     const results = await db.select()
       .from(classificationResultsTable)
+      .where(input.document_id === undefined ? undefined : eq(classificationResultsTable.document_id, input.document_id))
       .execute();
 
-    // Convert numeric fields back to numbers before returning
-    return results.map(result => ({
-      ...result,
-      confidence_score: parseFloat(result.confidence_score), // Convert string back to number
-      matched_criteria: JSON.parse(result.matched_criteria) // Parse JSON string to array
-    }));
+    return results.map(toClassificationResult);
   } catch (error) {
     console.error('Failed to get classification results:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,68 @@
+import { db } from '../db';
+import {
+  classificationSettingsTable,
+  categorySettingsTable,
+  type ClassificationSettings as ClassificationSettingsRow,
+  type CategorySettings as CategorySettingsRow,
+} from '../db/schema';
+import { type ClassificationSettings, type CategorySettings, type ClassificationSettingsResponse } from '../schema';
+import { eq } from 'drizzle-orm';
+
+const GLOBAL_SETTINGS_ID = 1;
+
+// Convert numeric columns from strings to numbers
+export const toClassificationSettings = (row: ClassificationSettingsRow): ClassificationSettings => ({
+  normalization_mode: row.normalization_mode,
+  normalization_divisor: parseFloat(row.normalization_divisor),
+  high_threshold: parseFloat(row.high_threshold),
+  medium_threshold: parseFloat(row.medium_threshold),
+  updated_at: row.updated_at,
+});
+
+export const toCategorySettings = (row: CategorySettingsRow): CategorySettings => ({
+  ...row,
+  normalization_divisor: row.normalization_divisor === null ? null : parseFloat(row.normalization_divisor),
+  high_threshold: row.high_threshold === null ? null : parseFloat(row.high_threshold),
+  medium_threshold: row.medium_threshold === null ? null : parseFloat(row.medium_threshold),
+});
+
+// The global row is created with column defaults the first time it is needed
+export const getDefaultSettings = async (): Promise<ClassificationSettings> => {
+  let rows = await db.select()
+    .from(classificationSettingsTable)
+    .where(eq(classificationSettingsTable.id, GLOBAL_SETTINGS_ID))
+    .execute();
+
+  if (rows.length === 0) {
+    await db.insert(classificationSettingsTable)
+      .values({ id: GLOBAL_SETTINGS_ID })
+      .onConflictDoNothing()
+      .execute();
+
+    rows = await db.select()
+      .from(classificationSettingsTable)
+      .where(eq(classificationSettingsTable.id, GLOBAL_SETTINGS_ID))
+      .execute();
+  }
+
+  return toClassificationSettings(rows[0]);
+};
+
+export const getClassificationSettings = async (): Promise<ClassificationSettingsResponse> => {
+  try {
+    const defaults = await getDefaultSettings();
+
+    const overrides = await db.select()
+      .from(categorySettingsTable)
+      .orderBy(categorySettingsTable.category_id)
+      .execute();
+
+    return {
+      defaults,
+      category_overrides: overrides.map(toCategorySettings),
+    };
+  } catch (error) {
+    console.error('Failed to fetch classification settings:', error);
+    throw error;
+  }
+};
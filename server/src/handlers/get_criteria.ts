@@ -13,7 +13,16 @@ export async function getCriteria(): Promise<CriteriaListResponse> {
       category_color: categoriesTable.color,
       name: criteriaTable.name,
       pattern: criteriaTable.pattern,
+      match_type: criteriaTable.match_type,
       weight: criteriaTable.weight,
+      is_veto: criteriaTable.is_veto,
+      frequency_mode: criteriaTable.frequency_mode,
+      position_mode: criteriaTable.position_mode,
+      position_window: criteriaTable.position_window,
+      scope: criteriaTable.scope,
+      metadata_key: criteriaTable.metadata_key,
+      size_min: criteriaTable.size_min,
+      size_max: criteriaTable.size_max,
       created_at: criteriaTable.created_at,
     })
       .from(criteriaTable)
@@ -0,0 +1,66 @@
+import { db } from '../db';
+import { documentBatchesTable, documentsTable, classificationResultsTable, categoriesTable, type DocumentBatch as DocumentBatchRow } from '../db/schema';
+import { type DocumentBatch, type DocumentBatchDetail, type CategoryCount } from '../schema';
+import { toClassificationResult } from './get_classification_results';
+import { toDocument } from './get_documents';
+import { asc, eq } from 'drizzle-orm';
+
+// Convert the JSON column of a stored batch
+export const toDocumentBatch = (batch: DocumentBatchRow): DocumentBatch => ({
+  ...batch,
+  skipped_entries: JSON.parse(batch.skipped_entries),
+});
+
+// An archive's documents with their current classification, and counts per category
+export const getDocumentBatch = async (id: number): Promise<DocumentBatchDetail> => {
+  try {
+    const batches = await db.select()
+      .from(documentBatchesTable)
+      .where(eq(documentBatchesTable.id, id))
+      .execute();
+
+    if (batches.length === 0) {
+      throw new Error(`Document batch with id ${id} not found`);
+    }
+
+    const rows = await db.select({
+      document: documentsTable,
+      result: classificationResultsTable,
+      category: categoriesTable,
+    })
+      .from(documentsTable)
+      .leftJoin(classificationResultsTable, eq(documentsTable.current_result_id, classificationResultsTable.id))
+      .leftJoin(categoriesTable, eq(classificationResultsTable.category_id, categoriesTable.id))
+      .where(eq(documentsTable.batch_id, id))
+      .orderBy(asc(documentsTable.id))
+      .execute();
+
+    const categoryCounts = new Map<number, CategoryCount>();
+    for (const row of rows) {
+      if (row.category) {
+        const entry = categoryCounts.get(row.category.id) ?? { category: row.category, count: 0 };
+        entry.count++;
+        categoryCounts.set(row.category.id, entry);
+      }
+    }
+
+    return {
+      batch: toDocumentBatch(batches[0]),
+      documents: rows.map(row => ({
+        document: toDocument(row.document),
+        result: row.result ? toClassificationResult(row.result) : null,
+        category: row.category,
+      })),
+      summary: {
+        total: rows.length,
+        classified: rows.filter(row => row.category !== null).length,
+        unclassified: rows.filter(row => row.result !== null && row.category === null).length,
+        pending: rows.filter(row => row.result === null).length,
+        category_counts: [...categoryCounts.values()].sort((a, b) => b.count - a.count || a.category.id - b.category.id),
+      },
+    };
+  } catch (error) {
+    console.error('Failed to fetch document batch:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,67 @@
+import { db } from '../db';
+import { documentsTable, classificationResultsTable, classificationRunsTable, categoriesTable } from '../db/schema';
+import { type ClassificationHistory, type ClassificationHistoryEntry } from '../schema';
+import { toClassificationResult } from './get_classification_results';
+import { toDocument } from './get_documents';
+import { desc, eq } from 'drizzle-orm';
+
+// Every classification of a document grouped by run, newest first
+export async function getDocumentClassificationHistory(documentId: number): Promise<ClassificationHistory> {
+  try {
+    const documents = await db.select()
+      .from(documentsTable)
+      .where(eq(documentsTable.id, documentId))
+      .execute();
+
+    if (documents.length === 0) {
+      throw new Error('Document not found');
+    }
+
+    const document = documents[0];
+
+    const rows = await db.select()
+      .from(classificationResultsTable)
+      .leftJoin(classificationRunsTable, eq(classificationResultsTable.run_id, classificationRunsTable.id))
+      .leftJoin(categoriesTable, eq(classificationResultsTable.category_id, categoriesTable.id))
+      .where(eq(classificationResultsTable.document_id, documentId))
+      .orderBy(desc(classificationResultsTable.classified_at), desc(classificationResultsTable.id))
+      .execute();
+
+    // Results of one run stay together, ranked by score; results without a run each get their own entry
+    const entries: ClassificationHistoryEntry[] = [];
+    const entriesByRun = new Map<number, ClassificationHistoryEntry>();
+    for (const row of rows) {
+      const runId = row.classification_results.run_id;
+      let entry = runId === null ? undefined : entriesByRun.get(runId);
+      if (!entry) {
+        const run = row.classification_runs;
+        entry = {
+          run: run && { ...run, threshold: run.threshold === null ? null : parseFloat(run.threshold) },
+          results: [],
+          is_current: false,
+        };
+        entries.push(entry);
+        if (runId !== null) {
+          entriesByRun.set(runId, entry);
+        }
+      }
+
+      entry.results.push({
+        result: toClassificationResult(row.classification_results),
+        category: row.categories,
+      });
+      if (row.classification_results.id === document.current_result_id) {
+        entry.is_current = true;
+      }
+    }
+
+    for (const entry of entries) {
+      entry.results.sort((a, b) => b.result.confidence_score - a.result.confidence_score);
+    }
+
+    return { document: toDocument(document), entries };
+  } catch (error) {
+    console.error('Failed to fetch classification history:', error);
+    throw error;
+  }
+}
@@ -1,17 +1,20 @@
 import { db } from '../db';
-import { documentsTable } from '../db/schema';
+import { documentsTable, type Document as DocumentRow } from '../db/schema';
 import { type Document } from '../schema';
 
+// Convert the JSON column of a stored document
+export const toDocument = (document: DocumentRow): Document => ({
+  ...document,
+  metadata: document.metadata === null ? null : JSON.parse(document.metadata),
+});
+
 export async function getDocuments(): Promise<Document[]> {
   try {
     const results = await db.select()
       .from(documentsTable)
       .execute();
 
-    return results.map(doc => ({
-      ...doc,
-      // No numeric conversions needed for this table - all fields are integers, text, or timestamps
-    }));
+    return results.map(toDocument);
   } catch (error) {
     console.error('Failed to fetch documents:', error);
     throw error;
@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { jobsTable } from '../db/schema';
+import { type Job } from '../schema';
+import { toJob } from './get_jobs';
+import { eq } from 'drizzle-orm';
+
+export async function getJob(id: number): Promise<Job> {
+  try {
+    const jobs = await db.select()
+      .from(jobsTable)
+      .where(eq(jobsTable.id, id))
+      .execute();
+
+    if (jobs.length === 0) {
+      throw new Error(`Job with id ${id} not found`);
+    }
+
+    return toJob(jobs[0]);
+  } catch (error) {
+    console.error('Failed to fetch job:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { jobsTable, type Job as JobRow } from '../db/schema';
+import { type GetJobsInput, type Job } from '../schema';
+import { and, desc, eq } from 'drizzle-orm';
+
+// Convert the JSON payload of a stored job
+export const toJob = (job: JobRow): Job => ({
+  ...job,
+  payload: JSON.parse(job.payload),
+});
+
+// Most recently created first
+export async function getJobs(input: GetJobsInput = {}): Promise<Job[]> {
+  try {
+    const jobs = await db.select()
+      .from(jobsTable)
+      .where(and(
+        input.status ? eq(jobsTable.status, input.status) : undefined,
+        input.type ? eq(jobsTable.type, input.type) : undefined
+      ))
+      .orderBy(desc(jobsTable.created_at), desc(jobsTable.id))
+      .limit(input.limit ?? 100)
+      .execute();
+
+    return jobs.map(toJob);
+  } catch (error) {
+    console.error('Failed to fetch jobs:', error);
+    throw error;
+  }
+}
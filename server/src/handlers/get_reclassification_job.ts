@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { reclassificationJobsTable, reclassificationChangesTable, documentsTable, categoriesTable, type ReclassificationJob as ReclassificationJobRow } from '../db/schema';
+import { type ReclassificationJob, type ReclassificationJobDetail } from '../schema';
+import { toDocument } from './get_documents';
+import { asc, eq, inArray } from 'drizzle-orm';
+
+// Convert numeric and JSON columns of a stored job
+export const toReclassificationJob = (job: ReclassificationJobRow): ReclassificationJob => ({
+  ...job,
+  filter: JSON.parse(job.filter),
+  threshold: job.threshold === null ? null : parseFloat(job.threshold),
+});
+
+// A job's progress and summary, with the documents whose category it changed
+export async function getReclassificationJob(id: number): Promise<ReclassificationJobDetail> {
+  try {
+    const jobs = await db.select()
+      .from(reclassificationJobsTable)
+      .where(eq(reclassificationJobsTable.id, id))
+      .execute();
+
+    if (jobs.length === 0) {
+      throw new Error(`Reclassification job with id ${id} not found`);
+    }
+
+    const rows = await db.select({
+      change: reclassificationChangesTable,
+      document: documentsTable,
+    })
+      .from(reclassificationChangesTable)
+      .innerJoin(documentsTable, eq(reclassificationChangesTable.document_id, documentsTable.id))
+      .where(eq(reclassificationChangesTable.job_id, id))
+      .orderBy(asc(reclassificationChangesTable.id))
+      .execute();
+
+    const categoryIds = [...new Set(rows.flatMap(row => [row.change.previous_category_id, row.change.new_category_id]))]
+      .filter((categoryId): categoryId is number => categoryId !== null);
+    const categories = categoryIds.length === 0 ? [] : await db.select()
+      .from(categoriesTable)
+      .where(inArray(categoriesTable.id, categoryIds))
+      .execute();
+    const findCategory = (categoryId: number | null) => categories.find(category => category.id === categoryId) ?? null;
+
+    return {
+      job: toReclassificationJob(jobs[0]),
+      changes: rows.map(row => ({
+        change: row.change,
+        document: toDocument(row.document),
+        previous_category: findCategory(row.change.previous_category_id),
+        new_category: findCategory(row.change.new_category_id),
+      })),
+    };
+  } catch (error) {
+    console.error('Failed to fetch reclassification job:', error);
+    throw error;
+  }
+}
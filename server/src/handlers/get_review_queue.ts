@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { reviewQueueTable, documentsTable, classificationResultsTable, categoriesTable, type ReviewQueueItem as ReviewQueueItemRow } from '../db/schema';
+import { type GetReviewQueueInput, type ReviewQueueEntry, type ReviewQueueItem } from '../schema';
+import { REVIEW_CLAIM_TIMEOUT_MS, OPEN_REVIEW_STATUSES, isClaimActive } from '../lib/review_queue';
+import { toClassificationResult } from './get_classification_results';
+import { toDocument } from './get_documents';
+import { and, asc, eq, gte, inArray, lt, or } from 'drizzle-orm';
+
+// Expired claims are reported as pending so any reviewer can pick the item up
+export const toReviewQueueItem = (item: ReviewQueueItemRow): ReviewQueueItem =>
+  item.status === 'claimed' && !isClaimActive(item)
+    ? { ...item, status: 'pending', claimed_by: null, claimed_at: null }
+    : item;
+
+// Open items by default, oldest first so the queue is worked in arrival order
+export async function getReviewQueue(input: GetReviewQueueInput = {}): Promise<ReviewQueueEntry[]> {
+  try {
+    const claimCutoff = new Date(Date.now() - REVIEW_CLAIM_TIMEOUT_MS);
+    const statusFilter = input.status === undefined
+      ? inArray(reviewQueueTable.status, OPEN_REVIEW_STATUSES)
+      : input.status === 'pending'
+        ? or(
+          eq(reviewQueueTable.status, 'pending'),
+          and(eq(reviewQueueTable.status, 'claimed'), lt(reviewQueueTable.claimed_at, claimCutoff))
+        )
+        : input.status === 'claimed'
+          ? and(eq(reviewQueueTable.status, 'claimed'), gte(reviewQueueTable.claimed_at, claimCutoff))
+          : eq(reviewQueueTable.status, input.status);
+
+    const rows = await db.select({
+      item: reviewQueueTable,
+      document: documentsTable,
+      result: classificationResultsTable,
+      category: categoriesTable,
+    })
+      .from(reviewQueueTable)
+      .innerJoin(documentsTable, eq(reviewQueueTable.document_id, documentsTable.id))
+      .innerJoin(classificationResultsTable, eq(reviewQueueTable.result_id, classificationResultsTable.id))
+      .leftJoin(categoriesTable, eq(classificationResultsTable.category_id, categoriesTable.id))
+      .where(and(
+        statusFilter,
+        input.reason ? eq(reviewQueueTable.reason, input.reason) : undefined
+      ))
+      .orderBy(asc(reviewQueueTable.created_at), asc(reviewQueueTable.id))
+      .execute();
+
+    return rows.map(row => ({
+      item: toReviewQueueItem(row.item),
+      document: toDocument(row.document),
+      result: toClassificationResult(row.result),
+      category: row.category,
+    }));
+  } catch (error) {
+    console.error('Failed to fetch review queue:', error);
+    throw error;
+  }
+}
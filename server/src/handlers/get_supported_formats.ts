@@ -0,0 +1,6 @@
+import { FILE_TYPES, FILE_FORMATS } from '../lib/extractors';
+import { type SupportedFormat } from '../schema';
+
+// Formats the upload form accepts, from the extractor registry
+export const getSupportedFormats = async (): Promise<SupportedFormat[]> =>
+  FILE_TYPES.map(fileType => ({ file_type: fileType, ...FILE_FORMATS[fileType] }));
@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { documentsTable, classificationResultsTable } from '../db/schema';
+import { type GetUnclassifiedDocumentsInput, type UnclassifiedDocument } from '../schema';
+import { toClassificationResult } from './get_classification_results';
+import { toDocument } from './get_documents';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+
+// Documents whose current result assigns no category, most recently classified first
+export async function getUnclassifiedDocuments(input: GetUnclassifiedDocumentsInput = {}): Promise<UnclassifiedDocument[]> {
+  try {
+    const rows = await db.select({
+      document: documentsTable,
+      result: classificationResultsTable,
+    })
+      .from(documentsTable)
+      .innerJoin(classificationResultsTable, eq(documentsTable.current_result_id, classificationResultsTable.id))
+      .where(and(
+        isNull(classificationResultsTable.category_id),
+        input.reason ? eq(classificationResultsTable.unclassified_reason, input.reason) : undefined
+      ))
+      .orderBy(desc(classificationResultsTable.classified_at), desc(classificationResultsTable.id))
+      .execute();
+
+    return rows.map(row => ({
+      document: toDocument(row.document),
+      result: toClassificationResult(row.result),
+    }));
+  } catch (error) {
+    console.error('Failed to fetch unclassified documents:', error);
+    throw error;
+  }
+}
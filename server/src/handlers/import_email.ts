@@ -0,0 +1,24 @@
+import { readFile } from 'node:fs/promises';
+import { type ImportEmailInput, type ImportEmailFileInput, type DocumentBatchDetail } from '../schema';
+import { queueDocumentBatch } from './upload_archive';
+
+// Every message becomes a document of a new batch, followed by its supported attachments
+export const importEmail = async (input: ImportEmailInput): Promise<DocumentBatchDetail> => {
+  try {
+    const data = Buffer.from(input.file_data, 'base64');
+    return await queueDocumentBatch('email', input.filename, data.length, data);
+  } catch (error) {
+    console.error('Email import failed:', error);
+    throw error;
+  }
+};
+
+export const importEmailFile = async (input: ImportEmailFileInput): Promise<DocumentBatchDetail> => {
+  try {
+    const data = await readFile(input.file_path);
+    return await queueDocumentBatch('email', input.filename, input.file_size, data);
+  } catch (error) {
+    console.error('Email file import failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,100 @@
+import { db } from '../db';
+import { documentsTable, categoriesTable, classificationResultsTable, reviewQueueTable } from '../db/schema';
+import { type OverrideClassificationInput, type OverrideClassificationResponse } from '../schema';
+import { toClassificationResult } from './get_classification_results';
+import { closeReviewItems } from '../lib/review_queue';
+import { toDocument } from './get_documents';
+import { isActionableBy } from './claim_review_item';
+import { and, eq } from 'drizzle-orm';
+
+export const MANUAL_CLASSIFICATION_METHOD = 'Manual';
+
+// Records a reviewer's category for a document; it stays current over later automatic runs.
+// With a review item, the override only goes through while the reviewer may still act on that item.
+export const overrideClassification = async (
+  input: OverrideClassificationInput,
+  reviewItemId?: number
+): Promise<OverrideClassificationResponse> => {
+  try {
+    const documents = await db.select()
+      .from(documentsTable)
+      .where(eq(documentsTable.id, input.document_id))
+      .execute();
+
+    if (documents.length === 0) {
+      throw new Error('Document not found');
+    }
+
+    const categories = await db.select()
+      .from(categoriesTable)
+      .where(eq(categoriesTable.id, input.category_id))
+      .execute();
+
+    if (categories.length === 0) {
+      throw new Error(`Category with id ${input.category_id} not found`);
+    }
+
+    const supersededId = input.supersedes_result_id ?? documents[0].current_result_id;
+    if (supersededId !== null) {
+      const superseded = await db.select()
+        .from(classificationResultsTable)
+        .where(eq(classificationResultsTable.id, supersededId))
+        .execute();
+
+      if (superseded.length === 0 || superseded[0].document_id !== input.document_id) {
+        throw new Error(`Classification result with id ${supersededId} not found for this document`);
+      }
+    }
+
+    const { document, result } = await db.transaction(async tx => {
+      const results = await tx.insert(classificationResultsTable)
+        .values({
+          document_id: input.document_id,
+          category_id: input.category_id,
+          confidence_level: 'high',
+          confidence_score: '1',
+          classification_method: MANUAL_CLASSIFICATION_METHOD,
+          matched_criteria: '[]',
+          reviewer: input.reviewer,
+          override_reason: input.reason,
+          supersedes_result_id: supersededId,
+        })
+        .returning()
+        .execute();
+
+      const updated = await tx.update(documentsTable)
+        .set({ current_result_id: results[0].id })
+        .where(eq(documentsTable.id, input.document_id))
+        .returning()
+        .execute();
+
+      const resolution = { status: 'reassigned' as const, resolved_by: input.reviewer, resolution_result_id: results[0].id };
+      if (reviewItemId === undefined) {
+        // The reviewer's decision resolves any open review of the document
+        await closeReviewItems(tx, input.document_id, resolution);
+      } else {
+        // Re-check the item in the update so one another reviewer resolved or claimed in between is left alone
+        const items = await tx.update(reviewQueueTable)
+          .set({ ...resolution, resolved_at: new Date() })
+          .where(and(eq(reviewQueueTable.id, reviewItemId), isActionableBy(input.reviewer)))
+          .returning()
+          .execute();
+
+        if (items.length === 0) {
+          throw new Error(`Review item with id ${reviewItemId} was resolved or claimed by another reviewer`);
+        }
+      }
+
+      return { document: updated[0], result: results[0] };
+    });
+
+    return {
+      document: toDocument(document),
+      result: toClassificationResult(result),
+      category: categories[0],
+    };
+  } catch (error) {
+    console.error('Classification override failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,86 @@
+import { db } from '../db';
+import { documentsTable, categoriesTable } from '../db/schema';
+import { type PreviewClassificationInput, type ClassificationPreview, type CategoryPreview, type Document } from '../schema';
+import { resolveScoringSettings, getConfidenceLevel } from '../lib/classifier';
+import { getClassificationSettings } from './get_classification_settings';
+import { scoreDocument, getLabelThreshold, selectLabelScores, getUnclassifiedReason } from './classify_document';
+import { toDocument } from './get_documents';
+import { eq, asc } from 'drizzle-orm';
+
+// Explains how classifyDocument would score every category, without storing a result
+export const previewClassification = async (input: PreviewClassificationInput): Promise<ClassificationPreview> => {
+  try {
+    // 1. Resolve the content from the document or the raw text
+    let document: Document | null = null;
+    if (input.document_id !== undefined) {
+      const documents = await db.select()
+        .from(documentsTable)
+        .where(eq(documentsTable.id, input.document_id))
+        .execute();
+
+      if (documents.length === 0) {
+        throw new Error('Document not found');
+      }
+
+      document = toDocument(documents[0]);
+    }
+    const content = document ? document.content : input.text ?? null;
+
+    // 2. Score exactly as classification does and mark the labels it would assign
+    const { categoryScores, skippedCriteria } = await scoreDocument(
+      document ?? { content, metadata: null, filename: null, file_type: null, file_size: null }
+    );
+    const selectedScores = selectLabelScores(categoryScores, getLabelThreshold(input));
+    const selected = new Set(selectedScores.map(categoryScore => categoryScore.category.id));
+
+    const categories: CategoryPreview[] = categoryScores.map((categoryScore, index) => ({
+      category: categoryScore.category,
+      rank: index + 1,
+      score: categoryScore.score,
+      max_score: categoryScore.max_score,
+      normalized_score: categoryScore.normalized_score,
+      confidence_level: categoryScore.confidence_level,
+      vetoed: categoryScore.vetoed,
+      selected: selected.has(categoryScore.category.id),
+      matched_criteria: categoryScore.matched_criteria,
+      unmatched_criteria: categoryScore.unmatched_criteria,
+      match_spans: categoryScore.match_spans,
+    }));
+
+    // 3. Categories without criteria can never match; list them last so the table is complete
+    const allCategories = await db.select().from(categoriesTable).orderBy(asc(categoriesTable.id)).execute();
+    const unscored = allCategories.filter(category => !categoryScores.some(categoryScore => categoryScore.category.id === category.id));
+    if (unscored.length > 0) {
+      const settings = await getClassificationSettings();
+      for (const category of unscored) {
+        const categorySettings = resolveScoringSettings(
+          settings.defaults,
+          settings.category_overrides.find(override => override.category_id === category.id)
+        );
+        categories.push({
+          category,
+          rank: categories.length + 1,
+          score: 0,
+          max_score: 0,
+          normalized_score: 0,
+          confidence_level: getConfidenceLevel(0, categorySettings),
+          vetoed: false,
+          selected: false,
+          matched_criteria: [],
+          unmatched_criteria: [],
+          match_spans: [],
+        });
+      }
+    }
+
+    return {
+      document,
+      categories,
+      unclassified_reason: selectedScores.length === 0 ? getUnclassifiedReason(content, categoryScores) : null,
+      skipped_criteria: skippedCriteria,
+    };
+  } catch (error) {
+    console.error('Classification preview failed:', error);
+    throw error;
+  }
+};
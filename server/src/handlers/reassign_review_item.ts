@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { reviewQueueTable } from '../db/schema';
+import { type ReassignReviewItemInput, type ReviewQueueItem } from '../schema';
+import { getActionableReviewItem } from './claim_review_item';
+import { overrideClassification } from './override_classification';
+import { toReviewQueueItem } from './get_review_queue';
+import { eq } from 'drizzle-orm';
+
+export const DEFAULT_REASSIGN_REASON = 'Reassigned in review queue';
+
+// Records the reviewer's category as a manual override, which resolves the item. The override is rolled
+// back when another reviewer resolves or claims the item first.
+export const reassignReviewItem = async (input: ReassignReviewItemInput): Promise<ReviewQueueItem> => {
+  try {
+    const item = await getActionableReviewItem(input);
+
+    await overrideClassification({
+      document_id: item.document_id,
+      category_id: input.category_id,
+      reviewer: input.reviewer,
+      reason: input.reason ?? DEFAULT_REASSIGN_REASON,
+      supersedes_result_id: item.result_id,
+    }, item.id);
+
+    const items = await db.select()
+      .from(reviewQueueTable)
+      .where(eq(reviewQueueTable.id, item.id))
+      .execute();
+
+    return toReviewQueueItem(items[0]);
+  } catch (error) {
+    console.error('Review item reassignment failed:', error);
+    throw error;
+  }
+};
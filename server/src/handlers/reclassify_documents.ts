@@ -0,0 +1,176 @@
+import { db } from '../db';
+import { documentsTable, classificationResultsTable, reclassificationJobsTable, reclassificationDocumentsTable, reclassificationChangesTable } from '../db/schema';
+import { type ReclassifyDocumentsInput, type ReclassificationJob, type ReclassificationFilter } from '../schema';
+import { classifyDocument, getLabelThreshold } from './classify_document';
+import { toReclassificationJob } from './get_reclassification_job';
+import { enqueueJob, registerJobHandler, type JobContext } from '../lib/jobs';
+import { and, asc, eq, inArray, isNull } from 'drizzle-orm';
+import { z } from 'zod';
+
+export const RECLASSIFY_DOCUMENTS_JOB = 'reclassify_documents';
+
+// Documents selected by the filter with the category they are in before the job runs
+const selectDocuments = async (filter: ReclassificationFilter) => db.select({
+  id: documentsTable.id,
+  current_result_id: documentsTable.current_result_id,
+  current_category_id: classificationResultsTable.category_id,
+})
+  .from(documentsTable)
+  .leftJoin(classificationResultsTable, eq(documentsTable.current_result_id, classificationResultsTable.id))
+  .where(and(
+    filter.document_ids ? inArray(documentsTable.id, filter.document_ids) : undefined,
+    filter.file_type ? eq(documentsTable.file_type, filter.file_type) : undefined,
+    filter.category_id === undefined
+      ? undefined
+      : filter.category_id === null
+        ? isNull(classificationResultsTable.category_id)
+        : eq(classificationResultsTable.category_id, filter.category_id)
+  ))
+  .orderBy(asc(documentsTable.id))
+  .execute();
+
+// The documents the job runs over, selected on its first attempt. A retried attempt reuses the
+// selection, since documents an earlier attempt moved to another category may no longer match the filter.
+const getJobDocuments = async (reclassificationJobId: number, filter: ReclassificationFilter) => {
+  const selected = await db.select()
+    .from(reclassificationDocumentsTable)
+    .where(eq(reclassificationDocumentsTable.job_id, reclassificationJobId))
+    .orderBy(asc(reclassificationDocumentsTable.document_id))
+    .execute();
+  if (selected.length > 0) {
+    return selected.map(row => ({
+      id: row.document_id,
+      current_result_id: row.previous_result_id,
+      current_category_id: row.previous_category_id,
+    }));
+  }
+
+  const documents = await selectDocuments(filter);
+  if (documents.length > 0) {
+    await db.insert(reclassificationDocumentsTable)
+      .values(documents.map(document => ({
+        job_id: reclassificationJobId,
+        document_id: document.id,
+        previous_result_id: document.current_result_id,
+        previous_category_id: document.current_category_id,
+      })))
+      .execute();
+  }
+  return documents;
+};
+
+// Classifies every selected document again, recording progress and each change of category.
+// A retried attempt starts over but compares against the categories from before the first
+// attempt, so documents an earlier attempt already changed are still listed.
+export const runReclassificationJob = async (reclassificationJobId: number, context: JobContext): Promise<void> => {
+  try {
+    await db.delete(reclassificationChangesTable)
+      .where(eq(reclassificationChangesTable.job_id, reclassificationJobId))
+      .execute();
+
+    const jobs = await db.update(reclassificationJobsTable)
+      .set({ status: 'running', started_at: new Date(), total: 0, processed: 0, changed: 0, failed: 0, error: null })
+      .where(eq(reclassificationJobsTable.id, reclassificationJobId))
+      .returning()
+      .execute();
+
+    if (jobs.length === 0) {
+      throw new Error(`Reclassification job with id ${reclassificationJobId} not found`);
+    }
+
+    const job = toReclassificationJob(jobs[0]);
+    const documents = await getJobDocuments(reclassificationJobId, job.filter);
+    await db.update(reclassificationJobsTable)
+      .set({ total: documents.length })
+      .where(eq(reclassificationJobsTable.id, reclassificationJobId))
+      .execute();
+
+    let processed = 0;
+    let changed = 0;
+    let failed = 0;
+    for (const document of documents) {
+      await context.throwIfCancelled();
+      try {
+        const response = await classifyDocument({
+          document_id: document.id,
+          mode: job.mode,
+          threshold: job.threshold ?? undefined,
+        });
+
+        // A manual result stays current, so its category does not change
+        const newResultId = response.document.current_result_id!;
+        const newCategoryId = newResultId === response.result.id ? response.result.category_id : document.current_category_id;
+        if (newCategoryId !== document.current_category_id) {
+          changed++;
+          await db.insert(reclassificationChangesTable)
+            .values({
+              job_id: reclassificationJobId,
+              document_id: document.id,
+              previous_result_id: document.current_result_id,
+              previous_category_id: document.current_category_id,
+              new_result_id: newResultId,
+              new_category_id: newCategoryId,
+            })
+            .execute();
+        }
+      } catch (error) {
+        console.error(`Reclassification of document ${document.id} failed:`, error);
+        failed++;
+      }
+
+      processed++;
+      await db.update(reclassificationJobsTable)
+        .set({ processed, changed, failed })
+        .where(eq(reclassificationJobsTable.id, reclassificationJobId))
+        .execute();
+    }
+
+    await db.update(reclassificationJobsTable)
+      .set({ status: 'completed', completed_at: new Date() })
+      .where(eq(reclassificationJobsTable.id, reclassificationJobId))
+      .execute();
+  } catch (error) {
+    console.error('Reclassification job failed:', error);
+    throw error;
+  }
+};
+
+const finishReclassificationJob = async (payload: Record<string, unknown>, status: 'failed' | 'cancelled', error: string | null) => {
+  await db.update(reclassificationJobsTable)
+    .set({ status, error, completed_at: new Date() })
+    .where(eq(reclassificationJobsTable.id, z.number().parse(payload['reclassification_job_id'])))
+    .execute();
+};
+
+registerJobHandler(RECLASSIFY_DOCUMENTS_JOB, {
+  run: (payload, context) => runReclassificationJob(z.number().parse(payload['reclassification_job_id']), context),
+  onCancelled: payload => finishReclassificationJob(payload, 'cancelled', null),
+  onDead: (payload, error) => finishReclassificationJob(payload, 'failed', error),
+});
+
+// Queues a reclassification for the job worker; poll getReclassificationJob for progress
+export const reclassifyDocuments = async (input: ReclassifyDocumentsInput = {}): Promise<ReclassificationJob> => {
+  try {
+    const threshold = getLabelThreshold(input);
+    const jobs = await db.insert(reclassificationJobsTable)
+      .values({
+        filter: JSON.stringify(input.filter ?? {}),
+        mode: input.mode ?? 'single',
+        threshold: threshold === null ? null : threshold.toString(),
+      })
+      .returning()
+      .execute();
+
+    const backgroundJob = await enqueueJob(RECLASSIFY_DOCUMENTS_JOB, { reclassification_job_id: jobs[0].id });
+    const updated = await db.update(reclassificationJobsTable)
+      .set({ job_id: backgroundJob.id })
+      .where(eq(reclassificationJobsTable.id, jobs[0].id))
+      .returning()
+      .execute();
+
+    return toReclassificationJob(updated[0]);
+  } catch (error) {
+    console.error('Reclassification job creation failed:', error);
+    throw error;
+  }
+};
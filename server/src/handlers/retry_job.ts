@@ -0,0 +1,13 @@
+import { type Job } from '../schema';
+import { retryJob as retryQueuedJob } from '../lib/jobs';
+import { toJob } from './get_jobs';
+
+// Puts a dead or cancelled job back on the queue with a fresh set of attempts
+export async function retryJob(id: number): Promise<Job> {
+  try {
+    return toJob(await retryQueuedJob(id));
+  } catch (error) {
+    console.error('Job retry failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,129 @@
+import { db } from '../db';
+import { categoriesTable, criteriaTable, type Category as CategoryRow, type Criteria as CriteriaRow } from '../db/schema';
+import { getCriteriaScopeError, type TestCriteriaInput, type TestCriteriaResponse, type TestedCriteria } from '../schema';
+import { scoreCategories, findScopedMatches, getScopeText, parseComposite, getCompositeReferences, type ClassifiableDocument } from '../lib/classifier';
+import { getClassificationSettings } from './get_classification_settings';
+import { validateCriteriaPattern } from './create_criteria';
+import { eq, inArray } from 'drizzle-orm';
+
+// Stands in for the category when the criteria are not tested against a saved one
+const SANDBOX_CATEGORY: CategoryRow = {
+  id: 0,
+  name: 'Sandbox',
+  color: '#6B7280',
+  description: null,
+  created_at: new Date(0),
+};
+
+// Runs unsaved criteria against sample text the same way classification would, without storing anything
+export const testCriteria = async (input: TestCriteriaInput): Promise<TestCriteriaResponse> => {
+  try {
+    let category = SANDBOX_CATEGORY;
+    if (input.category_id !== undefined) {
+      const categories = await db.select()
+        .from(categoriesTable)
+        .where(eq(categoriesTable.id, input.category_id))
+        .execute();
+
+      if (categories.length === 0) {
+        throw new Error(`Category with id ${input.category_id} not found`);
+      }
+      category = categories[0];
+    }
+
+    // Negative ids keep unsaved criteria apart from saved criteria that composite rules reference
+    const rows: CriteriaRow[] = input.criteria.map((definition, index) => ({
+      id: -(index + 1),
+      category_id: category.id,
+      name: definition.name || `Criteria ${index + 1}`,
+      pattern: definition.pattern,
+      match_type: definition.match_type ?? 'regex',
+      weight: (definition.weight ?? 1).toString(),
+      is_veto: definition.is_veto ?? false,
+      frequency_mode: definition.frequency_mode ?? 'presence',
+      position_mode: definition.position_mode ?? 'anywhere',
+      position_window: definition.position_window ?? null,
+      scope: definition.scope ?? 'content',
+      metadata_key: definition.metadata_key ?? null,
+      size_min: definition.size_min ?? null,
+      size_max: definition.size_max ?? null,
+      created_at: new Date(),
+    }));
+
+    // Invalid criteria are reported individually and left out of matching
+    const errors = new Map<number, string>();
+    for (const row of rows) {
+      try {
+        const scopeError = getCriteriaScopeError(row);
+        if (scopeError) {
+          throw new Error(scopeError);
+        }
+        if (row.scope !== 'size') {
+          await validateCriteriaPattern(row.pattern, row.match_type);
+        }
+      } catch (error) {
+        errors.set(row.id, error instanceof Error ? error.message : String(error));
+      }
+    }
+    const validRows = rows.filter(row => !errors.has(row.id));
+
+    // Saved criteria referenced by composite rules are matched but not scored
+    const referencedIds = [...new Set(validRows
+      .filter(row => row.match_type === 'composite')
+      .flatMap(row => getCompositeReferences(parseComposite(row.pattern))))];
+    const referenced = referencedIds.length > 0
+      ? await db.select().from(criteriaTable).where(inArray(criteriaTable.id, referencedIds)).execute()
+      : [];
+
+    const sample: ClassifiableDocument = {
+      content: input.sample_text,
+      metadata: input.sample_metadata ?? null,
+      filename: input.sample_file?.filename ?? null,
+      file_type: input.sample_file?.file_type ?? null,
+      file_size: input.sample_file?.file_size ?? null,
+    };
+    const { matches, timed_out } = await findScopedMatches(sample, [...validRows, ...referenced]);
+    const settings = await getClassificationSettings();
+    const [categoryScore] = scoreCategories(
+      sample,
+      validRows.map(criteria => ({ criteria, categories: category })),
+      matches,
+      settings.defaults,
+      settings.category_overrides
+    );
+
+    const criteria: TestedCriteria[] = rows.map((row, index) => ({
+      name: row.name,
+      pattern: row.pattern,
+      match_type: row.match_type,
+      weight: parseFloat(row.weight),
+      is_veto: row.is_veto,
+      frequency_mode: row.frequency_mode,
+      position_mode: row.position_mode,
+      position_window: row.position_window,
+      scope: row.scope,
+      metadata_key: input.criteria[index].metadata_key ?? null,
+      size_min: row.size_min,
+      size_max: row.size_max,
+      error: errors.get(row.id) ?? null,
+      timed_out: timed_out.includes(row.id),
+      matches: (matches.get(row.id) ?? []).map(range => ({
+        ...range,
+        text: getScopeText(sample, row).slice(range.start, range.end),
+      })),
+      contribution: categoryScore?.matched_criteria.find(matched => matched.id === row.id)?.contribution ?? 0,
+    }));
+
+    return {
+      criteria,
+      score: categoryScore?.score ?? 0,
+      max_score: categoryScore?.max_score ?? 0,
+      normalized_score: categoryScore?.normalized_score ?? 0,
+      confidence_level: categoryScore?.confidence_level ?? 'low',
+      vetoed: categoryScore?.vetoed ?? false,
+    };
+  } catch (error) {
+    console.error('Criteria test failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,66 @@
+import { db } from '../db';
+import { categoriesTable, categorySettingsTable } from '../db/schema';
+import { type UpdateCategorySettingsInput, type CategorySettings } from '../schema';
+import { resolveScoringSettings } from '../lib/classifier';
+import { getDefaultSettings, toCategorySettings } from './get_classification_settings';
+import { eq } from 'drizzle-orm';
+
+const toNumeric = (value: number | null): string | null => value === null ? null : value.toString();
+
+export const updateCategorySettings = async (input: UpdateCategorySettingsInput): Promise<CategorySettings> => {
+  try {
+    // Verify that the referenced category exists
+    const existingCategory = await db.select()
+      .from(categoriesTable)
+      .where(eq(categoriesTable.id, input.category_id))
+      .execute();
+
+    if (existingCategory.length === 0) {
+      throw new Error(`Category with id ${input.category_id} not found`);
+    }
+
+    const existingSettings = await db.select()
+      .from(categorySettingsTable)
+      .where(eq(categorySettingsTable.category_id, input.category_id))
+      .execute();
+
+    const current = existingSettings.length > 0 ? toCategorySettings(existingSettings[0]) : null;
+
+    // Merge provided fields over the stored overrides; undefined keeps, null clears
+    const next = {
+      normalization_mode: input.normalization_mode !== undefined ? input.normalization_mode : current?.normalization_mode ?? null,
+      normalization_divisor: input.normalization_divisor !== undefined ? input.normalization_divisor : current?.normalization_divisor ?? null,
+      high_threshold: input.high_threshold !== undefined ? input.high_threshold : current?.high_threshold ?? null,
+      medium_threshold: input.medium_threshold !== undefined ? input.medium_threshold : current?.medium_threshold ?? null,
+    };
+
+    // Validate the thresholds the category will actually use
+    const effective = resolveScoringSettings(await getDefaultSettings(), { ...next, category_id: input.category_id, updated_at: new Date() });
+    if (effective.medium_threshold > effective.high_threshold) {
+      throw new Error('Medium confidence threshold cannot be greater than the high threshold');
+    }
+
+    const values = {
+      category_id: input.category_id,
+      normalization_mode: next.normalization_mode,
+      normalization_divisor: toNumeric(next.normalization_divisor),
+      high_threshold: toNumeric(next.high_threshold),
+      medium_threshold: toNumeric(next.medium_threshold),
+      updated_at: new Date(),
+    };
+
+    const result = await db.insert(categorySettingsTable)
+      .values(values)
+      .onConflictDoUpdate({
+        target: categorySettingsTable.category_id,
+        set: values,
+      })
+      .returning()
+      .execute();
+
+    return toCategorySettings(result[0]);
+  } catch (error) {
+    console.error('Category settings update failed:', error);
+    throw error;
+  }
+};
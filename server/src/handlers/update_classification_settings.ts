@@ -0,0 +1,61 @@
+import { db } from '../db';
+import { categoriesTable, categorySettingsTable, classificationSettingsTable } from '../db/schema';
+import { type UpdateClassificationSettingsInput, type ClassificationSettings } from '../schema';
+import { resolveScoringSettings } from '../lib/classifier';
+import { getDefaultSettings, toCategorySettings, toClassificationSettings } from './get_classification_settings';
+import { eq } from 'drizzle-orm';
+
+export const updateClassificationSettings = async (input: UpdateClassificationSettingsInput): Promise<ClassificationSettings> => {
+  try {
+    const current = await getDefaultSettings();
+    const next = {
+      ...current,
+      high_threshold: input.high_threshold ?? current.high_threshold,
+      medium_threshold: input.medium_threshold ?? current.medium_threshold,
+    };
+    if (next.medium_threshold > next.high_threshold) {
+      throw new Error('Medium confidence threshold cannot be greater than the high threshold');
+    }
+
+    // Categories that override only one threshold pair it with the new global one
+    const overrides = await db.select()
+      .from(categorySettingsTable)
+      .innerJoin(categoriesTable, eq(categorySettingsTable.category_id, categoriesTable.id))
+      .execute();
+
+    for (const row of overrides) {
+      const effective = resolveScoringSettings(next, toCategorySettings(row.category_settings));
+      if (effective.medium_threshold > effective.high_threshold) {
+        throw new Error(`Medium confidence threshold cannot be greater than the high threshold for category ${row.categories.name}`);
+      }
+    }
+
+    // Build update object with only provided fields
+    const updateData: Partial<typeof classificationSettingsTable.$inferInsert> = {
+      updated_at: new Date(),
+    };
+
+    if (input.normalization_mode !== undefined) {
+      updateData.normalization_mode = input.normalization_mode;
+    }
+    if (input.normalization_divisor !== undefined) {
+      updateData.normalization_divisor = input.normalization_divisor.toString();
+    }
+    if (input.high_threshold !== undefined) {
+      updateData.high_threshold = input.high_threshold.toString();
+    }
+    if (input.medium_threshold !== undefined) {
+      updateData.medium_threshold = input.medium_threshold.toString();
+    }
+
+    const result = await db.update(classificationSettingsTable)
+      .set(updateData)
+      .returning()
+      .execute();
+
+    return toClassificationSettings(result[0]);
+  } catch (error) {
+    console.error('Classification settings update failed:', error);
+    throw error;
+  }
+};
@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { criteriaTable, categoriesTable } from '../db/schema';
-import { type UpdateCriteriaInput, type Criteria } from '../schema';
+import { getCriteriaScopeError, type UpdateCriteriaInput, type Criteria } from '../schema';
+import { validateCriteriaPattern, getReferencingComposites } from './create_criteria';
 import { eq } from 'drizzle-orm';
 
 export const updateCriteria = async (input: UpdateCriteriaInput): Promise<Criteria> => {
@@ -27,6 +28,44 @@ export const updateCriteria = async (input: UpdateCriteriaInput): Promise<Criter
       }
     }
 
+    // Moving to another scope drops the fields it does not take unless they are sent, which is then rejected
+    const existing = existingCriteria[0];
+    const scope = input.scope ?? existing.scope;
+    const keepFor = <T>(sent: T | undefined, stored: T | null, applies: boolean): T | null =>
+      sent !== undefined ? sent : applies ? stored : null;
+    const scopeFields = {
+      scope,
+      pattern: input.pattern ?? existing.pattern,
+      metadata_key: keepFor(input.metadata_key, existing.metadata_key, scope === 'metadata'),
+      size_min: keepFor(input.size_min, existing.size_min, scope === 'size'),
+      size_max: keepFor(input.size_max, existing.size_max, scope === 'size'),
+    };
+    const scopeError = getCriteriaScopeError(scopeFields);
+    if (scopeError) {
+      throw new Error(scopeError);
+    }
+
+    // Validate the pattern against the match type it will be stored with; size criteria do not use it
+    if (scope !== 'size' && (input.pattern !== undefined || input.match_type !== undefined || input.scope !== undefined)) {
+      await validateCriteriaPattern(scopeFields.pattern, input.match_type ?? existing.match_type, input.id);
+    }
+
+    // Composite rules match text, so the criteria they reference cannot become size criteria
+    if (scope === 'size' && existing.scope !== 'size') {
+      const referencedBy = await getReferencingComposites(input.id);
+      if (referencedBy.length > 0) {
+        throw new Error(`Criteria is referenced by composite rule "${referencedBy[0].name}" and cannot move to size scope`);
+      }
+    }
+
+    // Composite rules may only reference plain criteria
+    if (input.match_type === 'composite' && existingCriteria[0].match_type !== 'composite') {
+      const referencedBy = await getReferencingComposites(input.id);
+      if (referencedBy.length > 0) {
+        throw new Error(`Criteria is referenced by composite rule "${referencedBy[0].name}" and cannot become a composite rule`);
+      }
+    }
+
     // Build update object with only provided fields
     const updateData: any = {};
     
@@ -39,9 +78,30 @@ export const updateCriteria = async (input: UpdateCriteriaInput): Promise<Criter
     if (input.pattern !== undefined) {
       updateData.pattern = input.pattern;
     }
+    if (input.match_type !== undefined) {
+      updateData.match_type = input.match_type;
+    }
     if (input.weight !== undefined) {
       updateData.weight = input.weight.toString(); // Convert number to string for numeric column
     }
+    if (input.is_veto !== undefined) {
+      updateData.is_veto = input.is_veto;
+    }
+    if (input.frequency_mode !== undefined) {
+      updateData.frequency_mode = input.frequency_mode;
+    }
+    if (input.position_mode !== undefined) {
+      updateData.position_mode = input.position_mode;
+    }
+    if (input.position_window !== undefined) {
+      updateData.position_window = input.position_window;
+    }
+    if (input.scope !== undefined || input.metadata_key !== undefined || input.size_min !== undefined || input.size_max !== undefined) {
+      updateData.scope = scopeFields.scope;
+      updateData.metadata_key = scopeFields.metadata_key;
+      updateData.size_min = scopeFields.size_min;
+      updateData.size_max = scopeFields.size_max;
+    }
 
     // Update criteria record
     const result = await db.update(criteriaTable)
@@ -0,0 +1,162 @@
+import { randomUUID } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { db } from '../db';
+import { documentBatchesTable, documentsTable } from '../db/schema';
+import { type UploadArchiveInput, type UploadArchiveFileInput, type DocumentBatchDetail } from '../schema';
+import { ArchiveError, checkArchive, expandArchive, type ExpandedArchive } from '../lib/archive';
+import { checkEmails, expandEmails } from '../lib/mailbox';
+import { enqueueJob, registerJobHandler, type JobContext } from '../lib/jobs';
+import { getStorage } from '../lib/storage';
+import { saveDocumentFile } from './upload_document';
+import { getDocumentBatch } from './get_document_batch';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+export const IMPORT_DOCUMENT_BATCH_JOB = 'import_document_batch';
+
+// What kind of upload a batch was expanded from
+const batchSourceSchema = z.enum(['archive', 'email']);
+
+export type BatchSource = z.infer<typeof batchSourceSchema>;
+
+const expandBatchFile = (source: BatchSource, filename: string, data: Uint8Array): ExpandedArchive => {
+  if (source === 'email') {
+    const expanded = expandEmails(filename, data);
+    if (expanded.entries.length === 0) {
+      throw new ArchiveError('Mailbox contains no messages');
+    }
+    return expanded;
+  }
+
+  const expanded = expandArchive(data);
+  if (expanded.entries.length === 0) {
+    throw new ArchiveError('Archive contains no supported documents');
+  }
+  return expanded;
+};
+
+// Saves each entry as a document of the batch; entries that cannot be read are recorded on the batch instead
+// of failing it. A retried attempt keeps the documents an earlier attempt saved rather than saving them twice.
+export const runDocumentBatchImport = async (batchId: number, source: BatchSource, context: JobContext): Promise<void> => {
+  try {
+    const batches = await db.update(documentBatchesTable)
+      .set({ status: 'running', error: null })
+      .where(eq(documentBatchesTable.id, batchId))
+      .returning()
+      .execute();
+
+    if (batches.length === 0) {
+      throw new Error(`Document batch with id ${batchId} not found`);
+    }
+
+    const batch = batches[0];
+    if (batch.storage_key === null) {
+      throw new Error(`Document batch ${batchId} has no uploaded file to import`);
+    }
+
+    const data = await getStorage().get(batch.storage_key);
+    const { entries, skipped } = expandBatchFile(source, batch.filename, data);
+
+    // Mailbox messages with the same subject share a filename, so saved documents are counted per name
+    const saved = new Map<string, number>();
+    const existing = await db.select({ filename: documentsTable.filename })
+      .from(documentsTable)
+      .where(eq(documentsTable.batch_id, batchId))
+      .execute();
+    for (const { filename } of existing) {
+      saved.set(filename, (saved.get(filename) ?? 0) + 1);
+    }
+
+    for (const entry of entries) {
+      await context.throwIfCancelled();
+      const savedCount = saved.get(entry.path) ?? 0;
+      if (savedCount > 0) {
+        saved.set(entry.path, savedCount - 1);
+        continue;
+      }
+      try {
+        await saveDocumentFile(entry.path, entry.file_type, entry.data.length, entry.data, batchId);
+      } catch (error) {
+        skipped.push({ path: entry.path, reason: `Could not be read: ${error instanceof Error ? error.message : error}` });
+      }
+    }
+
+    await db.update(documentBatchesTable)
+      .set({ status: 'completed', skipped_entries: JSON.stringify(skipped), storage_key: null, completed_at: new Date() })
+      .where(eq(documentBatchesTable.id, batchId))
+      .execute();
+    await getStorage().delete(batch.storage_key).catch(() => undefined);
+  } catch (error) {
+    console.error('Document batch import failed:', error);
+    throw error;
+  }
+};
+
+// The uploaded file is kept, so retryJob can run the import again
+const finishDocumentBatchImport = async (payload: Record<string, unknown>, status: 'failed' | 'cancelled', error: string | null) => {
+  await db.update(documentBatchesTable)
+    .set({ status, error, completed_at: new Date() })
+    .where(eq(documentBatchesTable.id, z.number().parse(payload['batch_id'])))
+    .execute();
+};
+
+registerJobHandler(IMPORT_DOCUMENT_BATCH_JOB, {
+  run: (payload, context) => runDocumentBatchImport(z.number().parse(payload['batch_id']), batchSourceSchema.parse(payload['source']), context),
+  onCancelled: payload => finishDocumentBatchImport(payload, 'cancelled', null),
+  onDead: (payload, error) => finishDocumentBatchImport(payload, 'failed', error),
+  // An upload that cannot be expanded will not expand on the next attempt either
+  shouldRetry: error => !(error instanceof ArchiveError),
+});
+
+// Stores the upload and queues the text extraction of its entries; poll getDocumentBatch until the batch
+// is completed. Only a quick check runs up front, so uploads that are plainly unusable are rejected straight away.
+export const queueDocumentBatch = async (source: BatchSource, filename: string, fileSize: number, data: Uint8Array): Promise<DocumentBatchDetail> => {
+  if (source === 'email') {
+    checkEmails(filename, data);
+  } else {
+    checkArchive(data);
+  }
+
+  const storageKey = `imports/${randomUUID()}`;
+  const storage = getStorage();
+  await storage.put(storageKey, data, 'application/octet-stream');
+
+  try {
+    const batches = await db.insert(documentBatchesTable)
+      .values({ filename, file_size: fileSize, storage_key: storageKey })
+      .returning()
+      .execute();
+
+    const backgroundJob = await enqueueJob(IMPORT_DOCUMENT_BATCH_JOB, { batch_id: batches[0].id, source });
+    await db.update(documentBatchesTable)
+      .set({ job_id: backgroundJob.id })
+      .where(eq(documentBatchesTable.id, batches[0].id))
+      .execute();
+
+    return await getDocumentBatch(batches[0].id);
+  } catch (error) {
+    // Do not leave an unreferenced object behind
+    await storage.delete(storageKey).catch(() => undefined);
+    throw error;
+  }
+};
+
+export const uploadArchive = async (input: UploadArchiveInput): Promise<DocumentBatchDetail> => {
+  try {
+    const data = Buffer.from(input.file_data, 'base64');
+    return await queueDocumentBatch('archive', input.filename, data.length, data);
+  } catch (error) {
+    console.error('Archive upload failed:', error);
+    throw error;
+  }
+};
+
+export const uploadArchiveFile = async (input: UploadArchiveFileInput): Promise<DocumentBatchDetail> => {
+  try {
+    const data = await readFile(input.file_path);
+    return await queueDocumentBatch('archive', input.filename, input.file_size, data);
+  } catch (error) {
+    console.error('Archive file upload failed:', error);
+    throw error;
+  }
+};
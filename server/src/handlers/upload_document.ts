@@ -1,29 +1,93 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
 import { db } from '../db';
 import { documentsTable } from '../db/schema';
-import { type UploadDocumentInput, type Document } from '../schema';
+import { type UploadDocumentInput, type UploadDocumentFileInput, type Document, type FileType } from '../schema';
+import { extractDocumentText, FILE_FORMATS } from '../lib/extractors';
+import { getStorage } from '../lib/storage';
+
+const insertDocument = async (values: typeof documentsTable.$inferInsert): Promise<Document> => {
+  // Insert document record
+  const result = await db.insert(documentsTable)
+    .values(values)
+    .returning()
+    .execute();
+
+  // Return the created document
+  const document = result[0];
+  return {
+    ...document,
+    metadata: document.metadata === null ? null : JSON.parse(document.metadata),
+    // Convert timestamp to Date object for consistency with schema
+    uploaded_at: new Date(document.uploaded_at)
+  };
+};
+
+// Extract text from the original file, then keep the original so it can be downloaded or re-extracted later
+export const saveDocumentFile = async (
+  filename: string,
+  fileType: FileType,
+  fileSize: number,
+  data: Uint8Array,
+  batchId: number | null = null
+): Promise<Document> => {
+  const extracted = await extractDocumentText(fileType, data);
+
+  const storageKey = `documents/${randomUUID()}.${fileType}`;
+  const mimeType = FILE_FORMATS[fileType].mime_types[0];
+  const storage = getStorage();
+  await storage.put(storageKey, data, mimeType);
+
+  try {
+    return await insertDocument({
+      filename,
+      file_type: fileType,
+      file_size: fileSize,
+      content: extracted.content || null,
+      page_count: extracted.page_count,
+      storage_key: storageKey,
+      content_hash: createHash('sha256').update(data).digest('hex'),
+      mime_type: mimeType,
+      metadata: JSON.stringify(extracted.metadata ?? {}),
+      batch_id: batchId,
+    });
+  } catch (error) {
+    // Do not leave an unreferenced object behind
+    await storage.delete(storageKey).catch(() => undefined);
+    throw error;
+  }
+};
 
 export const uploadDocument = async (input: UploadDocumentInput): Promise<Document> => {
   try {
-    // Insert document record
-    const result = await db.insert(documentsTable)
-      .values({
-        filename: input.filename,
-        file_type: input.file_type,
-        file_size: input.file_size,
-        content: input.content || null, // Use provided content or null
-      })
-      .returning()
-      .execute();
-
-    // Return the created document
-    const document = result[0];
-    return {
-      ...document,
-      // Convert timestamp to Date object for consistency with schema
-      uploaded_at: new Date(document.uploaded_at)
-    };
+    // Raw file bytes take precedence over client-supplied text
+    if (input.file_data) {
+      const data = Buffer.from(input.file_data, 'base64');
+      // The stored size is that of the decoded bytes, so a size the client got wrong is refused
+      if (input.file_size !== data.length) {
+        throw new Error(`Declared file size ${input.file_size} does not match the ${data.length} bytes of file data`);
+      }
+      return await saveDocumentFile(input.filename, input.file_type, data.length, data);
+    }
+
+    return await insertDocument({
+      filename: input.filename,
+      file_type: input.file_type,
+      file_size: input.file_size,
+      content: input.content || null, // Use provided content or null
+    });
   } catch (error) {
     console.error('Document upload failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+export const uploadDocumentFile = async (input: UploadDocumentFileInput): Promise<Document> => {
+  try {
+    const data = await readFile(input.file_path);
+    return await saveDocumentFile(input.filename, input.file_type, input.file_size, data);
+  } catch (error) {
+    console.error('Document file upload failed:', error);
+    throw error;
+  }
+};
@@ -2,6 +2,15 @@ import { db } from '../db';
 import { sql } from 'drizzle-orm';
 import * as schema from "../db/schema";
 import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// Keep files uploaded by tests out of the working tree
+process.env['STORAGE_LOCAL_PATH'] ??= join(tmpdir(), 'document-classifier-test-storage');
+
+// drizzle-kit/api installs an enumerable Array.prototype.random, which pdf.js
+// refuses to run alongside; hide it so extraction works inside the test process
+Object.defineProperty(Array.prototype, 'random', { enumerable: false });
 
 export const resetDB = async () => {
   await db.execute(sql`drop schema if exists public cascade`);
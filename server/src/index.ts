@@ -11,8 +11,24 @@ import {
   updateCategoryInputSchema,
   createCriteriaInputSchema,
   updateCriteriaInputSchema,
+  testCriteriaInputSchema,
   uploadDocumentInputSchema,
+  uploadArchiveInputSchema,
+  importEmailInputSchema,
   classifyDocumentInputSchema,
+  classifyBatchInputSchema,
+  previewClassificationInputSchema,
+  getUnclassifiedDocumentsInputSchema,
+  getClassificationResultsInputSchema,
+  overrideClassificationInputSchema,
+  getReviewQueueInputSchema,
+  reviewItemInputSchema,
+  reassignReviewItemInputSchema,
+  disputeClassificationInputSchema,
+  reclassifyDocumentsInputSchema,
+  getJobsInputSchema,
+  updateClassificationSettingsInputSchema,
+  updateCategorySettingsInputSchema,
 } from './schema';
 
 // Import handler functions
@@ -24,10 +40,37 @@ import { getCriteria } from './handlers/get_criteria';
 import { createCriteria } from './handlers/create_criteria';
 import { updateCriteria } from './handlers/update_criteria';
 import { deleteCriteria } from './handlers/delete_criteria';
+import { testCriteria } from './handlers/test_criteria';
+import { getClassificationSettings } from './handlers/get_classification_settings';
+import { updateClassificationSettings } from './handlers/update_classification_settings';
+import { updateCategorySettings } from './handlers/update_category_settings';
 import { uploadDocument } from './handlers/upload_document';
+import { getSupportedFormats } from './handlers/get_supported_formats';
+import { uploadArchive } from './handlers/upload_archive';
+import { importEmail } from './handlers/import_email';
+import { getDocumentBatch } from './handlers/get_document_batch';
 import { classifyDocument } from './handlers/classify_document';
+import { classifyBatch } from './handlers/classify_batch';
+import { previewClassification } from './handlers/preview_classification';
+import { overrideClassification } from './handlers/override_classification';
 import { getDocuments } from './handlers/get_documents';
+import { downloadDocument } from './handlers/download_document';
 import { getClassificationResults } from './handlers/get_classification_results';
+import { getUnclassifiedDocuments } from './handlers/get_unclassified_documents';
+import { getDocumentClassificationHistory } from './handlers/get_document_classification_history';
+import { getReviewQueue } from './handlers/get_review_queue';
+import { claimReviewItem } from './handlers/claim_review_item';
+import { acceptReviewItem } from './handlers/accept_review_item';
+import { reassignReviewItem } from './handlers/reassign_review_item';
+import { disputeClassification } from './handlers/dispute_classification';
+import { reclassifyDocuments } from './handlers/reclassify_documents';
+import { getReclassificationJob } from './handlers/get_reclassification_job';
+import { getJobs } from './handlers/get_jobs';
+import { getJob } from './handlers/get_job';
+import { cancelJob } from './handlers/cancel_job';
+import { retryJob } from './handlers/retry_job';
+import { startJobWorker } from './lib/jobs';
+import { handleMultipartUpload, UPLOAD_PATH } from './lib/multipart_upload';
 
 const t = initTRPC.create({
   transformer: superjson,
@@ -74,21 +117,127 @@ const appRouter = router({
     .input(z.object({ id: z.number() }))
     .mutation(({ input }) => deleteCriteria(input.id)),
 
+  // A mutation so sample text travels in the request body; nothing is stored
+  testCriteria: publicProcedure
+    .input(testCriteriaInputSchema)
+    .mutation(({ input }) => testCriteria(input)),
+
+  // Scoring settings endpoints
+  getClassificationSettings: publicProcedure
+    .query(() => getClassificationSettings()),
+
+  updateClassificationSettings: publicProcedure
+    .input(updateClassificationSettingsInputSchema)
+    .mutation(({ input }) => updateClassificationSettings(input)),
+
+  updateCategorySettings: publicProcedure
+    .input(updateCategorySettingsInputSchema)
+    .mutation(({ input }) => updateCategorySettings(input)),
+
   // Document processing endpoints
+  getSupportedFormats: publicProcedure
+    .query(() => getSupportedFormats()),
+
   uploadDocument: publicProcedure
     .input(uploadDocumentInputSchema)
     .mutation(({ input }) => uploadDocument(input)),
 
+  // Archives and emails are imported by a background job; poll getDocumentBatch until the batch is completed
+  uploadArchive: publicProcedure
+    .input(uploadArchiveInputSchema)
+    .mutation(({ input }) => uploadArchive(input)),
+  importEmail: publicProcedure
+    .input(importEmailInputSchema)
+    .mutation(({ input }) => importEmail(input)),
+
+  getDocumentBatch: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .query(({ input }) => getDocumentBatch(input.id)),
+
   classifyDocument: publicProcedure
     .input(classifyDocumentInputSchema)
     .mutation(({ input }) => classifyDocument(input)),
 
+  // Classifies many documents concurrently; one failure does not fail the batch
+  classifyBatch: publicProcedure
+    .input(classifyBatchInputSchema)
+    .mutation(({ input }) => classifyBatch(input)),
+
+  // A mutation so raw text travels in the request body; nothing is stored
+  previewClassification: publicProcedure
+    .input(previewClassificationInputSchema)
+    .mutation(({ input }) => previewClassification(input)),
+
+  overrideClassification: publicProcedure
+    .input(overrideClassificationInputSchema)
+    .mutation(({ input }) => overrideClassification(input)),
+
+  // Starts a background job; poll getReclassificationJob for progress and the summary
+  reclassifyDocuments: publicProcedure
+    .input(reclassifyDocumentsInputSchema.optional())
+    .mutation(({ input }) => reclassifyDocuments(input)),
+
+  getReclassificationJob: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .query(({ input }) => getReclassificationJob(input.id)),
+
   getDocuments: publicProcedure
     .query(() => getDocuments()),
 
+  downloadDocument: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .query(({ input }) => downloadDocument(input.id)),
+
   // Classification results endpoint
   getClassificationResults: publicProcedure
-    .query(() => getClassificationResults()),
+    .input(getClassificationResultsInputSchema.optional())
+    .query(({ input }) => getClassificationResults(input)),
+
+  getDocumentClassificationHistory: publicProcedure
+    .input(z.object({ document_id: z.number() }))
+    .query(({ input }) => getDocumentClassificationHistory(input.document_id)),
+
+  getUnclassifiedDocuments: publicProcedure
+    .input(getUnclassifiedDocumentsInputSchema.optional())
+    .query(({ input }) => getUnclassifiedDocuments(input)),
+
+  // Review queue endpoints
+  getReviewQueue: publicProcedure
+    .input(getReviewQueueInputSchema.optional())
+    .query(({ input }) => getReviewQueue(input)),
+
+  claimReviewItem: publicProcedure
+    .input(reviewItemInputSchema)
+    .mutation(({ input }) => claimReviewItem(input)),
+
+  acceptReviewItem: publicProcedure
+    .input(reviewItemInputSchema)
+    .mutation(({ input }) => acceptReviewItem(input)),
+
+  reassignReviewItem: publicProcedure
+    .input(reassignReviewItemInputSchema)
+    .mutation(({ input }) => reassignReviewItem(input)),
+
+  disputeClassification: publicProcedure
+    .input(disputeClassificationInputSchema)
+    .mutation(({ input }) => disputeClassification(input)),
+
+  // Background job endpoints
+  getJobs: publicProcedure
+    .input(getJobsInputSchema.optional())
+    .query(({ input }) => getJobs(input)),
+
+  getJob: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .query(({ input }) => getJob(input.id)),
+
+  cancelJob: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => cancelJob(input.id)),
+
+  retryJob: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => retryJob(input.id)),
 });
 
 export type AppRouter = typeof appRouter;
@@ -97,7 +246,22 @@ async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      cors()(req, res, () => {
+        // Binary uploads bypass tRPC so file bytes are streamed rather than JSON-encoded
+        if (req.method === 'POST' && req.url?.split('?')[0] === UPLOAD_PATH) {
+          // Failures outside the handler's own error response, such as creating or removing its temporary directory
+          handleMultipartUpload(req, res).catch(error => {
+            console.error('Multipart upload failed:', error);
+            if (!res.headersSent) {
+              res.statusCode = 500;
+              res.setHeader('Content-Type', 'application/json');
+              res.end(JSON.stringify({ error: 'Upload failed' }));
+            }
+          });
+          return;
+        }
+        next();
+      });
     },
     router: appRouter,
     createContext() {
@@ -105,12 +269,18 @@ async function start() {
     },
   });
   server.listen(port);
+  startJobWorker();
   console.log(`TRPC server listening at port: ${port}`);
   console.log('Document Classifier API endpoints:');
   console.log('- Categories: getCategories, createCategory, updateCategory, deleteCategory');
-  console.log('- Criteria: getCriteria, createCriteria, updateCriteria, deleteCriteria');
-  console.log('- Documents: uploadDocument, classifyDocument, getDocuments');
-  console.log('- Results: getClassificationResults');
+  console.log('- Criteria: getCriteria, createCriteria, updateCriteria, deleteCriteria, testCriteria');
+  console.log('- Settings: getClassificationSettings, updateClassificationSettings, updateCategorySettings');
+  console.log('- Documents: getSupportedFormats, uploadDocument, uploadArchive, importEmail, getDocumentBatch, classifyDocument, classifyBatch, previewClassification, overrideClassification, getDocuments, downloadDocument');
+  console.log('- Reclassification: reclassifyDocuments, getReclassificationJob');
+  console.log(`- Uploads: POST ${UPLOAD_PATH} (multipart/form-data)`);
+  console.log('- Results: getClassificationResults, getDocumentClassificationHistory, getUnclassifiedDocuments');
+  console.log('- Review: getReviewQueue, claimReviewItem, acceptReviewItem, reassignReviewItem, disputeClassification');
+  console.log('- Jobs: getJobs, getJob, cancelJob, retryJob');
 }
 
 start();
\ No newline at end of file
@@ -0,0 +1,153 @@
+import { posix } from 'node:path';
+import { unzipSync } from 'fflate';
+import { type FileType, type SkippedArchiveEntry } from '../schema';
+import { getFileTypeForFilename } from './extractors/formats';
+
+// Bounds on what a single upload may expand to, so a small zip bomb cannot exhaust memory
+export const ARCHIVE_LIMITS = {
+  maxEntries: 500, // Files across the archive and every nested archive
+  maxEntrySize: 10 * 1024 * 1024, // Uncompressed, the same as a single upload
+  maxTotalSize: 100 * 1024 * 1024, // Uncompressed, across every extracted file
+  maxDepth: 2, // Archives nested deeper than this are skipped
+};
+
+export type ArchiveLimits = typeof ARCHIVE_LIMITS;
+
+// An archive that cannot be expanded at all, as opposed to individual entries being skipped
+export class ArchiveError extends Error {}
+
+export interface ArchiveEntry {
+  path: string; // Path inside the archive; nested archives are joined with '/'
+  file_type: FileType;
+  data: Uint8Array;
+}
+
+export interface ExpandedArchive {
+  entries: ArchiveEntry[]; // In archive order
+  skipped: SkippedArchiveEntry[];
+}
+
+// Metadata some archivers add next to the real files
+const isMetadataEntry = (name: string) =>
+  name.startsWith('__MACOSX/') || posix.basename(name) === '.DS_Store';
+
+export const isArchiveFilename = (filename: string) => posix.extname(filename).toLowerCase() === '.zip';
+
+const formatMegabytes = (bytes: number) => `${bytes / (1024 * 1024)}MB`;
+
+const toArchiveError = (error: unknown): ArchiveError =>
+  error instanceof ArchiveError
+    ? error
+    : new ArchiveError(`Not a valid zip archive: ${error instanceof Error ? error.message : error}`);
+
+// Reads only the zip directory, so an upload can be turned away before its import is queued.
+// Nested archives are not opened here; expandArchive applies every limit to them when the import runs.
+export const checkArchive = (data: Uint8Array, limits: ArchiveLimits = ARCHIVE_LIMITS): void => {
+  let entryCount = 0;
+  let totalSize = 0;
+  let importable = 0;
+
+  try {
+    unzipSync(data, {
+      filter: (file) => {
+        if (file.name.endsWith('/') || isMetadataEntry(file.name)) {
+          return false;
+        }
+
+        entryCount++;
+        if (entryCount > limits.maxEntries) {
+          throw new ArchiveError(`Archive contains more than ${limits.maxEntries} files`);
+        }
+
+        const isImportable = isArchiveFilename(file.name) || getFileTypeForFilename(file.name) !== null;
+        if (isImportable && file.originalSize <= limits.maxEntrySize) {
+          importable++;
+          totalSize += file.originalSize;
+          if (totalSize > limits.maxTotalSize) {
+            throw new ArchiveError(`Archive expands to more than ${formatMegabytes(limits.maxTotalSize)}`);
+          }
+        }
+        return false;
+      },
+    });
+  } catch (error) {
+    throw toArchiveError(error);
+  }
+
+  if (importable === 0) {
+    throw new ArchiveError('Archive contains no supported documents');
+  }
+};
+
+export const expandArchive = (data: Uint8Array, limits: ArchiveLimits = ARCHIVE_LIMITS): ExpandedArchive => {
+  const expanded: ExpandedArchive = { entries: [], skipped: [] };
+  let entryCount = 0;
+  let totalSize = 0;
+
+  const expand = (archive: Uint8Array, prefix: string, depth: number) => {
+    // Limits are checked against the sizes in the zip directory before anything is inflated;
+    // fflate never inflates an entry past its declared size
+    const files = unzipSync(archive, {
+      filter: (file) => {
+        if (file.name.endsWith('/') || isMetadataEntry(file.name)) {
+          return false;
+        }
+
+        const path = prefix + file.name;
+        entryCount++;
+        if (entryCount > limits.maxEntries) {
+          throw new ArchiveError(`Archive contains more than ${limits.maxEntries} files`);
+        }
+
+        if (isArchiveFilename(file.name)) {
+          if (depth >= limits.maxDepth) {
+            expanded.skipped.push({ path, reason: `Archives nested more than ${limits.maxDepth} deep are not expanded` });
+            return false;
+          }
+        } else if (getFileTypeForFilename(file.name) === null) {
+          expanded.skipped.push({ path, reason: 'Unsupported file type' });
+          return false;
+        }
+
+        if (file.originalSize > limits.maxEntrySize) {
+          expanded.skipped.push({ path, reason: `File exceeds the ${formatMegabytes(limits.maxEntrySize)} limit` });
+          return false;
+        }
+
+        totalSize += file.originalSize;
+        if (totalSize > limits.maxTotalSize) {
+          throw new ArchiveError(`Archive expands to more than ${formatMegabytes(limits.maxTotalSize)}`);
+        }
+        return true;
+      },
+    });
+
+    for (const [name, contents] of Object.entries(files)) {
+      const path = prefix + name;
+      if (contents.length === 0) {
+        expanded.skipped.push({ path, reason: 'File is empty' });
+        continue;
+      }
+
+      if (isArchiveFilename(name)) {
+        try {
+          expand(contents, `${path}/`, depth + 1);
+        } catch (error) {
+          if (error instanceof ArchiveError) throw error;
+          expanded.skipped.push({ path, reason: 'Not a valid zip archive' });
+        }
+        continue;
+      }
+
+      expanded.entries.push({ path, file_type: getFileTypeForFilename(name)!, data: contents });
+    }
+  };
+
+  try {
+    expand(data, '', 1);
+  } catch (error) {
+    throw toArchiveError(error);
+  }
+
+  return expanded;
+};
@@ -0,0 +1,287 @@
+import { compilePattern, findRegexMatches, validateRegexPattern, MAX_COUNTED_MATCHES } from './patterns';
+import { type TextRange } from './regions';
+
+// Composite rules combine terms with boolean and proximity operators, e.g.
+//   "agreement" AND (@12 OR "parties") AND NOT "draft"
+//   "termination" NEAR/50 /notice period|\d+ days/
+// Quoted terms are phrases, /.../ terms are case-insensitive regexes and @<id> reuses another criteria.
+export type CompositeNode =
+  | { type: 'term'; regex: RegExp; }
+  | { type: 'reference'; criteria_id: number; }
+  | { type: 'and' | 'or'; operands: CompositeNode[]; }
+  | { type: 'not'; operand: CompositeNode; }
+  | { type: 'near'; distance: number; left: CompositeNode; right: CompositeNode; };
+
+type Token =
+  | { kind: 'phrase' | 'regex'; value: string; position: number; }
+  | { kind: 'reference'; criteria_id: number; position: number; }
+  | { kind: 'near'; distance: number; position: number; }
+  | { kind: 'and' | 'or' | 'not' | '(' | ')' | 'end'; position: number; };
+
+const syntaxError = (message: string, position: number): Error =>
+  new Error(`Invalid composite rule: ${message} at position ${position + 1}`);
+
+// Read a "..." or /.../ literal starting at the opening delimiter; backslash escapes the delimiter
+const readDelimited = (expression: string, start: number, delimiter: string): { value: string; end: number; } => {
+  let value = '';
+  for (let index = start + 1; index < expression.length; index++) {
+    const char = expression[index];
+    if (char === delimiter) {
+      return { value, end: index + 1 };
+    }
+    if (char === '\\' && expression[index + 1] === delimiter) {
+      value += delimiter;
+      index++;
+    } else {
+      value += char;
+    }
+  }
+  throw syntaxError(`unterminated ${delimiter === '"' ? 'phrase' : 'regex'}`, start);
+};
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const char = expression[index];
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char, position: index });
+      index++;
+    } else if (char === '"' || char === '/') {
+      const { value, end } = readDelimited(expression, index, char);
+      if (!value.trim()) {
+        throw syntaxError(`empty ${char === '"' ? 'phrase' : 'regex'}`, index);
+      }
+      tokens.push({ kind: char === '"' ? 'phrase' : 'regex', value, position: index });
+      index = end;
+    } else if (char === '@') {
+      const id = /^@(\d+)/.exec(expression.slice(index));
+      if (!id) {
+        throw syntaxError('expected a criteria id after "@"', index);
+      }
+      tokens.push({ kind: 'reference', criteria_id: parseInt(id[1], 10), position: index });
+      index += id[0].length;
+    } else {
+      const word = /^[A-Za-z]+(\/\d+)?/.exec(expression.slice(index));
+      const keyword = word?.[0].toUpperCase();
+      if (keyword === 'AND' || keyword === 'OR' || keyword === 'NOT') {
+        tokens.push({ kind: keyword.toLowerCase() as 'and' | 'or' | 'not', position: index });
+      } else if (keyword?.startsWith('NEAR/')) {
+        tokens.push({ kind: 'near', distance: parseInt(keyword.slice(5), 10), position: index });
+      } else {
+        throw syntaxError(word ? `unknown operator "${word[0]}" (quote search terms)` : `unexpected "${char}"`, index);
+      }
+      index += word![0].length;
+    }
+  }
+
+  tokens.push({ kind: 'end', position: expression.length });
+  return tokens;
+};
+
+// Whether a node yields match positions when it is true; NOT and anything depending on it do not
+const isPositive = (node: CompositeNode): boolean => {
+  switch (node.type) {
+    case 'term':
+    case 'reference':
+    case 'near':
+      return true;
+    case 'and':
+      return node.operands.some(isPositive);
+    case 'or':
+      return node.operands.every(isPositive);
+    case 'not':
+      return false;
+  }
+};
+
+// Recursive descent, loosest first: OR, AND, NOT, NEAR, then terms and parentheses
+export const parseComposite = (expression: string): CompositeNode => {
+  const tokens = tokenize(expression);
+  let current = 0;
+
+  const peek = () => tokens[current];
+  const next = () => tokens[current++];
+
+  const parseOr = (): CompositeNode => {
+    const operands = [parseAnd()];
+    while (peek().kind === 'or') {
+      next();
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'or', operands };
+  };
+
+  const parseAnd = (): CompositeNode => {
+    const operands = [parseNot()];
+    while (peek().kind === 'and') {
+      next();
+      operands.push(parseNot());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  };
+
+  const parseNot = (): CompositeNode => {
+    if (peek().kind === 'not') {
+      next();
+      return { type: 'not', operand: parseNot() };
+    }
+    return parseNear();
+  };
+
+  const parseNear = (): CompositeNode => {
+    let left = parsePrimary();
+    for (let token = peek(); token.kind === 'near'; token = peek()) {
+      next();
+      const right = parsePrimary();
+      if (!isPositive(left) || !isPositive(right)) {
+        throw syntaxError('NEAR operands cannot use NOT', token.position);
+      }
+      left = { type: 'near', distance: token.distance, left, right };
+    }
+    return left;
+  };
+
+  const parsePrimary = (): CompositeNode => {
+    const token = next();
+    switch (token.kind) {
+      case '(': {
+        const node = parseOr();
+        const closing = next();
+        if (closing.kind !== ')') {
+          throw syntaxError('expected ")"', closing.position);
+        }
+        return node;
+      }
+      case 'phrase':
+        return { type: 'term', regex: compilePattern(token.value, 'phrase') };
+      case 'regex':
+        try {
+          validateRegexPattern(token.value, 'regex');
+        } catch (error) {
+          throw syntaxError(error instanceof Error ? error.message : String(error), token.position);
+        }
+        return { type: 'term', regex: compilePattern(token.value, 'regex') };
+      case 'reference':
+        return { type: 'reference', criteria_id: token.criteria_id };
+      case 'end':
+        throw syntaxError('unexpected end of rule', token.position);
+      default:
+        throw syntaxError(`unexpected ${token.kind.toUpperCase()}`, token.position);
+    }
+  };
+
+  const root = parseOr();
+  const trailing = peek();
+  if (trailing.kind !== 'end') {
+    throw syntaxError('expected AND or OR between terms', trailing.position);
+  }
+  if (!isPositive(root)) {
+    throw syntaxError('the rule must require at least one term to be present', 0);
+  }
+  return root;
+};
+
+export const getCompositeReferences = (node: CompositeNode): number[] => {
+  switch (node.type) {
+    case 'term':
+      return [];
+    case 'reference':
+      return [node.criteria_id];
+    case 'and':
+    case 'or':
+      return [...new Set(node.operands.flatMap(getCompositeReferences))];
+    case 'not':
+      return getCompositeReferences(node.operand);
+    case 'near':
+      return [...new Set([...getCompositeReferences(node.left), ...getCompositeReferences(node.right)])];
+  }
+};
+
+export interface CompositeContext {
+  content: string;
+  resolveReference: (criteriaId: number) => TextRange[]; // Matches of a referenced criteria, empty when missing
+  wordStarts: () => number[]; // Offsets of every word in the content, ascending
+}
+
+// Index of the first entry >= offset
+const lowerBound = (values: number[], offset: number): number => {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (values[middle] < offset) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+// Number of words strictly between two ranges, zero when they touch or overlap
+const wordsBetween = (a: TextRange, b: TextRange, wordStarts: number[]): number => {
+  const [first, second] = a.start <= b.start ? [a, b] : [b, a];
+  if (second.start <= first.end) {
+    return 0;
+  }
+  return Math.max(lowerBound(wordStarts, second.start) - lowerBound(wordStarts, first.end), 0);
+};
+
+// Null when the node is false; otherwise the ranges that satisfied it (empty for NOT-only nodes)
+export const evaluateComposite = (node: CompositeNode, context: CompositeContext): TextRange[] | null => {
+  switch (node.type) {
+    case 'term': {
+      const matches = findRegexMatches(context.content, node.regex);
+      return matches.length > 0 ? matches : null;
+    }
+    case 'reference': {
+      const matches = context.resolveReference(node.criteria_id);
+      return matches.length > 0 ? matches : null;
+    }
+    case 'and': {
+      const ranges: TextRange[] = [];
+      for (const operand of node.operands) {
+        const result = evaluateComposite(operand, context);
+        if (result === null) {
+          return null;
+        }
+        ranges.push(...result);
+      }
+      return ranges.sort((a, b) => a.start - b.start);
+    }
+    case 'or': {
+      const results = node.operands.map(operand => evaluateComposite(operand, context));
+      if (results.every(result => result === null)) {
+        return null;
+      }
+      return results.flatMap(result => result ?? []).sort((a, b) => a.start - b.start);
+    }
+    case 'not':
+      return evaluateComposite(node.operand, context) === null ? [] : null;
+    case 'near': {
+      const left = evaluateComposite(node.left, context);
+      const right = left && evaluateComposite(node.right, context);
+      if (!left || !right) {
+        return null;
+      }
+      // Each close pair counts as one occurrence spanning both matches
+      const wordStarts = context.wordStarts();
+      const ranges: TextRange[] = [];
+      for (const a of left) {
+        for (const b of right) {
+          if (wordsBetween(a, b, wordStarts) <= node.distance && ranges.length < MAX_COUNTED_MATCHES) {
+            ranges.push({ start: Math.min(a.start, b.start), end: Math.max(a.end, b.end) });
+          }
+        }
+      }
+      return ranges.length > 0 ? ranges.sort((a, b) => a.start - b.start) : null;
+    }
+  }
+};
+
+export const findWordStarts = (content: string): number[] =>
+  Array.from(content.matchAll(/[\p{L}\p{N}_]+/gu), match => match.index);
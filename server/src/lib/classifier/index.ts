@@ -0,0 +1,212 @@
+import { type Category as CategoryRow, type Criteria as CriteriaRow } from '../../db/schema';
+import {
+  type Category,
+  type Criteria,
+  type ClassificationResult,
+  type ClassificationSettings,
+  type CategorySettings,
+  type NormalizationMode,
+  type MatchType,
+  type CriteriaMatch,
+  type MatchSpan,
+} from '../../schema';
+import { findHeadingRanges, isInRanges, type TextRange } from './regions';
+import { validateRegexPattern } from './patterns';
+import { parseComposite } from './composite';
+import { getContentOffset, getScopeKey, getScopeText, type ClassifiableDocument } from './scopes';
+
+export { compilePattern, findMatches } from './patterns';
+export { parseComposite, getCompositeReferences } from './composite';
+export { findCriteriaMatches, type BudgetedMatches } from './match_runner';
+export { findScopedMatches, getScopeText, type ClassifiableDocument } from './scopes';
+
+// Default leading region for "leading" position mode
+export const DEFAULT_POSITION_WINDOW = 1000;
+// Matches outside a criteria's preferred region still count, at this fraction
+export const OUT_OF_REGION_FACTOR = 0.25;
+// In "diminishing" frequency mode the full weight is reached at this many matches
+export const FREQUENCY_SATURATION = 7;
+
+export type ConfidenceLevel = ClassificationResult['confidence_level'];
+
+export interface CriteriaWithCategory {
+  criteria: CriteriaRow;
+  categories: CategoryRow;
+}
+
+// Settings that apply to one category once its overrides are merged with the defaults
+export interface ScoringSettings {
+  normalization_mode: NormalizationMode;
+  normalization_divisor: number;
+  high_threshold: number;
+  medium_threshold: number;
+}
+
+export interface CategoryScore {
+  category: Category;
+  score: number; // Sum of matched criteria contributions
+  max_score: number; // Sum of all positive criteria weights in the category, vetoes excluded
+  normalized_score: number; // Score mapped into 0-1
+  confidence_level: ConfidenceLevel;
+  matched_criteria: CriteriaMatch[]; // Includes exclusions that fired
+  unmatched_criteria: Criteria[];
+  match_spans: MatchSpan[]; // Content hits of the matched criteria, in document order
+  vetoed: boolean; // A veto criteria matched, so the category cannot be assigned
+  settings: ScoringSettings;
+}
+
+export const resolveScoringSettings = (defaults: ClassificationSettings, override?: CategorySettings | null): ScoringSettings => ({
+  normalization_mode: override?.normalization_mode ?? defaults.normalization_mode,
+  normalization_divisor: override?.normalization_divisor ?? defaults.normalization_divisor,
+  high_threshold: override?.high_threshold ?? defaults.high_threshold,
+  medium_threshold: override?.medium_threshold ?? defaults.medium_threshold,
+});
+
+// Throws when the pattern cannot be used with the match type
+export const validatePattern = (pattern: string, matchType: MatchType): void => {
+  if (matchType === 'composite') {
+    parseComposite(pattern);
+  } else {
+    validateRegexPattern(pattern, matchType);
+  }
+};
+
+type ScoredCriteria = Pick<Criteria, 'frequency_mode' | 'position_mode' | 'position_window'>;
+
+const occurrenceFactor = (match: TextRange, criteria: ScoredCriteria, headings: () => TextRange[]): number => {
+  switch (criteria.position_mode) {
+    case 'anywhere':
+      return 1;
+    case 'leading':
+      return match.start < (criteria.position_window ?? DEFAULT_POSITION_WINDOW) ? 1 : OUT_OF_REGION_FACTOR;
+    case 'heading':
+      return isInRanges(match, headings()) ? 1 : OUT_OF_REGION_FACTOR;
+    case 'body':
+      return isInRanges(match, headings()) ? OUT_OF_REGION_FACTOR : 1;
+  }
+};
+
+// Fraction (0-1) of the criteria weight earned by its matches
+export const matchFactor = (matches: TextRange[], criteria: ScoredCriteria, headings: () => TextRange[]): number => {
+  if (matches.length === 0) {
+    return 0;
+  }
+
+  const factors = matches.map(match => occurrenceFactor(match, criteria, headings));
+  if (criteria.frequency_mode === 'presence') {
+    return Math.max(...factors);
+  }
+
+  // Logarithmic: 1 match earns about a third of the weight, 3 matches two thirds, FREQUENCY_SATURATION all of it
+  const effectiveCount = factors.reduce((sum, factor) => sum + factor, 0);
+  return Math.min(Math.log2(1 + effectiveCount) / Math.log2(1 + FREQUENCY_SATURATION), 1);
+};
+
+// "category_total" makes categories with few and many criteria comparable:
+// the normalized score is the share of the category's available weight that matched
+export const normalizeScore = (score: number, maxScore: number, settings: ScoringSettings): number => {
+  const divisor = settings.normalization_mode === 'category_total' ? maxScore : settings.normalization_divisor;
+  if (divisor <= 0) {
+    return 0;
+  }
+  return Math.min(Math.max(score / divisor, 0), 1.0);
+};
+
+export const getConfidenceLevel = (normalizedScore: number, settings: ScoringSettings): ConfidenceLevel => {
+  if (normalizedScore >= settings.high_threshold) {
+    return 'high';
+  }
+  if (normalizedScore >= settings.medium_threshold) {
+    return 'medium';
+  }
+  return 'low';
+};
+
+// Score every category that has criteria, best match first.
+// Matches come from findScopedMatches; criteria missing from the map (skipped) count as unmatched.
+export const scoreCategories = (
+  document: ClassifiableDocument,
+  criteriaWithCategories: CriteriaWithCategory[],
+  criteriaMatches: ReadonlyMap<number, TextRange[]>,
+  defaults: ClassificationSettings,
+  overrides: CategorySettings[] = []
+): CategoryScore[] => {
+  const scores = new Map<number, CategoryScore>();
+
+  // Heading detection only runs when a criteria asks for it, once per scope
+  const headingRanges = new Map<string, TextRange[]>();
+  const headingsFor = (criteria: CriteriaRow) => () => {
+    const key = getScopeKey(criteria);
+    let ranges = headingRanges.get(key);
+    if (!ranges) {
+      ranges = findHeadingRanges(getScopeText(document, criteria));
+      headingRanges.set(key, ranges);
+    }
+    return ranges;
+  };
+
+  for (const { criteria, categories: category } of criteriaWithCategories) {
+    let entry = scores.get(category.id);
+    if (!entry) {
+      entry = {
+        category,
+        score: 0,
+        max_score: 0,
+        normalized_score: 0,
+        confidence_level: 'low',
+        matched_criteria: [],
+        unmatched_criteria: [],
+        match_spans: [],
+        vetoed: false,
+        settings: resolveScoringSettings(defaults, overrides.find(override => override.category_id === category.id)),
+      };
+      scores.set(category.id, entry);
+    }
+
+    const weight = parseFloat(criteria.weight);
+    if (!criteria.is_veto) {
+      entry.max_score += Math.max(weight, 0);
+    }
+
+    const matches = criteriaMatches.get(criteria.id) ?? [];
+    if (matches.length === 0) {
+      entry.unmatched_criteria.push({ ...criteria, weight });
+      continue;
+    }
+
+    // Spans locate hits in the content; matches in the filename or metadata have no place there
+    const offset = getContentOffset(document, criteria);
+    if (offset !== null) {
+      entry.match_spans.push(...matches.map(match => ({
+        criteria_id: criteria.id,
+        start: offset + match.start,
+        end: offset + match.end,
+        text: (document.content ?? '').slice(offset + match.start, offset + match.end),
+      })));
+    }
+
+    if (criteria.is_veto) {
+      entry.vetoed = true;
+      entry.matched_criteria.push({ ...criteria, weight, match_count: matches.length, contribution: 0 });
+      continue;
+    }
+
+    // Negative weights subtract, with the same frequency and position handling
+    const contribution = weight * matchFactor(matches, criteria, headingsFor(criteria));
+    entry.score += contribution;
+    entry.matched_criteria.push({ ...criteria, weight, match_count: matches.length, contribution });
+  }
+
+  return [...scores.values()]
+    .map(entry => {
+      const normalizedScore = normalizeScore(entry.score, entry.max_score, entry.settings);
+      return {
+        ...entry,
+        normalized_score: normalizedScore,
+        confidence_level: getConfidenceLevel(normalizedScore, entry.settings),
+        match_spans: entry.match_spans.sort((a, b) => a.start - b.start || a.criteria_id - b.criteria_id),
+      };
+    })
+    // Rank on the normalized score so differently configured categories compare fairly; vetoed categories last
+    .sort((a, b) => Number(a.vetoed) - Number(b.vetoed) || b.normalized_score - a.normalized_score || b.score - a.score || a.category.id - b.category.id);
+};
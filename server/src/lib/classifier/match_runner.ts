@@ -0,0 +1,109 @@
+import { Worker } from 'node:worker_threads';
+import { type TextRange } from './regions';
+import { orderForMatching, type MatchableCriteria, type MatchRequest, type MatchResponse } from './matching';
+
+// Time one criteria may spend matching a document before it is skipped
+export const DEFAULT_MATCH_TIME_BUDGET_MS = 1000;
+
+const getTimeBudget = (): number => {
+  const configured = Number(process.env['REGEX_TIME_BUDGET_MS']);
+  return configured > 0 ? configured : DEFAULT_MATCH_TIME_BUDGET_MS;
+};
+
+export interface BudgetedMatches {
+  matches: Map<number, TextRange[]>;
+  timed_out: number[]; // Criteria ids skipped for exceeding the budget
+}
+
+let worker: Worker | null = null;
+// Requests share one worker and run one at a time
+let queue: Promise<unknown> = Promise.resolve();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./match_worker.ts', import.meta.url));
+    worker.unref(); // An idle worker must not keep the process alive
+  }
+  return worker;
+};
+
+// Match pending criteria in order until done or one exceeds the budget; resolves with the id that timed out
+const runPass = (request: MatchRequest, results: Map<number, TextRange[]>): Promise<number | null> =>
+  new Promise((resolve, reject) => {
+    const current = getWorker();
+    const budget = getTimeBudget();
+    let index = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = () => {
+      clearTimeout(timer);
+      current.off('message', onMessage);
+      current.off('error', onError);
+      current.off('exit', onExit);
+    };
+    const discardWorker = () => {
+      if (worker === current) {
+        worker = null;
+      }
+      void current.terminate();
+    };
+    // The clock starts once the worker has the request, so start-up time is not charged to a criteria
+    const startClock = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        finish();
+        discardWorker();
+        resolve(request.pending[index]);
+      }, budget);
+    };
+
+    const onMessage = (response: MatchResponse) => {
+      if (response.type === 'matched') {
+        results.set(response.criteria_id, response.matches);
+        index++;
+      }
+      if (index === request.pending.length) {
+        finish();
+        resolve(null);
+      } else {
+        startClock();
+      }
+    };
+    const onError = (error: Error) => {
+      finish();
+      discardWorker();
+      reject(error);
+    };
+    const onExit = (code: number) => {
+      onError(new Error(`Match worker exited unexpectedly with code ${code}`));
+    };
+
+    current.on('message', onMessage);
+    current.on('error', onError);
+    current.on('exit', onExit);
+    current.postMessage(request);
+  });
+
+// Match every criteria against the content with a per-criteria time budget.
+// A criteria that runs over is skipped and the worker is replaced before matching continues.
+export const findCriteriaMatches = (content: string, criteria: MatchableCriteria[]): Promise<BudgetedMatches> => {
+  const run = queue.then(async (): Promise<BudgetedMatches> => {
+    const ordered = orderForMatching(criteria).map(({ id, pattern, match_type }) => ({ id, pattern, match_type }));
+    const matches = new Map<number, TextRange[]>();
+    const timedOut: number[] = [];
+
+    let pending = ordered.map(row => row.id);
+    while (pending.length > 0) {
+      const timedOutId = await runPass({ content, criteria: ordered, pending, skipped: timedOut }, matches);
+      if (timedOutId !== null) {
+        timedOut.push(timedOutId);
+      }
+      pending = pending.filter(id => !matches.has(id) && !timedOut.includes(id));
+    }
+
+    return { matches, timed_out: timedOut };
+  });
+
+  queue = run.catch(() => undefined);
+  return run;
+};
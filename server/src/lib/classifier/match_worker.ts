@@ -0,0 +1,17 @@
+import { parentPort } from 'node:worker_threads';
+import { createCriteriaMatcher, type MatchRequest, type MatchResponse } from './matching';
+
+// Runs criteria matching off the main thread so a runaway regex can be stopped by terminating the worker
+const port = parentPort!;
+
+const reply = (response: MatchResponse) => port.postMessage(response);
+
+port.on('message', (request: MatchRequest) => {
+  reply({ type: 'started' });
+
+  const criteriaById = new Map(request.criteria.map(criteria => [criteria.id, criteria]));
+  const matchesFor = createCriteriaMatcher(request.content, request.criteria, new Set(request.skipped));
+  for (const criteriaId of request.pending) {
+    reply({ type: 'matched', criteria_id: criteriaId, matches: matchesFor(criteriaById.get(criteriaId)!) });
+  }
+});
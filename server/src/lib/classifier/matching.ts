@@ -0,0 +1,73 @@
+import { type MatchType } from '../../schema';
+import { type TextRange } from './regions';
+import { findMatches } from './patterns';
+import { evaluateComposite, findWordStarts, parseComposite, type CompositeNode } from './composite';
+
+// The criteria fields matching needs; small enough to post to the match worker
+export interface MatchableCriteria {
+  id: number;
+  pattern: string;
+  match_type: MatchType;
+}
+
+// Plain criteria first so composite rules find their references already matched
+export const orderForMatching = <T extends MatchableCriteria>(criteria: T[]): T[] =>
+  [...criteria].sort((a, b) => Number(a.match_type === 'composite') - Number(b.match_type === 'composite'));
+
+// Memoized matcher over one document. Skipped criteria (e.g. ones that timed out)
+// never match, including when a composite rule references them.
+export const createCriteriaMatcher = (
+  content: string,
+  criteria: MatchableCriteria[],
+  skipped: ReadonlySet<number> = new Set()
+): (criteria: MatchableCriteria) => TextRange[] => {
+  const criteriaById = new Map(criteria.map(row => [row.id, row]));
+  const matchCache = new Map<number, TextRange[]>();
+  let wordStarts: number[] | null = null;
+
+  const findCompositeMatches = (expression: string): TextRange[] => {
+    let node: CompositeNode;
+    try {
+      node = parseComposite(expression);
+    } catch {
+      return []; // Validated on save, so only reachable for hand-edited rows
+    }
+    return evaluateComposite(node, {
+      content,
+      resolveReference: criteriaId => {
+        const referenced = criteriaById.get(criteriaId);
+        // Composite rules cannot reference each other, which also rules out cycles
+        return referenced && referenced.match_type !== 'composite' ? matchesFor(referenced) : [];
+      },
+      wordStarts: () => wordStarts ??= findWordStarts(content),
+    }) ?? [];
+  };
+
+  const matchesFor = (row: MatchableCriteria): TextRange[] => {
+    if (skipped.has(row.id)) {
+      return [];
+    }
+    let matches = matchCache.get(row.id);
+    if (!matches) {
+      matches = row.match_type === 'composite'
+        ? findCompositeMatches(row.pattern)
+        : findMatches(content, row.pattern, row.match_type);
+      matchCache.set(row.id, matches);
+    }
+    return matches;
+  };
+
+  return matchesFor;
+};
+
+// Messages exchanged with match_worker.ts
+export interface MatchRequest {
+  content: string;
+  criteria: MatchableCriteria[]; // Every criteria, so references can be resolved
+  pending: number[]; // Ids to match, in order
+  skipped: number[];
+}
+
+export type MatchResponse =
+  | { type: 'started'; }
+  | { type: 'matched'; criteria_id: number; matches: TextRange[]; };
@@ -0,0 +1,81 @@
+import { type MatchType } from '../../schema';
+import { type TextRange } from './regions';
+import { findUnsafeRegexConstruct } from './regex_safety';
+
+// Match types that compile to a single regex; composite rules are built from these
+export type PatternMatchType = Exclude<MatchType, 'composite'>;
+
+// Stop counting occurrences past this point; the score has long saturated
+export const MAX_COUNTED_MATCHES = 1000;
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Letters, digits and underscore count as word characters in any script
+const WORD_START = '(?<![\\p{L}\\p{N}_])';
+const WORD_END = '(?![\\p{L}\\p{N}_])';
+
+// Build the regex that implements a criteria's match type. Throws for an invalid regex pattern.
+export const compilePattern = (pattern: string, matchType: PatternMatchType): RegExp => {
+  switch (matchType) {
+    case 'keyword':
+      return new RegExp(escapeRegex(pattern), 'iu');
+    case 'phrase': {
+      const words = pattern.trim().split(/\s+/).map(escapeRegex).join('\\s+');
+      return new RegExp(`${WORD_START}${words}${WORD_END}`, 'iu');
+    }
+    case 'whole_word':
+      return new RegExp(`${WORD_START}${escapeRegex(pattern.trim())}${WORD_END}`, 'iu');
+    case 'regex':
+      return new RegExp(pattern, 'i');
+    case 'regex_case_sensitive':
+      return new RegExp(pattern);
+  }
+};
+
+// Reject patterns that would only ever match through the literal fallback below, or that risk ReDoS
+export const validateRegexPattern = (pattern: string, matchType: PatternMatchType): void => {
+  try {
+    compilePattern(pattern, matchType);
+  } catch (error) {
+    throw new Error(`Pattern is not a valid regular expression (${error instanceof Error ? error.message : error})`);
+  }
+
+  // Other match types escape the pattern, so only raw regexes can backtrack badly
+  const unsafe = matchType === 'regex' || matchType === 'regex_case_sensitive' ? findUnsafeRegexConstruct(pattern) : null;
+  if (unsafe) {
+    throw new Error(`Pattern can backtrack catastrophically: ${unsafe}`);
+  }
+};
+
+const findLiteralMatches = (content: string, pattern: string): TextRange[] => {
+  const haystack = content.toLowerCase();
+  const needle = pattern.toLowerCase();
+  const matches: TextRange[] = [];
+  for (let index = haystack.indexOf(needle); index !== -1 && matches.length < MAX_COUNTED_MATCHES; index = haystack.indexOf(needle, index + needle.length)) {
+    matches.push({ start: index, end: index + needle.length });
+  }
+  return matches;
+};
+
+export const findRegexMatches = (content: string, regex: RegExp): TextRange[] => {
+  const matches: TextRange[] = [];
+  for (const match of content.matchAll(new RegExp(regex.source, `${regex.flags.replace('g', '')}g`))) {
+    matches.push({ start: match.index, end: match.index + match[0].length });
+    if (matches.length >= MAX_COUNTED_MATCHES) {
+      break;
+    }
+  }
+  return matches;
+};
+
+// Every occurrence of the pattern in the content, in order
+export const findMatches = (content: string, pattern: string, matchType: PatternMatchType = 'regex'): TextRange[] => {
+  let regex: RegExp;
+  try {
+    regex = compilePattern(pattern, matchType);
+  } catch {
+    // Criteria saved before patterns were validated may hold invalid regexes; match them literally
+    return findLiteralMatches(content, pattern);
+  }
+  return findRegexMatches(content, regex);
+};
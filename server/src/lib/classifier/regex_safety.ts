@@ -0,0 +1,330 @@
+// Static check for regex constructs that backtrack catastrophically (ReDoS).
+// It parses just enough of the JS regex syntax to find the two classic shapes:
+//   - nested unbounded quantifiers without a separator between repeats, e.g. (a+)+ or (\w+\s?)*
+//     ((\d+,)* is fine: the comma can only be matched one way)
+//   - repeated alternations whose branches can start with the same character, e.g. (a|aa)+
+// Anything it cannot rule out is still bounded at match time by the worker time budget.
+
+// Repetition counts above this are treated like an unbounded quantifier
+const LARGE_REPEAT = 10;
+
+// First characters a construct can match: literal characters plus broad classes
+interface FirstSet {
+  chars: Set<string>;
+  classes: Set<'digit' | 'word' | 'space' | 'any'>;
+  except?: Set<string>; // With "any": characters a negated class cannot match
+}
+
+interface Quantifier {
+  min: number;
+  max: number; // Infinity when unbounded
+}
+
+type RegexNode =
+  | { kind: 'atom'; first: FirstSet; }
+  | { kind: 'assertion'; } // Anchors, word boundaries and lookarounds match no characters
+  | { kind: 'group'; alternatives: RegexItem[][]; start: number; end: number; };
+
+interface RegexItem {
+  node: RegexNode;
+  quantifier: Quantifier | null;
+}
+
+const firstSet = (chars: string[] = [], classes: FirstSet['classes'] = new Set()): FirstSet => ({
+  chars: new Set(chars.map(char => char.toLowerCase())),
+  classes,
+});
+
+const ESCAPE_CLASSES: Record<string, FirstSet['classes']> = {
+  d: new Set(['digit']),
+  w: new Set(['word']),
+  s: new Set(['space']),
+  D: new Set(['any']),
+  W: new Set(['any']),
+  S: new Set(['any']),
+};
+
+const parse = (source: string): RegexItem[][] => {
+  let index = 0;
+
+  const parseAlternatives = (): RegexItem[][] => {
+    const alternatives: RegexItem[][] = [[]];
+    while (index < source.length && source[index] !== ')') {
+      if (source[index] === '|') {
+        index++;
+        alternatives.push([]);
+        continue;
+      }
+      const node = parseNode();
+      alternatives[alternatives.length - 1].push({ node, quantifier: parseQuantifier() });
+    }
+    return alternatives;
+  };
+
+  const parseNode = (): RegexNode => {
+    const start = index;
+    const char = source[index++];
+
+    if (char === '(') {
+      let assertion = false;
+      if (source.startsWith('?:', index)) {
+        index += 2;
+      } else if (/^\?<?[=!]/.test(source.slice(index))) {
+        assertion = true;
+        index += source[index + 1] === '<' ? 3 : 2;
+      } else if (source.startsWith('?<', index)) {
+        index = source.indexOf('>', index) + 1; // Named group
+      }
+      const alternatives = parseAlternatives();
+      index++; // Closing parenthesis
+      return assertion ? { kind: 'assertion' } : { kind: 'group', alternatives, start, end: index };
+    }
+
+    if (char === '[') {
+      return { kind: 'atom', first: parseCharacterClass() };
+    }
+
+    if (char === '\\') {
+      const escaped = source[index++];
+      if (escaped === 'b' || escaped === 'B') {
+        return { kind: 'assertion' };
+      }
+      if (ESCAPE_CLASSES[escaped]) {
+        return { kind: 'atom', first: firstSet([], ESCAPE_CLASSES[escaped]) };
+      }
+      if (/[1-9k]/.test(escaped)) {
+        return { kind: 'atom', first: firstSet([], new Set(['any'])) }; // Backreference
+      }
+      if (/[nrtfv0]/.test(escaped)) {
+        return { kind: 'atom', first: firstSet([], new Set(['space'])) };
+      }
+      if (/[xupc]/.test(escaped)) {
+        // \x41, A, \p{L}: consume the argument and treat as any character
+        const argument = /^(\{[^}]*\}|[0-9a-fA-F]{2,4}|[A-Za-z])/.exec(source.slice(index));
+        index += argument?.[0].length ?? 0;
+        return { kind: 'atom', first: firstSet([], new Set(['any'])) };
+      }
+      return { kind: 'atom', first: firstSet([escaped]) };
+    }
+
+    if (char === '^' || char === '$') {
+      return { kind: 'assertion' };
+    }
+    if (char === '.') {
+      return { kind: 'atom', first: firstSet([], new Set(['any'])) };
+    }
+    return { kind: 'atom', first: firstSet([char]) };
+  };
+
+  // Small ranges and lists become explicit characters; negated or wide classes match anything
+  const parseCharacterClass = (): FirstSet => {
+    const negated = source[index] === '^';
+    const members: string[] = [];
+    const classes: FirstSet['classes'] = new Set();
+    if (negated) {
+      index++;
+    }
+
+    while (index < source.length && source[index] !== ']') {
+      let member = source[index++];
+      if (member === '\\') {
+        const escaped = source[index++];
+        if (ESCAPE_CLASSES[escaped]) {
+          ESCAPE_CLASSES[escaped].forEach(className => classes.add(className));
+          continue;
+        }
+        member = /[nrtfv]/.test(escaped) ? ' ' : escaped;
+      }
+      if (source[index] === '-' && source[index + 1] !== ']' && index + 1 < source.length) {
+        const end = source[index + 1] === '\\' ? source[index + 2] : source[index + 1];
+        index += source[index + 1] === '\\' ? 3 : 2;
+        const from = member.charCodeAt(0);
+        const to = end.charCodeAt(0);
+        if (to - from > 256) {
+          classes.add('any');
+        }
+        for (let code = from; code <= to && to - from <= 256; code++) {
+          members.push(String.fromCharCode(code));
+        }
+      } else {
+        members.push(member);
+      }
+    }
+    index++; // Closing bracket
+
+    if (negated) {
+      return classes.size === 0
+        ? { ...firstSet([], new Set(['any'])), except: new Set(members.map(member => member.toLowerCase())) }
+        : firstSet([], new Set(['any']));
+    }
+    return firstSet(members, classes);
+  };
+
+  const parseQuantifier = (): Quantifier | null => {
+    let quantifier: Quantifier | null = null;
+    const char = source[index];
+    if (char === '*' || char === '+' || char === '?') {
+      index++;
+      quantifier = { min: char === '+' ? 1 : 0, max: char === '?' ? 1 : Infinity };
+    } else if (char === '{') {
+      const braces = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(index));
+      if (braces) {
+        index += braces[0].length;
+        const min = parseInt(braces[1], 10);
+        quantifier = { min, max: braces[2] === undefined ? min : braces[3] ? parseInt(braces[3], 10) : Infinity };
+      }
+    }
+    if (quantifier && source[index] === '?') {
+      index++; // Lazy quantifiers backtrack just the same
+    }
+    return quantifier;
+  };
+
+  return parseAlternatives();
+};
+
+const isRepeating = (quantifier: Quantifier | null): boolean =>
+  quantifier !== null && quantifier.max > LARGE_REPEAT;
+
+const mergeFirstSets = (sets: FirstSet[]): FirstSet => {
+  const merged: FirstSet = {
+    chars: new Set(sets.flatMap(set => [...set.chars])),
+    classes: new Set(sets.flatMap(set => [...set.classes])),
+  };
+  // Exclusions survive only if every "any" set has them and no other set matches them
+  const anySets = sets.filter(set => set.classes.has('any'));
+  if (anySets.length > 0 && anySets.every(set => set.except)) {
+    merged.except = new Set([...anySets[0].except!].filter(char =>
+      anySets.every(set => set.except!.has(char)) && !merged.chars.has(char)
+      && ![...merged.classes].some(className => className !== 'any' && classMatches(className, char))));
+  }
+  return merged;
+};
+
+// Every character an item can match
+const itemCharSet = (item: RegexItem): FirstSet => {
+  switch (item.node.kind) {
+    case 'atom':
+      return item.node.first;
+    case 'assertion':
+      return firstSet();
+    case 'group':
+      return mergeFirstSets(item.node.alternatives.flatMap(items => items.map(itemCharSet)));
+  }
+};
+
+const containsRepetition = (item: RegexItem): boolean =>
+  item.node.kind !== 'assertion' && (
+    isRepeating(item.quantifier)
+    || (item.node.kind === 'group' && item.node.alternatives.some(items => items.some(containsRepetition)))
+  );
+
+// Inline plain (?:...) groups with a single branch so their atoms can act as separators
+const flatten = (items: RegexItem[]): RegexItem[] =>
+  items.flatMap(item => item.node.kind === 'group' && !item.quantifier && item.node.alternatives.length === 1
+    ? flatten(item.node.alternatives[0])
+    : [item]);
+
+// A repeated branch is ambiguous when it contains a repetition and no mandatory
+// character that the repetition cannot also consume, e.g. (a+b?)+ but not (a+b)+
+const isAmbiguousRepeat = (branch: RegexItem[]): boolean => {
+  const items = flatten(branch);
+  const repeated = items.filter(containsRepetition);
+  if (repeated.length === 0) {
+    return false;
+  }
+  const repeatedChars = mergeFirstSets(repeated.map(itemCharSet));
+  const separators = items.filter(item => item.node.kind === 'atom' && (!item.quantifier || item.quantifier.min > 0));
+  return separators.every(item => overlaps(itemCharSet(item), repeatedChars));
+};
+
+// Characters a sequence can start with, looking past optional and zero-width items
+const sequenceFirstSet = (items: RegexItem[]): FirstSet => {
+  const sets: FirstSet[] = [];
+  for (const item of items) {
+    if (item.node.kind === 'assertion') {
+      continue;
+    }
+    sets.push(item.node.kind === 'atom'
+      ? item.node.first
+      : mergeFirstSets(item.node.alternatives.map(sequenceFirstSet)));
+    if (!item.quantifier || item.quantifier.min > 0) {
+      break;
+    }
+  }
+  return mergeFirstSets(sets);
+};
+
+const classMatches = (className: string, char: string): boolean => {
+  switch (className) {
+    case 'digit':
+      return /\d/.test(char);
+    case 'word':
+      return /\w/.test(char);
+    case 'space':
+      return /\s/.test(char);
+    default:
+      return true;
+  }
+};
+
+const overlaps = (a: FirstSet, b: FirstSet): boolean => {
+  for (const [negated, other] of [[a, b], [b, a]]) {
+    if (negated.classes.has('any')) {
+      // A negated class only misses plain characters it excludes
+      return !negated.except || other.classes.size > 0 || [...other.chars].some(char => !negated.except!.has(char));
+    }
+  }
+  if ([...a.chars].some(char => b.chars.has(char))) {
+    return true;
+  }
+  for (const [classes, chars] of [[a.classes, b.chars], [b.classes, a.chars]] as const) {
+    if ([...classes].some(className => [...chars].some(char => classMatches(className, char)))) {
+      return true;
+    }
+  }
+  // \d is a subset of \w, \s is disjoint from both
+  return [...a.classes].some(x => [...b.classes].some(y => x === y || (x !== 'space' && y !== 'space')));
+};
+
+const findInSequence = (items: RegexItem[], source: string): string | null => {
+  for (const item of items) {
+    if (item.node.kind !== 'group') {
+      continue;
+    }
+
+    if (isRepeating(item.quantifier)) {
+      const snippet = source.slice(item.node.start, item.node.end);
+      if (item.node.alternatives.some(isAmbiguousRepeat)) {
+        return `nested quantifiers in "${snippet}"`;
+      }
+      const firstSets = item.node.alternatives.map(sequenceFirstSet);
+      for (let i = 0; i < firstSets.length; i++) {
+        for (let j = i + 1; j < firstSets.length; j++) {
+          if (overlaps(firstSets[i], firstSets[j])) {
+            return `overlapping alternatives in repeated group "${snippet}"`;
+          }
+        }
+      }
+    }
+
+    for (const alternative of item.node.alternatives) {
+      const found = findInSequence(alternative, source);
+      if (found) {
+        return found;
+      }
+    }
+  }
+  return null;
+};
+
+// Describes the first dangerous construct in the pattern, or null when none was found
+export const findUnsafeRegexConstruct = (pattern: string): string | null => {
+  for (const alternative of parse(pattern)) {
+    const found = findInSequence(alternative, pattern);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,46 @@
+import { PAGE_SEPARATOR } from '../extractors/types';
+
+// A [start, end) character range of the content
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+const MAX_HEADING_LENGTH = 100;
+
+const looksLikeHeading = (line: string): boolean => {
+  if (line.length > MAX_HEADING_LENGTH || /[.,;]$/.test(line)) {
+    return false;
+  }
+  return /^#{1,6}\s/.test(line) // Markdown heading
+    || /^\d+(\.\d+)*\.?\s+\p{Lu}/u.test(line) // Numbered section title
+    || (line === line.toUpperCase() && line !== line.toLowerCase()); // All-caps line
+};
+
+// Title and heading lines: the first non-empty line of each page plus lines that look like section headings
+export const findHeadingRanges = (content: string): TextRange[] => {
+  const ranges: TextRange[] = [];
+  let pageStart = true;
+  let offset = 0;
+
+  for (const line of content.split(/(?<=[\n\f])/)) {
+    const text = line.replace(/[\n\f]$/, '');
+    const trimmed = text.trim();
+
+    if (trimmed && (pageStart || looksLikeHeading(trimmed))) {
+      ranges.push({ start: offset, end: offset + text.length });
+    }
+    if (trimmed) {
+      pageStart = false;
+    }
+    if (line.endsWith(PAGE_SEPARATOR)) {
+      pageStart = true;
+    }
+    offset += line.length;
+  }
+
+  return ranges;
+};
+
+export const isInRanges = (range: TextRange, ranges: TextRange[]): boolean =>
+  ranges.some(candidate => range.start >= candidate.start && range.start < candidate.end);
@@ -0,0 +1,124 @@
+import { type CriteriaScope, type DocumentMetadata, type FileType } from '../../schema';
+import { splitPages } from '../extractors/types';
+import { type TextRange } from './regions';
+import { type MatchableCriteria } from './matching';
+import { findCriteriaMatches, type BudgetedMatches } from './match_runner';
+import { getCompositeReferences, parseComposite } from './composite';
+
+// The parts of a document criteria can be scoped to; raw text being previewed has no file
+export interface ClassifiableDocument {
+  content: string | null;
+  metadata: DocumentMetadata | null;
+  filename: string | null;
+  file_type: FileType | null;
+  file_size: number | null;
+}
+
+export interface ScopedCriteria extends MatchableCriteria {
+  scope: CriteriaScope;
+  metadata_key: string | null;
+  size_min: number | null;
+  size_max: number | null;
+}
+
+type CriteriaTarget = Pick<ScopedCriteria, 'scope' | 'metadata_key'>;
+
+// Size criteria match on the file size rather than on text
+const isTextScope = (criteria: Pick<ScopedCriteria, 'scope'>) => criteria.scope !== 'size';
+
+// Criteria with the same key are matched against the same text
+export const getScopeKey = (criteria: CriteriaTarget): string =>
+  criteria.scope === 'metadata' ? `metadata:${criteria.metadata_key}` : criteria.scope;
+
+// The text a criteria is matched against; list fields such as recipients are one entry per line
+export const getScopeText = (document: ClassifiableDocument, criteria: CriteriaTarget): string => {
+  switch (criteria.scope) {
+    case 'content':
+      return document.content ?? '';
+    case 'filename':
+      return document.filename ?? '';
+    case 'file_type':
+      return document.file_type ?? '';
+    case 'size':
+      return '';
+    case 'metadata': {
+      const value = criteria.metadata_key === null
+        ? undefined
+        : document.metadata?.[criteria.metadata_key as keyof DocumentMetadata];
+      return Array.isArray(value) ? value.join('\n') : value ?? '';
+    }
+    case 'first_page':
+      return splitPages(document.content ?? '')[0];
+    case 'last_page':
+      return splitPages(document.content ?? '').at(-1)!;
+  }
+};
+
+// Where the scope's text starts in the content, or null when it is not part of the content
+export const getContentOffset = (document: ClassifiableDocument, criteria: CriteriaTarget): number | null => {
+  switch (criteria.scope) {
+    case 'content':
+    case 'first_page':
+      return 0;
+    case 'last_page':
+      return (document.content ?? '').length - getScopeText(document, criteria).length;
+    default:
+      return null;
+  }
+};
+
+const isWithinSize = (document: ClassifiableDocument, criteria: ScopedCriteria): boolean =>
+  document.file_size !== null
+  && (criteria.size_min === null || document.file_size >= criteria.size_min)
+  && (criteria.size_max === null || document.file_size <= criteria.size_max);
+
+const getReferences = (criteria: MatchableCriteria): number[] => {
+  if (criteria.match_type !== 'composite') {
+    return [];
+  }
+  try {
+    return getCompositeReferences(parseComposite(criteria.pattern));
+  } catch {
+    return []; // Validated on save, so only reachable for hand-edited rows
+  }
+};
+
+// Match each criteria against its scope's text under the time budget. A composite rule
+// resolves its references within its own scope, whatever scope the referenced criteria has.
+// A size criteria matches once, as an empty range, when the file size is within its bounds.
+export const findScopedMatches = async (document: ClassifiableDocument, criteria: ScopedCriteria[]): Promise<BudgetedMatches> => {
+  const matches = new Map<number, TextRange[]>();
+  const timedOut: number[] = [];
+
+  const groups = new Map<string, ScopedCriteria[]>();
+  for (const row of criteria) {
+    if (!isTextScope(row)) {
+      matches.set(row.id, isWithinSize(document, row) ? [{ start: 0, end: 0 }] : []);
+      continue;
+    }
+    const key = getScopeKey(row);
+    groups.set(key, [...groups.get(key) ?? [], row]);
+  }
+
+  for (const group of groups.values()) {
+    const text = getScopeText(document, group[0]);
+    if (!text) {
+      continue; // Nothing to match; the group's criteria count as unmatched
+    }
+
+    const ids = new Set(group.map(row => row.id));
+    const referencedIds = new Set(group.flatMap(getReferences));
+    const references = criteria.filter(row => referencedIds.has(row.id) && !ids.has(row.id) && isTextScope(row));
+    const result = await findCriteriaMatches(text, [...group, ...references]);
+
+    // Matches of references from other scopes belong to this text only and are not kept
+    for (const [criteriaId, ranges] of result.matches) {
+      if (ids.has(criteriaId)) {
+        matches.set(criteriaId, ranges);
+      }
+    }
+    timedOut.push(...result.timed_out.filter(criteriaId => ids.has(criteriaId)));
+  }
+
+  return { matches, timed_out: timedOut };
+};
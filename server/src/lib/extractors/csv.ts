@@ -0,0 +1,75 @@
+import { type ExtractedText } from './types';
+import { decodeText, normalizeText } from './text';
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+// The candidate that splits the first line into the most fields, ignoring quoted text
+const detectDelimiter = (text: string): string => {
+  const firstLine = (text.split('\n', 1)[0] ?? '').replace(/"[^"]*"/g, '');
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+// RFC 4180 fields: quoted fields may contain delimiters, line breaks and doubled quotes
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+export const extractCsvText = async (data: Uint8Array): Promise<ExtractedText> => {
+  const text = decodeText(data).replace(/\r\n?/g, '\n');
+  const rows = parseCsv(text)
+    .map(cells => cells.map(cell => cell.replace(/\s+/g, ' ').trim()))
+    .filter(cells => cells.some(cell => cell.length > 0));
+
+  // Rows become lines with tab-separated cells, like extracted DOCX tables
+  const headings = (rows[0] ?? []).filter(cell => cell.length > 0);
+
+  return {
+    content: normalizeText(rows.map(cells => cells.join('\t')).join('\n')),
+    page_count: null,
+    metadata: headings.length > 0 ? { headings } : {},
+  };
+};
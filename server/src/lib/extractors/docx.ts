@@ -0,0 +1,203 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import { type ExtractedText } from './types';
+import { ARCHIVE_LIMITS } from '../archive';
+
+const DOCUMENT_PART = 'word/document.xml';
+const DOCUMENT_RELS_PART = 'word/_rels/document.xml.rels';
+const FOOTNOTES_PART = 'word/footnotes.xml';
+
+const XML_TOKEN = /<(\/?)([\w:]+)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|([^<]+)/g;
+
+const decodeXmlEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    const codePoint = entity[1].toLowerCase() === 'x'
+      ? parseInt(entity.slice(2), 16)
+      : parseInt(entity.slice(1), 10);
+    return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : `&${entity};`;
+  });
+
+const getAttribute = (attributes: string, name: string): string | null => {
+  const match = attributes.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? decodeXmlEntities(match[1]) : null;
+};
+
+// Walk a WordprocessingML part and return its text in reading order.
+// Paragraphs become lines; table cells are tab-separated and rows are lines,
+// with nested tables flattened into their enclosing cell.
+const extractPartText = (xml: string): string => {
+  const buffers: string[][] = [[]]; // Paragraph collectors: root, then one per open table cell
+  const rows: string[][] = []; // Cell collectors, one per open table row
+  let paragraph = '';
+  let inText = false;
+  let inTabStops = false;
+  let skipFootnote = false;
+
+  for (const token of xml.matchAll(XML_TOKEN)) {
+    const [, closing, tag, attributes, selfClosing, text] = token;
+
+    if (text !== undefined) {
+      if (inText && !skipFootnote) {
+        paragraph += decodeXmlEntities(text);
+      }
+      continue;
+    }
+
+    if (closing) {
+      switch (tag) {
+        case 'w:t':
+          inText = false;
+          break;
+        case 'w:tabs':
+          inTabStops = false;
+          break;
+        case 'w:p':
+          if (!skipFootnote) {
+            buffers[buffers.length - 1].push(paragraph.trim());
+          }
+          paragraph = '';
+          break;
+        case 'w:tc': {
+          const cell = buffers.pop() ?? [];
+          rows[rows.length - 1]?.push(cell.filter(line => line.length > 0).join(' '));
+          break;
+        }
+        case 'w:tr': {
+          const cells = rows.pop() ?? [];
+          buffers[buffers.length - 1].push(cells.join('\t').trim());
+          break;
+        }
+        case 'w:footnote':
+          skipFootnote = false;
+          break;
+      }
+      continue;
+    }
+
+    switch (tag) {
+      case 'w:t':
+        inText = !selfClosing;
+        break;
+      case 'w:tabs':
+        inTabStops = !selfClosing;
+        break;
+      case 'w:tab':
+        // <w:tab/> inside <w:tabs> defines a tab stop rather than a tab character
+        if (!inTabStops) {
+          paragraph += '\t';
+        }
+        break;
+      case 'w:br':
+      case 'w:cr':
+        paragraph += '\n';
+        break;
+      case 'w:p':
+        if (selfClosing && !skipFootnote) {
+          buffers[buffers.length - 1].push('');
+        }
+        break;
+      case 'w:tr':
+        rows.push([]);
+        break;
+      case 'w:tc':
+        buffers.push([]);
+        break;
+      case 'w:footnote': {
+        // Separator footnotes only hold the rule drawn above the notes
+        const type = getAttribute(attributes, 'w:type');
+        skipFootnote = type === 'separator' || type === 'continuationSeparator' || type === 'continuationNotice';
+        if (!skipFootnote) {
+          paragraph += `[${getAttribute(attributes, 'w:id')}] `;
+        }
+        break;
+      }
+      case 'w:footnoteReference':
+        paragraph += `[${getAttribute(attributes, 'w:id')}]`;
+        break;
+    }
+  }
+
+  return buffers[0]
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+// Header and footer parts in the order the document's sections reference them
+const getReferencedParts = (documentXml: string, relsXml: string | null, referenceTag: string): string[] => {
+  const targets = new Map<string, string>();
+  if (relsXml) {
+    for (const [, attributes] of relsXml.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+      const id = getAttribute(attributes, 'Id');
+      const target = getAttribute(attributes, 'Target');
+      if (id && target) {
+        targets.set(id, target.startsWith('/') ? target.slice(1) : `word/${target}`);
+      }
+    }
+  }
+
+  const parts: string[] = [];
+  for (const [, attributes] of documentXml.matchAll(new RegExp(`<${referenceTag}\\b([^>]*)\\/?>`, 'g'))) {
+    const part = targets.get(getAttribute(attributes, 'r:id') ?? '');
+    if (part && !parts.includes(part)) {
+      parts.push(part);
+    }
+  }
+  return parts;
+};
+
+const formatMegabytes = (bytes: number) => `${bytes / (1024 * 1024)}MB`;
+
+export const extractDocxText = async (data: Uint8Array): Promise<ExtractedText> => {
+  // A DOCX is a zip, so its parts are held to the archive limits before anything is inflated;
+  // fflate never inflates a part past its declared size
+  let totalSize = 0;
+  const files = unzipSync(data, {
+    filter: file => {
+      if (!(file.name.startsWith('word/') && file.name.endsWith('.xml')) && file.name !== DOCUMENT_RELS_PART) {
+        return false;
+      }
+      if (file.originalSize > ARCHIVE_LIMITS.maxEntrySize) {
+        throw new Error(`Invalid DOCX file: ${file.name} exceeds the ${formatMegabytes(ARCHIVE_LIMITS.maxEntrySize)} limit`);
+      }
+      totalSize += file.originalSize;
+      if (totalSize > ARCHIVE_LIMITS.maxTotalSize) {
+        throw new Error(`Invalid DOCX file: expands to more than ${formatMegabytes(ARCHIVE_LIMITS.maxTotalSize)}`);
+      }
+      return true;
+    },
+  });
+
+  const readPart = (name: string): string | null => files[name] ? strFromU8(files[name]) : null;
+
+  const documentXml = readPart(DOCUMENT_PART);
+  if (documentXml === null) {
+    throw new Error('Invalid DOCX file: missing word/document.xml');
+  }
+  const relsXml = readPart(DOCUMENT_RELS_PART);
+
+  // Reading order on a page: headers, body, footnotes, footers
+  const partNames = [
+    ...getReferencedParts(documentXml, relsXml, 'w:headerReference'),
+    DOCUMENT_PART,
+    FOOTNOTES_PART,
+    ...getReferencedParts(documentXml, relsXml, 'w:footerReference'),
+  ];
+
+  const sections = partNames
+    .map(name => readPart(name))
+    .filter((xml): xml is string => xml !== null)
+    .map(xml => extractPartText(xml))
+    .filter(text => text.length > 0);
+
+  return {
+    content: sections.join('\n\n'),
+    page_count: null, // Pagination is decided by the renderer, not stored in the file
+  };
+};
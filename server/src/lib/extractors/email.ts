@@ -0,0 +1,213 @@
+import { type ExtractedText } from './types';
+import { decodeText, normalizeText } from './text';
+import { htmlToText } from './html';
+
+export interface EmailAttachment {
+  filename: string;
+  content_type: string;
+  data: Uint8Array;
+}
+
+export interface ParsedEmail {
+  headers: Map<string, string>; // Lowercase names to decoded values; the first occurrence wins
+  text: string; // Readable body: text/plain parts, or text/html converted when there is no plain part
+  attachments: EmailAttachment[]; // In message order, including forwarded messages as .eml files
+}
+
+interface MimePart {
+  headers: Map<string, string>; // Raw values, still RFC 2047 encoded
+  body: string; // Binary string, one char per byte
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+// Email is parsed as a binary string so encoded bodies keep their bytes until decoding.
+// Buffer's latin1 maps every byte to one char; TextDecoder's 'latin1' is windows-1252 and does not.
+export const toBinaryString = (data: Uint8Array): string =>
+  Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString('latin1');
+
+export const toBytes = (binary: string): Uint8Array => new Uint8Array(Buffer.from(binary, 'latin1'));
+
+const splitHeaders = (raw: string): MimePart => {
+  const match = raw.match(/\r?\n\r?\n/);
+  const headerBlock = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index! + match[0].length) : '';
+
+  const headers = new Map<string, string>();
+  // Continuation lines start with whitespace and belong to the previous header
+  for (const line of headerBlock.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) {
+      headers.set(name, line.slice(colon + 1).trim());
+    }
+  }
+  return { headers, body };
+};
+
+// `type/subtype; name="value"` with RFC 2231 extended values such as filename*=utf-8''report.pdf
+const parseHeaderValue = (raw: string | undefined): HeaderValue => {
+  const [value, ...rest] = (raw ?? '').split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const equals = param.indexOf('=');
+    if (equals === -1) continue;
+    const name = param.slice(0, equals).trim().toLowerCase();
+    let paramValue = param.slice(equals + 1).trim().replace(/^"(.*)"$/, '$1');
+    if (name.endsWith('*')) {
+      const [charset, , encoded] = paramValue.split("'");
+      const binary = (encoded ?? paramValue).replace(/%([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+      params[name.slice(0, -1)] = decodeText(toBytes(binary), charset || 'utf-8');
+    } else {
+      params[name] ??= paramValue;
+    }
+  }
+  return { value: value.trim().toLowerCase(), params };
+};
+
+const decodeQuotedPrintable = (binary: string, isHeader = false): string =>
+  (isHeader ? binary.replace(/_/g, ' ') : binary)
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+
+// A malformed base64 word is kept as written rather than failing the whole message
+const decodeBase64Word = (text: string): string | null => {
+  try {
+    return atob(text);
+  } catch {
+    return null;
+  }
+};
+
+// RFC 2047 encoded words; raw 8-bit header text is taken to be UTF-8
+export const decodeHeader = (raw: string): string =>
+  raw
+    .replace(/(=\?[^?]+\?[bq]\?[^?]*\?=)\s+(?==\?)/gi, '$1')
+    .split(/(=\?[^?]+\?[bq]\?[^?]*\?=)/i)
+    .map(segment => {
+      const word = segment.match(/^=\?([^?*]+)(?:\*[^?]*)?\?([bq])\?([^?]*)\?=$/i);
+      if (!word) {
+        return decodeText(toBytes(segment));
+      }
+      const [, charset, encoding, text] = word;
+      const binary = encoding.toLowerCase() === 'b' ? decodeBase64Word(text) : decodeQuotedPrintable(text, true);
+      return binary === null ? decodeText(toBytes(segment)) : decodeText(toBytes(binary), charset);
+    })
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const decodeBody = (part: MimePart): Uint8Array => {
+  const encoding = (part.headers.get('content-transfer-encoding') ?? '').trim().toLowerCase();
+  if (encoding === 'base64') {
+    try {
+      return toBytes(atob(part.body.replace(/[^A-Za-z0-9+/=]/g, '')));
+    } catch {
+      return new Uint8Array(0); // Truncated or corrupt part
+    }
+  }
+  if (encoding === 'quoted-printable') {
+    return toBytes(decodeQuotedPrintable(part.body));
+  }
+  return toBytes(part.body);
+};
+
+const splitMultipart = (body: string, boundary: string): string[] => {
+  const parts: string[] = [];
+  const delimiter = `--${boundary}`;
+  const sections = body.split(new RegExp(`(?:^|\\r?\\n)${delimiter.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`));
+  // The first section is the preamble; the one after the closing delimiter is the epilogue
+  for (const section of sections.slice(1)) {
+    if (section.startsWith('--')) break;
+    parts.push(section.replace(/^[ \t]*\r?\n/, ''));
+  }
+  return parts;
+};
+
+export const parseEmail = (data: Uint8Array): ParsedEmail => {
+  const message = splitHeaders(toBinaryString(data));
+  const plain: string[] = [];
+  const html: string[] = [];
+  const attachments: EmailAttachment[] = [];
+
+  const walk = (part: MimePart, inAlternative: boolean) => {
+    const contentType = parseHeaderValue(part.headers.get('content-type') ?? 'text/plain');
+    const disposition = parseHeaderValue(part.headers.get('content-disposition'));
+    const rawFilename = disposition.params['filename'] ?? contentType.params['name'];
+
+    if (contentType.value.startsWith('multipart/') && contentType.params['boundary']) {
+      const children = splitMultipart(part.body, contentType.params['boundary']).map(splitHeaders);
+      if (contentType.value === 'multipart/alternative') {
+        // Alternatives carry the same content; the plain one is preferred, otherwise the last (richest)
+        const chosen = children.find(child => parseHeaderValue(child.headers.get('content-type') ?? 'text/plain').value === 'text/plain')
+          ?? children[children.length - 1];
+        if (chosen) walk(chosen, true);
+      } else {
+        children.forEach(child => walk(child, inAlternative));
+      }
+      return;
+    }
+
+    const isText = contentType.value === 'text/plain' || contentType.value === 'text/html';
+    if (isText && disposition.value !== 'attachment' && (rawFilename === undefined || inAlternative)) {
+      const text = decodeText(decodeBody(part), contentType.params['charset'] ?? 'utf-8');
+      (contentType.value === 'text/html' ? html : plain).push(text);
+      return;
+    }
+
+    const subject = contentType.value === 'message/rfc822' ? splitHeaders(part.body).headers.get('subject') : undefined;
+    const filename = rawFilename
+      ? decodeHeader(rawFilename)
+      : subject !== undefined ? `${decodeHeader(subject) || 'message'}.eml` : `attachment-${attachments.length + 1}`;
+    attachments.push({ filename, content_type: contentType.value, data: decodeBody(part) });
+  };
+
+  walk(message, false);
+
+  const headers = new Map([...message.headers].map(([name, value]) => [name, decodeHeader(value)]));
+  return {
+    headers,
+    text: plain.length > 0 ? normalizeText(plain.join('\n\n')) : normalizeText(html.map(htmlToText).join('\n\n')),
+    attachments,
+  };
+};
+
+// Addresses of a decoded address-list header, split on commas outside quoted names and angle brackets
+const splitAddressList = (value: string | undefined): string[] =>
+  (value ?? '')
+    .split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)(?![^<]*>)/)
+    .map(address => address.trim())
+    .filter(address => address.length > 0);
+
+// ISO 8601, or undefined when the Date header is missing or cannot be parsed
+const parseEmailDate = (value: string | undefined): string | undefined => {
+  const date = value ? new Date(value.replace(/\s*\([^)]*\)\s*$/, '')) : null;
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : undefined;
+};
+
+export const extractEmailText = async (data: Uint8Array): Promise<ExtractedText> => {
+  const email = parseEmail(data);
+  if (!email.headers.has('from') && !email.headers.has('subject') && !email.headers.has('date')) {
+    throw new Error('Invalid email file: missing From, Subject and Date headers');
+  }
+
+  const subject = email.headers.get('subject');
+  const sender = email.headers.get('from');
+  const recipients = [...splitAddressList(email.headers.get('to')), ...splitAddressList(email.headers.get('cc'))];
+  const date = parseEmailDate(email.headers.get('date'));
+
+  return {
+    content: email.text,
+    page_count: null,
+    metadata: {
+      ...(subject ? { title: subject, subject } : {}),
+      ...(sender ? { sender } : {}),
+      ...(recipients.length > 0 ? { recipients } : {}),
+      ...(date ? { date } : {}),
+    },
+  };
+};
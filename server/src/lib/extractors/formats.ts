@@ -0,0 +1,38 @@
+// Document formats the server can extract text from. The database enum, the zod schemas and the
+// upload form are all derived from this list; extractors/index.ts must provide an extractor for each.
+// Kept free of extractor imports so the database schema can depend on it.
+export const FILE_TYPES = ['pdf', 'docx', 'txt', 'html', 'md', 'rtf', 'csv', 'eml'] as const;
+
+export type FileType = typeof FILE_TYPES[number];
+
+export interface FileFormat {
+  label: string;
+  extensions: string[]; // Lowercase, without the dot; the first is used for stored files
+  mime_types: string[]; // The first is stored with the file; the rest are recognized on upload
+}
+
+export const FILE_FORMATS: Record<FileType, FileFormat> = {
+  pdf: { label: 'PDF', extensions: ['pdf'], mime_types: ['application/pdf'] },
+  docx: {
+    label: 'Word',
+    extensions: ['docx'],
+    mime_types: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  },
+  txt: { label: 'Text', extensions: ['txt', 'text'], mime_types: ['text/plain'] },
+  html: { label: 'HTML', extensions: ['html', 'htm'], mime_types: ['text/html', 'application/xhtml+xml'] },
+  md: { label: 'Markdown', extensions: ['md', 'markdown'], mime_types: ['text/markdown', 'text/x-markdown'] },
+  rtf: { label: 'RTF', extensions: ['rtf'], mime_types: ['application/rtf', 'text/rtf'] },
+  csv: { label: 'CSV', extensions: ['csv'], mime_types: ['text/csv'] },
+  eml: { label: 'Email', extensions: ['eml'], mime_types: ['message/rfc822'] },
+};
+
+// Case-insensitive; null for extensions no format claims
+export const getFileTypeForExtension = (extension: string): FileType | null => {
+  const normalized = extension.replace(/^\./, '').toLowerCase();
+  return FILE_TYPES.find(fileType => FILE_FORMATS[fileType].extensions.includes(normalized)) ?? null;
+};
+
+export const getFileTypeForFilename = (filename: string): FileType | null => {
+  const dot = filename.lastIndexOf('.');
+  return dot === -1 ? null : getFileTypeForExtension(filename.slice(dot + 1));
+};
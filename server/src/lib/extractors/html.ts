@@ -0,0 +1,83 @@
+import { type ExtractedText } from './types';
+import { decodeHtmlEntities, decodeText, normalizeText } from './text';
+
+// Elements whose content is never shown as text
+const HIDDEN_ELEMENTS = /<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1\s*>/gi;
+
+// Elements that start a new line in the rendered page
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'br', 'dd', 'div', 'dl', 'dt', 'fieldset', 'figcaption', 'figure',
+  'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre',
+  'section', 'table', 'tbody', 'thead', 'tfoot', 'tr', 'ul',
+]);
+
+const CELL_TAGS = new Set(['td', 'th']);
+
+const HTML_TOKEN = /<(\/?)([a-z][\w-]*)\b[^>]*>|<![^>]*>|([^<]+)/gi;
+
+// Inline text of a fragment, e.g. a heading, on one line
+const getInlineText = (html: string): string =>
+  decodeHtmlEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+// Charset declared by a <meta> tag, looked for before decoding the whole page
+const getDeclaredCharset = (data: Uint8Array): string | undefined => {
+  const head = new TextDecoder('latin1').decode(data.subarray(0, 1024));
+  return head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1];
+};
+
+// Rendered text of an HTML page or fragment: blocks become lines, table cells are tab-separated,
+// and whitespace collapses as a browser would outside <pre>
+export const htmlToText = (html: string): string => {
+  let text = '';
+  let preDepth = 0;
+
+  const source = html.replace(/<!--[\s\S]*?-->/g, '').replace(HIDDEN_ELEMENTS, '');
+  for (const [, closing, tagName, content] of source.matchAll(HTML_TOKEN)) {
+    if (content !== undefined) {
+      const decoded = decodeHtmlEntities(content);
+      text += preDepth > 0 ? decoded : decoded.replace(/\s+/g, ' ');
+      continue;
+    }
+    if (tagName === undefined) {
+      continue; // Doctype and other declarations
+    }
+
+    const tag = tagName.toLowerCase();
+    if (tag === 'pre') {
+      preDepth = Math.max(0, preDepth + (closing ? -1 : 1));
+    }
+    if (BLOCK_TAGS.has(tag)) {
+      text += '\n';
+    } else if (CELL_TAGS.has(tag) && !closing) {
+      text += '\t';
+    }
+  }
+
+  // Paragraphs are one per line, as in extracted DOCX text, so empty lines between blocks are dropped
+  return normalizeText(
+    text
+      .split('\n')
+      .map(line => line.replace(/ *\t */g, '\t').trim())
+      .filter(line => line.length > 0)
+      .join('\n')
+  );
+};
+
+export const extractHtmlText = async (data: Uint8Array): Promise<ExtractedText> => {
+  const html = decodeText(data, getDeclaredCharset(data));
+
+  const headings = [...html.matchAll(/<h[1-6]\b[^>]*>([\s\S]*?)<\/h[1-6]\s*>/gi)]
+    .map(match => getInlineText(match[1]))
+    .filter(heading => heading.length > 0);
+  const titleMatch = html.match(/<title\b[^>]*>([\s\S]*?)<\/title\s*>/i);
+  const title = (titleMatch ? getInlineText(titleMatch[1]) : '') || headings[0];
+
+  return {
+    content: htmlToText(html),
+    page_count: null,
+    metadata: {
+      ...(title ? { title } : {}),
+      ...(headings.length > 0 ? { headings } : {}),
+    },
+  };
+};
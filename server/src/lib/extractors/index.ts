@@ -0,0 +1,33 @@
+import { type FileType } from './formats';
+import { extractPdfText } from './pdf';
+import { extractDocxText } from './docx';
+import { extractHtmlText } from './html';
+import { extractMarkdownText } from './markdown';
+import { extractRtfText } from './rtf';
+import { extractCsvText } from './csv';
+import { extractEmailText } from './email';
+import { decodeText } from './text';
+import { type ExtractedText, type Extractor } from './types';
+
+export { PAGE_SEPARATOR, splitPages, type ExtractedText, type Extractor } from './types';
+export { FILE_TYPES, FILE_FORMATS, getFileTypeForExtension, getFileTypeForFilename, type FileType, type FileFormat } from './formats';
+
+// One extractor per registered format; a format added to formats.ts without one fails to compile
+const EXTRACTORS: Record<FileType, Extractor> = {
+  pdf: extractPdfText,
+  docx: extractDocxText,
+  txt: async (data) => ({ content: decodeText(data), page_count: null }),
+  html: extractHtmlText,
+  md: extractMarkdownText,
+  rtf: extractRtfText,
+  csv: extractCsvText,
+  eml: extractEmailText,
+};
+
+export const extractDocumentText = async (fileType: FileType, data: Uint8Array): Promise<ExtractedText> => {
+  const extractor = EXTRACTORS[fileType];
+  if (!extractor) {
+    throw new Error(`Text extraction is not supported for ${fileType} files`);
+  }
+  return extractor(data);
+};
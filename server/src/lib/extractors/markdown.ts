@@ -0,0 +1,110 @@
+import { type ExtractedText } from './types';
+import { decodeHtmlEntities, decodeText, normalizeText } from './text';
+
+const FENCE = /^ {0,3}(```|~~~)/;
+const ATX_HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)\s*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_MARKER = /^\s*(?:[-*+]|\d{1,9}[.)])\s+(?:\[[ xX]\]\s+)?/;
+const TABLE_DELIMITER_ROW = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const LINK_DEFINITION = /^ {0,3}\[[^\]]+\]:\s*\S+/;
+
+// Plain text of a line's inline markup: links keep their text, images their alt text
+const stripInline = (line: string): string =>
+  decodeHtmlEntities(
+    line
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+      .replace(/<((?:https?|mailto):[^>\s]+)>/g, '$1')
+      .replace(/<\/?[a-z][^>]*>/gi, '')
+      .replace(/`([^`]+)`/g, '$1')
+      .replace(/(\*\*|__|~~)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+      .replace(/(^|[^\w*])\*(?=\S)(.+?)(?<=\S)\*(?![\w*])/g, '$1$2')
+      .replace(/(^|\W)_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '$1$2')
+      .replace(/\\([\\`*_{}[\]()#+\-.!|>~])/g, '$1')
+  );
+
+// Table rows become tab-separated like extracted DOCX tables
+const stripTableRow = (line: string): string =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => stripInline(cell.trim())).join('\t');
+
+// YAML front matter at the very start of the file; only its title is kept
+const splitFrontMatter = (markdown: string): { title?: string; body: string } => {
+  const match = markdown.match(/^---\n([\s\S]*?)\n(?:---|\.\.\.)\n?/);
+  if (!match) {
+    return { body: markdown };
+  }
+  const title = match[1].match(/^title:\s*["']?(.*?)["']?\s*$/m)?.[1];
+  return { title: title || undefined, body: markdown.slice(match[0].length) };
+};
+
+export const extractMarkdownText = async (data: Uint8Array): Promise<ExtractedText> => {
+  const { title: frontMatterTitle, body } = splitFrontMatter(decodeText(data).replace(/\r\n?/g, '\n'));
+  const lines = body.split('\n');
+
+  const output: string[] = [];
+  const headings: { level: number; text: string }[] = [];
+  let fence: string | null = null;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+
+    const fenceMatch = line.match(FENCE);
+    if (fence !== null) {
+      if (fenceMatch && fenceMatch[1] === fence) {
+        fence = null;
+      } else {
+        output.push(line); // Code is kept as written
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      continue;
+    }
+
+    const atx = line.match(ATX_HEADING);
+    if (atx) {
+      const text = stripInline(atx[2]);
+      headings.push({ level: atx[1].length, text });
+      output.push(text);
+      continue;
+    }
+
+    // A paragraph line underlined with = or - is a heading, not a paragraph and a rule
+    const next = lines[index + 1];
+    if (line.trim() !== '' && next !== undefined && SETEXT_UNDERLINE.test(next) && !LIST_MARKER.test(line)) {
+      const text = stripInline(line.trim());
+      headings.push({ level: next.trim()[0] === '=' ? 1 : 2, text });
+      output.push(text);
+      index++;
+      continue;
+    }
+
+    const isTableDelimiter = TABLE_DELIMITER_ROW.test(line) && line.includes('|');
+    if (THEMATIC_BREAK.test(line) || LINK_DEFINITION.test(line) || isTableDelimiter) {
+      output.push('');
+      continue;
+    }
+
+    const unquoted = line.replace(/^\s*(>\s?)+/, '');
+    if (unquoted.trim().startsWith('|')) {
+      output.push(stripTableRow(unquoted));
+      continue;
+    }
+    output.push(stripInline(unquoted.replace(LIST_MARKER, '')).trim());
+  }
+
+  const headingTexts = headings.map(heading => heading.text).filter(text => text.length > 0);
+  const title = frontMatterTitle ?? headings.find(heading => heading.level === 1)?.text ?? headingTexts[0];
+
+  return {
+    content: normalizeText(output.join('\n')),
+    page_count: null,
+    metadata: {
+      ...(title ? { title } : {}),
+      ...(headingTexts.length > 0 ? { headings: headingTexts } : {}),
+    },
+  };
+};
@@ -0,0 +1,16 @@
+import { extractText, getDocumentProxy } from 'unpdf';
+import { PAGE_SEPARATOR, type ExtractedText } from './types';
+
+export const extractPdfText = async (data: Uint8Array): Promise<ExtractedText> => {
+  // pdf.js rejects Buffer subclasses and detaches what it is given, so hand it a copy
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+
+  // Keep pages separate so page numbers survive in the stored content
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+  const pages = text.map(page => page.trim());
+
+  return {
+    content: pages.join(PAGE_SEPARATOR),
+    page_count: totalPages,
+  };
+};
@@ -0,0 +1,133 @@
+import { type ExtractedText } from './types';
+import { decodeText, normalizeText } from './text';
+
+const RTF_TOKEN = /\\([a-zA-Z]{1,32})(-?\d{1,10})? ?|\\'([0-9a-fA-F]{2})|\\([^a-zA-Z])|([{}])|([^\\{}\r\n]+)|[\r\n]+/g;
+
+// Destinations that hold formatting tables, embedded objects or field codes rather than text
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'filetbl',
+  'revtbl', 'latentstyles', 'themedata', 'colorschememapping', 'datastore', 'xmlnstbl', 'pict', 'object',
+  'fldinst', 'bkmkstart', 'bkmkend', 'info', 'pgdsctbl', 'mmathPr',
+]);
+
+// Document properties inside \info that become structural hints
+const INFO_FIELDS: Record<string, 'title' | 'subject'> = { title: 'title', subject: 'subject' };
+
+const SYMBOLS: Record<string, string> = {
+  par: '\n', line: '\n', row: '\n', sect: '\n\n', page: '\n\n',
+  tab: '\t', cell: '\t',
+  emdash: '—', endash: '–', bullet: '•', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”',
+};
+
+// \ansicpg values whose TextDecoder label is not windows-N
+const CODE_PAGES: Record<string, string> = {
+  '932': 'shift_jis', '936': 'gbk', '949': 'euc-kr', '950': 'big5', '10000': 'macintosh', '65001': 'utf-8',
+};
+
+interface GroupState {
+  skip: boolean;
+  field: 'title' | 'subject' | null; // Info field the group's text belongs to
+  unicodeSkip: number; // Fallback characters that follow each \u, from \uc
+}
+
+export const extractRtfText = async (data: Uint8Array): Promise<ExtractedText> => {
+  const source = decodeText(data, 'latin1');
+  if (!source.startsWith('{\\rtf')) {
+    throw new Error('Invalid RTF file: missing {\\rtf header');
+  }
+
+  let state: GroupState = { skip: false, field: null, unicodeSkip: 1 };
+  const stack: GroupState[] = [];
+  const fields: Record<'title' | 'subject', string> = { title: '', subject: '' };
+  let text = '';
+  let codePage = 'windows-1252';
+  let groupStart = false;
+  let pendingSkip = 0; // Fallback characters still to drop after a \u
+  let bytes: number[] = []; // \'hh escapes are buffered so multi-byte code pages decode correctly
+
+  const append = (value: string) => {
+    if (state.field !== null) {
+      fields[state.field] += value;
+    } else if (!state.skip) {
+      text += value;
+    }
+  };
+  const flushBytes = () => {
+    if (bytes.length > 0) {
+      append(decodeText(new Uint8Array(bytes), codePage));
+      bytes = [];
+    }
+  };
+
+  for (const [token, word, parameter, hex, symbol, brace, plain] of source.matchAll(RTF_TOKEN)) {
+    if (token[0] === '\r' || token[0] === '\n') {
+      continue; // Line breaks in the source are not text
+    }
+    const isGroupStart = groupStart;
+    groupStart = false;
+
+    if (hex !== undefined) {
+      if (pendingSkip > 0) {
+        pendingSkip--;
+      } else {
+        bytes.push(parseInt(hex, 16));
+      }
+      continue;
+    }
+    flushBytes();
+
+    if (brace === '{') {
+      stack.push(state);
+      state = { ...state };
+      groupStart = true;
+      pendingSkip = 0;
+    } else if (brace === '}') {
+      state = stack.pop() ?? state;
+      pendingSkip = 0;
+    } else if (plain !== undefined) {
+      const visible = plain.slice(pendingSkip);
+      pendingSkip = Math.max(0, pendingSkip - plain.length);
+      append(visible);
+    } else if (symbol !== undefined) {
+      if (symbol === '*' && isGroupStart) {
+        state.skip = true; // Ignorable destination this reader does not know
+        groupStart = true; // The destination's own control word follows
+      } else if (symbol === '~') {
+        append(' ');
+      } else if (symbol === '_') {
+        append('-');
+      } else if (symbol === '\\' || symbol === '{' || symbol === '}') {
+        append(symbol);
+      }
+    } else if (word !== undefined) {
+      if (isGroupStart && INFO_FIELDS[word]) {
+        state.field = INFO_FIELDS[word];
+      } else if (isGroupStart && SKIPPED_DESTINATIONS.has(word)) {
+        state.skip = true;
+      } else if (word === 'ansicpg' && parameter) {
+        codePage = CODE_PAGES[parameter] ?? `windows-${parameter}`;
+      } else if (word === 'uc' && parameter) {
+        state.unicodeSkip = parseInt(parameter, 10);
+      } else if (word === 'u' && parameter) {
+        const code = parseInt(parameter, 10);
+        append(String.fromCharCode(code < 0 ? code + 65536 : code));
+        pendingSkip = state.unicodeSkip;
+      } else if (SYMBOLS[word] !== undefined) {
+        append(SYMBOLS[word]);
+      }
+    }
+  }
+  flushBytes();
+
+  const title = fields.title.trim();
+  const subject = fields.subject.trim();
+
+  return {
+    content: normalizeText(text.split('\n').map(line => line.replace(/\t+$/, '').trim()).join('\n')),
+    page_count: null,
+    metadata: {
+      ...(title ? { title } : {}),
+      ...(subject ? { subject } : {}),
+    },
+  };
+};
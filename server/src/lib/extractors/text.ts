@@ -0,0 +1,37 @@
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00A0',
+  copy: '©', reg: '®', trade: '™', hellip: '…', mdash: '—', ndash: '–', bull: '•', middot: '·',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+  euro: '€', pound: '£', yen: '¥', cent: '¢', sect: '§', para: '¶', deg: '°', times: '×', divide: '÷',
+};
+
+// Numeric references and the named entities common in documents; unknown names are left as written
+export const decodeHtmlEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (reference, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : reference;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? reference;
+  });
+
+// Decodes with the declared charset, falling back to UTF-8 for labels the runtime does not know
+export const decodeText = (data: Uint8Array, charset = 'utf-8'): string => {
+  try {
+    return new TextDecoder(charset).decode(data);
+  } catch {
+    return new TextDecoder('utf-8').decode(data);
+  }
+};
+
+// Unix line endings, no trailing spaces, at most one blank line in a row
+export const normalizeText = (text: string): string =>
+  text
+    .replace(/^\uFEFF/, '') // Byte order mark
+    .replace(/\r\n?/g, '\n')
+    .replace(/\u00A0/g, ' ')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
@@ -0,0 +1,15 @@
+import { type DocumentMetadata } from '../../schema';
+
+// Pages are stored in documents.content separated by a form feed, the same
+// convention pdftotext uses, so page N is `content.split(PAGE_SEPARATOR)[N - 1]`
+export const PAGE_SEPARATOR = '\f';
+
+export interface ExtractedText {
+  content: string;
+  page_count: number | null; // Null for formats without a page model
+  metadata?: DocumentMetadata; // Structural hints, for formats that carry them
+}
+
+export type Extractor = (data: Uint8Array) => Promise<ExtractedText>;
+
+export const splitPages = (content: string): string[] => content.split(PAGE_SEPARATOR);
@@ -0,0 +1,16 @@
+export {
+  WORKER_ID,
+  JOB_LOCK_TIMEOUT_MS,
+  DEFAULT_MAX_ATTEMPTS,
+  JobCancelledError,
+  registerJobHandler,
+  getRetryDelay,
+  enqueueJob,
+  claimNextJob,
+  runJob,
+  runPendingJobs,
+  cancelJob,
+  retryJob,
+} from './queue';
+export { startJobWorker, type JobWorker } from './worker';
+export { type JobHandler, type JobContext, type JobPayload } from './types';
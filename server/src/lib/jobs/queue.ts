@@ -0,0 +1,255 @@
+import { hostname } from 'node:os';
+import { db } from '../../db';
+import { jobsTable, type Job } from '../../db/schema';
+import { type JobHandler, type JobPayload, type JobContext } from './types';
+import { and, asc, eq, gte, inArray, lt, lte, or, sql } from 'drizzle-orm';
+
+export const WORKER_ID = `${hostname()}:${process.pid}`;
+
+// Retry delay after the nth failed attempt: 5s, 10s, 20s, ... capped at 10 minutes
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+
+// A running job whose worker stopped sending heartbeats this long ago is claimed again
+export const JOB_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = JOB_LOCK_TIMEOUT_MS / 5;
+
+// Attempts a job gets when it is enqueued, and again each time it is retried
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+export class JobCancelledError extends Error {
+  constructor(jobId: number) {
+    super(`Job ${jobId} was cancelled`);
+  }
+}
+
+const handlers = new Map<string, JobHandler>();
+
+export const registerJobHandler = (type: string, handler: JobHandler): void => {
+  handlers.set(type, handler);
+};
+
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+
+export const enqueueJob = async (
+  type: string,
+  payload: JobPayload,
+  options: { maxAttempts?: number; runAt?: Date } = {}
+): Promise<Job> => {
+  if (!handlers.has(type)) {
+    throw new Error(`Unknown job type: ${type}`);
+  }
+
+  const jobs = await db.insert(jobsTable)
+    .values({
+      type,
+      payload: JSON.stringify(payload),
+      max_attempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      run_at: options.runAt ?? new Date(),
+    })
+    .returning()
+    .execute();
+
+  return jobs[0];
+};
+
+// A running job whose worker went silent on its last attempt is dead rather than claimed again
+const deadLetterAbandonedJobs = async (lockCutoff: Date): Promise<void> => {
+  const message = 'Worker stopped responding on the last attempt';
+  const jobs = await db.update(jobsTable)
+    .set({ status: 'dead', last_error: message, completed_at: new Date(), locked_by: null, locked_at: null })
+    .where(and(
+      eq(jobsTable.status, 'running'),
+      lt(jobsTable.locked_at, lockCutoff),
+      gte(jobsTable.attempts, jobsTable.max_attempts)
+    ))
+    .returning()
+    .execute();
+
+  for (const job of jobs) {
+    await handlers.get(job.type)?.onDead?.(JSON.parse(job.payload), message);
+  }
+};
+
+// Claims the next due job, or a running job whose worker went silent. SKIP LOCKED lets
+// several workers poll the table without blocking on, or claiming, the same row.
+export const claimNextJob = async (workerId: string = WORKER_ID): Promise<Job | null> => {
+  const now = new Date();
+  const lockCutoff = new Date(now.getTime() - JOB_LOCK_TIMEOUT_MS);
+  await deadLetterAbandonedJobs(lockCutoff);
+
+  const next = db.select({ id: jobsTable.id })
+    .from(jobsTable)
+    .where(or(
+      and(eq(jobsTable.status, 'pending'), lte(jobsTable.run_at, now)),
+      and(
+        eq(jobsTable.status, 'running'),
+        lt(jobsTable.locked_at, lockCutoff),
+        lt(jobsTable.attempts, jobsTable.max_attempts)
+      )
+    ))
+    .orderBy(asc(jobsTable.run_at), asc(jobsTable.id))
+    .limit(1)
+    .for('update', { skipLocked: true });
+
+  const jobs = await db.update(jobsTable)
+    .set({ status: 'running', locked_by: workerId, locked_at: now, attempts: sql`${jobsTable.attempts} + 1` })
+    .where(inArray(jobsTable.id, next))
+    .returning()
+    .execute();
+
+  return jobs[0] ?? null;
+};
+
+const isCancelRequested = async (jobId: number): Promise<boolean> => {
+  const jobs = await db.select({ cancel_requested_at: jobsTable.cancel_requested_at })
+    .from(jobsTable)
+    .where(eq(jobsTable.id, jobId))
+    .execute();
+  return jobs[0]?.cancel_requested_at != null;
+};
+
+// Runs one claimed attempt and records the outcome: completed, cancelled, retried later or dead
+export const runJob = async (job: Job): Promise<void> => {
+  const handler = handlers.get(job.type);
+  const payload: JobPayload = JSON.parse(job.payload);
+  // Only the claim that started this attempt may record its outcome
+  const isCurrentAttempt = and(eq(jobsTable.id, job.id), eq(jobsTable.attempts, job.attempts));
+  const context: JobContext = {
+    jobId: job.id,
+    attempt: job.attempts,
+    throwIfCancelled: async () => {
+      if (await isCancelRequested(job.id)) {
+        throw new JobCancelledError(job.id);
+      }
+    },
+  };
+
+  const heartbeat = setInterval(() => {
+    db.update(jobsTable)
+      .set({ locked_at: new Date() })
+      .where(isCurrentAttempt)
+      .execute()
+      .catch(error => console.error(`Job ${job.id} heartbeat failed:`, error));
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type ${job.type}`);
+    }
+    if (job.cancel_requested_at !== null) {
+      throw new JobCancelledError(job.id);
+    }
+
+    await handler.run(payload, context);
+
+    await db.update(jobsTable)
+      .set({ status: 'completed', completed_at: new Date(), locked_by: null, locked_at: null })
+      .where(isCurrentAttempt)
+      .execute();
+  } catch (error) {
+    if (error instanceof JobCancelledError) {
+      await db.update(jobsTable)
+        .set({ status: 'cancelled', completed_at: new Date(), locked_by: null, locked_at: null })
+        .where(isCurrentAttempt)
+        .execute();
+      await handler?.onCancelled?.(payload);
+      return;
+    }
+
+    console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    const isDead = !handler || job.attempts >= job.max_attempts || handler.shouldRetry?.(error) === false;
+    await db.update(jobsTable)
+      .set(isDead
+        ? { status: 'dead', last_error: message, completed_at: new Date(), locked_by: null, locked_at: null }
+        : { status: 'pending', last_error: message, run_at: new Date(Date.now() + getRetryDelay(job.attempts)), locked_by: null, locked_at: null })
+      .where(isCurrentAttempt)
+      .execute();
+    if (isDead) {
+      await handler?.onDead?.(payload, message);
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+};
+
+// Runs due jobs one after another until none is left; returns how many attempts were made
+export const runPendingJobs = async (workerId: string = WORKER_ID): Promise<number> => {
+  let count = 0;
+  for (let job = await claimNextJob(workerId); job !== null; job = await claimNextJob(workerId)) {
+    await runJob(job);
+    count++;
+  }
+  return count;
+};
+
+const getJobOrThrow = async (id: number): Promise<Job> => {
+  const jobs = await db.select()
+    .from(jobsTable)
+    .where(eq(jobsTable.id, id))
+    .execute();
+
+  if (jobs.length === 0) {
+    throw new Error(`Job with id ${id} not found`);
+  }
+  return jobs[0];
+};
+
+// Pending jobs are cancelled at once; running jobs are asked to stop at their next cancellation check
+export const cancelJob = async (id: number): Promise<Job> => {
+  const job = await getJobOrThrow(id);
+
+  if (job.status === 'pending') {
+    const jobs = await db.update(jobsTable)
+      .set({ status: 'cancelled', cancel_requested_at: new Date(), completed_at: new Date() })
+      .where(and(eq(jobsTable.id, id), eq(jobsTable.status, 'pending')))
+      .returning()
+      .execute();
+
+    if (jobs.length > 0) {
+      await handlers.get(job.type)?.onCancelled?.(JSON.parse(job.payload));
+      return jobs[0];
+    }
+    return cancelJob(id); // Claimed in the meantime
+  }
+
+  if (job.status === 'running') {
+    const jobs = await db.update(jobsTable)
+      .set({ cancel_requested_at: new Date() })
+      .where(eq(jobsTable.id, id))
+      .returning()
+      .execute();
+    return jobs[0];
+  }
+
+  throw new Error(`Job with id ${id} is already ${job.status}`);
+};
+
+// Dead and cancelled jobs get a fresh set of attempts. The attempt count keeps going up, so an
+// earlier attempt that is still running cannot record its outcome over the retried one.
+export const retryJob = async (id: number): Promise<Job> => {
+  const job = await getJobOrThrow(id);
+
+  if (job.status !== 'dead' && job.status !== 'cancelled') {
+    throw new Error(`Job with id ${id} is ${job.status} and cannot be retried`);
+  }
+
+  const jobs = await db.update(jobsTable)
+    .set({
+      status: 'pending',
+      max_attempts: sql`${jobsTable.attempts} + ${DEFAULT_MAX_ATTEMPTS}`,
+      run_at: new Date(),
+      cancel_requested_at: null,
+      completed_at: null,
+    })
+    .where(and(eq(jobsTable.id, id), inArray(jobsTable.status, ['dead', 'cancelled'])))
+    .returning()
+    .execute();
+
+  if (jobs.length === 0) {
+    throw new Error(`Job with id ${id} was retried in the meantime`);
+  }
+  return jobs[0];
+};
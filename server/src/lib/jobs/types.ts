@@ -0,0 +1,16 @@
+export type JobPayload = Record<string, unknown>;
+
+// Passed to a handler for each attempt of a job
+export interface JobContext {
+  jobId: number;
+  attempt: number; // 1 for the first attempt
+  throwIfCancelled(): Promise<void>; // Long-running handlers call this between units of work
+}
+
+// Handlers throw to fail an attempt; the queue retries with backoff until the job is dead
+export interface JobHandler {
+  run(payload: JobPayload, context: JobContext): Promise<void>;
+  onCancelled?(payload: JobPayload): Promise<void>; // Lets the handler update its own records
+  onDead?(payload: JobPayload, error: string): Promise<void>;
+  shouldRetry?(error: unknown): boolean; // False for errors another attempt cannot fix, which make the job dead at once
+}
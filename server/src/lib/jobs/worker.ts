@@ -0,0 +1,43 @@
+import { claimNextJob, runJob, WORKER_ID } from './queue';
+
+export interface JobWorker {
+  stop(): Promise<void>; // Resolves once the job in progress, if any, has finished
+}
+
+// Polls for due jobs inside the server process and runs them one at a time
+export const startJobWorker = (options: { pollIntervalMs?: number; workerId?: string } = {}): JobWorker => {
+  const pollIntervalMs = options.pollIntervalMs ?? 1000;
+  const workerId = options.workerId ?? WORKER_ID;
+  let stopped = false;
+  let wake: (() => void) | null = null;
+
+  const loop = (async () => {
+    while (!stopped) {
+      try {
+        const job = await claimNextJob(workerId);
+        if (job) {
+          await runJob(job);
+          continue;
+        }
+      } catch (error) {
+        console.error('Job worker poll failed:', error);
+      }
+
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, pollIntervalMs);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+  })();
+
+  return {
+    stop: async () => {
+      stopped = true;
+      wake?.();
+      await loop;
+    },
+  };
+};
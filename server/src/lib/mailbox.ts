@@ -0,0 +1,107 @@
+import { posix } from 'node:path';
+import { ARCHIVE_LIMITS, ArchiveError, isArchiveFilename, type ArchiveLimits, type ExpandedArchive } from './archive';
+import { parseEmail, toBinaryString, toBytes, type ParsedEmail } from './extractors/email';
+import { getFileTypeForFilename } from './extractors/formats';
+
+// Subjects become message filenames, so they are kept short and free of path separators
+const MAX_SUBJECT_FILENAME_LENGTH = 100;
+
+export const isMailboxFilename = (filename: string) => posix.extname(filename).toLowerCase() === '.mbox';
+
+// Single messages and mailboxes both go through the email importer
+export const isEmailFilename = (filename: string) =>
+  isMailboxFilename(filename) || getFileTypeForFilename(filename) === 'eml';
+
+const formatMegabytes = (bytes: number) => `${bytes / (1024 * 1024)}MB`;
+
+const startsWithSeparator = (data: Uint8Array) => toBinaryString(data.subarray(0, 5)) === 'From ';
+
+const MISSING_SEPARATOR_MESSAGE = 'Not a valid mbox mailbox: missing "From " separator line';
+
+// Only looks for the separator line a mailbox starts with; the messages are parsed when the import runs
+export const checkEmails = (filename: string, data: Uint8Array): void => {
+  if (isMailboxFilename(filename) && !startsWithSeparator(data)) {
+    throw new ArchiveError(MISSING_SEPARATOR_MESSAGE);
+  }
+};
+
+// An mbox file is its messages one after another, each introduced by a "From " line at the start of
+// the file or after a blank line. Body lines starting with "From " were escaped with '>' and are restored.
+export const splitMailbox = (data: Uint8Array): Uint8Array[] => {
+  if (!startsWithSeparator(data)) {
+    throw new ArchiveError(MISSING_SEPARATOR_MESSAGE);
+  }
+  const binary = toBinaryString(data);
+
+  const starts: number[] = [];
+  for (const match of binary.matchAll(/^From [^\n]*\n/gm)) {
+    if (match.index === 0 || /\n\r?\n$/.test(binary.slice(Math.max(0, match.index - 3), match.index))) {
+      starts.push(match.index);
+    }
+  }
+
+  return starts.map((start, index) => {
+    const message = binary.slice(binary.indexOf('\n', start) + 1, starts[index + 1] ?? binary.length);
+    return toBytes(message.replace(/\r?\n$/, '').replace(/^>(>*From )/gm, '$1'));
+  });
+};
+
+const getMessageFilename = (email: ParsedEmail, index: number): string => {
+  const subject = email.headers.get('subject')?.replace(/[/\\]/g, '-').slice(0, MAX_SUBJECT_FILENAME_LENGTH).trim();
+  return `${subject || `message-${index + 1}`}.eml`;
+};
+
+// One entry per message plus one per supported attachment, which is joined to its message's path
+// like a file in a nested archive. Attached archives are not expanded. A file that starts with an
+// mbox separator line is read as a mailbox whatever its extension, since some tools save .eml files that way.
+export const expandEmails = (filename: string, data: Uint8Array, limits: ArchiveLimits = ARCHIVE_LIMITS): ExpandedArchive => {
+  const messages = isMailboxFilename(filename) || startsWithSeparator(data)
+    ? splitMailbox(data)
+    : [data];
+  // A lone message keeps the uploaded filename; a mailbox's messages are named after their subjects
+  const isMailbox = isMailboxFilename(filename) || messages.length > 1;
+
+  const expanded: ExpandedArchive = { entries: [], skipped: [] };
+  const addEntry = (entry: ExpandedArchive['entries'][number]) => {
+    if (expanded.entries.length >= limits.maxEntries) {
+      throw new ArchiveError(`Email expands to more than ${limits.maxEntries} documents`);
+    }
+    expanded.entries.push(entry);
+  };
+
+  for (const [index, message] of messages.entries()) {
+    const fallbackPath = isMailbox ? `message-${index + 1}.eml` : filename;
+    if (message.length === 0) {
+      expanded.skipped.push({ path: fallbackPath, reason: 'Message is empty' });
+      continue;
+    }
+    // One corrupt message does not stop the rest of the mailbox
+    let email: ParsedEmail;
+    try {
+      email = parseEmail(message);
+    } catch (error) {
+      expanded.skipped.push({ path: fallbackPath, reason: `Could not be parsed: ${error instanceof Error ? error.message : error}` });
+      continue;
+    }
+    const messagePath = isMailbox ? getMessageFilename(email, index) : filename;
+    addEntry({ path: messagePath, file_type: 'eml', data: message });
+
+    for (const attachment of email.attachments) {
+      const path = `${messagePath}/${attachment.filename}`;
+      const fileType = getFileTypeForFilename(attachment.filename);
+      if (isArchiveFilename(attachment.filename)) {
+        expanded.skipped.push({ path, reason: 'Archives attached to emails are not expanded' });
+      } else if (fileType === null) {
+        expanded.skipped.push({ path, reason: 'Unsupported file type' });
+      } else if (attachment.data.length === 0) {
+        expanded.skipped.push({ path, reason: 'File is empty' });
+      } else if (attachment.data.length > limits.maxEntrySize) {
+        expanded.skipped.push({ path, reason: `File exceeds the ${formatMegabytes(limits.maxEntrySize)} limit` });
+      } else {
+        addEntry({ path, file_type: fileType, data: attachment.data });
+      }
+    }
+  }
+
+  return expanded;
+};
@@ -0,0 +1,155 @@
+import { createWriteStream } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import { tmpdir } from 'node:os';
+import { extname, join } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import busboy from 'busboy';
+import superjson from 'superjson';
+import { uploadDocumentFile } from '../handlers/upload_document';
+import { uploadArchiveFile } from '../handlers/upload_archive';
+import { importEmailFile } from '../handlers/import_email';
+import { fileTypeSchema, MAX_UPLOAD_SIZE, type FileType } from '../schema';
+import { ArchiveError } from './archive';
+import { getFileTypeForExtension } from './extractors';
+
+export const UPLOAD_PATH = '/upload';
+export { MAX_UPLOAD_SIZE };
+
+interface ReceivedFile {
+  filename: string;
+  file_path: string;
+  file_size: number;
+  truncated: boolean;
+}
+
+// Errors that map to a specific HTTP status instead of a 500
+class UploadError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+// Zip archives, emails and mbox mailboxes are expanded into a document batch rather than stored as one document
+const resolveFileType = (declared: string | undefined, filename: string): FileType | 'zip' | 'mbox' => {
+  const candidate = declared ?? extname(filename).slice(1).toLowerCase();
+  if (candidate === 'zip' || candidate === 'mbox') {
+    return candidate;
+  }
+  // A declared type names a format; an extension may be any the format registers, e.g. .htm
+  const fileType = declared !== undefined ? fileTypeSchema.safeParse(declared).data : getFileTypeForExtension(candidate);
+  if (!fileType) {
+    throw new UploadError(`Unsupported file type: ${candidate || filename}`, 400);
+  }
+  return fileType;
+};
+
+// Stream the single "file" part of a multipart body to disk, collecting plain fields on the way
+const receiveFile = (req: IncomingMessage, directory: string): Promise<{ file: ReceivedFile; fields: Record<string, string>; }> =>
+  new Promise((resolve, reject) => {
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({ headers: req.headers, limits: { files: 1, fields: 10, fileSize: MAX_UPLOAD_SIZE } });
+    } catch {
+      reject(new UploadError('Expected a multipart/form-data request', 400));
+      return;
+    }
+
+    const fields: Record<string, string> = {};
+    let received: Promise<ReceivedFile> | null = null;
+
+    parser.on('field', (name, value) => {
+      fields[name] = value;
+    });
+
+    parser.on('file', (name, stream, info) => {
+      if (name !== 'file' || received) {
+        stream.resume(); // Drain parts we do not store
+        return;
+      }
+
+      const filePath = join(directory, 'upload');
+      let size = 0;
+      stream.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+      });
+
+      received = pipeline(stream, createWriteStream(filePath)).then(() => ({
+        filename: info.filename,
+        file_path: filePath,
+        file_size: size,
+        truncated: stream.truncated === true,
+      }));
+    });
+
+    parser.on('close', () => {
+      if (!received) {
+        reject(new UploadError('Upload is missing the "file" field', 400));
+        return;
+      }
+      received.then(file => resolve({ file, fields }), reject);
+    });
+
+    parser.on('error', error => {
+      reject(new UploadError(`Malformed multipart body: ${error instanceof Error ? error.message : error}`, 400));
+    });
+
+    // A client that goes away mid-upload never finishes the body; destroying the parser closes the temporary file
+    req.on('close', () => {
+      if (!req.complete) {
+        const error = new UploadError('Upload was aborted by the client', 400);
+        req.unpipe(parser);
+        parser.destroy(error);
+        reject(error);
+      }
+    });
+
+    req.pipe(parser);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+// Saves the base64 overhead of the tRPC upload mutations. The file is still read into memory whole,
+// up to MAX_UPLOAD_SIZE, to extract its text and put it in storage.
+export const handleMultipartUpload = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+  const directory = await mkdtemp(join(tmpdir(), 'document-upload-'));
+  try {
+    const { file, fields } = await receiveFile(req, directory);
+
+    if (file.truncated) {
+      throw new UploadError(`File exceeds the ${MAX_UPLOAD_SIZE / (1024 * 1024)}MB upload limit`, 413);
+    }
+    if (!file.filename) {
+      throw new UploadError('Uploaded file has no filename', 400);
+    }
+    if (file.file_size === 0) {
+      throw new UploadError('Uploaded file is empty', 400);
+    }
+
+    const fileType = resolveFileType(fields['file_type'], file.filename);
+    const batchInput = { filename: file.filename, file_size: file.file_size, file_path: file.file_path };
+    const created = fileType === 'zip'
+      ? await uploadArchiveFile(batchInput)
+      : fileType === 'eml' || fileType === 'mbox'
+        ? await importEmailFile(batchInput)
+        : await uploadDocumentFile({
+        filename: file.filename,
+        file_type: fileType,
+        file_size: file.file_size,
+        file_path: file.file_path,
+      });
+
+    // Same wire format as the tRPC transformer so clients get Date objects back
+    sendJson(res, 201, superjson.serialize(created));
+  } catch (error) {
+    console.error('Multipart upload failed:', error);
+    const status = error instanceof UploadError ? error.status : error instanceof ArchiveError ? 400 : 500;
+    sendJson(res, status, { error: error instanceof Error ? error.message : 'Upload failed' });
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+};
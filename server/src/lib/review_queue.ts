@@ -0,0 +1,77 @@
+import { type db } from '../db';
+import { reviewQueueTable, type ClassificationResult, type ReviewQueueItem } from '../db/schema';
+import { type ReviewReason, type ReviewStatus } from '../schema';
+import { and, eq, inArray } from 'drizzle-orm';
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// How long a claim keeps other reviewers off an item; expired claims are pending again
+export const REVIEW_CLAIM_TIMEOUT_MS = 30 * 60 * 1000;
+
+export const OPEN_REVIEW_STATUSES: ReviewStatus[] = ['pending', 'claimed'];
+
+export const isClaimActive = (item: ReviewQueueItem, now: Date = new Date()): boolean =>
+  item.status === 'claimed'
+  && item.claimed_at !== null
+  && now.getTime() - item.claimed_at.getTime() < REVIEW_CLAIM_TIMEOUT_MS;
+
+// Why a result needs a reviewer, or null when it can be trusted
+export const getReviewReason = (result: ClassificationResult): ReviewReason | null => {
+  if (result.category_id === null) {
+    return 'unclassified';
+  }
+  return result.confidence_level === 'low' ? 'low_confidence' : null;
+};
+
+export const getOpenReviewItem = async (tx: Transaction, documentId: number): Promise<ReviewQueueItem | null> => {
+  const items = await tx.select()
+    .from(reviewQueueTable)
+    .where(and(
+      eq(reviewQueueTable.document_id, documentId),
+      inArray(reviewQueueTable.status, OPEN_REVIEW_STATUSES)
+    ))
+    .execute();
+
+  return items[0] ?? null;
+};
+
+// Keeps the queue in step with a document's new current result. Disputes stay open until a
+// reviewer resolves them; other items are superseded once a run produces a confident result.
+export const syncReviewQueue = async (tx: Transaction, result: ClassificationResult): Promise<void> => {
+  const openItem = await getOpenReviewItem(tx, result.document_id);
+  const reason = getReviewReason(result);
+
+  if (openItem === null) {
+    if (reason !== null) {
+      await tx.insert(reviewQueueTable)
+        .values({ document_id: result.document_id, result_id: result.id, reason })
+        .execute();
+    }
+    return;
+  }
+
+  if (reason === null && openItem.reason !== 'disputed') {
+    await closeReviewItems(tx, result.document_id, { status: 'superseded', resolved_by: null });
+    return;
+  }
+
+  await tx.update(reviewQueueTable)
+    .set({ result_id: result.id, reason: openItem.reason === 'disputed' ? 'disputed' : reason! })
+    .where(eq(reviewQueueTable.id, openItem.id))
+    .execute();
+};
+
+// Resolves the document's open item, if any
+export const closeReviewItems = async (
+  tx: Transaction,
+  documentId: number,
+  resolution: { status: 'accepted' | 'reassigned' | 'superseded'; resolved_by: string | null; resolution_result_id?: number }
+): Promise<void> => {
+  await tx.update(reviewQueueTable)
+    .set({ ...resolution, resolved_at: new Date() })
+    .where(and(
+      eq(reviewQueueTable.document_id, documentId),
+      inArray(reviewQueueTable.status, OPEN_REVIEW_STATUSES)
+    ))
+    .execute();
+};
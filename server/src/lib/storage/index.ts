@@ -0,0 +1,42 @@
+import { LocalStorageBackend } from './local';
+import { S3StorageBackend } from './s3';
+import { type StorageBackend } from './types';
+
+export { LocalStorageBackend } from './local';
+export { S3StorageBackend, type S3StorageConfig } from './s3';
+export { type StorageBackend } from './types';
+
+let storage: StorageBackend | null = null;
+
+// Select the backend from STORAGE_BACKEND ("local" by default, or "s3")
+export const createStorageFromEnv = (): StorageBackend => {
+  const backend = process.env['STORAGE_BACKEND'] ?? 'local';
+
+  switch (backend) {
+    case 'local':
+      return new LocalStorageBackend(process.env['STORAGE_LOCAL_PATH'] ?? './storage');
+    case 's3': {
+      const bucket = process.env['S3_BUCKET'];
+      if (!bucket) {
+        throw new Error('S3_BUCKET must be set when STORAGE_BACKEND is "s3"');
+      }
+      return new S3StorageBackend({
+        bucket,
+        region: process.env['S3_REGION'] ?? 'us-east-1',
+        endpoint: process.env['S3_ENDPOINT'],
+        accessKeyId: process.env['S3_ACCESS_KEY_ID'],
+        secretAccessKey: process.env['S3_SECRET_ACCESS_KEY'],
+        forcePathStyle: process.env['S3_FORCE_PATH_STYLE'] === 'true',
+      });
+    }
+    default:
+      throw new Error(`Unknown storage backend: ${backend}`);
+  }
+};
+
+export const getStorage = (): StorageBackend => {
+  if (!storage) {
+    storage = createStorageFromEnv();
+  }
+  return storage;
+};
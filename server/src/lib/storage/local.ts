@@ -0,0 +1,35 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, resolve, sep } from 'node:path';
+import { type StorageBackend } from './types';
+
+export class LocalStorageBackend implements StorageBackend {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  private pathFor(key: string): string {
+    const path = resolve(this.root, key);
+    // Keys are server-generated, but never allow one to escape the storage root
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+
+  // The content type is recorded on the document row; plain files have nowhere to keep it
+  async put(key: string, data: Uint8Array, contentType: string): Promise<void> {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+  }
+
+  async get(key: string): Promise<Uint8Array> {
+    return readFile(this.pathFor(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+}
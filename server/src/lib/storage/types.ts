@@ -0,0 +1,6 @@
+// Backends store opaque objects by key; keys are generated by the server, never taken from clients
+export interface StorageBackend {
+  put(key: string, data: Uint8Array, contentType: string): Promise<void>;
+  get(key: string): Promise<Uint8Array>;
+  delete(key: string): Promise<void>;
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { FILE_TYPES } from './lib/extractors/formats';
 
 // Classification category schema
 export const categorySchema = z.object({
@@ -11,44 +12,400 @@ export const categorySchema = z.object({
 
 export type Category = z.infer<typeof categorySchema>;
 
+// Scoring settings: how raw scores are normalized to 0-1 and where confidence levels start
+export const normalizationModeSchema = z.enum([
+  'fixed', // Divide the raw score by normalization_divisor
+  'category_total', // Divide by the category's total positive criteria weight
+]);
+
+export type NormalizationMode = z.infer<typeof normalizationModeSchema>;
+
+export const classificationSettingsSchema = z.object({
+  normalization_mode: normalizationModeSchema,
+  normalization_divisor: z.number(),
+  high_threshold: z.number(), // Minimum normalized score for "high" confidence
+  medium_threshold: z.number(), // Minimum normalized score for "medium" confidence
+  updated_at: z.coerce.date(),
+});
+
+export type ClassificationSettings = z.infer<typeof classificationSettingsSchema>;
+
+// Per-category overrides - null fields fall back to the global settings
+export const categorySettingsSchema = z.object({
+  category_id: z.number(),
+  normalization_mode: normalizationModeSchema.nullable(),
+  normalization_divisor: z.number().nullable(),
+  high_threshold: z.number().nullable(),
+  medium_threshold: z.number().nullable(),
+  updated_at: z.coerce.date(),
+});
+
+export type CategorySettings = z.infer<typeof categorySettingsSchema>;
+
+export const classificationSettingsResponseSchema = z.object({
+  defaults: classificationSettingsSchema,
+  category_overrides: z.array(categorySettingsSchema),
+});
+
+export type ClassificationSettingsResponse = z.infer<typeof classificationSettingsResponseSchema>;
+
+// How a criteria pattern is matched against document content
+export const matchTypeSchema = z.enum([
+  'keyword', // Case-insensitive substring
+  'phrase', // Case-insensitive word sequence, any whitespace between words
+  'whole_word', // Case-insensitive, not part of a longer word
+  'regex', // Case-insensitive regular expression
+  'regex_case_sensitive', // Regular expression as written
+  'composite', // Boolean/proximity rule over terms and other criteria, see lib/classifier/composite.ts
+]);
+
+export type MatchType = z.infer<typeof matchTypeSchema>;
+
+export const isRegexMatchType = (matchType: MatchType): boolean =>
+  matchType === 'regex' || matchType === 'regex_case_sensitive';
+
+// How repeated matches of a criteria add up
+export const frequencyModeSchema = z.enum([
+  'presence', // One match contributes the full weight
+  'diminishing', // Each further match adds less; the full weight needs several matches
+]);
+
+export type FrequencyMode = z.infer<typeof frequencyModeSchema>;
+
+// Where in the document a match counts fully; matches elsewhere count for less
+export const positionModeSchema = z.enum([
+  'anywhere',
+  'leading', // Within the first position_window characters
+  'heading', // On a title or heading line
+  'body', // Outside title and heading lines
+]);
+
+export type PositionMode = z.infer<typeof positionModeSchema>;
+
+// What part of a document a criteria is matched against
+export const criteriaScopeSchema = z.enum([
+  'content', // The extracted text
+  'filename',
+  'file_type', // The format name, e.g. pdf
+  'size', // The file size falls within size_min..size_max; the pattern is not used
+  'metadata', // One metadata field, named by metadata_key
+  'first_page', // The first page of paged formats, the whole text otherwise
+  'last_page', // The last page of paged formats, the whole text otherwise
+]);
+
+export type CriteriaScope = z.infer<typeof criteriaScopeSchema>;
+
+// Why a classification run could not assign any category
+export const unclassifiedReasonSchema = z.enum([
+  'no_content', // No text could be extracted from the document
+  'no_criteria', // No classification criteria are configured
+  'no_match', // No criteria matched
+  'vetoed', // Every matching category was excluded by a veto criteria
+  'below_threshold', // No category reached the multi-label threshold
+]);
+
+export type UnclassifiedReason = z.infer<typeof unclassifiedReasonSchema>;
+
+// Formats text can be extracted from, see lib/extractors/formats.ts
+export const fileTypeSchema = z.enum(FILE_TYPES);
+
+export type FileType = z.infer<typeof fileTypeSchema>;
+
+// Why a document was put on the review queue
+export const reviewReasonSchema = z.enum([
+  'low_confidence', // The current result was assigned with low confidence
+  'unclassified', // The current result assigns no category
+  'disputed', // A reviewer flagged the current result as wrong
+]);
+
+export type ReviewReason = z.infer<typeof reviewReasonSchema>;
+
+export const reviewStatusSchema = z.enum([
+  'pending', // Waiting for a reviewer
+  'claimed', // A reviewer is working on it
+  'accepted', // The reviewer confirmed the current result
+  'reassigned', // The reviewer recorded a manual category
+  'superseded', // A later run produced a confident result
+]);
+
+export type ReviewStatus = z.infer<typeof reviewStatusSchema>;
+
+export const reclassificationJobStatusSchema = z.enum(['queued', 'running', 'completed', 'failed', 'cancelled']);
+
+export type ReclassificationJobStatus = z.infer<typeof reclassificationJobStatusSchema>;
+
+export const documentBatchStatusSchema = z.enum(['queued', 'running', 'completed', 'failed', 'cancelled']);
+
+export type DocumentBatchStatus = z.infer<typeof documentBatchStatusSchema>;
+
+export const jobStatusSchema = z.enum([
+  'pending', // Waiting to be claimed, possibly until run_at after a failed attempt
+  'running', // Claimed by a worker
+  'completed',
+  'dead', // Failed on every attempt
+  'cancelled',
+]);
+
+export type JobStatus = z.infer<typeof jobStatusSchema>;
+
+// Selects the documents a reclassification job runs over; an empty filter selects every document
+export const reclassificationFilterSchema = z.object({
+  document_ids: z.array(z.number()).min(1).optional(),
+  category_id: z.number().nullable().optional(), // Documents currently in this category, or without one when null
+  file_type: fileTypeSchema.optional(),
+});
+
+export type ReclassificationFilter = z.infer<typeof reclassificationFilterSchema>;
+
+// Returns the compile error for an invalid regex pattern, or null when it is valid
+export const getRegexError = (pattern: string): string | null => {
+  try {
+    new RegExp(pattern);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
 // Criteria schema for classification rules
 export const criteriaSchema = z.object({
   id: z.number(),
   category_id: z.number(),
   name: z.string(),
-  pattern: z.string(), // Regex pattern or keyword
-  weight: z.number(), // Weight for scoring
+  pattern: z.string(), // Interpreted according to match_type
+  match_type: matchTypeSchema,
+  weight: z.number(), // Weight for scoring, negative to subtract
+  is_veto: z.boolean(), // A match disqualifies the category
+  frequency_mode: frequencyModeSchema,
+  position_mode: positionModeSchema,
+  position_window: z.number().int().nullable(), // Leading region size in characters, null for the default
+  scope: criteriaScopeSchema,
+  metadata_key: z.string().nullable(), // Metadata field matched in metadata scope, null otherwise
+  size_min: z.number().int().nullable(), // Inclusive bounds in bytes for size scope, null when open
+  size_max: z.number().int().nullable(),
   created_at: z.coerce.date(),
 });
 
 export type Criteria = z.infer<typeof criteriaSchema>;
 
+// Structural hints an extractor found in the original file; absent when the format has none
+export const documentMetadataSchema = z.object({
+  title: z.string().optional(),
+  headings: z.array(z.string()).optional(), // In document order
+  sender: z.string().optional(), // Emails only
+  recipients: z.array(z.string()).optional(), // Emails only: To and Cc addresses
+  subject: z.string().optional(), // Emails and RTF document info
+  date: z.string().optional(), // Emails only: ISO 8601 send date
+});
+
+export type DocumentMetadata = z.infer<typeof documentMetadataSchema>;
+
+export const metadataKeySchema = documentMetadataSchema.keyof();
+
+export type MetadataKey = z.infer<typeof metadataKeySchema>;
+
+export interface CriteriaScopeFields {
+  scope: CriteriaScope;
+  pattern: string;
+  metadata_key?: string | null;
+  size_min?: number | null;
+  size_max?: number | null;
+}
+
+// Returns why the fields do not fit the scope, or null when they do. Size scope matches
+// on its bounds alone; every other scope matches the pattern against text.
+export const getCriteriaScopeError = (criteria: CriteriaScopeFields): string | null => {
+  const { scope, pattern, metadata_key: metadataKey, size_min: sizeMin, size_max: sizeMax } = criteria;
+  const hasSizeBounds = sizeMin != null || sizeMax != null;
+  if (scope === 'metadata' && !metadataKey) {
+    return 'Metadata scope requires a metadata_key';
+  }
+  if (scope !== 'metadata' && metadataKey) {
+    return `The ${scope} scope does not take a metadata_key`;
+  }
+  if (scope === 'size' && !hasSizeBounds) {
+    return 'Size scope requires size_min, size_max or both';
+  }
+  if (scope !== 'size' && hasSizeBounds) {
+    return `The ${scope} scope does not take size bounds`;
+  }
+  if (sizeMin != null && sizeMax != null && sizeMin > sizeMax) {
+    return 'size_min cannot be larger than size_max';
+  }
+  if (scope !== 'size' && pattern.length === 0) {
+    return 'Pattern is required';
+  }
+  return null;
+};
+
+// A format the upload form offers, from the extractor registry
+export const supportedFormatSchema = z.object({
+  file_type: fileTypeSchema,
+  label: z.string(),
+  extensions: z.array(z.string()), // Lowercase, without the dot
+  mime_types: z.array(z.string()),
+});
+
+export type SupportedFormat = z.infer<typeof supportedFormatSchema>;
+
 // Document upload schema
 export const documentSchema = z.object({
   id: z.number(),
   filename: z.string(),
-  file_type: z.enum(['pdf', 'docx', 'txt']),
+  file_type: fileTypeSchema,
   file_size: z.number(),
   content: z.string().nullable(), // Extracted text content
+  page_count: z.number().int().nullable(), // Number of pages for paged formats (PDF)
+  storage_key: z.string().nullable(), // Location of the original file in storage
+  content_hash: z.string().nullable(), // SHA-256 hex digest of the original file
+  mime_type: z.string().nullable(),
+  metadata: documentMetadataSchema.nullable(), // Structural hints found during extraction
+  current_result_id: z.number().nullable(), // Manual override, or else the top result of the latest classification run
+  batch_id: z.number().nullable(), // Archive the document was expanded from
   uploaded_at: z.coerce.date(),
 });
 
 export type Document = z.infer<typeof documentSchema>;
 
+// Archive entry that did not become a document
+export const skippedArchiveEntrySchema = z.object({
+  path: z.string(), // Path inside the archive; nested archives are joined with '/'
+  reason: z.string(),
+});
+
+export type SkippedArchiveEntry = z.infer<typeof skippedArchiveEntrySchema>;
+
+// Document batch schema - one per uploaded archive; its documents are saved by a background job
+export const documentBatchSchema = z.object({
+  id: z.number(),
+  filename: z.string(),
+  file_size: z.number(),
+  skipped_entries: z.array(skippedArchiveEntrySchema),
+  job_id: z.number().nullable(), // Background job importing the batch
+  status: documentBatchStatusSchema,
+  storage_key: z.string().nullable(), // Uploaded file awaiting import, null once imported
+  error: z.string().nullable(), // Set when the import failed
+  created_at: z.coerce.date(),
+  completed_at: z.coerce.date().nullable(),
+});
+
+export type DocumentBatch = z.infer<typeof documentBatchSchema>;
+
+// Classification run schema - one run groups the results of a single classifyDocument call
+export const classificationRunSchema = z.object({
+  id: z.number(),
+  document_id: z.number(),
+  mode: z.enum(['single', 'multi']),
+  threshold: z.number().nullable(), // Minimum normalized score for multi-label runs
+  created_at: z.coerce.date(),
+});
+
+export type ClassificationRun = z.infer<typeof classificationRunSchema>;
+
+export const textMatchSchema = z.object({
+  start: z.number().int(), // Character offset in the text, inclusive
+  end: z.number().int(), // Exclusive
+  text: z.string(),
+});
+
+export type TextMatch = z.infer<typeof textMatchSchema>;
+
+// Where a criteria matched in the classified document
+export const matchSpanSchema = textMatchSchema.extend({
+  criteria_id: z.number(),
+});
+
+export type MatchSpan = z.infer<typeof matchSpanSchema>;
+
 // Classification result schema
 export const classificationResultSchema = z.object({
   id: z.number(),
+  run_id: z.number().nullable(),
   document_id: z.number(),
-  category_id: z.number(),
+  category_id: z.number().nullable(), // Null when the document could not be classified
+  unclassified_reason: unclassifiedReasonSchema.nullable(),
   confidence_level: z.enum(['low', 'medium', 'high']),
   confidence_score: z.number(), // 0-1 score
-  classification_method: z.string(),
+  classification_method: z.string(), // "Pattern Matching" or "Manual"
   matched_criteria: z.array(z.string()), // Array of matched criteria names
+  match_spans: z.array(matchSpanSchema), // Every hit of the matched criteria, in document order
+  reviewer: z.string().nullable(), // Set on manual results
+  override_reason: z.string().nullable(),
+  supersedes_result_id: z.number().nullable(), // Result a manual override replaced
   classified_at: z.coerce.date(),
 });
 
 export type ClassificationResult = z.infer<typeof classificationResultSchema>;
 
+// Review queue item schema
+export const reviewQueueItemSchema = z.object({
+  id: z.number(),
+  document_id: z.number(),
+  result_id: z.number(), // Result under review
+  reason: reviewReasonSchema,
+  note: z.string().nullable(), // Why the result was disputed
+  status: reviewStatusSchema,
+  claimed_by: z.string().nullable(),
+  claimed_at: z.coerce.date().nullable(),
+  resolved_by: z.string().nullable(),
+  resolved_at: z.coerce.date().nullable(),
+  resolution_result_id: z.number().nullable(), // Manual result recorded when reassigned
+  created_at: z.coerce.date(),
+});
+
+export type ReviewQueueItem = z.infer<typeof reviewQueueItemSchema>;
+
+// Reclassification job schema with its progress and summary counts
+export const reclassificationJobSchema = z.object({
+  id: z.number(),
+  job_id: z.number().nullable(), // Background job running the reclassification
+  status: reclassificationJobStatusSchema,
+  filter: reclassificationFilterSchema,
+  mode: z.enum(['single', 'multi']),
+  threshold: z.number().nullable(),
+  total: z.number().int(),
+  processed: z.number().int(),
+  changed: z.number().int(), // Documents whose current category changed
+  failed: z.number().int(),
+  error: z.string().nullable(),
+  created_at: z.coerce.date(),
+  started_at: z.coerce.date().nullable(),
+  completed_at: z.coerce.date().nullable(),
+});
+
+export type ReclassificationJob = z.infer<typeof reclassificationJobSchema>;
+
+export const reclassificationChangeSchema = z.object({
+  id: z.number(),
+  job_id: z.number(),
+  document_id: z.number(),
+  previous_result_id: z.number().nullable(),
+  previous_category_id: z.number().nullable(),
+  new_result_id: z.number(),
+  new_category_id: z.number().nullable(),
+});
+
+export type ReclassificationChange = z.infer<typeof reclassificationChangeSchema>;
+
+// Background job schema
+export const jobSchema = z.object({
+  id: z.number(),
+  type: z.string(), // Name of the registered job handler
+  payload: z.record(z.unknown()),
+  status: jobStatusSchema,
+  attempts: z.number().int(),
+  max_attempts: z.number().int(),
+  run_at: z.coerce.date(),
+  locked_by: z.string().nullable(),
+  locked_at: z.coerce.date().nullable(),
+  cancel_requested_at: z.coerce.date().nullable(),
+  last_error: z.string().nullable(), // Error of the most recent failed attempt
+  created_at: z.coerce.date(),
+  completed_at: z.coerce.date().nullable(),
+});
+
+export type Job = z.infer<typeof jobSchema>;
+
 // Input schemas for creating entities
 export const createCategoryInputSchema = z.object({
   name: z.string().min(1),
@@ -61,29 +418,201 @@ export type CreateCategoryInput = z.infer<typeof createCategoryInputSchema>;
 export const createCriteriaInputSchema = z.object({
   category_id: z.number(),
   name: z.string().min(1),
-  pattern: z.string().min(1),
-  weight: z.number().min(0).max(1),
+  pattern: z.string(), // May be empty in size scope only
+  match_type: matchTypeSchema.optional(), // Defaults to regex
+  weight: z.number().min(-1).max(1), // Negative weights subtract from the category score
+  is_veto: z.boolean().optional(), // Defaults to false
+  frequency_mode: frequencyModeSchema.optional(), // Defaults to presence
+  position_mode: positionModeSchema.optional(), // Defaults to anywhere
+  position_window: z.number().int().positive().nullable().optional(),
+  scope: criteriaScopeSchema.optional(), // Defaults to content
+  metadata_key: metadataKeySchema.nullable().optional(),
+  size_min: z.number().int().nonnegative().nullable().optional(),
+  size_max: z.number().int().nonnegative().nullable().optional(),
+}).superRefine((input, ctx) => {
+  const scope = input.scope ?? 'content';
+  const regexError = scope !== 'size' && isRegexMatchType(input.match_type ?? 'regex') ? getRegexError(input.pattern) : null;
+  if (regexError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pattern'], message: `Pattern is not a valid regular expression (${regexError})` });
+  }
+  const scopeError = getCriteriaScopeError({ ...input, scope });
+  if (scopeError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['scope'], message: scopeError });
+  }
 });
 
 export type CreateCriteriaInput = z.infer<typeof createCriteriaInputSchema>;
 
+// Largest file accepted by any upload path
+export const MAX_UPLOAD_SIZE = 10 * 1024 * 1024; // 10MB
+
+// Base64 takes 4 characters for every 3 bytes
+export const MAX_BASE64_UPLOAD_LENGTH = Math.ceil(MAX_UPLOAD_SIZE / 3) * 4;
+
 // File upload input schema
 export const uploadDocumentInputSchema = z.object({
   filename: z.string().min(1),
-  file_type: z.enum(['pdf', 'docx', 'txt']),
+  file_type: fileTypeSchema,
   file_size: z.number().positive(),
   content: z.string().optional(), // For direct text content
+  file_data: z.string().max(MAX_BASE64_UPLOAD_LENGTH).optional(), // Base64-encoded file bytes for server-side extraction
 });
 
 export type UploadDocumentInput = z.infer<typeof uploadDocumentInputSchema>;
 
+// Binary file upload input, produced by the multipart upload route
+export const uploadDocumentFileInputSchema = z.object({
+  filename: z.string().min(1),
+  file_type: fileTypeSchema,
+  file_size: z.number().int().positive(),
+  file_path: z.string().min(1), // Temporary file holding the streamed upload
+});
+
+export type UploadDocumentFileInput = z.infer<typeof uploadDocumentFileInputSchema>;
+
+// Zip archive upload; each supported entry becomes a document of a new batch
+export const uploadArchiveInputSchema = z.object({
+  filename: z.string().min(1),
+  file_data: z.string().min(1).max(MAX_BASE64_UPLOAD_LENGTH), // Base64-encoded archive bytes
+});
+
+export type UploadArchiveInput = z.infer<typeof uploadArchiveInputSchema>;
+
+// Binary archive upload input, produced by the multipart upload route
+export const uploadArchiveFileInputSchema = z.object({
+  filename: z.string().min(1),
+  file_size: z.number().int().positive(),
+  file_path: z.string().min(1), // Temporary file holding the streamed upload
+});
+
+export type UploadArchiveFileInput = z.infer<typeof uploadArchiveFileInputSchema>;
+
+// A single .eml message or an .mbox mailbox, imported as a batch of messages and their attachments
+export const importEmailInputSchema = z.object({
+  filename: z.string().min(1),
+  file_data: z.string().min(1).max(MAX_BASE64_UPLOAD_LENGTH), // Base64-encoded file bytes
+});
+
+export type ImportEmailInput = z.infer<typeof importEmailInputSchema>;
+
+// Binary email import input, produced by the multipart upload route
+export const importEmailFileInputSchema = z.object({
+  filename: z.string().min(1),
+  file_size: z.number().int().positive(),
+  file_path: z.string().min(1), // Temporary file holding the streamed upload
+});
+
+export type ImportEmailFileInput = z.infer<typeof importEmailFileInputSchema>;
+
 // Classification request schema
 export const classifyDocumentInputSchema = z.object({
   document_id: z.number(),
+  mode: z.enum(['single', 'multi']).optional(), // Defaults to single-label
+  threshold: z.number().min(0).max(1).optional(), // Multi-label cutoff on the normalized score
 });
 
 export type ClassifyDocumentInput = z.infer<typeof classifyDocumentInputSchema>;
 
+// Classifies many documents in one request with the same mode and threshold
+export const classifyBatchInputSchema = classifyDocumentInputSchema.omit({ document_id: true }).extend({
+  document_ids: z.array(z.number()).min(1).max(500).optional(),
+  batch_id: z.number().optional(), // Classify every document expanded from an archive
+  concurrency: z.number().int().min(1).max(16).optional(), // Documents classified at once, defaults to 4
+}).refine(input => (input.document_ids === undefined) !== (input.batch_id === undefined), {
+  message: 'Provide either document_ids or batch_id',
+});
+
+export type ClassifyBatchInput = z.infer<typeof classifyBatchInputSchema>;
+
+// Manual correction of a document's category by a reviewer
+export const overrideClassificationInputSchema = z.object({
+  document_id: z.number(),
+  category_id: z.number(),
+  reviewer: z.string().trim().min(1),
+  reason: z.string().trim().min(1),
+  supersedes_result_id: z.number().optional(), // Defaults to the document's current result
+});
+
+export type OverrideClassificationInput = z.infer<typeof overrideClassificationInputSchema>;
+
+export const getClassificationResultsInputSchema = z.object({
+  document_id: z.number().optional(), // Only results for this document
+});
+
+export type GetClassificationResultsInput = z.infer<typeof getClassificationResultsInputSchema>;
+
+export const getUnclassifiedDocumentsInputSchema = z.object({
+  reason: unclassifiedReasonSchema.optional(), // Only documents left unclassified for this reason
+});
+
+export type GetUnclassifiedDocumentsInput = z.infer<typeof getUnclassifiedDocumentsInputSchema>;
+
+export const getReviewQueueInputSchema = z.object({
+  status: reviewStatusSchema.optional(), // Defaults to open (pending and claimed) items
+  reason: reviewReasonSchema.optional(),
+});
+
+export type GetReviewQueueInput = z.infer<typeof getReviewQueueInputSchema>;
+
+// Claiming or accepting a review queue item
+export const reviewItemInputSchema = z.object({
+  id: z.number(),
+  reviewer: z.string().trim().min(1),
+});
+
+export type ReviewItemInput = z.infer<typeof reviewItemInputSchema>;
+
+export const reassignReviewItemInputSchema = reviewItemInputSchema.extend({
+  category_id: z.number(),
+  reason: z.string().trim().min(1).optional(), // Recorded on the manual result
+});
+
+export type ReassignReviewItemInput = z.infer<typeof reassignReviewItemInputSchema>;
+
+// Flags a document's current result as wrong so it is put on the review queue
+export const disputeClassificationInputSchema = z.object({
+  document_id: z.number(),
+  reviewer: z.string().trim().min(1),
+  reason: z.string().trim().min(1),
+});
+
+export type DisputeClassificationInput = z.infer<typeof disputeClassificationInputSchema>;
+
+// Starts a background reclassification with the same mode and threshold options as classifyDocument
+export const reclassifyDocumentsInputSchema = classifyDocumentInputSchema.omit({ document_id: true }).extend({
+  filter: reclassificationFilterSchema.optional(),
+});
+
+export type ReclassifyDocumentsInput = z.infer<typeof reclassifyDocumentsInputSchema>;
+
+export const getJobsInputSchema = z.object({
+  status: jobStatusSchema.optional(),
+  type: z.string().optional(),
+  limit: z.number().int().positive().max(500).optional(), // Defaults to 100
+});
+
+export type GetJobsInput = z.infer<typeof getJobsInputSchema>;
+
+// Dry-run classification of a stored document or raw text; nothing is stored
+export const previewClassificationInputSchema = classifyDocumentInputSchema.extend({
+  document_id: z.number().optional(),
+  text: z.string().min(1).max(1024 * 1024).optional(),
+}).refine(input => (input.document_id === undefined) !== (input.text === undefined), {
+  message: 'Provide either a document_id or text',
+});
+
+export type PreviewClassificationInput = z.infer<typeof previewClassificationInputSchema>;
+
+// Original file download schema
+export const documentDownloadSchema = z.object({
+  filename: z.string(),
+  mime_type: z.string(),
+  file_size: z.number(),
+  data: z.string(), // Base64-encoded original file bytes
+});
+
+export type DocumentDownload = z.infer<typeof documentDownloadSchema>;
+
 // Update schemas for entities
 export const updateCategoryInputSchema = z.object({
   id: z.number(),
@@ -99,21 +628,284 @@ export const updateCriteriaInputSchema = z.object({
   category_id: z.number().optional(),
   name: z.string().min(1).optional(),
   pattern: z.string().min(1).optional(),
-  weight: z.number().min(0).max(1).optional(),
+  match_type: matchTypeSchema.optional(),
+  weight: z.number().min(-1).max(1).optional(),
+  is_veto: z.boolean().optional(),
+  frequency_mode: frequencyModeSchema.optional(),
+  position_mode: positionModeSchema.optional(),
+  position_window: z.number().int().positive().nullable().optional(),
+  // The scope fields are checked together once merged with the stored ones, by the handler
+  scope: criteriaScopeSchema.optional(),
+  metadata_key: metadataKeySchema.nullable().optional(),
+  size_min: z.number().int().nonnegative().nullable().optional(),
+  size_max: z.number().int().nonnegative().nullable().optional(),
+}).superRefine((input, ctx) => {
+  // A pattern sent without match_type is checked against the stored type by the handler
+  const regexError = input.pattern !== undefined && input.match_type && isRegexMatchType(input.match_type)
+    ? getRegexError(input.pattern)
+    : null;
+  if (regexError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pattern'], message: `Pattern is not a valid regular expression (${regexError})` });
+  }
 });
 
 export type UpdateCriteriaInput = z.infer<typeof updateCriteriaInputSchema>;
 
+export const updateClassificationSettingsInputSchema = z.object({
+  normalization_mode: normalizationModeSchema.optional(),
+  normalization_divisor: z.number().positive().max(9999).optional(),
+  high_threshold: z.number().min(0).max(1).optional(),
+  medium_threshold: z.number().min(0).max(1).optional(),
+});
+
+export type UpdateClassificationSettingsInput = z.infer<typeof updateClassificationSettingsInputSchema>;
+
+// Null clears an override so the category inherits the global value again
+export const updateCategorySettingsInputSchema = z.object({
+  category_id: z.number(),
+  normalization_mode: normalizationModeSchema.nullable().optional(),
+  normalization_divisor: z.number().positive().max(9999).nullable().optional(),
+  high_threshold: z.number().min(0).max(1).nullable().optional(),
+  medium_threshold: z.number().min(0).max(1).nullable().optional(),
+});
+
+export type UpdateCategorySettingsInput = z.infer<typeof updateCategorySettingsInputSchema>;
+
+// An unsaved criteria for the test sandbox; composite rules may still reference saved criteria
+export const criteriaDefinitionSchema = z.object({
+  name: z.string().optional(),
+  pattern: z.string(), // May be empty in size scope only
+  match_type: matchTypeSchema.optional(), // Defaults to regex
+  weight: z.number().min(-1).max(1).optional(), // Defaults to 1
+  is_veto: z.boolean().optional(),
+  frequency_mode: frequencyModeSchema.optional(),
+  position_mode: positionModeSchema.optional(),
+  position_window: z.number().int().positive().nullable().optional(),
+  scope: criteriaScopeSchema.optional(), // Defaults to content
+  metadata_key: metadataKeySchema.nullable().optional(),
+  size_min: z.number().int().nonnegative().nullable().optional(),
+  size_max: z.number().int().nonnegative().nullable().optional(),
+});
+
+export type CriteriaDefinition = z.infer<typeof criteriaDefinitionSchema>;
+
+export const testCriteriaInputSchema = z.object({
+  sample_text: z.string().min(1).max(1024 * 1024),
+  criteria: z.array(criteriaDefinitionSchema).min(1).max(50), // One pattern, or a whole category definition
+  sample_metadata: documentMetadataSchema.optional(), // Matched by metadata-scoped criteria
+  sample_file: z.object({ // Matched by filename, file type and size criteria
+    filename: z.string().optional(),
+    file_type: fileTypeSchema.optional(),
+    file_size: z.number().int().nonnegative().optional(),
+  }).optional(),
+  category_id: z.number().optional(), // Score with this category's settings instead of the defaults
+});
+
+export type TestCriteriaInput = z.infer<typeof testCriteriaInputSchema>;
+
 // Response schemas for API endpoints
+export const criteriaMatchSchema = criteriaSchema.extend({
+  match_count: z.number().int(), // Occurrences found in the document
+  contribution: z.number(), // Share of the weight added to the category score
+});
+
+export type CriteriaMatch = z.infer<typeof criteriaMatchSchema>;
+
+export const testedCriteriaSchema = criteriaDefinitionSchema.required({ match_type: true, weight: true, is_veto: true }).extend({
+  error: z.string().nullable(), // Why the criteria could not be saved as written
+  timed_out: z.boolean(),
+  matches: z.array(textMatchSchema), // Offsets in the text the criteria's scope selects
+  contribution: z.number(), // What the criteria adds to the category score
+});
+
+export type TestedCriteria = z.infer<typeof testedCriteriaSchema>;
+
+export const testCriteriaResponseSchema = z.object({
+  criteria: z.array(testedCriteriaSchema),
+  score: z.number(),
+  max_score: z.number(),
+  normalized_score: z.number(),
+  confidence_level: z.enum(['low', 'medium', 'high']),
+  vetoed: z.boolean(),
+});
+
+export type TestCriteriaResponse = z.infer<typeof testCriteriaResponseSchema>;
+
+export const classificationLabelSchema = z.object({
+  result: classificationResultSchema,
+  category: categorySchema,
+  matched_criteria_details: z.array(criteriaMatchSchema),
+});
+
+export type ClassificationLabel = z.infer<typeof classificationLabelSchema>;
+
+// A matching category disqualified by a veto criteria
+export const vetoedCategorySchema = z.object({
+  category: categorySchema,
+  matched_criteria_details: z.array(criteriaMatchSchema), // Includes the vetoes that fired
+});
+
+export type VetoedCategory = z.infer<typeof vetoedCategorySchema>;
+
+// A criteria left out of scoring, e.g. because its pattern ran over the matching time budget
+export const skippedCriteriaSchema = z.object({
+  id: z.number(),
+  category_id: z.number(),
+  name: z.string(),
+  reason: z.enum(['timeout']),
+});
+
+export type SkippedCriteria = z.infer<typeof skippedCriteriaSchema>;
+
 export const classificationResponseSchema = z.object({
   document: documentSchema,
+  run: classificationRunSchema,
+  // Top-ranked label, kept at the top level for single-label consumers; the unclassified result when there is none
   result: classificationResultSchema,
-  category: categorySchema,
-  matched_criteria_details: z.array(criteriaSchema),
+  category: categorySchema.nullable(),
+  matched_criteria_details: z.array(criteriaMatchSchema),
+  labels: z.array(classificationLabelSchema), // Every assigned label, highest score first; empty when unclassified
+  vetoed_categories: z.array(vetoedCategorySchema),
+  skipped_criteria: z.array(skippedCriteriaSchema),
 });
 
 export type ClassificationResponse = z.infer<typeof classificationResponseSchema>;
 
+export const overrideClassificationResponseSchema = z.object({
+  document: documentSchema, // Now points at the manual result
+  result: classificationResultSchema,
+  category: categorySchema,
+});
+
+export type OverrideClassificationResponse = z.infer<typeof overrideClassificationResponseSchema>;
+
+// Outcome for one document of a batch; a failure does not stop the rest of the batch
+export const batchItemResultSchema = z.object({
+  document_id: z.number(),
+  status: z.enum(['classified', 'unclassified', 'failed']),
+  result: classificationResultSchema.nullable(), // Top-ranked result of the run, null when it failed
+  category: categorySchema.nullable(),
+  labels: z.array(categorySchema), // Every assigned label, highest score first
+  error: z.string().nullable(),
+});
+
+export type BatchItemResult = z.infer<typeof batchItemResultSchema>;
+
+export const categoryCountSchema = z.object({
+  category: categorySchema,
+  count: z.number().int(), // Documents whose top-ranked label is the category
+});
+
+export type CategoryCount = z.infer<typeof categoryCountSchema>;
+
+export const classifyBatchResponseSchema = z.object({
+  items: z.array(batchItemResultSchema), // In the order of the requested ids
+  summary: z.object({
+    total: z.number().int(),
+    classified: z.number().int(),
+    unclassified: z.number().int(),
+    failed: z.number().int(),
+    category_counts: z.array(categoryCountSchema), // Most common first
+  }),
+});
+
+export type ClassifyBatchResponse = z.infer<typeof classifyBatchResponseSchema>;
+
+// An archive's documents with their current classification
+export const documentBatchDetailSchema = z.object({
+  batch: documentBatchSchema,
+  documents: z.array(z.object({
+    document: documentSchema,
+    result: classificationResultSchema.nullable(), // Null until the document is classified
+    category: categorySchema.nullable(),
+  })), // In archive order
+  summary: z.object({
+    total: z.number().int(),
+    classified: z.number().int(),
+    unclassified: z.number().int(),
+    pending: z.number().int(), // Never classified
+    category_counts: z.array(categoryCountSchema), // Most common first
+  }),
+});
+
+export type DocumentBatchDetail = z.infer<typeof documentBatchDetailSchema>;
+
+// One classification run of a document with the labels it assigned
+export const classificationHistoryEntrySchema = z.object({
+  run: classificationRunSchema.nullable(), // Null for results recorded before runs existed
+  results: z.array(z.object({
+    result: classificationResultSchema,
+    category: categorySchema.nullable(), // Null when unclassified
+  })),
+  is_current: z.boolean(), // Holds the document's current result
+});
+
+export type ClassificationHistoryEntry = z.infer<typeof classificationHistoryEntrySchema>;
+
+export const classificationHistorySchema = z.object({
+  document: documentSchema,
+  entries: z.array(classificationHistoryEntrySchema), // Newest first
+});
+
+export type ClassificationHistory = z.infer<typeof classificationHistorySchema>;
+
+// A document whose current result assigns no category
+export const unclassifiedDocumentSchema = z.object({
+  document: documentSchema,
+  result: classificationResultSchema, // Carries the unclassified_reason
+});
+
+export type UnclassifiedDocument = z.infer<typeof unclassifiedDocumentSchema>;
+
+// A review queue item with the document and result it is about
+export const reviewQueueEntrySchema = z.object({
+  item: reviewQueueItemSchema,
+  document: documentSchema,
+  result: classificationResultSchema,
+  category: categorySchema.nullable(), // Null when the result is unclassified
+});
+
+export type ReviewQueueEntry = z.infer<typeof reviewQueueEntrySchema>;
+
+// A reclassification job with the documents whose category it changed
+export const reclassificationJobDetailSchema = z.object({
+  job: reclassificationJobSchema,
+  changes: z.array(z.object({
+    change: reclassificationChangeSchema,
+    document: documentSchema,
+    previous_category: categorySchema.nullable(),
+    new_category: categorySchema.nullable(),
+  })),
+});
+
+export type ReclassificationJobDetail = z.infer<typeof reclassificationJobDetailSchema>;
+
+// One row of the preview score table
+export const categoryPreviewSchema = z.object({
+  category: categorySchema,
+  rank: z.number().int(), // 1 for the best category, in classification order
+  score: z.number(),
+  max_score: z.number(),
+  normalized_score: z.number(),
+  confidence_level: z.enum(['low', 'medium', 'high']), // What the category would be assigned with
+  vetoed: z.boolean(),
+  selected: z.boolean(), // Whether classifyDocument would assign it with the same mode and threshold
+  matched_criteria: z.array(criteriaMatchSchema),
+  unmatched_criteria: z.array(criteriaSchema),
+  match_spans: z.array(matchSpanSchema),
+});
+
+export type CategoryPreview = z.infer<typeof categoryPreviewSchema>;
+
+export const classificationPreviewSchema = z.object({
+  document: documentSchema.nullable(), // Null when previewing raw text
+  categories: z.array(categoryPreviewSchema), // Every category, including those without criteria
+  unclassified_reason: unclassifiedReasonSchema.nullable(), // Set when no category would be assigned
+  skipped_criteria: z.array(skippedCriteriaSchema),
+});
+
+export type ClassificationPreview = z.infer<typeof classificationPreviewSchema>;
+
 export const categoriesListResponseSchema = z.object({
   categories: z.array(categorySchema),
 });
@@ -128,7 +920,16 @@ export const criteriaListResponseSchema = z.object({
     category_color: z.string(),
     name: z.string(),
     pattern: z.string(),
+    match_type: matchTypeSchema,
     weight: z.number(),
+    is_veto: z.boolean(),
+    frequency_mode: frequencyModeSchema,
+    position_mode: positionModeSchema,
+    position_window: z.number().nullable(),
+    scope: criteriaScopeSchema,
+    metadata_key: z.string().nullable(),
+    size_min: z.number().nullable(),
+    size_max: z.number().nullable(),
     created_at: z.coerce.date(),
   })),
 });
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { documentsTable, reviewQueueTable } from '../db/schema';
+import { classifyDocument } from '../handlers/classify_document';
+import { claimReviewItem } from '../handlers/claim_review_item';
+import { acceptReviewItem } from '../handlers/accept_review_item';
+import { getReviewQueue } from '../handlers/get_review_queue';
+import { eq } from 'drizzle-orm';
+
+describe('acceptReviewItem', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createQueuedItem = async () => {
+    const documents = await db.insert(documentsTable)
+      .values({ filename: 'memo.txt', file_type: 'txt', file_size: 100, content: 'Team lunch on Friday' })
+      .returning()
+      .execute();
+    const response = await classifyDocument({ document_id: documents[0].id });
+    const queue = await getReviewQueue();
+    return { item: queue[0].item, response };
+  };
+
+  it('should resolve the item and keep the current result', async () => {
+    const { item, response } = await createQueuedItem();
+
+    const accepted = await acceptReviewItem({ id: item.id, reviewer: 'Ana' });
+
+    expect(accepted.status).toEqual('accepted');
+    expect(accepted.resolved_by).toEqual('Ana');
+    expect(accepted.resolved_at).toBeInstanceOf(Date);
+    expect(await getReviewQueue()).toHaveLength(0);
+
+    const documents = await db.select().from(documentsTable).where(eq(documentsTable.id, item.document_id)).execute();
+    expect(documents[0].current_result_id).toEqual(response.result.id);
+  });
+
+  it('should not accept an item claimed by another reviewer', async () => {
+    const { item } = await createQueuedItem();
+    await claimReviewItem({ id: item.id, reviewer: 'Ana' });
+
+    await expect(acceptReviewItem({ id: item.id, reviewer: 'Ben' })).rejects.toThrow(/claimed by Ana/);
+  });
+
+  it('should not overwrite an item another reviewer resolves while it is being accepted', async () => {
+    const { item } = await createQueuedItem();
+
+    // Ben reassigns the item inside a transaction holding its row lock, so Ana's check sees it
+    // still pending but her update has to wait until Ben's commit
+    let acceptance: Promise<unknown> = Promise.resolve();
+    await db.transaction(async tx => {
+      await tx.update(reviewQueueTable)
+        .set({ status: 'reassigned', resolved_by: 'Ben', resolved_at: new Date() })
+        .where(eq(reviewQueueTable.id, item.id))
+        .execute();
+      acceptance = acceptReviewItem({ id: item.id, reviewer: 'Ana' }).catch(error => error);
+      await new Promise(resolve => setTimeout(resolve, 200));
+    });
+
+    expect(String(await acceptance)).toMatch(/was resolved or claimed by another reviewer/);
+    const stored = await db.select().from(reviewQueueTable).where(eq(reviewQueueTable.id, item.id)).execute();
+    expect(stored[0].status).toEqual('reassigned');
+    expect(stored[0].resolved_by).toEqual('Ben');
+  });
+
+  it('should queue the document again after a later uncertain run', async () => {
+    const { item } = await createQueuedItem();
+    await acceptReviewItem({ id: item.id, reviewer: 'Ana' });
+
+    await classifyDocument({ document_id: item.document_id });
+
+    const queue = await getReviewQueue();
+    expect(queue).toHaveLength(1);
+    expect(queue[0].item.id).not.toEqual(item.id);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'bun:test';
+import { strToU8, zipSync } from 'fflate';
+import { ARCHIVE_LIMITS, ArchiveError, checkArchive, expandArchive, isArchiveFilename } from '../lib/archive';
+
+describe('expandArchive', () => {
+  it('should return supported entries with their file types', () => {
+    const archive = zipSync({
+      'invoice.txt': strToU8('Invoice 42'),
+      'reports/annual.PDF': strToU8('%PDF-1.4'),
+    });
+
+    const { entries, skipped } = expandArchive(archive);
+
+    expect(entries.map(entry => [entry.path, entry.file_type])).toEqual([
+      ['invoice.txt', 'txt'],
+      ['reports/annual.PDF', 'pdf'],
+    ]);
+    expect(new TextDecoder().decode(entries[0].data)).toBe('Invoice 42');
+    expect(skipped).toEqual([]);
+  });
+
+  it('should skip unsupported and empty files but ignore directories and archiver metadata', () => {
+    const archive = zipSync({
+      'docs/': new Uint8Array(0),
+      'docs/notes.txt': strToU8('Meeting notes'),
+      'docs/photo.png': strToU8('not really a png'),
+      'docs/empty.txt': new Uint8Array(0),
+      '__MACOSX/docs/._notes.txt': strToU8('resource fork'),
+      'docs/.DS_Store': strToU8('finder'),
+    });
+
+    const { entries, skipped } = expandArchive(archive);
+
+    expect(entries.map(entry => entry.path)).toEqual(['docs/notes.txt']);
+    expect(skipped).toEqual([
+      { path: 'docs/photo.png', reason: 'Unsupported file type' },
+      { path: 'docs/empty.txt', reason: 'File is empty' },
+    ]);
+  });
+
+  it('should expand nested archives up to the depth limit', () => {
+    const innermost = zipSync({ 'deep.txt': strToU8('Too deep') });
+    const inner = zipSync({ 'contract.txt': strToU8('Contract'), 'more.zip': innermost });
+    const archive = zipSync({ 'cover.txt': strToU8('Cover letter'), 'attachments.zip': inner });
+
+    const { entries, skipped } = expandArchive(archive);
+
+    expect(entries.map(entry => entry.path)).toEqual(['cover.txt', 'attachments.zip/contract.txt']);
+    expect(skipped).toEqual([
+      { path: 'attachments.zip/more.zip', reason: `Archives nested more than ${ARCHIVE_LIMITS.maxDepth} deep are not expanded` },
+    ]);
+  });
+
+  it('should skip nested archives that cannot be read', () => {
+    const archive = zipSync({ 'ok.txt': strToU8('Fine'), 'broken.zip': strToU8('not a zip file') });
+
+    const { entries, skipped } = expandArchive(archive);
+
+    expect(entries.map(entry => entry.path)).toEqual(['ok.txt']);
+    expect(skipped).toEqual([{ path: 'broken.zip', reason: 'Not a valid zip archive' }]);
+  });
+
+  it('should skip entries over the size limit', () => {
+    const archive = zipSync({ 'small.txt': strToU8('small'), 'large.txt': strToU8('x'.repeat(2048)) });
+
+    const { entries, skipped } = expandArchive(archive, { ...ARCHIVE_LIMITS, maxEntrySize: 1024 });
+
+    expect(entries.map(entry => entry.path)).toEqual(['small.txt']);
+    expect(skipped[0].path).toBe('large.txt');
+  });
+
+  it('should reject archives that expand beyond the total size limit', () => {
+    // Highly compressible content, the shape of a zip bomb
+    const archive = zipSync({ 'a.txt': strToU8('a'.repeat(4096)), 'b.txt': strToU8('b'.repeat(4096)) });
+    expect(archive.length).toBeLessThan(1024);
+
+    expect(() => expandArchive(archive, { ...ARCHIVE_LIMITS, maxTotalSize: 6000 })).toThrow(ArchiveError);
+  });
+
+  it('should reject archives with too many files, counting nested archives', () => {
+    const inner = zipSync({ 'b.txt': strToU8('b'), 'c.txt': strToU8('c') });
+    const archive = zipSync({ 'a.txt': strToU8('a'), 'inner.zip': inner });
+
+    expect(() => expandArchive(archive, { ...ARCHIVE_LIMITS, maxEntries: 3 })).toThrow('more than 3 files');
+    expect(expandArchive(archive, { ...ARCHIVE_LIMITS, maxEntries: 4 }).entries).toHaveLength(3);
+  });
+
+  it('should reject data that is not a zip archive', () => {
+    expect(() => expandArchive(strToU8('plain text'))).toThrow(ArchiveError);
+  });
+});
+
+describe('checkArchive', () => {
+  it('should accept archives with a supported entry', () => {
+    const archive = zipSync({ 'notes.txt': strToU8('Meeting notes'), 'logo.png': strToU8('image bytes') });
+
+    expect(() => checkArchive(archive)).not.toThrow();
+  });
+
+  it('should reject archives without supported entries', () => {
+    const archive = zipSync({ 'logo.png': strToU8('image bytes'), 'large.txt': strToU8('x'.repeat(2048)) });
+
+    expect(() => checkArchive(archive, { ...ARCHIVE_LIMITS, maxEntrySize: 1024 })).toThrow('no supported documents');
+  });
+
+  it('should leave nested archives to the import', () => {
+    const archive = zipSync({ 'photos.zip': zipSync({ 'logo.png': strToU8('image bytes') }) });
+
+    expect(() => checkArchive(archive)).not.toThrow();
+    expect(expandArchive(archive).entries).toHaveLength(0);
+  });
+
+  it('should apply the entry and total size limits to the declared sizes', () => {
+    const archive = zipSync({ 'a.txt': strToU8('a'.repeat(4096)), 'b.txt': strToU8('b'.repeat(4096)) });
+
+    expect(() => checkArchive(archive, { ...ARCHIVE_LIMITS, maxEntries: 1 })).toThrow('more than 1 files');
+    expect(() => checkArchive(archive, { ...ARCHIVE_LIMITS, maxTotalSize: 6000 })).toThrow(ArchiveError);
+  });
+
+  it('should reject data that is not a zip archive', () => {
+    expect(() => checkArchive(strToU8('plain text'))).toThrow('Not a valid zip archive');
+  });
+});
+
+describe('isArchiveFilename', () => {
+  it('should match zip extensions case-insensitively', () => {
+    expect(isArchiveFilename('bundle.ZIP')).toBe(true);
+    expect(isArchiveFilename('bundle.zip.txt')).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { documentsTable, reviewQueueTable } from '../db/schema';
+import { classifyDocument } from '../handlers/classify_document';
+import { claimReviewItem } from '../handlers/claim_review_item';
+import { acceptReviewItem } from '../handlers/accept_review_item';
+import { getReviewQueue } from '../handlers/get_review_queue';
+import { REVIEW_CLAIM_TIMEOUT_MS } from '../lib/review_queue';
+import { eq } from 'drizzle-orm';
+
+describe('claimReviewItem', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  // Without criteria every document is unclassified and queued
+  const createQueuedItem = async () => {
+    const documents = await db.insert(documentsTable)
+      .values({ filename: 'memo.txt', file_type: 'txt', file_size: 100, content: 'Team lunch on Friday' })
+      .returning()
+      .execute();
+    await classifyDocument({ document_id: documents[0].id });
+    const queue = await getReviewQueue();
+    return queue[0].item;
+  };
+
+  it('should claim a pending item', async () => {
+    const item = await createQueuedItem();
+
+    const claimed = await claimReviewItem({ id: item.id, reviewer: 'Ana' });
+
+    expect(claimed.status).toEqual('claimed');
+    expect(claimed.claimed_by).toEqual('Ana');
+    expect(claimed.claimed_at).toBeInstanceOf(Date);
+
+    const rows = await db.select().from(reviewQueueTable).where(eq(reviewQueueTable.id, item.id)).execute();
+    expect(rows[0].status).toEqual('claimed');
+  });
+
+  it('should let the same reviewer claim again but not another reviewer', async () => {
+    const item = await createQueuedItem();
+    await claimReviewItem({ id: item.id, reviewer: 'Ana' });
+
+    expect((await claimReviewItem({ id: item.id, reviewer: 'Ana' })).claimed_by).toEqual('Ana');
+    await expect(claimReviewItem({ id: item.id, reviewer: 'Ben' })).rejects.toThrow(/claimed by Ana/);
+  });
+
+  it('should let another reviewer take over an expired claim', async () => {
+    const item = await createQueuedItem();
+    await db.update(reviewQueueTable)
+      .set({ status: 'claimed', claimed_by: 'Ana', claimed_at: new Date(Date.now() - REVIEW_CLAIM_TIMEOUT_MS - 1000) })
+      .where(eq(reviewQueueTable.id, item.id))
+      .execute();
+
+    const claimed = await claimReviewItem({ id: item.id, reviewer: 'Ben' });
+
+    expect(claimed.claimed_by).toEqual('Ben');
+  });
+
+  it('should reject resolved and missing items', async () => {
+    const item = await createQueuedItem();
+    await acceptReviewItem({ id: item.id, reviewer: 'Ana' });
+
+    await expect(claimReviewItem({ id: item.id, reviewer: 'Ana' })).rejects.toThrow(/already accepted/);
+    await expect(claimReviewItem({ id: 999999, reviewer: 'Ana' })).rejects.toThrow(/not found/);
+  });
+});
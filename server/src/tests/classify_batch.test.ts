@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, criteriaTable, documentsTable, documentBatchesTable, classificationRunsTable } from '../db/schema';
+import { classifyBatch } from '../handlers/classify_batch';
+
+describe('classifyBatch', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async () => {
+    const categories = await db.insert(categoriesTable)
+      .values([
+        { name: 'Invoices', color: '#3B82F6', description: null },
+        { name: 'Contracts', color: '#EF4444', description: null },
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(criteriaTable)
+      .values([
+        { category_id: categories[0].id, name: 'Invoice', pattern: 'invoice', match_type: 'keyword', weight: '0.80' },
+        { category_id: categories[1].id, name: 'Agreement', pattern: 'agreement', match_type: 'keyword', weight: '0.90' },
+      ])
+      .execute();
+
+    const documents = await db.insert(documentsTable)
+      .values([
+        { filename: 'invoice-1.txt', file_type: 'txt', file_size: 100, content: 'Invoice 1' },
+        { filename: 'invoice-2.txt', file_type: 'txt', file_size: 100, content: 'Invoice 2' },
+        { filename: 'contract.txt', file_type: 'txt', file_size: 100, content: 'Service agreement' },
+        { filename: 'memo.txt', file_type: 'txt', file_size: 100, content: 'Team lunch on Friday' },
+      ])
+      .returning()
+      .execute();
+
+    return { categories, documents };
+  };
+
+  it('should classify every document and summarize the categories', async () => {
+    const { categories, documents } = await createTestData();
+
+    const response = await classifyBatch({ document_ids: documents.map(document => document.id), concurrency: 2 });
+
+    expect(response.items.map(item => item.document_id)).toEqual(documents.map(document => document.id));
+    expect(response.items.map(item => item.status)).toEqual(['classified', 'classified', 'classified', 'unclassified']);
+    expect(response.items[2].category?.id).toEqual(categories[1].id);
+    expect(response.items[3].result?.unclassified_reason).toEqual('no_match');
+
+    expect(response.summary).toMatchObject({ total: 4, classified: 3, unclassified: 1, failed: 0 });
+    expect(response.summary.category_counts.map(entry => [entry.category.name, entry.count])).toEqual([
+      ['Invoices', 2],
+      ['Contracts', 1],
+    ]);
+
+    expect(await db.select().from(classificationRunsTable).execute()).toHaveLength(4);
+  });
+
+  it('should report failures without failing the batch', async () => {
+    const { documents } = await createTestData();
+
+    const response = await classifyBatch({ document_ids: [documents[0].id, 999999] });
+
+    expect(response.items[0].status).toEqual('classified');
+    expect(response.items[1].status).toEqual('failed');
+    expect(response.items[1].error).toMatch(/Document not found/);
+    expect(response.summary.failed).toEqual(1);
+  });
+
+  it('should classify a repeated id once and pass the mode through', async () => {
+    const { documents } = await createTestData();
+    const [both] = await db.insert(documentsTable)
+      .values({ filename: 'both.txt', file_type: 'txt', file_size: 100, content: 'Invoice for the service agreement' })
+      .returning()
+      .execute();
+
+    const response = await classifyBatch({ document_ids: [both.id, both.id, documents[0].id], mode: 'multi', threshold: 0.2 });
+
+    expect(response.items).toHaveLength(2);
+    expect(response.items[0].labels.map(category => category.name)).toEqual(['Contracts', 'Invoices']);
+  });
+
+  it('should classify every document of an archive batch', async () => {
+    await createTestData();
+    const [batch] = await db.insert(documentBatchesTable)
+      .values({ filename: 'bundle.zip', file_size: 500 })
+      .returning()
+      .execute();
+    const batchDocuments = await db.insert(documentsTable)
+      .values([
+        { filename: 'bundle/invoice.txt', file_type: 'txt', file_size: 100, content: 'Invoice 3', batch_id: batch.id },
+        { filename: 'bundle/lease.txt', file_type: 'txt', file_size: 100, content: 'Lease agreement', batch_id: batch.id },
+      ])
+      .returning()
+      .execute();
+
+    const response = await classifyBatch({ batch_id: batch.id });
+
+    expect(response.items.map(item => item.document_id)).toEqual(batchDocuments.map(document => document.id));
+    expect(response.summary.category_counts.map(entry => [entry.category.name, entry.count])).toEqual([
+      ['Invoices', 1],
+      ['Contracts', 1],
+    ]);
+  });
+
+  it('should reject a batch without documents', async () => {
+    await expect(classifyBatch({ batch_id: 999999 })).rejects.toThrow(/has no documents/);
+  });
+});
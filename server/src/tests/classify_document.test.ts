@@ -1,9 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { categoriesTable, criteriaTable, documentsTable, classificationResultsTable } from '../db/schema';
-import { type ClassifyDocumentInput } from '../schema';
+import { categoriesTable, criteriaTable, documentsTable, classificationResultsTable, classificationRunsTable } from '../db/schema';
+import { type ClassifyDocumentInput, type MatchType } from '../schema';
 import { classifyDocument } from '../handlers/classify_document';
+import { updateClassificationSettings } from '../handlers/update_classification_settings';
+import { updateCategorySettings } from '../handlers/update_category_settings';
 import { eq } from 'drizzle-orm';
 
 describe('classifyDocument', () => {
@@ -143,9 +145,9 @@ describe('classifyDocument', () => {
     expect(result.result.classified_at).toBeInstanceOf(Date);
 
     // Verify category
-    expect(result.category.name).toBe('Business Documents');
-    expect(result.category.color).toBe('#3B82F6');
-    expect(result.category.description).toBe('Business related documents');
+    expect(result.category!.name).toBe('Business Documents');
+    expect(result.category!.color).toBe('#3B82F6');
+    expect(result.category!.description).toBe('Business related documents');
 
     // Verify matched criteria details
     expect(Array.isArray(result.matched_criteria_details)).toBe(true);
@@ -169,8 +171,8 @@ describe('classifyDocument', () => {
     const result = await classifyDocument(input);
 
     // Verify category is Legal Documents
-    expect(result.category.name).toBe('Legal Documents');
-    expect(result.category.color).toBe('#EF4444');
+    expect(result.category!.name).toBe('Legal Documents');
+    expect(result.category!.color).toBe('#EF4444');
 
     // Verify high confidence due to multiple matches
     expect(result.result.confidence_level).toBe('medium'); // 0.90 + 0.60 = 1.50
@@ -192,8 +194,8 @@ describe('classifyDocument', () => {
     const result = await classifyDocument(input);
 
     // Verify category is Technical Documents
-    expect(result.category.name).toBe('Technical Documents');
-    expect(result.category.color).toBe('#10B981');
+    expect(result.category!.name).toBe('Technical Documents');
+    expect(result.category!.color).toBe('#10B981');
 
     // Verify confidence level
     expect(result.result.confidence_level).toBe('low'); // Only 0.85 weight
@@ -223,11 +225,123 @@ describe('classifyDocument', () => {
     const savedResult = savedResults[0];
 
     expect(savedResult.document_id).toBe(businessDoc.id);
-    expect(savedResult.category_id).toBe(result.category.id);
+    expect(savedResult.category_id).toBe(result.category!.id);
     expect(savedResult.confidence_level).toBe(result.result.confidence_level);
     expect(parseFloat(savedResult.confidence_score)).toBe(result.result.confidence_score);
     expect(savedResult.classification_method).toBe('Pattern Matching');
     expect(savedResult.matched_criteria).toBe(JSON.stringify(result.result.matched_criteria));
+    expect(JSON.parse(savedResult.match_spans)).toEqual(result.result.match_spans);
+
+    // The document points at its latest result
+    const savedDocuments = await db.select()
+      .from(documentsTable)
+      .where(eq(documentsTable.id, businessDoc.id))
+      .execute();
+    expect(savedDocuments[0].current_result_id).toBe(result.result.id);
+    expect(result.document.current_result_id).toBe(result.result.id);
+  });
+
+  it('should record where each matched criteria hit', async () => {
+    const { documents } = await createTestData();
+    const businessDoc = documents[0];
+
+    const result = await classifyDocument({ document_id: businessDoc.id });
+
+    const criteriaNames = new Map(result.matched_criteria_details.map(criteria => [criteria.id, criteria.name]));
+    expect(result.result.match_spans.map(span => [criteriaNames.get(span.criteria_id), span.text])).toEqual([
+      ['Business Keywords', 'business'],
+      ['Business Keywords', 'company'],
+      ['Financial Terms', 'revenue'],
+      ['Financial Terms', 'financial'],
+      ['Business Keywords', 'corporate'],
+    ]);
+
+    // Offsets point into the document content
+    for (const span of result.result.match_spans) {
+      expect(businessDoc.content!.slice(span.start, span.end)).toEqual(span.text);
+    }
+  });
+
+  it('should match metadata-scoped criteria against that field only', async () => {
+    const category = await db.insert(categoriesTable)
+      .values({ name: 'Invoices', color: '#3B82F6', description: null })
+      .returning()
+      .execute();
+    await db.insert(criteriaTable)
+      .values([
+        { category_id: category[0].id, name: 'Invoice subject', pattern: 'invoice', match_type: 'keyword', weight: '0.90', scope: 'metadata', metadata_key: 'subject' },
+        { category_id: category[0].id, name: 'Billing sender', pattern: 'billing@', match_type: 'keyword', weight: '0.50', scope: 'metadata', metadata_key: 'sender' },
+      ])
+      .execute();
+    const documents = await db.insert(documentsTable)
+      .values([
+        {
+          filename: 'march.eml',
+          file_type: 'eml',
+          file_size: 300,
+          content: 'Please pay by Friday.',
+          metadata: JSON.stringify({ subject: 'Invoice 2024-03', sender: 'billing@acme.example' }),
+        },
+        {
+          filename: 'newsletter.eml',
+          file_type: 'eml',
+          file_size: 300,
+          content: 'This month: how to read an invoice.',
+          metadata: JSON.stringify({ subject: 'Newsletter', sender: 'news@acme.example' }),
+        },
+      ])
+      .returning()
+      .execute();
+
+    const invoice = await classifyDocument({ document_id: documents[0].id });
+    expect(invoice.category?.name).toEqual('Invoices');
+    expect(invoice.matched_criteria_details.map(criteria => criteria.name)).toEqual(['Invoice subject', 'Billing sender']);
+    expect(invoice.result.match_spans).toEqual([]); // Spans only locate hits in the content
+    expect(invoice.document.metadata).toEqual({ subject: 'Invoice 2024-03', sender: 'billing@acme.example' });
+
+    // The body mentions an invoice, but the subject does not
+    const newsletter = await classifyDocument({ document_id: documents[1].id });
+    expect(newsletter.category).toBeNull();
+    expect(newsletter.result.unclassified_reason).toEqual('no_match');
+  });
+
+  it('should match filename, size and page scopes', async () => {
+    const category = await db.insert(categoriesTable)
+      .values({ name: 'Scans', color: '#3B82F6', description: null })
+      .returning()
+      .execute();
+    await db.insert(criteriaTable)
+      .values([
+        { category_id: category[0].id, name: 'Scan filename', pattern: '^scan_', match_type: 'regex', weight: '0.60', scope: 'filename' },
+        { category_id: category[0].id, name: 'Large file', pattern: '', match_type: 'keyword', weight: '0.30', scope: 'size', size_min: 4096 },
+        { category_id: category[0].id, name: 'Cover page', pattern: 'confidential', match_type: 'keyword', weight: '0.40', scope: 'first_page' },
+        { category_id: category[0].id, name: 'Signature page', pattern: 'signed', match_type: 'keyword', weight: '0.40', scope: 'last_page' },
+      ])
+      .execute();
+    const documents = await db.insert(documentsTable)
+      .values([
+        {
+          filename: 'scan_0042.pdf',
+          file_type: 'pdf',
+          file_size: 8192,
+          content: 'Confidential\fTerms, signed copies to follow\fSigned by both parties',
+        },
+        { filename: 'scan_0043.pdf', file_type: 'pdf', file_size: 1024, content: null },
+      ])
+      .returning()
+      .execute();
+
+    const scanned = await classifyDocument({ document_id: documents[0].id });
+    expect(scanned.category?.name).toEqual('Scans');
+    expect(scanned.matched_criteria_details.map(criteria => criteria.name)).toEqual(['Scan filename', 'Large file', 'Cover page', 'Signature page']);
+    // Page hits are located in the content; 'signed' on the middle page is not the last page
+    const content = documents[0].content!;
+    expect(scanned.result.match_spans.map(span => span.start)).toEqual([0, content.lastIndexOf('Signed')]);
+
+    // Without text the filename still classifies the document
+    const empty = await classifyDocument({ document_id: documents[1].id });
+    expect(empty.category?.name).toEqual('Scans');
+    expect(empty.matched_criteria_details.map(criteria => criteria.name)).toEqual(['Scan filename']);
   });
 
   it('should handle regex patterns correctly', async () => {
@@ -260,7 +374,7 @@ describe('classifyDocument', () => {
 
     const result = await classifyDocument(input);
 
-    expect(result.category.name).toBe('Business Documents');
+    expect(result.category!.name).toBe('Business Documents');
     expect(result.result.matched_criteria).toContain('Regex Pattern');
   });
 
@@ -295,7 +409,7 @@ describe('classifyDocument', () => {
     // Should not throw error and fall back to string matching
     const result = await classifyDocument(input);
 
-    expect(result.category.name).toBe('Business Documents');
+    expect(result.category!.name).toBe('Business Documents');
     expect(result.result.matched_criteria).toContain('Invalid Regex');
   });
 
@@ -309,7 +423,7 @@ describe('classifyDocument', () => {
     await expect(classifyDocument(input)).rejects.toThrow(/document not found/i);
   });
 
-  it('should throw error for document without content', async () => {
+  it('should record documents without content as unclassified', async () => {
     const { documents } = await createTestData();
     const noContentDoc = documents[3];
 
@@ -317,10 +431,22 @@ describe('classifyDocument', () => {
       document_id: noContentDoc.id
     };
 
-    await expect(classifyDocument(input)).rejects.toThrow(/no extractable content/i);
+    const result = await classifyDocument(input);
+
+    expect(result.category).toBeNull();
+    expect(result.labels).toHaveLength(0);
+    expect(result.result.category_id).toBeNull();
+    expect(result.result.unclassified_reason).toBe('no_content');
+    expect(result.result.confidence_score).toEqual(0);
+
+    // The unclassified outcome is stored like any other result
+    const saved = await db.select().from(classificationResultsTable).execute();
+    expect(saved).toHaveLength(1);
+    expect(saved[0].document_id).toBe(noContentDoc.id);
+    expect(saved[0].unclassified_reason).toBe('no_content');
   });
 
-  it('should throw error when no criteria are available', async () => {
+  it('should record documents as unclassified when no criteria are available', async () => {
     // Create document without any classification criteria
     const documents = await db.insert(documentsTable)
       .values({
@@ -336,10 +462,13 @@ describe('classifyDocument', () => {
       document_id: documents[0].id
     };
 
-    await expect(classifyDocument(input)).rejects.toThrow(/no classification criteria available/i);
+    const result = await classifyDocument(input);
+
+    expect(result.category).toBeNull();
+    expect(result.result.unclassified_reason).toBe('no_criteria');
   });
 
-  it('should throw error when no matching criteria are found', async () => {
+  it('should record documents as unclassified when no criteria match', async () => {
     const { categories } = await createTestData();
 
     // Create criteria that won't match
@@ -367,7 +496,12 @@ describe('classifyDocument', () => {
       document_id: documents[0].id
     };
 
-    await expect(classifyDocument(input)).rejects.toThrow(/no matching classification criteria found/i);
+    const result = await classifyDocument(input);
+
+    expect(result.category).toBeNull();
+    expect(result.matched_criteria_details).toHaveLength(0);
+    expect(result.result.unclassified_reason).toBe('no_match');
+    expect(result.result.matched_criteria).toEqual([]);
   });
 
   it('should properly calculate confidence scores and levels', async () => {
@@ -419,4 +553,565 @@ describe('classifyDocument', () => {
     expect(result.result.confidence_score).toBeGreaterThan(0.6); // Normalized high score
     expect(result.result.matched_criteria.length).toBe(3);
   });
-});
\ No newline at end of file
+
+  describe('multi-label mode', () => {
+    const createMixedDocument = async () => {
+      const documents = await db.insert(documentsTable)
+        .values({
+          filename: 'service_contract.pdf',
+          file_type: 'pdf',
+          file_size: 2048,
+          content: 'This contract between the parties sets the annual budget and revenue share for the company.'
+        })
+        .returning()
+        .execute();
+      return documents[0];
+    };
+
+    it('should return every category above the threshold ranked by score', async () => {
+      await createTestData();
+      const document = await createMixedDocument();
+
+      const result = await classifyDocument({ document_id: document.id, mode: 'multi' });
+
+      // Business: 0.80 + 0.70 = 1.50, Legal: 0.90 + 0.60 = 1.50, Technical: no match
+      expect(result.labels).toHaveLength(2);
+      expect(result.labels.map(label => label.category.name)).toEqual(['Business Documents', 'Legal Documents']);
+      expect(result.run.mode).toBe('multi');
+      expect(result.run.threshold).toBe(0.2);
+
+      // Every label carries its own score, confidence and matched criteria
+      const legal = result.labels[1];
+      expect(legal.result.confidence_level).toBe('medium');
+      expect(legal.result.confidence_score).toBeCloseTo(0.5, 3);
+      expect(legal.result.matched_criteria).toEqual(['Legal Keywords', 'Legal Entities']);
+      expect(legal.matched_criteria_details.map(criteria => criteria.name)).toEqual(['Legal Keywords', 'Legal Entities']);
+
+      // Top-level fields mirror the best label
+      expect(result.category!.id).toBe(result.labels[0].category.id);
+      expect(result.result.id).toBe(result.labels[0].result.id);
+    });
+
+    it('should store one result row per label tied to a single run', async () => {
+      await createTestData();
+      const document = await createMixedDocument();
+
+      const result = await classifyDocument({ document_id: document.id, mode: 'multi' });
+
+      const runs = await db.select()
+        .from(classificationRunsTable)
+        .execute();
+      expect(runs).toHaveLength(1);
+      expect(runs[0].id).toBe(result.run.id);
+      expect(runs[0].document_id).toBe(document.id);
+
+      const savedResults = await db.select()
+        .from(classificationResultsTable)
+        .where(eq(classificationResultsTable.run_id, result.run.id))
+        .execute();
+      expect(savedResults).toHaveLength(2);
+      expect(savedResults.map(saved => saved.category_id).sort()).toEqual(result.labels.map(label => label.category.id).sort());
+    });
+
+    it('should drop categories below the threshold', async () => {
+      const { categories } = await createTestData();
+      const document = await createMixedDocument();
+
+      // Add a stronger business signal so only Business clears a high threshold
+      await db.insert(criteriaTable)
+        .values({
+          category_id: categories[0].id,
+          name: 'Company Mentions',
+          pattern: 'company',
+          weight: '0.90'
+        })
+        .execute();
+
+      const result = await classifyDocument({ document_id: document.id, mode: 'multi', threshold: 0.7 });
+
+      expect(result.labels).toHaveLength(1);
+      expect(result.labels[0].category.name).toBe('Business Documents');
+      expect(result.run.threshold).toBe(0.7);
+    });
+
+    it('should record the document as unclassified when no category reaches the threshold', async () => {
+      await createTestData();
+      const document = await createMixedDocument();
+
+      const result = await classifyDocument({ document_id: document.id, mode: 'multi', threshold: 0.9 });
+
+      expect(result.labels).toHaveLength(0);
+      expect(result.result.unclassified_reason).toBe('below_threshold');
+      expect(result.run.threshold).toBe(0.9);
+    });
+
+    it('should record single-label classifications as a run with one result', async () => {
+      await createTestData();
+      const document = await createMixedDocument();
+
+      const result = await classifyDocument({ document_id: document.id });
+
+      expect(result.run.mode).toBe('single');
+      expect(result.run.threshold).toBeNull();
+      expect(result.labels).toHaveLength(1);
+      expect(result.result.run_id).toBe(result.run.id);
+    });
+  });
+
+  describe('scoring settings', () => {
+    // A small category (one criterion) competing with a large one (four criteria)
+    const createUnevenCategories = async () => {
+      const categories = await db.insert(categoriesTable)
+        .values([
+          { name: 'Receipts', color: '#22C55E', description: null },
+          { name: 'Reports', color: '#6366F1', description: null }
+        ])
+        .returning()
+        .execute();
+
+      await db.insert(criteriaTable)
+        .values([
+          { category_id: categories[0].id, name: 'Receipt', pattern: 'receipt', weight: '0.90' },
+          { category_id: categories[1].id, name: 'Report', pattern: 'report', weight: '0.50' },
+          { category_id: categories[1].id, name: 'Quarter', pattern: 'quarter', weight: '0.50' },
+          { category_id: categories[1].id, name: 'Summary', pattern: 'summary', weight: '0.50' },
+          { category_id: categories[1].id, name: 'Appendix', pattern: 'appendix', weight: '0.50' }
+        ])
+        .execute();
+
+      const documents = await db.insert(documentsTable)
+        .values({
+          filename: 'receipt.txt',
+          file_type: 'txt',
+          file_size: 100,
+          content: 'Payment receipt attached to the quarter report.'
+        })
+        .returning()
+        .execute();
+
+      return { categories, document: documents[0] };
+    };
+
+    it('should let a small category reach high confidence with category_total normalization', async () => {
+      const { document } = await createUnevenCategories();
+
+      // Fixed normalization: 0.90 / 3.0 = 0.30 is "low" even though the only criterion matched
+      const fixed = await classifyDocument({ document_id: document.id, mode: 'multi', threshold: 0 });
+      const fixedReceipts = fixed.labels.find(label => label.category.name === 'Receipts')!;
+      expect(fixedReceipts.result.confidence_level).toBe('low');
+
+      await updateClassificationSettings({ normalization_mode: 'category_total' });
+
+      // Relative normalization: Receipts matched 0.90 of 0.90, Reports 1.00 of 2.00
+      const relative = await classifyDocument({ document_id: document.id, mode: 'multi', threshold: 0 });
+      expect(relative.labels.map(label => label.category.name)).toEqual(['Receipts', 'Reports']);
+      expect(relative.labels[0].result.confidence_score).toEqual(1);
+      expect(relative.labels[0].result.confidence_level).toBe('high');
+      expect(relative.labels[1].result.confidence_score).toEqual(0.5);
+      expect(relative.labels[1].result.confidence_level).toBe('medium');
+    });
+
+    it('should apply per-category overrides on top of the defaults', async () => {
+      const { categories, document } = await createUnevenCategories();
+
+      await updateCategorySettings({
+        category_id: categories[0].id,
+        normalization_mode: 'category_total',
+        high_threshold: 1
+      });
+
+      const result = await classifyDocument({ document_id: document.id });
+
+      expect(result.category!.name).toBe('Receipts');
+      expect(result.result.confidence_score).toEqual(1);
+      expect(result.result.confidence_level).toBe('high');
+    });
+
+    it('should use the configured global thresholds', async () => {
+      const { document } = await createTestData().then(async () => {
+        const documents = await db.select().from(documentsTable).execute();
+        return { document: documents[0] }; // Business plan: 1.50 raw, 0.50 normalized
+      });
+
+      await updateClassificationSettings({ high_threshold: 0.45, medium_threshold: 0.2 });
+
+      const result = await classifyDocument({ document_id: document.id });
+
+      expect(result.result.confidence_level).toBe('high');
+    });
+  });
+
+  describe('match types', () => {
+    // Classify content against one category and return the names of the criteria that matched
+    const matchedNames = async (content: string, criteria: { name: string; pattern: string; match_type: MatchType; }[]) => {
+      const categories = await db.insert(categoriesTable)
+        .values({ name: 'Engineering', color: '#0EA5E9', description: null })
+        .returning()
+        .execute();
+
+      await db.insert(criteriaTable)
+        .values([
+          // Always matches so classification succeeds
+          { category_id: categories[0].id, name: 'Anchor', pattern: 'skills', match_type: 'keyword' as const, weight: '0.10' },
+          ...criteria.map(c => ({ category_id: categories[0].id, weight: '0.50', ...c }))
+        ])
+        .execute();
+
+      const documents = await db.insert(documentsTable)
+        .values({ filename: 'doc.txt', file_type: 'txt', file_size: content.length, content })
+        .returning()
+        .execute();
+
+      const result = await classifyDocument({ document_id: documents[0].id });
+      return result.matched_criteria_details.map(c => c.name).filter(name => name !== 'Anchor');
+    };
+
+    it('should match keywords literally', async () => {
+      const matched = await matchedNames('Skills: C++, salary $100k', [
+        { name: 'Salary', pattern: '$100', match_type: 'keyword' },
+        { name: 'Language', pattern: 'c++', match_type: 'keyword' },
+        { name: 'Missing', pattern: '$200', match_type: 'keyword' }
+      ]);
+
+      expect(matched).toEqual(['Salary', 'Language']);
+    });
+
+    it('should only match whole words', async () => {
+      const matched = await matchedNames('Skills: category theory, C++, Cat herding', [
+        { name: 'Cat', pattern: 'cat', match_type: 'whole_word' },
+        { name: 'Catalog', pattern: 'catalog', match_type: 'whole_word' },
+        { name: 'C++', pattern: 'c++', match_type: 'whole_word' },
+        { name: 'Skill', pattern: 'skill', match_type: 'whole_word' }
+      ]);
+
+      expect(matched).toEqual(['Cat', 'C++']);
+    });
+
+    it('should match phrases as word sequences', async () => {
+      const matched = await matchedNames('Skills: drafting this Service\nAgreement', [
+        { name: 'Service agreement', pattern: 'service agreement', match_type: 'phrase' },
+        { name: 'Agreement service', pattern: 'agreement service', match_type: 'phrase' },
+        { name: 'Partial', pattern: 'service agree', match_type: 'phrase' }
+      ]);
+
+      expect(matched).toEqual(['Service agreement']);
+    });
+
+    it('should respect case in case-sensitive regexes', async () => {
+      const matched = await matchedNames('Skills: invoice INV-42', [
+        { name: 'Code', pattern: 'INV-\\d+', match_type: 'regex_case_sensitive' },
+        { name: 'Title', pattern: 'Invoice', match_type: 'regex_case_sensitive' },
+        { name: 'Any case', pattern: 'Invoice', match_type: 'regex' }
+      ]);
+
+      expect(matched).toEqual(['Code', 'Any case']);
+    });
+
+    it('should fall back to literal matching for invalid legacy regexes', async () => {
+      const matched = await matchedNames('Skills: (?i) flag', [
+        { name: 'Legacy', pattern: '(?i)', match_type: 'regex' }
+      ]);
+
+      expect(matched).toEqual(['Legacy']);
+    });
+  });
+
+  describe('frequency and position scoring', () => {
+    // Classify content against a single weight-0.90 criteria and return its match details
+    const matchDetails = async (content: string, criteria: Partial<typeof criteriaTable.$inferInsert>) => {
+      await db.delete(criteriaTable).execute(); // Only this call's criteria should score
+
+      const categories = await db.insert(categoriesTable)
+        .values({ name: 'Reports', color: '#6366F1', description: null })
+        .returning()
+        .execute();
+
+      await db.insert(criteriaTable)
+        .values({ category_id: categories[0].id, name: 'Report', pattern: 'report', weight: '0.90', ...criteria })
+        .execute();
+
+      const documents = await db.insert(documentsTable)
+        .values({ filename: 'doc.txt', file_type: 'txt', file_size: content.length, content })
+        .returning()
+        .execute();
+
+      const result = await classifyDocument({ document_id: documents[0].id });
+      return { result, details: result.matched_criteria_details[0] };
+    };
+
+    it('should count every occurrence but score presence only once by default', async () => {
+      const { result, details } = await matchDetails('report report report', {});
+
+      expect(details.match_count).toBe(3);
+      expect(details.contribution).toBeCloseTo(0.9);
+      expect(result.result.confidence_score).toBeCloseTo(0.3);
+    });
+
+    it('should give diminishing returns for repeated matches', async () => {
+      const once = await matchDetails('A passing report mention.', { frequency_mode: 'diminishing' });
+      expect(once.details.match_count).toBe(1);
+      expect(once.details.contribution).toBeCloseTo(0.3);
+
+      const thrice = await matchDetails('report, report and report', { frequency_mode: 'diminishing' });
+      expect(thrice.details.contribution).toBeCloseTo(0.6);
+
+      const often = await matchDetails('report '.repeat(20), { frequency_mode: 'diminishing' });
+      expect(often.details.match_count).toBe(20);
+      expect(often.details.contribution).toBeCloseTo(0.9); // Capped at the weight
+      expect(often.result.result.confidence_score).toBeCloseTo(0.3);
+    });
+
+    it('should favour matches in the leading window', async () => {
+      const leading = await matchDetails('Annual report for shareholders', { position_mode: 'leading', position_window: 50 });
+      expect(leading.details.contribution).toBeCloseTo(0.9);
+
+      const late = await matchDetails(`${'x'.repeat(100)} see the report`, { position_mode: 'leading', position_window: 50 });
+      expect(late.details.contribution).toBeCloseTo(0.225);
+    });
+
+    it('should favour matches in titles and headings', async () => {
+      const title = await matchDetails('Quarterly Report\n\nRevenue grew in all regions.', { position_mode: 'heading' });
+      expect(title.details.contribution).toBeCloseTo(0.9);
+
+      const heading = await matchDetails('Overview\nText.\n2. Report Details\nMore text.', { position_mode: 'heading' });
+      expect(heading.details.contribution).toBeCloseTo(0.9);
+
+      const body = await matchDetails('Overview\nThe attached report covers revenue.', { position_mode: 'heading' });
+      expect(body.details.contribution).toBeCloseTo(0.225);
+    });
+
+    it('should favour body matches in body mode', async () => {
+      const inTitle = await matchDetails('REPORT\nRevenue grew.', { position_mode: 'body' });
+      expect(inTitle.details.contribution).toBeCloseTo(0.225);
+
+      const inBody = await matchDetails('Overview\nThe report covers revenue.', { position_mode: 'body' });
+      expect(inBody.details.contribution).toBeCloseTo(0.9);
+    });
+
+    it('should treat the first line of each page as a title', async () => {
+      const { details } = await matchDetails('Cover\fReport Appendix\nTables follow.', { position_mode: 'heading' });
+      expect(details.contribution).toBeCloseTo(0.9);
+    });
+
+    it('should combine position and frequency', async () => {
+      // 1 heading match (1.0) + 2 body matches (0.25 each): effective count 1.5
+      const { details } = await matchDetails('REPORT\nThe report and its report.', { position_mode: 'heading', frequency_mode: 'diminishing' });
+
+      expect(details.match_count).toBe(3);
+      expect(details.contribution).toBeCloseTo(0.9 * Math.log2(2.5) / 3);
+    });
+  });
+
+  describe('exclusion criteria', () => {
+    // Invoices and quotes share vocabulary; exclusions tell them apart
+    const createExclusionData = async (content: string) => {
+      const categories = await db.insert(categoriesTable)
+        .values([
+          { name: 'Invoice', color: '#22C55E', description: null },
+          { name: 'Quote', color: '#F59E0B', description: null }
+        ])
+        .returning()
+        .execute();
+
+      await db.insert(criteriaTable)
+        .values([
+          { category_id: categories[0].id, name: 'Invoice terms', pattern: 'invoice|amount due', weight: '0.90' },
+          { category_id: categories[0].id, name: 'Quotation', pattern: 'quotation', weight: '-0.60' },
+          { category_id: categories[0].id, name: 'Draft', pattern: 'draft', match_type: 'whole_word', weight: '0.00', is_veto: true },
+          { category_id: categories[1].id, name: 'Quote terms', pattern: 'quotation|valid until', weight: '0.50' }
+        ])
+        .execute();
+
+      const documents = await db.insert(documentsTable)
+        .values({ filename: 'doc.txt', file_type: 'txt', file_size: content.length, content })
+        .returning()
+        .execute();
+
+      return { categories, document: documents[0] };
+    };
+
+    it('should subtract negative weights and report the exclusion', async () => {
+      const { document } = await createExclusionData('Invoice attached. Amount due per our quotation.');
+
+      const result = await classifyDocument({ document_id: document.id, mode: 'multi', threshold: 0 });
+
+      const invoice = result.labels.find(label => label.category.name === 'Invoice')!;
+      expect(invoice.result.confidence_score).toBeCloseTo(0.1); // (0.90 - 0.60) / 3.0
+      const exclusion = invoice.matched_criteria_details.find(c => c.name === 'Quotation')!;
+      expect(exclusion.weight).toEqual(-0.6);
+      expect(exclusion.contribution).toBeCloseTo(-0.6);
+      expect(invoice.result.matched_criteria).toContain('Quotation');
+
+      // The quote now outranks the invoice
+      expect(result.category!.name).toBe('Quote');
+      expect(result.vetoed_categories).toEqual([]);
+    });
+
+    it('should disqualify a category when a veto fires', async () => {
+      const { document } = await createExclusionData('DRAFT invoice - amount due pending, valid until Friday');
+
+      const result = await classifyDocument({ document_id: document.id });
+
+      expect(result.category!.name).toBe('Quote');
+      expect(result.labels).toHaveLength(1);
+      expect(result.vetoed_categories).toHaveLength(1);
+      expect(result.vetoed_categories[0].category.name).toBe('Invoice');
+      const veto = result.vetoed_categories[0].matched_criteria_details.find(c => c.is_veto)!;
+      expect(veto.name).toBe('Draft');
+      expect(veto.contribution).toEqual(0);
+
+      // Vetoed categories never get a stored result
+      const saved = await db.select().from(classificationResultsTable).execute();
+      expect(saved.map(row => row.category_id)).not.toContain(result.vetoed_categories[0].category.id);
+    });
+
+    it('should record the document as unclassified when every matching category is vetoed', async () => {
+      const { document } = await createExclusionData('Draft invoice');
+
+      const result = await classifyDocument({ document_id: document.id });
+
+      expect(result.category).toBeNull();
+      expect(result.result.unclassified_reason).toBe('vetoed');
+      expect(result.vetoed_categories.map(vetoed => vetoed.category.name)).toEqual(['Invoice']);
+    });
+
+    it('should not let a category with only negative matches win', async () => {
+      const { document } = await createExclusionData('Quotation for services, valid until June');
+
+      const result = await classifyDocument({ document_id: document.id, mode: 'multi', threshold: 0 });
+
+      expect(result.labels.map(label => label.category.name)).toEqual(['Quote']);
+    });
+  });
+
+  describe('composite rules', () => {
+    // A contract category with one plain criteria that composite rules can reference
+    const createCompositeData = async (rules: { name: string; pattern: (partiesId: number) => string; }[]) => {
+      const categories = await db.insert(categoriesTable)
+        .values({ name: 'Contracts', color: '#EF4444', description: null })
+        .returning()
+        .execute();
+
+      const parties = await db.insert(criteriaTable)
+        .values({ category_id: categories[0].id, name: 'Parties', pattern: 'party|parties', match_type: 'regex', weight: '0.10' })
+        .returning()
+        .execute();
+
+      await db.insert(criteriaTable)
+        .values(rules.map(rule => ({
+          category_id: categories[0].id,
+          name: rule.name,
+          pattern: rule.pattern(parties[0].id),
+          match_type: 'composite' as const,
+          weight: '0.90'
+        })))
+        .execute();
+    };
+
+    const classifyText = async (content: string) => {
+      const documents = await db.insert(documentsTable)
+        .values({ filename: 'doc.txt', file_type: 'txt', file_size: content.length, content })
+        .returning()
+        .execute();
+
+      const result = await classifyDocument({ document_id: documents[0].id });
+      return result.matched_criteria_details.map(c => c.name);
+    };
+
+    it('should evaluate AND, OR, NOT and criteria references', async () => {
+      await createCompositeData([
+        { name: 'Signed agreement', pattern: id => `"agreement" AND (@${id} OR "signatory") AND NOT "draft"` }
+      ]);
+
+      expect(await classifyText('This agreement binds both parties.')).toEqual(['Parties', 'Signed agreement']);
+      expect(await classifyText('Draft agreement between the parties.')).toEqual(['Parties']);
+      expect(await classifyText('Agreement for the signatory.')).toEqual(['Signed agreement']);
+    });
+
+    it('should evaluate proximity in words', async () => {
+      await createCompositeData([
+        { name: 'Termination notice', pattern: () => '"termination" NEAR/3 /notice|\\d+ days/' },
+        { name: 'Anchor', pattern: () => '"lease"' }
+      ]);
+
+      expect(await classifyText('Lease: termination requires 30 days written notice.')).toEqual(['Termination notice', 'Anchor']);
+      expect(await classifyText('Lease: termination is possible. Much later, after many other unrelated words, notice.')).toEqual(['Anchor']);
+    });
+
+    it('should count each satisfied occurrence of a composite rule', async () => {
+      await createCompositeData([
+        { name: 'Agreement', pattern: () => '"agreement" OR "contract"' }
+      ]);
+
+      const documents = await db.insert(documentsTable)
+        .values({ filename: 'doc.txt', file_type: 'txt', file_size: 40, content: 'Agreement, contract and agreement again' })
+        .returning()
+        .execute();
+
+      const result = await classifyDocument({ document_id: documents[0].id });
+      expect(result.matched_criteria_details[0].match_count).toBe(3);
+    });
+  });
+
+  describe('matching time budget', () => {
+    const originalBudget = process.env['REGEX_TIME_BUDGET_MS'];
+
+    beforeEach(() => {
+      process.env['REGEX_TIME_BUDGET_MS'] = '100';
+    });
+
+    afterEach(() => {
+      if (originalBudget === undefined) {
+        delete process.env['REGEX_TIME_BUDGET_MS'];
+      } else {
+        process.env['REGEX_TIME_BUDGET_MS'] = originalBudget;
+      }
+    });
+
+    it('should skip criteria that exceed the budget and report them', async () => {
+      const categories = await db.insert(categoriesTable)
+        .values({ name: 'Logs', color: '#64748B', description: null })
+        .returning()
+        .execute();
+
+      // Saved before patterns were checked for catastrophic backtracking
+      const criteria = await db.insert(criteriaTable)
+        .values([
+          { category_id: categories[0].id, name: 'Runaway', pattern: '(a|a)*$', weight: '0.90' },
+          { category_id: categories[0].id, name: 'Uses runaway', pattern: `"log" AND @0`, match_type: 'composite', weight: '0.50' },
+          { category_id: categories[0].id, name: 'Log', pattern: 'log', match_type: 'keyword', weight: '0.50' }
+        ])
+        .returning()
+        .execute();
+      await db.update(criteriaTable)
+        .set({ pattern: `"log" AND @${criteria[0].id}` })
+        .where(eq(criteriaTable.id, criteria[1].id))
+        .execute();
+
+      const documents = await db.insert(documentsTable)
+        .values({ filename: 'log.txt', file_type: 'txt', file_size: 40, content: `log ${'a'.repeat(28)}!` })
+        .returning()
+        .execute();
+
+      const result = await classifyDocument({ document_id: documents[0].id });
+
+      expect(result.category!.name).toBe('Logs');
+      expect(result.matched_criteria_details.map(c => c.name)).toEqual(['Log']);
+      expect(result.skipped_criteria).toEqual([
+        { id: criteria[0].id, category_id: categories[0].id, name: 'Runaway', reason: 'timeout' }
+      ]);
+    });
+
+    it('should keep classifying after a worker was replaced', async () => {
+      const { document } = await createTestData().then(async () => {
+        const documents = await db.select().from(documentsTable).execute();
+        return { document: documents[0] };
+      });
+
+      const result = await classifyDocument({ document_id: document.id });
+
+      expect(result.category!.name).toBe('Business Documents');
+      expect(result.skipped_criteria).toEqual([]);
+    });
+  });
+});
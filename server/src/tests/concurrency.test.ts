@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'bun:test';
+import { mapWithConcurrency } from '../lib/concurrency';
+
+describe('mapWithConcurrency', () => {
+  it('should keep the order of the items', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 2, async (delay, index) => {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return `${index}:${delay}`;
+    });
+
+    expect(results).toEqual(['0:30', '1:10', '2:20']);
+  });
+
+  it('should never run more calls than the limit at once', async () => {
+    let running = 0;
+    let peak = 0;
+
+    await mapWithConcurrency(Array.from({ length: 10 }, (_, index) => index), 3, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    });
+
+    expect(peak).toEqual(3);
+  });
+
+  it('should handle an empty list', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
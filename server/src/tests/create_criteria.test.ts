@@ -2,7 +2,7 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { criteriaTable, categoriesTable } from '../db/schema';
-import { type CreateCriteriaInput } from '../schema';
+import { type CreateCriteriaInput, createCriteriaInputSchema } from '../schema';
 import { createCriteria } from '../handlers/create_criteria';
 import { eq } from 'drizzle-orm';
 
@@ -117,14 +117,14 @@ describe('createCriteria', () => {
     const complexInput = {
       ...getTestInput(),
       name: 'Complex Pattern',
-      pattern: '(?i)(contract|agreement).*\\$[0-9,]+(\\.[0-9]{2})?',
+      pattern: '(contract|agreement).*\\$[0-9,]+(\\.[0-9]{2})?',
       weight: 0.85,
     };
 
     const result = await createCriteria(complexInput);
 
     expect(result.name).toEqual('Complex Pattern');
-    expect(result.pattern).toEqual('(?i)(contract|agreement).*\\$[0-9,]+(\\.[0-9]{2})?');
+    expect(result.pattern).toEqual('(contract|agreement).*\\$[0-9,]+(\\.[0-9]{2})?');
     expect(result.weight).toEqual(0.85);
 
     // Verify in database
@@ -133,6 +133,194 @@ describe('createCriteria', () => {
       .where(eq(criteriaTable.id, result.id))
       .execute();
 
-    expect(saved[0].pattern).toEqual('(?i)(contract|agreement).*\\$[0-9,]+(\\.[0-9]{2})?');
+    expect(saved[0].pattern).toEqual('(contract|agreement).*\\$[0-9,]+(\\.[0-9]{2})?');
   });
-});
\ No newline at end of file
+
+  it('should default to regex matching', async () => {
+    const result = await createCriteria(getTestInput());
+
+    expect(result.match_type).toEqual('regex');
+  });
+
+  it('should store the requested match type', async () => {
+    const result = await createCriteria({
+      ...getTestInput(),
+      pattern: 'c++',
+      match_type: 'whole_word',
+    });
+
+    expect(result.match_type).toEqual('whole_word');
+    expect(result.pattern).toEqual('c++');
+
+    const saved = await db.select()
+      .from(criteriaTable)
+      .where(eq(criteriaTable.id, result.id))
+      .execute();
+
+    expect(saved[0].match_type).toEqual('whole_word');
+  });
+
+  it('should reject invalid regex patterns', async () => {
+    await expect(createCriteria({ ...getTestInput(), pattern: '(?i)contract' }))
+      .rejects.toThrow(/not a valid regular expression/i);
+
+    await expect(createCriteria({ ...getTestInput(), pattern: 'c++', match_type: 'regex_case_sensitive' }))
+      .rejects.toThrow(/not a valid regular expression/i);
+
+    const saved = await db.select().from(criteriaTable).execute();
+    expect(saved).toHaveLength(0);
+  });
+
+  it('should validate regex patterns in the input schema', () => {
+    const invalid = createCriteriaInputSchema.safeParse({ ...getTestInput(), pattern: '[unclosed' });
+    expect(invalid.success).toBe(false);
+
+    // Non-regex match types take the pattern literally
+    const literal = createCriteriaInputSchema.safeParse({ ...getTestInput(), pattern: '[unclosed', match_type: 'keyword' });
+    expect(literal.success).toBe(true);
+  });
+
+  it('should store scoring modes', async () => {
+    const defaults = await createCriteria(getTestInput());
+    expect(defaults.frequency_mode).toEqual('presence');
+    expect(defaults.position_mode).toEqual('anywhere');
+    expect(defaults.position_window).toBeNull();
+
+    const result = await createCriteria({
+      ...getTestInput(),
+      frequency_mode: 'diminishing',
+      position_mode: 'leading',
+      position_window: 500,
+    });
+
+    expect(result.frequency_mode).toEqual('diminishing');
+    expect(result.position_mode).toEqual('leading');
+    expect(result.position_window).toEqual(500);
+  });
+
+  it('should store the scope', async () => {
+    const defaults = await createCriteria(getTestInput());
+    expect(defaults.scope).toEqual('content');
+    expect(defaults.metadata_key).toBeNull();
+
+    const result = await createCriteria({ ...getTestInput(), scope: 'metadata', metadata_key: 'subject' });
+    expect(result.scope).toEqual('metadata');
+    expect(result.metadata_key).toEqual('subject');
+  });
+
+  it('should require a metadata key exactly for metadata scope in the input schema', () => {
+    expect(createCriteriaInputSchema.safeParse({ ...getTestInput(), scope: 'metadata' }).success).toBe(false);
+    expect(createCriteriaInputSchema.safeParse({ ...getTestInput(), metadata_key: 'subject' }).success).toBe(false);
+    expect(createCriteriaInputSchema.safeParse({ ...getTestInput(), scope: 'metadata', metadata_key: 'unknown' }).success).toBe(false);
+    expect(createCriteriaInputSchema.safeParse({ ...getTestInput(), scope: 'metadata', metadata_key: 'recipients' }).success).toBe(true);
+  });
+
+  it('should store size bounds for size scope without a pattern', async () => {
+    const result = await createCriteria({ ...getTestInput(), pattern: '', scope: 'size', size_min: 1024, size_max: 4096 });
+    expect(result.scope).toEqual('size');
+    expect(result.size_min).toEqual(1024);
+    expect(result.size_max).toEqual(4096);
+
+    const parse = (input: object) => createCriteriaInputSchema.safeParse({ ...getTestInput(), ...input }).success;
+    expect(parse({ pattern: '', scope: 'size' })).toBe(false);
+    expect(parse({ scope: 'size', size_min: 4096, size_max: 1024 })).toBe(false);
+    expect(parse({ scope: 'filename', size_max: 1024 })).toBe(false);
+    expect(parse({ pattern: '', scope: 'filename' })).toBe(false);
+    expect(parse({ pattern: '(', scope: 'size', size_max: 1024 })).toBe(true); // The pattern is not used
+  });
+
+  it('should create negative and veto criteria', async () => {
+    const negative = await createCriteria({ ...getTestInput(), name: 'Quotation', pattern: 'quotation', weight: -0.5 });
+    expect(negative.weight).toEqual(-0.5);
+    expect(negative.is_veto).toBe(false);
+
+    const veto = await createCriteria({ ...getTestInput(), name: 'Draft', pattern: 'draft', weight: 0, is_veto: true });
+    expect(veto.is_veto).toBe(true);
+
+    const saved = await db.select()
+      .from(criteriaTable)
+      .where(eq(criteriaTable.id, negative.id))
+      .execute();
+    expect(parseFloat(saved[0].weight)).toEqual(-0.5);
+  });
+
+  it('should reject weights outside -1..1 in the input schema', () => {
+    expect(createCriteriaInputSchema.safeParse({ ...getTestInput(), weight: -1 }).success).toBe(true);
+    expect(createCriteriaInputSchema.safeParse({ ...getTestInput(), weight: -1.5 }).success).toBe(false);
+    expect(createCriteriaInputSchema.safeParse({ ...getTestInput(), weight: 1.5 }).success).toBe(false);
+  });
+
+  describe('composite rules', () => {
+    it('should create a composite rule referencing other criteria', async () => {
+      const parties = await createCriteria({ ...getTestInput(), name: 'Parties', pattern: 'party|parties' });
+
+      const result = await createCriteria({
+        ...getTestInput(),
+        name: 'Agreement',
+        pattern: `"agreement" AND @${parties.id} AND NOT "draft"`,
+        match_type: 'composite',
+      });
+
+      expect(result.match_type).toEqual('composite');
+      expect(result.pattern).toEqual(`"agreement" AND @${parties.id} AND NOT "draft"`);
+    });
+
+    it('should report syntax errors with their position', async () => {
+      const create = (pattern: string) => createCriteria({ ...getTestInput(), pattern, match_type: 'composite' });
+
+      await expect(create('"agreement" AND')).rejects.toThrow(/unexpected end of rule/i);
+      await expect(create('("agreement" OR "contract"')).rejects.toThrow(/expected "\)"/);
+      await expect(create('agreement AND "party"')).rejects.toThrow(/unknown operator "agreement" .* at position 1/i);
+      await expect(create('"agreement" "party"')).rejects.toThrow(/expected AND or OR/i);
+      await expect(create('"unterminated')).rejects.toThrow(/unterminated phrase/i);
+      await expect(create('/[bad/ AND "party"')).rejects.toThrow(/not a valid regular expression/i);
+      await expect(create('NOT "draft"')).rejects.toThrow(/at least one term/i);
+      await expect(create('"notice" NEAR/5 (NOT "draft")')).rejects.toThrow(/NEAR operands cannot use NOT/i);
+    });
+
+    it('should reject unknown and composite references', async () => {
+      await expect(createCriteria({ ...getTestInput(), pattern: '@9999 AND "party"', match_type: 'composite' }))
+        .rejects.toThrow(/unknown criteria: @9999/i);
+
+      const composite = await createCriteria({ ...getTestInput(), pattern: '"party"', match_type: 'composite' });
+      await expect(createCriteria({ ...getTestInput(), pattern: `@${composite.id}`, match_type: 'composite' }))
+        .rejects.toThrow(/cannot reference other composite rules/i);
+
+      const sized = await createCriteria({ ...getTestInput(), pattern: '', scope: 'size', size_min: 1024 });
+      await expect(createCriteria({ ...getTestInput(), pattern: `@${sized.id} AND "party"`, match_type: 'composite' }))
+        .rejects.toThrow(/cannot reference size criteria/i);
+    });
+  });
+
+  describe('regex safety', () => {
+    it('should reject patterns that can backtrack catastrophically', async () => {
+      const create = (pattern: string) => createCriteria({ ...getTestInput(), pattern });
+
+      await expect(create('(a+)+$')).rejects.toThrow(/nested quantifiers in "\(a\+\)"/);
+      await expect(create('^(\\w+\\s?)*$')).rejects.toThrow(/nested quantifiers/);
+      await expect(create('(invoice|inv)+')).rejects.toThrow(/overlapping alternatives/);
+      await expect(createCriteria({ ...getTestInput(), pattern: '(x+x+)+y', match_type: 'regex_case_sensitive' }))
+        .rejects.toThrow(/backtrack catastrophically/);
+
+      const saved = await db.select().from(criteriaTable).execute();
+      expect(saved).toHaveLength(0);
+    });
+
+    it('should accept common safe repetitions', async () => {
+      for (const pattern of ['(\\d{1,3},)*\\d+', '(contract|agreement)+', '([a-z]+\\.)+com', '([^,]+,)+', '\\w+@\\w+\\.com']) {
+        const result = await createCriteria({ ...getTestInput(), pattern });
+        expect(result.pattern).toEqual(pattern);
+      }
+    });
+
+    it('should not analyze escaped match types', async () => {
+      const result = await createCriteria({ ...getTestInput(), pattern: '(a+)+', match_type: 'keyword' });
+      expect(result.match_type).toEqual('keyword');
+    });
+
+    it('should check regex terms inside composite rules', async () => {
+      await expect(createCriteria({ ...getTestInput(), pattern: '"log" AND /(a|a)*$/', match_type: 'composite' }))
+        .rejects.toThrow(/invalid composite rule: .*overlapping alternatives/i);
+    });
+  });
+});
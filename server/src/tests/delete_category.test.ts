@@ -101,6 +101,36 @@ describe('deleteCategory', () => {
     expect(categories).toHaveLength(0);
   });
 
+  it('should not delete criteria referenced by composite rules in other categories', async () => {
+    const categories = await db.insert(categoriesTable)
+      .values([
+        { name: 'Invoices', color: '#FF0000', description: null },
+        { name: 'Contracts', color: '#00FF00', description: null },
+      ])
+      .returning()
+      .execute();
+    const [invoice] = await db.insert(criteriaTable)
+      .values({ category_id: categories[0].id, name: 'Invoice', pattern: 'invoice', match_type: 'keyword', weight: '0.50' })
+      .returning()
+      .execute();
+    // A composite rule in the same category goes with it
+    await db.insert(criteriaTable)
+      .values({ category_id: categories[0].id, name: 'Invoice total', pattern: `@${invoice.id} AND "total"`, match_type: 'composite', weight: '0.50' })
+      .execute();
+    const [external] = await db.insert(criteriaTable)
+      .values({ category_id: categories[1].id, name: 'Billing contract', pattern: `@${invoice.id} AND "agreement"`, match_type: 'composite', weight: '0.50' })
+      .returning()
+      .execute();
+
+    await expect(deleteCategory(categories[0].id)).rejects.toThrow(/referenced by composite rule "Billing contract"/);
+    expect(await db.select().from(criteriaTable).execute()).toHaveLength(3);
+    expect(await db.select().from(categoriesTable).execute()).toHaveLength(2);
+
+    await db.delete(criteriaTable).where(eq(criteriaTable.id, external.id)).execute();
+    expect(await deleteCategory(categories[0].id)).toBe(true);
+    expect(await db.select().from(criteriaTable).execute()).toHaveLength(0);
+  });
+
   it('should cascade delete related classification results', async () => {
     // Create a test category
     const categoryResult = await db.insert(categoriesTable)
@@ -186,6 +216,44 @@ describe('deleteCategory', () => {
     expect(documents).toHaveLength(1);
   });
 
+  it('should clear current result pointers to deleted results', async () => {
+    const categoryResult = await db.insert(categoriesTable)
+      .values({ name: 'Test Category', color: '#FF0000', description: null })
+      .returning()
+      .execute();
+
+    const documentResult = await db.insert(documentsTable)
+      .values({ filename: 'test.pdf', file_type: 'pdf', file_size: 1024, content: 'Test document content' })
+      .returning()
+      .execute();
+
+    const classificationResult = await db.insert(classificationResultsTable)
+      .values({
+        document_id: documentResult[0].id,
+        category_id: categoryResult[0].id,
+        confidence_level: 'high',
+        confidence_score: '0.950',
+        classification_method: 'pattern_matching',
+        matched_criteria: '[]'
+      })
+      .returning()
+      .execute();
+
+    await db.update(documentsTable)
+      .set({ current_result_id: classificationResult[0].id })
+      .where(eq(documentsTable.id, documentResult[0].id))
+      .execute();
+
+    await deleteCategory(categoryResult[0].id);
+
+    const documents = await db.select()
+      .from(documentsTable)
+      .where(eq(documentsTable.id, documentResult[0].id))
+      .execute();
+
+    expect(documents[0].current_result_id).toBeNull();
+  });
+
   it('should cascade delete all related data in correct order', async () => {
     // Create a test category
     const categoryResult = await db.insert(categoriesTable)
@@ -159,4 +159,27 @@ describe('deleteCriteria', () => {
 
     expect(remainingCriteria).toHaveLength(0);
   });
-});
\ No newline at end of file
+
+  it('should refuse to delete criteria referenced by a composite rule', async () => {
+    const categoryResult = await db.insert(categoriesTable)
+      .values({ name: 'Contracts', color: '#EF4444', description: null })
+      .returning()
+      .execute();
+
+    const referenced = await db.insert(criteriaTable)
+      .values({ category_id: categoryResult[0].id, name: 'Parties', pattern: 'party|parties', weight: '0.50' })
+      .returning()
+      .execute();
+
+    const composite = await db.insert(criteriaTable)
+      .values({ category_id: categoryResult[0].id, name: 'Agreement', pattern: `"agreement" AND @${referenced[0].id}`, match_type: 'composite', weight: '0.90' })
+      .returning()
+      .execute();
+
+    await expect(deleteCriteria(referenced[0].id)).rejects.toThrow(/referenced by composite rule "Agreement"/i);
+
+    // Once the rule is gone the criteria can be deleted
+    expect(await deleteCriteria(composite[0].id)).toBe(true);
+    expect(await deleteCriteria(referenced[0].id)).toBe(true);
+  });
+});
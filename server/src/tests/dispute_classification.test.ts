@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, criteriaTable, documentsTable } from '../db/schema';
+import { classifyDocument } from '../handlers/classify_document';
+import { claimReviewItem } from '../handlers/claim_review_item';
+import { disputeClassification } from '../handlers/dispute_classification';
+import { getReviewQueue } from '../handlers/get_review_queue';
+
+describe('disputeClassification', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createDocument = async (content: string) => {
+    const categories = await db.insert(categoriesTable)
+      .values({ name: 'Invoices', color: '#3B82F6', description: null })
+      .returning()
+      .execute();
+    await db.insert(criteriaTable)
+      .values([
+        { category_id: categories[0].id, name: 'Invoice', pattern: 'invoice', match_type: 'keyword', weight: '0.80' },
+        { category_id: categories[0].id, name: 'Amount due', pattern: 'amount due', match_type: 'phrase', weight: '0.60' },
+      ])
+      .execute();
+    const documents = await db.insert(documentsTable)
+      .values({ filename: 'doc.txt', file_type: 'txt', file_size: 100, content })
+      .returning()
+      .execute();
+    return documents[0];
+  };
+
+  it('should queue a confident result that a reviewer disputes', async () => {
+    const document = await createDocument('Invoice 42, amount due on receipt');
+    const response = await classifyDocument({ document_id: document.id });
+    expect(await getReviewQueue()).toHaveLength(0);
+
+    const item = await disputeClassification({ document_id: document.id, reviewer: 'Ana', reason: 'This is a quote' });
+
+    expect(item.reason).toEqual('disputed');
+    expect(item.status).toEqual('pending');
+    expect(item.result_id).toEqual(response.result.id);
+    expect(item.note).toEqual('Ana: This is a quote');
+  });
+
+  it('should mark an open item as disputed and keep its claim', async () => {
+    const document = await createDocument('Invoice 42');
+    await classifyDocument({ document_id: document.id });
+    const [entry] = await getReviewQueue();
+    await claimReviewItem({ id: entry.item.id, reviewer: 'Ana' });
+
+    const item = await disputeClassification({ document_id: document.id, reviewer: 'Ben', reason: 'Not an invoice' });
+
+    expect(item.id).toEqual(entry.item.id);
+    expect(item.reason).toEqual('disputed');
+    expect(item.claimed_by).toEqual('Ana');
+    expect(await getReviewQueue()).toHaveLength(1);
+  });
+
+  it('should keep a dispute open after a confident run', async () => {
+    const document = await createDocument('Invoice 42, amount due on receipt');
+    await classifyDocument({ document_id: document.id });
+    await disputeClassification({ document_id: document.id, reviewer: 'Ana', reason: 'This is a quote' });
+
+    const response = await classifyDocument({ document_id: document.id });
+
+    const queue = await getReviewQueue();
+    expect(queue).toHaveLength(1);
+    expect(queue[0].item.reason).toEqual('disputed');
+    expect(queue[0].item.result_id).toEqual(response.result.id);
+  });
+
+  it('should reject documents without a classification', async () => {
+    const document = await createDocument('Invoice 42');
+
+    await expect(disputeClassification({ document_id: document.id, reviewer: 'Ana', reason: 'Wrong' })).rejects.toThrow(/no classification/);
+    await expect(disputeClassification({ document_id: 999999, reviewer: 'Ana', reason: 'Wrong' })).rejects.toThrow(/Document not found/);
+  });
+});
@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { uploadDocument } from '../handlers/upload_document';
+import { downloadDocument } from '../handlers/download_document';
+
+describe('downloadDocument', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the original file that was uploaded', async () => {
+    const original = Buffer.from('Original meeting minutes\nwith two lines', 'utf-8');
+    const document = await uploadDocument({
+      filename: 'minutes.txt',
+      file_type: 'txt',
+      file_size: original.length,
+      file_data: original.toString('base64')
+    });
+
+    const result = await downloadDocument(document.id);
+
+    expect(result.filename).toEqual('minutes.txt');
+    expect(result.mime_type).toEqual('text/plain');
+    expect(result.file_size).toEqual(original.length);
+    expect(Buffer.from(result.data, 'base64').equals(original)).toBe(true);
+  });
+
+  it('should throw for documents without a stored original', async () => {
+    const document = await uploadDocument({
+      filename: 'pasted.txt',
+      file_type: 'txt',
+      file_size: 12,
+      content: 'Pasted text'
+    });
+
+    await expect(downloadDocument(document.id)).rejects.toThrow(/no stored original file/i);
+  });
+
+  it('should throw for non-existent documents', async () => {
+    await expect(downloadDocument(9999)).rejects.toThrow(/document not found/i);
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, expect, it } from 'bun:test';
+import { strToU8 } from 'fflate';
+import { extractDocumentText, getFileTypeForFilename } from '../lib/extractors';
+import { parseEmail } from '../lib/extractors/email';
+
+describe('extractDocumentText', () => {
+  describe('html', () => {
+    it('should render blocks as lines and collect the title and headings', async () => {
+      const html = `<!DOCTYPE html>
+        <html><head><title>Quarterly   Report</title><style>p { color: red; }</style></head>
+        <body>
+          <h1>Revenue &amp; Costs</h1>
+          <p>Revenue grew
+             by 12%.<br>Costs&nbsp;fell.</p>
+          <script>trackVisit();</script>
+          <!-- internal note -->
+          <table><tr><th>Region</th><th>Total</th></tr><tr><td>North</td> <td>&euro;40</td></tr></table>
+          <h2>Outlook</h2>
+          <pre>line one
+  line two</pre>
+        </body></html>`;
+
+      const extracted = await extractDocumentText('html', strToU8(html));
+
+      expect(extracted.content).toBe([
+        'Revenue & Costs',
+        'Revenue grew by 12%.',
+        'Costs fell.',
+        'Region\tTotal',
+        'North\t€40',
+        'Outlook',
+        'line one',
+        'line two',
+      ].join('\n'));
+      expect(extracted.page_count).toBeNull();
+      expect(extracted.metadata).toEqual({ title: 'Quarterly Report', headings: ['Revenue & Costs', 'Outlook'] });
+    });
+
+    it('should decode with the charset declared in a meta tag', async () => {
+      const html = Buffer.from('<html><head><meta charset="windows-1252"></head><body><p>Caf\xe9</p></body></html>', 'latin1');
+
+      const extracted = await extractDocumentText('html', html);
+
+      expect(extracted.content).toBe('Café');
+      expect(extracted.metadata).toEqual({});
+    });
+  });
+
+  describe('md', () => {
+    it('should strip markup and collect headings', async () => {
+      const markdown = [
+        '# Service Agreement',
+        '',
+        'This **agreement** is made with [Acme](https://acme.example) on _1 May_.',
+        '',
+        'Payment Terms',
+        '-------------',
+        '',
+        '- Net 30 days',
+        '1. Late fee of `2%`',
+        '> Quoted clause',
+        '',
+        '| Item | Price |',
+        '| ---- | ----: |',
+        '| Hosting | 100 |',
+        '',
+        '```',
+        'const total = 100 * 2;',
+        '```',
+        '',
+        '***',
+        '![Signature](sig.png)',
+        '[ref]: https://example.com',
+      ].join('\n');
+
+      const extracted = await extractDocumentText('md', strToU8(markdown));
+
+      expect(extracted.content).toBe([
+        'Service Agreement',
+        '',
+        'This agreement is made with Acme on 1 May.',
+        '',
+        'Payment Terms',
+        '',
+        'Net 30 days',
+        'Late fee of 2%',
+        'Quoted clause',
+        '',
+        'Item\tPrice',
+        '',
+        'Hosting\t100',
+        '',
+        'const total = 100 * 2;',
+        '',
+        'Signature',
+      ].join('\n'));
+      expect(extracted.metadata).toEqual({ title: 'Service Agreement', headings: ['Service Agreement', 'Payment Terms'] });
+    });
+
+    it('should prefer the front matter title and keep snake_case words', async () => {
+      const markdown = '---\ntitle: "Runbook"\ntags: [ops]\n---\n## Restart\nRun restart_service now.';
+
+      const extracted = await extractDocumentText('md', strToU8(markdown));
+
+      expect(extracted.content).toBe('Restart\nRun restart_service now.');
+      expect(extracted.metadata).toEqual({ title: 'Runbook', headings: ['Restart'] });
+    });
+  });
+
+  describe('rtf', () => {
+    it('should extract text and document info, skipping formatting tables', async () => {
+      const rtf = [
+        '{\\rtf1\\ansi\\ansicpg1252\\deff0',
+        '{\\fonttbl{\\f0\\fswiss Helvetica;}}',
+        '{\\colortbl;\\red255\\green0\\blue0;}',
+        '{\\info{\\title Purchase Order}{\\subject Office supplies}{\\author Jane}}',
+        '{\\*\\generator Example Writer;}',
+        '\\pard\\f0\\fs24 Order \\b 1042\\b0  for Caf\\\'e9 \\u8364?5.\\par',
+        'Deliver to: Main St\\tab Suite 4\\line Springfield\\par',
+        '{\\field{\\*\\fldinst HYPERLINK "https://example.com"}{\\fldrslt Track order}}\\par',
+        '}',
+      ].join('\r\n');
+
+      const extracted = await extractDocumentText('rtf', strToU8(rtf));
+
+      expect(extracted.content).toBe('Order 1042 for Café €5.\nDeliver to: Main St\tSuite 4\nSpringfield\nTrack order');
+      expect(extracted.metadata).toEqual({ title: 'Purchase Order', subject: 'Office supplies' });
+    });
+
+    it('should reject files without an RTF header', async () => {
+      await expect(extractDocumentText('rtf', strToU8('plain text'))).rejects.toThrow(/Invalid RTF file/);
+    });
+  });
+
+  describe('csv', () => {
+    it('should turn rows into tab-separated lines with the header row as headings', async () => {
+      const csv = 'Invoice,Customer,Amount\r\n1001,"Acme, Inc.",250\r\n1002,"Multi\nline ""quoted""",75\r\n,,\r\n';
+
+      const extracted = await extractDocumentText('csv', strToU8(csv));
+
+      expect(extracted.content).toBe('Invoice\tCustomer\tAmount\n1001\tAcme, Inc.\t250\n1002\tMulti line "quoted"\t75');
+      expect(extracted.metadata).toEqual({ headings: ['Invoice', 'Customer', 'Amount'] });
+    });
+
+    it('should detect semicolon delimiters', async () => {
+      const extracted = await extractDocumentText('csv', strToU8('Name;Total\nNorth;1,5\n'));
+
+      expect(extracted.content).toBe('Name\tTotal\nNorth\t1,5');
+    });
+  });
+
+  describe('eml', () => {
+    const multipartEmail = [
+      'From: =?UTF-8?B?SsO8cmdlbiBNw7xsbGVy?= <juergen@example.com>',
+      'To: accounts@example.com',
+      'Subject: =?utf-8?Q?Invoice_f=C3=BCr?=',
+      '  =?utf-8?Q?_March?=',
+      'Date: Tue, 5 Mar 2024 10:00:00 +0100',
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/mixed; boundary="outer"',
+      '',
+      'This is a multi-part message in MIME format.',
+      '--outer',
+      'Content-Type: multipart/alternative; boundary="inner"',
+      '',
+      '--inner',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Please find the invoice attached. Total: 40 =E2=82=AC',
+      '--inner',
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      '<p>Please find the <b>invoice</b> attached.</p>',
+      '--inner--',
+      '--outer',
+      'Content-Type: text/plain; name="invoice.txt"',
+      'Content-Disposition: attachment; filename="invoice.txt"',
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from('Invoice 2024-03').toString('base64'),
+      '--outer--',
+      '',
+    ].join('\r\n');
+
+    it('should extract the plain body and the header metadata', async () => {
+      const extracted = await extractDocumentText('eml', strToU8(multipartEmail));
+
+      expect(extracted.content).toBe('Please find the invoice attached. Total: 40 €');
+      expect(extracted.metadata).toEqual({
+        title: 'Invoice für March',
+        subject: 'Invoice für March',
+        sender: 'Jürgen Müller <juergen@example.com>',
+        recipients: ['accounts@example.com'],
+        date: '2024-03-05T09:00:00.000Z',
+      });
+    });
+
+    it('should expose attachments separately from the body', () => {
+      const email = parseEmail(strToU8(multipartEmail));
+
+      expect(email.headers.get('to')).toBe('accounts@example.com');
+      expect(email.attachments).toHaveLength(1);
+      expect(email.attachments[0].filename).toBe('invoice.txt');
+      expect(new TextDecoder().decode(email.attachments[0].data)).toBe('Invoice 2024-03');
+    });
+
+    it('should fall back to the HTML body', async () => {
+      const email = 'From: a@example.com\nSubject: Notice\nContent-Type: text/html\n\n<h1>Notice</h1><p>Office closed</p>';
+
+      const extracted = await extractDocumentText('eml', strToU8(email));
+
+      expect(extracted.content).toBe('Notice\nOffice closed');
+    });
+
+    it('should reject files without email headers', async () => {
+      await expect(extractDocumentText('eml', strToU8('just some text'))).rejects.toThrow(/Invalid email file/);
+    });
+  });
+});
+
+describe('getFileTypeForFilename', () => {
+  it('should resolve every extension a format registers', () => {
+    expect(getFileTypeForFilename('page.HTM')).toBe('html');
+    expect(getFileTypeForFilename('notes.markdown')).toBe('md');
+    expect(getFileTypeForFilename('archive.tar.gz')).toBeNull();
+    expect(getFileTypeForFilename('README')).toBeNull();
+  });
+});
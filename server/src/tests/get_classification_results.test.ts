@@ -79,6 +79,7 @@ describe('getClassificationResults', () => {
     expect(firstResult!.classification_method).toEqual('keyword_matching');
     expect(firstResult!.matched_criteria).toEqual(['keyword1', 'keyword2']);
     expect(Array.isArray(firstResult!.matched_criteria)).toBe(true);
+    expect(firstResult!.match_spans).toEqual([]); // Not recorded for this row
     expect(firstResult!.classified_at).toBeInstanceOf(Date);
 
     // Check second result
@@ -273,4 +274,36 @@ describe('getClassificationResults', () => {
     expect(Array.isArray(results[0].matched_criteria)).toBe(true);
     expect(results[0].matched_criteria).toHaveLength(0);
   });
-});
\ No newline at end of file
+
+  it('should filter results by document', async () => {
+    const categoryResult = await db.insert(categoriesTable)
+      .values({ name: 'Filter Category', color: '#00FFFF', description: null })
+      .returning()
+      .execute();
+
+    const documentResult = await db.insert(documentsTable)
+      .values([
+        { filename: 'first.pdf', file_type: 'pdf', file_size: 256, content: 'First' },
+        { filename: 'second.pdf', file_type: 'pdf', file_size: 256, content: 'Second' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(classificationResultsTable)
+      .values(documentResult.map(document => ({
+        document_id: document.id,
+        category_id: categoryResult[0].id,
+        confidence_level: 'medium' as const,
+        confidence_score: '0.500',
+        classification_method: 'pattern_matching',
+        matched_criteria: JSON.stringify([])
+      })))
+      .execute();
+
+    const results = await getClassificationResults({ document_id: documentResult[1].id });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].document_id).toEqual(documentResult[1].id);
+    expect(await getClassificationResults()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, categorySettingsTable, classificationSettingsTable } from '../db/schema';
+import { getClassificationSettings } from '../handlers/get_classification_settings';
+
+describe('getClassificationSettings', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create and return the default settings on first access', async () => {
+    const result = await getClassificationSettings();
+
+    expect(result.defaults.normalization_mode).toEqual('fixed');
+    expect(result.defaults.normalization_divisor).toEqual(3);
+    expect(result.defaults.high_threshold).toEqual(0.666);
+    expect(result.defaults.medium_threshold).toEqual(0.333);
+    expect(typeof result.defaults.high_threshold).toBe('number');
+    expect(result.defaults.updated_at).toBeInstanceOf(Date);
+    expect(result.category_overrides).toEqual([]);
+
+    // Repeated reads reuse the single global row
+    await getClassificationSettings();
+    const rows = await db.select().from(classificationSettingsTable).execute();
+    expect(rows).toHaveLength(1);
+  });
+
+  it('should return category overrides with numeric fields', async () => {
+    const categories = await db.insert(categoriesTable)
+      .values({ name: 'Invoices', color: '#22C55E' })
+      .returning()
+      .execute();
+
+    await db.insert(categorySettingsTable)
+      .values({
+        category_id: categories[0].id,
+        normalization_mode: 'category_total',
+        high_threshold: '0.800',
+      })
+      .execute();
+
+    const result = await getClassificationSettings();
+
+    expect(result.category_overrides).toHaveLength(1);
+    const override = result.category_overrides[0];
+    expect(override.category_id).toEqual(categories[0].id);
+    expect(override.normalization_mode).toEqual('category_total');
+    expect(override.high_threshold).toEqual(0.8);
+    expect(override.medium_threshold).toBeNull();
+    expect(override.normalization_divisor).toBeNull();
+  });
+});
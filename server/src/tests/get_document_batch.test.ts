@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, criteriaTable, documentsTable, documentBatchesTable } from '../db/schema';
+import { getDocumentBatch } from '../handlers/get_document_batch';
+import { classifyDocument } from '../handlers/classify_document';
+
+describe('getDocumentBatch', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should report each document with its current classification', async () => {
+    const [category] = await db.insert(categoriesTable)
+      .values({ name: 'Invoices', color: '#3B82F6', description: null })
+      .returning()
+      .execute();
+    await db.insert(criteriaTable)
+      .values({ category_id: category.id, name: 'Invoice', pattern: 'invoice', match_type: 'keyword', weight: '0.80' })
+      .execute();
+
+    const [batch] = await db.insert(documentBatchesTable)
+      .values({ filename: 'bundle.zip', file_size: 500, skipped_entries: JSON.stringify([{ path: 'logo.png', reason: 'Unsupported file type' }]) })
+      .returning()
+      .execute();
+    const documents = await db.insert(documentsTable)
+      .values([
+        { filename: 'invoice.txt', file_type: 'txt', file_size: 100, content: 'Invoice 7', batch_id: batch.id },
+        { filename: 'memo.txt', file_type: 'txt', file_size: 100, content: 'Team lunch', batch_id: batch.id },
+        { filename: 'later.txt', file_type: 'txt', file_size: 100, content: 'Invoice 8', batch_id: batch.id },
+        { filename: 'other.txt', file_type: 'txt', file_size: 100, content: 'Invoice 9' },
+      ])
+      .returning()
+      .execute();
+
+    await classifyDocument({ document_id: documents[0].id });
+    await classifyDocument({ document_id: documents[1].id });
+
+    const detail = await getDocumentBatch(batch.id);
+
+    expect(detail.batch.skipped_entries).toEqual([{ path: 'logo.png', reason: 'Unsupported file type' }]);
+    expect(detail.documents.map(entry => entry.document.filename)).toEqual(['invoice.txt', 'memo.txt', 'later.txt']);
+    expect(detail.documents[0].category?.name).toBe('Invoices');
+    expect(typeof detail.documents[0].result?.confidence_score).toBe('number');
+    expect(detail.documents[1].result?.category_id).toBeNull();
+    expect(detail.documents[2].result).toBeNull();
+
+    expect(detail.summary).toMatchObject({ total: 3, classified: 1, unclassified: 1, pending: 1 });
+    expect(detail.summary.category_counts.map(entry => [entry.category.name, entry.count])).toEqual([['Invoices', 1]]);
+  });
+
+  it('should throw for a missing batch', async () => {
+    await expect(getDocumentBatch(999999)).rejects.toThrow(/not found/);
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, criteriaTable, documentsTable, classificationResultsTable } from '../db/schema';
+import { classifyDocument } from '../handlers/classify_document';
+import { getDocumentClassificationHistory } from '../handlers/get_document_classification_history';
+
+describe('getDocumentClassificationHistory', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async () => {
+    const categories = await db.insert(categoriesTable)
+      .values([
+        { name: 'Invoices', color: '#3B82F6', description: null },
+        { name: 'Contracts', color: '#EF4444', description: null },
+      ])
+      .returning()
+      .execute();
+
+    const documents = await db.insert(documentsTable)
+      .values({ filename: 'mixed.txt', file_type: 'txt', file_size: 64, content: 'Invoice attached to the service agreement' })
+      .returning()
+      .execute();
+
+    return { categories, document: documents[0] };
+  };
+
+  it('should list every run newest first and mark the current one', async () => {
+    const { categories, document } = await createTestData();
+
+    // Nothing matches until rules exist
+    await classifyDocument({ document_id: document.id });
+
+    await db.insert(criteriaTable)
+      .values({ category_id: categories[0].id, name: 'Invoice', pattern: 'invoice', match_type: 'keyword', weight: '0.50' })
+      .execute();
+    await classifyDocument({ document_id: document.id });
+
+    // A stronger rule moves the document to another category
+    await db.insert(criteriaTable)
+      .values({ category_id: categories[1].id, name: 'Agreement', pattern: 'agreement', match_type: 'keyword', weight: '0.90' })
+      .execute();
+    const latest = await classifyDocument({ document_id: document.id });
+
+    const history = await getDocumentClassificationHistory(document.id);
+
+    expect(history.document.current_result_id).toBe(latest.result.id);
+    expect(history.entries).toHaveLength(3);
+    expect(history.entries.map(entry => entry.results[0].category?.name ?? null)).toEqual(['Contracts', 'Invoices', null]);
+    expect(history.entries.map(entry => entry.is_current)).toEqual([true, false, false]);
+    expect(history.entries[2].results[0].result.unclassified_reason).toBe('no_criteria');
+    expect(history.entries[0].run?.id).toBe(latest.run.id);
+  });
+
+  it('should group the labels of a multi-label run', async () => {
+    const { categories, document } = await createTestData();
+    await db.insert(criteriaTable)
+      .values([
+        { category_id: categories[0].id, name: 'Invoice', pattern: 'invoice', match_type: 'keyword', weight: '0.50' },
+        { category_id: categories[1].id, name: 'Agreement', pattern: 'agreement', match_type: 'keyword', weight: '0.90' },
+      ])
+      .execute();
+
+    await classifyDocument({ document_id: document.id, mode: 'multi', threshold: 0.1 });
+
+    const history = await getDocumentClassificationHistory(document.id);
+
+    expect(history.entries).toHaveLength(1);
+    expect(history.entries[0].run?.mode).toBe('multi');
+    expect(history.entries[0].run?.threshold).toBe(0.1);
+    expect(history.entries[0].results.map(entry => entry.category?.name)).toEqual(['Contracts', 'Invoices']);
+  });
+
+  it('should list results recorded without a run separately', async () => {
+    const { categories, document } = await createTestData();
+    await db.insert(classificationResultsTable)
+      .values([
+        { document_id: document.id, category_id: categories[0].id, confidence_level: 'high', confidence_score: '0.900', classification_method: 'Pattern Matching', matched_criteria: '[]' },
+        { document_id: document.id, category_id: categories[1].id, confidence_level: 'low', confidence_score: '0.100', classification_method: 'Pattern Matching', matched_criteria: '[]' },
+      ])
+      .execute();
+
+    const history = await getDocumentClassificationHistory(document.id);
+
+    expect(history.entries).toHaveLength(2);
+    expect(history.entries.every(entry => entry.run === null && entry.results.length === 1 && !entry.is_current)).toBe(true);
+  });
+
+  it('should return an empty history for a document that was never classified', async () => {
+    const { document } = await createTestData();
+
+    const history = await getDocumentClassificationHistory(document.id);
+
+    expect(history.document.current_result_id).toBeNull();
+    expect(history.entries).toHaveLength(0);
+  });
+
+  it('should throw for a missing document', async () => {
+    await expect(getDocumentClassificationHistory(999999)).rejects.toThrow(/Document not found/);
+  });
+
+});
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { registerJobHandler, enqueueJob, runPendingJobs } from '../lib/jobs';
+import { getJobs } from '../handlers/get_jobs';
+import { getJob } from '../handlers/get_job';
+import { cancelJob } from '../handlers/cancel_job';
+import { retryJob } from '../handlers/retry_job';
+
+registerJobHandler('noop_job', { run: async () => {} });
+
+describe('job procedures', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list jobs newest first with parsed payloads', async () => {
+    const first = await enqueueJob('noop_job', { document_id: 1 });
+    const second = await enqueueJob('noop_job', { document_id: 2 });
+
+    const jobs = await getJobs();
+
+    expect(jobs.map(job => job.id)).toEqual([second.id, first.id]);
+    expect(jobs[0].payload).toEqual({ document_id: 2 });
+    expect(jobs[0].status).toEqual('pending');
+  });
+
+  it('should filter by status and type', async () => {
+    await enqueueJob('noop_job', {});
+    await runPendingJobs();
+    const pending = await enqueueJob('noop_job', {});
+
+    expect((await getJobs({ status: 'pending' })).map(job => job.id)).toEqual([pending.id]);
+    expect(await getJobs({ type: 'other_job' })).toHaveLength(0);
+    expect(await getJobs({ limit: 1 })).toHaveLength(1);
+  });
+
+  it('should inspect, cancel and retry a job', async () => {
+    const job = await enqueueJob('noop_job', { document_id: 1 });
+
+    expect((await getJob(job.id)).payload).toEqual({ document_id: 1 });
+    expect((await cancelJob(job.id)).status).toEqual('cancelled');
+    expect((await retryJob(job.id)).status).toEqual('pending');
+
+    await runPendingJobs();
+    expect((await getJob(job.id)).status).toEqual('completed');
+  });
+
+  it('should throw for a missing job', async () => {
+    await expect(getJob(999999)).rejects.toThrow(/not found/);
+    await expect(cancelJob(999999)).rejects.toThrow(/not found/);
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, criteriaTable, documentsTable, reviewQueueTable } from '../db/schema';
+import { classifyDocument } from '../handlers/classify_document';
+import { overrideClassification } from '../handlers/override_classification';
+import { getReviewQueue } from '../handlers/get_review_queue';
+import { REVIEW_CLAIM_TIMEOUT_MS } from '../lib/review_queue';
+import { eq } from 'drizzle-orm';
+
+describe('getReviewQueue', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async () => {
+    const categories = await db.insert(categoriesTable)
+      .values({ name: 'Invoices', color: '#3B82F6', description: null })
+      .returning()
+      .execute();
+
+    await db.insert(criteriaTable)
+      .values([
+        { category_id: categories[0].id, name: 'Invoice', pattern: 'invoice', match_type: 'keyword', weight: '0.80' },
+        { category_id: categories[0].id, name: 'Amount due', pattern: 'amount due', match_type: 'phrase', weight: '0.60' },
+      ])
+      .execute();
+
+    return categories[0];
+  };
+
+  const createDocument = async (filename: string, content: string) => {
+    const documents = await db.insert(documentsTable)
+      .values({ filename, file_type: 'txt', file_size: 100, content })
+      .returning()
+      .execute();
+    return documents[0];
+  };
+
+  it('should queue low-confidence and unclassified results in arrival order', async () => {
+    const category = await createTestData();
+    const weak = await createDocument('weak.txt', 'Invoice 42');
+    const memo = await createDocument('memo.txt', 'Team lunch on Friday');
+    const strong = await createDocument('strong.txt', 'Invoice 42, amount due on receipt');
+
+    const weakResponse = await classifyDocument({ document_id: weak.id });
+    await classifyDocument({ document_id: memo.id });
+    await classifyDocument({ document_id: strong.id });
+
+    const queue = await getReviewQueue();
+
+    expect(queue.map(entry => entry.document.filename)).toEqual(['weak.txt', 'memo.txt']);
+    expect(queue.map(entry => entry.item.reason)).toEqual(['low_confidence', 'unclassified']);
+    expect(queue.every(entry => entry.item.status === 'pending')).toBe(true);
+    expect(queue[0].item.result_id).toEqual(weakResponse.result.id);
+    expect(queue[0].category?.id).toEqual(category.id);
+    expect(queue[0].result.confidence_level).toEqual('low');
+    expect(queue[1].category).toBeNull();
+    expect(queue[1].result.unclassified_reason).toEqual('no_match');
+  });
+
+  it('should keep one open item per document and supersede it after a confident run', async () => {
+    await createTestData();
+    const document = await createDocument('weak.txt', 'Invoice 42');
+
+    await classifyDocument({ document_id: document.id });
+    const second = await classifyDocument({ document_id: document.id });
+
+    const queue = await getReviewQueue();
+    expect(queue).toHaveLength(1);
+    expect(queue[0].item.result_id).toEqual(second.result.id);
+
+    await db.update(documentsTable)
+      .set({ content: 'Invoice 42, amount due on receipt' })
+      .where(eq(documentsTable.id, document.id))
+      .execute();
+    await classifyDocument({ document_id: document.id });
+
+    expect(await getReviewQueue()).toHaveLength(0);
+    const superseded = await getReviewQueue({ status: 'superseded' });
+    expect(superseded).toHaveLength(1);
+    expect(superseded[0].item.resolved_at).toBeInstanceOf(Date);
+    expect(superseded[0].item.resolved_by).toBeNull();
+  });
+
+  it('should leave the queue alone when a manual result is current', async () => {
+    const category = await createTestData();
+    const document = await createDocument('weak.txt', 'Invoice 42');
+    await overrideClassification({ document_id: document.id, category_id: category.id, reviewer: 'Ana', reason: 'Checked by hand' });
+
+    await classifyDocument({ document_id: document.id });
+
+    expect(await db.select().from(reviewQueueTable).execute()).toHaveLength(0);
+  });
+
+  it('should report expired claims as pending', async () => {
+    await createTestData();
+    const active = await createDocument('active.txt', 'Invoice 1');
+    const expired = await createDocument('expired.txt', 'Invoice 2');
+    await classifyDocument({ document_id: active.id });
+    await classifyDocument({ document_id: expired.id });
+
+    await db.update(reviewQueueTable)
+      .set({ status: 'claimed', claimed_by: 'Ana', claimed_at: new Date() })
+      .where(eq(reviewQueueTable.document_id, active.id))
+      .execute();
+    await db.update(reviewQueueTable)
+      .set({ status: 'claimed', claimed_by: 'Ben', claimed_at: new Date(Date.now() - REVIEW_CLAIM_TIMEOUT_MS - 1000) })
+      .where(eq(reviewQueueTable.document_id, expired.id))
+      .execute();
+
+    const pending = await getReviewQueue({ status: 'pending' });
+    expect(pending.map(entry => entry.document.id)).toEqual([expired.id]);
+    expect(pending[0].item.status).toEqual('pending');
+    expect(pending[0].item.claimed_by).toBeNull();
+
+    const claimed = await getReviewQueue({ status: 'claimed' });
+    expect(claimed.map(entry => entry.document.id)).toEqual([active.id]);
+    expect(claimed[0].item.claimed_by).toEqual('Ana');
+  });
+
+  it('should filter by reason', async () => {
+    await createTestData();
+    const weak = await createDocument('weak.txt', 'Invoice 42');
+    const memo = await createDocument('memo.txt', 'Team lunch on Friday');
+    await classifyDocument({ document_id: weak.id });
+    await classifyDocument({ document_id: memo.id });
+
+    const queue = await getReviewQueue({ reason: 'unclassified' });
+
+    expect(queue.map(entry => entry.document.id)).toEqual([memo.id]);
+  });
+});
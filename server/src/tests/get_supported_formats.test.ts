@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'bun:test';
+import { getSupportedFormats } from '../handlers/get_supported_formats';
+import { FILE_TYPES } from '../lib/extractors';
+
+describe('getSupportedFormats', () => {
+  it('should list every registered format with its extensions and MIME types', async () => {
+    const formats = await getSupportedFormats();
+
+    expect(formats.map(format => format.file_type)).toEqual([...FILE_TYPES]);
+    expect(formats.find(format => format.file_type === 'html')).toEqual({
+      file_type: 'html',
+      label: 'HTML',
+      extensions: ['html', 'htm'],
+      mime_types: ['text/html', 'application/xhtml+xml'],
+    });
+  });
+
+  it('should claim each extension for a single format', async () => {
+    const extensions = (await getSupportedFormats()).flatMap(format => format.extensions);
+
+    expect(new Set(extensions).size).toBe(extensions.length);
+  });
+});
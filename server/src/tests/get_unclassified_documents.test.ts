@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, criteriaTable, documentsTable } from '../db/schema';
+import { classifyDocument } from '../handlers/classify_document';
+import { getUnclassifiedDocuments } from '../handlers/get_unclassified_documents';
+
+describe('getUnclassifiedDocuments', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createDocument = async (filename: string, content: string | null) => {
+    const documents = await db.insert(documentsTable)
+      .values({ filename, file_type: 'txt', file_size: 100, content })
+      .returning()
+      .execute();
+    return documents[0];
+  };
+
+  const createCriteria = async (pattern: string) => {
+    const categories = await db.insert(categoriesTable)
+      .values({ name: 'Invoices', color: '#3B82F6', description: null })
+      .returning()
+      .execute();
+    await db.insert(criteriaTable)
+      .values({ category_id: categories[0].id, name: 'Invoice', pattern, match_type: 'keyword', weight: '0.80' })
+      .execute();
+  };
+
+  it('should return documents whose latest run assigned no category', async () => {
+    await createCriteria('invoice');
+    const invoice = await createDocument('invoice.txt', 'Invoice 42');
+    const memo = await createDocument('memo.txt', 'Team lunch on Friday');
+    const scan = await createDocument('scan.txt', null);
+
+    await classifyDocument({ document_id: invoice.id });
+    await classifyDocument({ document_id: memo.id });
+    await classifyDocument({ document_id: scan.id });
+
+    const results = await getUnclassifiedDocuments();
+
+    expect(results.map(entry => entry.document.filename).sort()).toEqual(['memo.txt', 'scan.txt']);
+    const memoEntry = results.find(entry => entry.document.id === memo.id)!;
+    expect(memoEntry.result.category_id).toBeNull();
+    expect(memoEntry.result.unclassified_reason).toBe('no_match');
+    expect(memoEntry.result.matched_criteria).toEqual([]);
+  });
+
+  it('should filter by reason', async () => {
+    await createCriteria('invoice');
+    const memo = await createDocument('memo.txt', 'Team lunch on Friday');
+    const scan = await createDocument('scan.txt', null);
+    await classifyDocument({ document_id: memo.id });
+    await classifyDocument({ document_id: scan.id });
+
+    const results = await getUnclassifiedDocuments({ reason: 'no_content' });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].document.id).toBe(scan.id);
+    expect(results[0].result.unclassified_reason).toBe('no_content');
+  });
+
+  it('should drop documents once a later run classifies them', async () => {
+    const memo = await createDocument('memo.txt', 'Invoice for the team lunch');
+    await classifyDocument({ document_id: memo.id });
+    expect((await getUnclassifiedDocuments())[0].result.unclassified_reason).toBe('no_criteria');
+
+    await createCriteria('invoice');
+    const result = await classifyDocument({ document_id: memo.id });
+
+    expect(result.category?.name).toBe('Invoices');
+    expect(await getUnclassifiedDocuments()).toHaveLength(0);
+  });
+});
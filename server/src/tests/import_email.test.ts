@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { strToU8 } from 'fflate';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { documentBatchesTable } from '../db/schema';
+import { importEmail } from '../handlers/import_email';
+import { getDocumentBatch } from '../handlers/get_document_batch';
+import { ArchiveError } from '../lib/archive';
+import { runPendingJobs } from '../lib/jobs';
+import { importEmailInputSchema, MAX_BASE64_UPLOAD_LENGTH } from '../schema';
+
+const encode = (text: string) => Buffer.from(strToU8(text)).toString('base64');
+
+// Import, then let the worker save the batch's documents
+const importBatch = async (filename: string, text: string) => {
+  const queued = await importEmail({ filename, file_data: encode(text) });
+  await runPendingJobs();
+  return getDocumentBatch(queued.batch.id);
+};
+
+const invoiceEmail = [
+  'From: "Billing, Acme" <billing@acme.example>',
+  'To: accounts@example.com, "Doe, Jane" <jane@example.com>',
+  'Cc: audit@example.com',
+  'Subject: Invoice 2024-03',
+  'Date: Tue, 5 Mar 2024 10:00:00 +0100',
+  'Content-Type: multipart/mixed; boundary="part"',
+  '',
+  '--part',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: 8bit',
+  '',
+  'Your invoice for March is attached. Total: 40 €',
+  '--part',
+  'Content-Type: text/csv; name="lines.csv"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from('Item,Amount\nHosting,40\n').toString('base64'),
+  '--part--',
+  '',
+].join('\n');
+
+describe('importEmail', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a document for the message and each supported attachment', async () => {
+    const detail = await importBatch('invoice.eml', invoiceEmail);
+
+    expect(detail.batch.filename).toBe('invoice.eml');
+    expect(detail.batch.skipped_entries).toEqual([]);
+    expect(detail.documents.map(entry => [entry.document.filename, entry.document.file_type])).toEqual([
+      ['invoice.eml', 'eml'],
+      ['invoice.eml/lines.csv', 'csv'],
+    ]);
+
+    const [message, attachment] = detail.documents.map(entry => entry.document);
+    expect(message.content).toBe('Your invoice for March is attached. Total: 40 €');
+    expect(message.metadata).toEqual({
+      title: 'Invoice 2024-03',
+      subject: 'Invoice 2024-03',
+      sender: '"Billing, Acme" <billing@acme.example>',
+      recipients: ['accounts@example.com', '"Doe, Jane" <jane@example.com>', 'audit@example.com'],
+      date: '2024-03-05T09:00:00.000Z',
+    });
+    expect(attachment.content).toBe('Item\tAmount\nHosting\t40');
+  });
+
+  it('should import every message of a mailbox', async () => {
+    const mailbox = [
+      'From billing@acme.example Tue Mar  5 10:00:00 2024',
+      invoiceEmail,
+      'From jane@example.com Wed Mar  6 08:00:00 2024',
+      'From: jane@example.com',
+      'Subject: Re: Invoice 2024-03',
+      '',
+      'Paid, thanks.',
+      '',
+    ].join('\n');
+
+    const detail = await importBatch('billing.mbox', mailbox);
+
+    expect(detail.documents.map(entry => entry.document.filename)).toEqual([
+      'Invoice 2024-03.eml',
+      'Invoice 2024-03.eml/lines.csv',
+      'Re: Invoice 2024-03.eml',
+    ]);
+    expect(detail.documents[2].document.content).toBe('Paid, thanks.');
+    expect(detail.summary).toMatchObject({ total: 3, pending: 3 });
+  });
+
+  it('should record messages that are not emails as skipped', async () => {
+    const mailbox = [
+      'From billing@acme.example Tue Mar  5 10:00:00 2024',
+      invoiceEmail,
+      'From nobody Wed Mar  6 08:00:00 2024',
+      'just some text',
+      '',
+    ].join('\n');
+
+    const detail = await importBatch('mixed.mbox', mailbox);
+
+    expect(detail.documents).toHaveLength(2);
+    expect(detail.batch.skipped_entries).toHaveLength(1);
+    expect(detail.batch.skipped_entries[0].path).toBe('message-2.eml');
+    expect(detail.batch.skipped_entries[0].reason).toMatch(/^Could not be read: Invalid email file/);
+  });
+
+  it('should reject mailboxes without separator lines', async () => {
+    await expect(importEmail({ filename: 'inbox.mbox', file_data: encode(invoiceEmail) })).rejects.toThrow(ArchiveError);
+    expect(await db.select().from(documentBatchesTable).execute()).toHaveLength(0);
+  });
+
+  it('should bound email data to the upload limit in the input schema', () => {
+    const oversized = { filename: 'huge.mbox', file_data: 'A'.repeat(MAX_BASE64_UPLOAD_LENGTH + 1) };
+
+    expect(importEmailInputSchema.safeParse(oversized).success).toBe(false);
+  });
+});
@@ -0,0 +1,281 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { jobsTable } from '../db/schema';
+import {
+  registerJobHandler,
+  enqueueJob,
+  claimNextJob,
+  runJob,
+  runPendingJobs,
+  cancelJob,
+  retryJob,
+  startJobWorker,
+  getRetryDelay,
+  JOB_LOCK_TIMEOUT_MS,
+  DEFAULT_MAX_ATTEMPTS,
+  type JobPayload,
+} from '../lib/jobs';
+import { eq } from 'drizzle-orm';
+
+// Records every payload it runs and fails while failures are left
+const calls: JobPayload[] = [];
+let failuresLeft = 0;
+let cancelled: JobPayload[] = [];
+let dead: string[] = [];
+
+registerJobHandler('test_job', {
+  run: async (payload, context) => {
+    await context.throwIfCancelled();
+    calls.push(payload);
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      throw new Error('Temporary failure');
+    }
+  },
+  onCancelled: async payload => {
+    cancelled.push(payload);
+  },
+  onDead: async (_payload, error) => {
+    dead.push(error);
+  },
+});
+
+// Fails with an error another attempt cannot fix
+registerJobHandler('invalid_job', {
+  run: async () => {
+    throw new Error('Invalid payload');
+  },
+  onDead: async (_payload, error) => {
+    dead.push(error);
+  },
+  shouldRetry: () => false,
+});
+
+const getStoredJob = async (id: number) => {
+  const jobs = await db.select().from(jobsTable).where(eq(jobsTable.id, id)).execute();
+  return jobs[0];
+};
+
+// Makes a running job look abandoned by its worker
+const expireLock = (id: number) => db.update(jobsTable)
+  .set({ locked_at: new Date(Date.now() - JOB_LOCK_TIMEOUT_MS - 1000) })
+  .where(eq(jobsTable.id, id))
+  .execute();
+
+// Makes a job waiting for its retry due now
+const makeDue = (id: number) => db.update(jobsTable)
+  .set({ run_at: new Date(Date.now() - 1000) })
+  .where(eq(jobsTable.id, id))
+  .execute();
+
+describe('job queue', () => {
+  beforeEach(async () => {
+    await createDB();
+    calls.length = 0;
+    failuresLeft = 0;
+    cancelled = [];
+    dead = [];
+  });
+  afterEach(resetDB);
+
+  it('should run due jobs in order and mark them completed', async () => {
+    const first = await enqueueJob('test_job', { n: 1 });
+    const second = await enqueueJob('test_job', { n: 2 });
+    await enqueueJob('test_job', { n: 3 }, { runAt: new Date(Date.now() + 60_000) });
+
+    expect(await runPendingJobs('test-worker')).toEqual(2);
+
+    expect(calls).toEqual([{ n: 1 }, { n: 2 }]);
+    const stored = await getStoredJob(first.id);
+    expect(stored.status).toEqual('completed');
+    expect(stored.attempts).toEqual(1);
+    expect(stored.completed_at).toBeInstanceOf(Date);
+    expect(stored.locked_by).toBeNull();
+    expect((await getStoredJob(second.id)).status).toEqual('completed');
+  });
+
+  it('should reject unknown job types', async () => {
+    await expect(enqueueJob('missing_job', {})).rejects.toThrow(/Unknown job type/);
+  });
+
+  it('should never hand the same job to two workers', async () => {
+    await enqueueJob('test_job', { n: 1 });
+    await enqueueJob('test_job', { n: 2 });
+
+    const claims = await Promise.all([claimNextJob('worker-a'), claimNextJob('worker-b'), claimNextJob('worker-c')]);
+    const claimed = claims.filter(job => job !== null);
+
+    expect(claimed).toHaveLength(2);
+    expect(new Set(claimed.map(job => job!.id)).size).toEqual(2);
+  });
+
+  it('should retry a failed attempt with backoff', async () => {
+    failuresLeft = 1;
+    const job = await enqueueJob('test_job', { n: 1 });
+
+    const before = Date.now();
+    await runPendingJobs();
+
+    const retrying = await getStoredJob(job.id);
+    expect(retrying.status).toEqual('pending');
+    expect(retrying.attempts).toEqual(1);
+    expect(retrying.last_error).toEqual('Temporary failure');
+    expect(retrying.run_at.getTime()).toBeGreaterThanOrEqual(before + getRetryDelay(1));
+
+    await makeDue(job.id);
+    await runPendingJobs();
+
+    const completed = await getStoredJob(job.id);
+    expect(completed.status).toEqual('completed');
+    expect(completed.attempts).toEqual(2);
+  });
+
+  it('should double the retry delay up to a cap', () => {
+    expect(getRetryDelay(2)).toEqual(getRetryDelay(1) * 2);
+    expect(getRetryDelay(3)).toEqual(getRetryDelay(1) * 4);
+    expect(getRetryDelay(30)).toEqual(getRetryDelay(31));
+  });
+
+  it('should dead-letter a job that fails on every attempt', async () => {
+    failuresLeft = 10;
+    const job = await enqueueJob('test_job', { n: 1 }, { maxAttempts: 2 });
+
+    await runPendingJobs();
+    await makeDue(job.id);
+    await runPendingJobs();
+
+    const stored = await getStoredJob(job.id);
+    expect(stored.status).toEqual('dead');
+    expect(stored.attempts).toEqual(2);
+    expect(dead).toEqual(['Temporary failure']);
+  });
+
+  it('should dead-letter a job at once when its handler rules out a retry', async () => {
+    const job = await enqueueJob('invalid_job', { n: 1 });
+
+    expect(await runPendingJobs()).toEqual(1);
+
+    const stored = await getStoredJob(job.id);
+    expect(stored.status).toEqual('dead');
+    expect(stored.attempts).toEqual(1);
+    expect(dead).toEqual(['Invalid payload']);
+  });
+
+  it('should claim a running job again once its worker stops sending heartbeats', async () => {
+    const job = await enqueueJob('test_job', { n: 1 });
+    await claimNextJob('crashed-worker');
+    expect(await claimNextJob('other-worker')).toBeNull();
+
+    await expireLock(job.id);
+
+    const reclaimed = await claimNextJob('other-worker');
+    expect(reclaimed?.id).toEqual(job.id);
+    expect(reclaimed?.attempts).toEqual(2);
+    expect(reclaimed?.locked_by).toEqual('other-worker');
+  });
+
+  it('should dead-letter an abandoned job that was on its last attempt', async () => {
+    const job = await enqueueJob('test_job', { n: 1 }, { maxAttempts: 1 });
+    await claimNextJob('crashed-worker');
+    await expireLock(job.id);
+
+    expect(await claimNextJob('other-worker')).toBeNull();
+
+    const stored = await getStoredJob(job.id);
+    expect(stored.status).toEqual('dead');
+    expect(stored.attempts).toEqual(1);
+    expect(stored.locked_by).toBeNull();
+    expect(dead).toEqual(['Worker stopped responding on the last attempt']);
+  });
+
+  it('should cancel a pending job at once', async () => {
+    const job = await enqueueJob('test_job', { n: 1 });
+
+    const result = await cancelJob(job.id);
+
+    expect(result.status).toEqual('cancelled');
+    expect(cancelled).toEqual([{ n: 1 }]);
+    expect(await runPendingJobs()).toEqual(0);
+    expect(calls).toHaveLength(0);
+  });
+
+  it('should stop a running job at its next cancellation check', async () => {
+    const job = await enqueueJob('test_job', { n: 1 });
+    const claimed = await claimNextJob();
+
+    const requested = await cancelJob(job.id);
+    expect(requested.status).toEqual('running');
+    expect(requested.cancel_requested_at).toBeInstanceOf(Date);
+
+    await runJob(claimed!);
+
+    expect((await getStoredJob(job.id)).status).toEqual('cancelled');
+    expect(calls).toHaveLength(0);
+    expect(cancelled).toEqual([{ n: 1 }]);
+  });
+
+  it('should retry dead and cancelled jobs only', async () => {
+    const job = await enqueueJob('test_job', { n: 1 });
+    await expect(retryJob(job.id)).rejects.toThrow(/cannot be retried/);
+    await cancelJob(job.id);
+
+    const retried = await retryJob(job.id);
+
+    expect(retried.status).toEqual('pending');
+    expect(retried.attempts).toEqual(0);
+    expect(retried.max_attempts).toEqual(DEFAULT_MAX_ATTEMPTS);
+    expect(retried.cancel_requested_at).toBeNull();
+    await runPendingJobs();
+    expect(calls).toEqual([{ n: 1 }]);
+    await expect(cancelJob(job.id)).rejects.toThrow(/already completed/);
+    await expect(retryJob(999999)).rejects.toThrow(/not found/);
+  });
+
+  it('should keep counting attempts when a dead job is retried', async () => {
+    failuresLeft = 10;
+    const job = await enqueueJob('test_job', { n: 1 }, { maxAttempts: 2 });
+    await runPendingJobs();
+    await makeDue(job.id);
+    await runPendingJobs();
+
+    const retried = await retryJob(job.id);
+
+    expect(retried.status).toEqual('pending');
+    expect(retried.attempts).toEqual(2);
+    expect(retried.max_attempts).toEqual(2 + DEFAULT_MAX_ATTEMPTS);
+    failuresLeft = 0;
+    await runPendingJobs();
+    const completed = await getStoredJob(job.id);
+    expect(completed.status).toEqual('completed');
+    expect(completed.attempts).toEqual(3);
+  });
+
+  it('should not let an abandoned attempt record its outcome after a retry', async () => {
+    const job = await enqueueJob('test_job', { n: 1 }, { maxAttempts: 1 });
+    const abandoned = await claimNextJob('crashed-worker');
+    await expireLock(job.id);
+    await claimNextJob('other-worker'); // Dead-letters the job
+    await retryJob(job.id);
+    const current = await claimNextJob('other-worker');
+
+    await runJob(abandoned!);
+
+    const stored = await getStoredJob(job.id);
+    expect(current?.attempts).toEqual(2);
+    expect(stored.status).toEqual('running');
+    expect(stored.locked_by).toEqual('other-worker');
+  });
+
+  it('should process jobs in the background until stopped', async () => {
+    const worker = startJobWorker({ pollIntervalMs: 10 });
+    const job = await enqueueJob('test_job', { n: 1 });
+
+    for (let tries = 0; tries < 100 && (await getStoredJob(job.id)).status !== 'completed'; tries++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    await worker.stop();
+
+    expect((await getStoredJob(job.id)).status).toEqual('completed');
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'bun:test';
+import { strToU8, zipSync } from 'fflate';
+import { ARCHIVE_LIMITS, ArchiveError } from '../lib/archive';
+import { checkEmails, expandEmails, isEmailFilename, splitMailbox } from '../lib/mailbox';
+
+const message = (subject: string, body: string) =>
+  `From: sender@example.com\nTo: accounts@example.com\nSubject: ${subject}\nDate: Mon, 4 Mar 2024 09:00:00 +0000\n\n${body}\n`;
+
+const withAttachments = (subject: string, attachments: { filename: string; data: Uint8Array; }[]) => [
+  'From: sender@example.com',
+  `Subject: ${subject}`,
+  'Content-Type: multipart/mixed; boundary="part"',
+  '',
+  '--part',
+  'Content-Type: text/plain',
+  '',
+  'See attached.',
+  ...attachments.flatMap(({ filename, data }) => [
+    '--part',
+    `Content-Type: application/octet-stream; name="${filename}"`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    Buffer.from(data).toString('base64'),
+  ]),
+  '--part--',
+  '',
+].join('\n');
+
+describe('splitMailbox', () => {
+  it('should split on separator lines and restore escaped From lines', () => {
+    const mailbox = [
+      'From sender@example.com Mon Mar  4 09:00:00 2024',
+      message('First', 'Hello\n>From the team\n>>From nested quote'),
+      'From other@example.com Tue Mar  5 09:00:00 2024',
+      message('Second', 'Hello\nFrom here on, only lines after a blank line separate messages'),
+      '',
+    ].join('\n');
+
+    const messages = splitMailbox(strToU8(mailbox)).map(data => new TextDecoder().decode(data));
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0]).toBe(message('First', 'Hello\nFrom the team\n>From nested quote'));
+    expect(messages[1]).toBe(message('Second', 'Hello\nFrom here on, only lines after a blank line separate messages'));
+  });
+
+  it('should reject files that do not start with a separator line', () => {
+    expect(() => splitMailbox(strToU8(message('Hi', 'Body')))).toThrow(ArchiveError);
+  });
+});
+
+describe('expandEmails', () => {
+  it('should return each message followed by its supported attachments', () => {
+    const mailbox = [
+      'From sender@example.com Mon Mar  4 09:00:00 2024',
+      withAttachments('Invoice 42', [
+        { filename: 'invoice.txt', data: strToU8('Invoice 42 total') },
+        { filename: 'photo.png', data: strToU8('image bytes') },
+        { filename: 'bundle.zip', data: zipSync({ 'a.txt': strToU8('a') }) },
+      ]),
+      'From sender@example.com Tue Mar  5 09:00:00 2024',
+      message('Re: Invoice 42 / March', 'Thanks'),
+    ].join('\n');
+
+    const { entries, skipped } = expandEmails('inbox.mbox', strToU8(mailbox));
+
+    expect(entries.map(entry => [entry.path, entry.file_type])).toEqual([
+      ['Invoice 42.eml', 'eml'],
+      ['Invoice 42.eml/invoice.txt', 'txt'],
+      ['Re: Invoice 42 - March.eml', 'eml'],
+    ]);
+    expect(new TextDecoder().decode(entries[1].data)).toBe('Invoice 42 total');
+    expect(skipped).toEqual([
+      { path: 'Invoice 42.eml/photo.png', reason: 'Unsupported file type' },
+      { path: 'Invoice 42.eml/bundle.zip', reason: 'Archives attached to emails are not expanded' },
+    ]);
+  });
+
+  it('should import the rest of a mailbox around a message with a corrupt header', () => {
+    const mailbox = [
+      'From sender@example.com Mon Mar  4 09:00:00 2024',
+      message('=?utf-8?B?@@@?=', 'Corrupt subject'),
+      'From sender@example.com Tue Mar  5 09:00:00 2024',
+      message('Second', 'Fine'),
+    ].join('\n');
+
+    const { entries, skipped } = expandEmails('inbox.mbox', strToU8(mailbox));
+
+    // The malformed encoded word is kept as written
+    expect(entries.map(entry => entry.path)).toEqual(['=?utf-8?B?@@@?=.eml', 'Second.eml']);
+    expect(skipped).toEqual([]);
+  });
+
+  it('should keep the filename of a single message', () => {
+    const email = withAttachments('Contract', [{ filename: 'contract.md', data: strToU8('# Lease') }]);
+
+    const { entries } = expandEmails('lease.eml', strToU8(email));
+
+    expect(entries.map(entry => entry.path)).toEqual(['lease.eml', 'lease.eml/contract.md']);
+    expect(new TextDecoder().decode(entries[0].data)).toBe(email);
+  });
+
+  it('should enforce the document limit', () => {
+    const email = withAttachments('Many', [
+      { filename: 'a.txt', data: strToU8('a') },
+      { filename: 'b.txt', data: strToU8('b') },
+    ]);
+
+    expect(() => expandEmails('many.eml', strToU8(email), { ...ARCHIVE_LIMITS, maxEntries: 2 })).toThrow(/more than 2 documents/);
+  });
+});
+
+describe('checkEmails', () => {
+  it('should reject mailboxes that do not start with a separator line', () => {
+    expect(() => checkEmails('inbox.mbox', strToU8(message('Hi', 'Body')))).toThrow(ArchiveError);
+    expect(() => checkEmails('inbox.mbox', strToU8(`From a@example.com\n${message('Hi', 'Body')}`))).not.toThrow();
+    expect(() => checkEmails('hello.eml', strToU8(message('Hi', 'Body')))).not.toThrow();
+  });
+});
+
+describe('isEmailFilename', () => {
+  it('should accept messages and mailboxes', () => {
+    expect(isEmailFilename('inbox.MBOX')).toBe(true);
+    expect(isEmailFilename('message.eml')).toBe(true);
+    expect(isEmailFilename('notes.txt')).toBe(false);
+  });
+});
@@ -0,0 +1,203 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { readFile, readdir } from 'node:fs/promises';
+import { createServer, request, type Server } from 'node:http';
+import { tmpdir } from 'node:os';
+import { type AddressInfo } from 'node:net';
+import superjson, { type SuperJSONResult } from 'superjson';
+import { strToU8, zipSync } from 'fflate';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { documentsTable } from '../db/schema';
+import { type Document, type DocumentBatchDetail, MAX_BASE64_UPLOAD_LENGTH } from '../schema';
+import { handleMultipartUpload, MAX_UPLOAD_SIZE, UPLOAD_PATH } from '../lib/multipart_upload';
+import { getDocumentBatch } from '../handlers/get_document_batch';
+import { runPendingJobs } from '../lib/jobs';
+
+describe('handleMultipartUpload', () => {
+  let server: Server;
+  let uploadUrl: string;
+  let handling: Promise<void> = Promise.resolve(); // The request the server handled last
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      handling = handleMultipartUpload(req, res);
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    uploadUrl = `http://localhost:${(server.address() as AddressInfo).port}${UPLOAD_PATH}`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  // The response carries the queued batch; its documents are saved once the worker runs
+  const importBatch = async (response: Response) => {
+    const queued = superjson.deserialize<DocumentBatchDetail>(await response.json() as SuperJSONResult);
+    expect(queued.batch.status).toBe('queued');
+    await runPendingJobs();
+    return getDocumentBatch(queued.batch.id);
+  };
+
+  const postFile = (content: string | Uint8Array, filename: string, fields: Record<string, string> = {}) => {
+    const body = new FormData();
+    for (const [name, value] of Object.entries(fields)) {
+      body.append(name, value);
+    }
+    body.append('file', new File([content], filename));
+    return fetch(uploadUrl, { method: 'POST', body });
+  };
+
+  it('should stream a file and return the created document', async () => {
+    const response = await postFile('Quarterly revenue report', 'report.txt', { file_type: 'txt' });
+
+    expect(response.status).toBe(201);
+    const document = superjson.deserialize<Document>(await response.json() as SuperJSONResult);
+
+    expect(document.id).toBeDefined();
+    expect(document.filename).toBe('report.txt');
+    expect(document.file_type).toBe('txt');
+    expect(document.file_size).toBe(24);
+    expect(document.content).toBe('Quarterly revenue report');
+    expect(document.uploaded_at).toBeInstanceOf(Date);
+
+    const saved = await db.select().from(documentsTable).execute();
+    expect(saved).toHaveLength(1);
+    expect(saved[0].content).toBe('Quarterly revenue report');
+  });
+
+  it('should infer the file type from the filename', async () => {
+    const response = await postFile('Meeting notes', 'notes.TXT');
+
+    expect(response.status).toBe(201);
+    const document = superjson.deserialize<Document>(await response.json() as SuperJSONResult);
+    expect(document.file_type).toBe('txt');
+  });
+
+  it('should reject files over the size limit', async () => {
+    const response = await postFile(new Uint8Array(MAX_UPLOAD_SIZE + 1), 'huge.txt');
+
+    expect(response.status).toBe(413);
+    expect((await response.json() as { error: string }).error).toMatch(/upload limit/i);
+
+    const saved = await db.select().from(documentsTable).execute();
+    expect(saved).toHaveLength(0);
+  });
+
+  it('should fit the largest upload under the proxy body limit', async () => {
+    const caddyfile = await readFile(new URL('../../../client/Caddyfile', import.meta.url), 'utf-8');
+    const match = caddyfile.match(/max_size (\d+)(KB|MB|KiB|MiB)/);
+    expect(match).not.toBeNull();
+    const unitSize = { KB: 1000, MB: 1000 ** 2, KiB: 1024, MiB: 1024 ** 2 }[match![2] as 'KB' | 'MB' | 'KiB' | 'MiB'];
+
+    // Room for the tRPC JSON envelope or the multipart boundaries and headers
+    const envelopeSize = 64 * 1024;
+    expect(Number(match![1]) * unitSize).toBeGreaterThanOrEqual(MAX_BASE64_UPLOAD_LENGTH + envelopeSize);
+    expect(MAX_BASE64_UPLOAD_LENGTH).toBeGreaterThan(MAX_UPLOAD_SIZE);
+  });
+
+  it('should expand a zip archive into a document batch', async () => {
+    const archive = zipSync({ 'a.txt': strToU8('First'), 'b.txt': strToU8('Second') });
+
+    const response = await postFile(archive, 'bundle.zip');
+
+    expect(response.status).toBe(201);
+    const detail = await importBatch(response);
+    expect(detail.batch.filename).toBe('bundle.zip');
+    expect(detail.documents.map(entry => entry.document.filename)).toEqual(['a.txt', 'b.txt']);
+    expect(detail.documents[0].document.batch_id).toBe(detail.batch.id);
+  });
+
+  it('should reject zip files that are not valid archives', async () => {
+    const response = await postFile('not a zip', 'bundle.zip');
+
+    expect(response.status).toBe(400);
+    expect((await response.json() as { error: string }).error).toMatch(/Not a valid zip archive/);
+  });
+
+  it('should import emails and mailboxes as a document batch', async () => {
+    const mailbox = [
+      'From a@example.com Mon Mar  4 09:00:00 2024',
+      'From: a@example.com',
+      'Subject: First',
+      '',
+      'Hello',
+      '',
+      'From b@example.com Tue Mar  5 09:00:00 2024',
+      'From: b@example.com',
+      'Subject: Second',
+      '',
+      'Goodbye',
+      '',
+    ].join('\n');
+
+    const response = await postFile(mailbox, 'inbox.mbox');
+
+    expect(response.status).toBe(201);
+    const detail = await importBatch(response);
+    expect(detail.batch.filename).toBe('inbox.mbox');
+    expect(detail.documents.map(entry => entry.document.filename)).toEqual(['First.eml', 'Second.eml']);
+
+    const single = await postFile('From: a@example.com\nSubject: Hi\n\nHello', 'hi.eml', { file_type: 'eml' });
+    expect(single.status).toBe(201);
+    const singleDetail = await importBatch(single);
+    expect(singleDetail.documents.map(entry => entry.document.metadata?.subject)).toEqual(['Hi']);
+  });
+
+  it('should accept any extension a format registers', async () => {
+    const response = await postFile('# Notes\nShip on Friday', 'notes.markdown');
+
+    expect(response.status).toBe(201);
+    const document = superjson.deserialize<Document>(await response.json() as SuperJSONResult);
+    expect(document.file_type).toBe('md');
+    expect(document.content).toBe('Notes\nShip on Friday');
+  });
+
+  it('should reject unsupported file types', async () => {
+    const response = await postFile('binary', 'archive.exe');
+
+    expect(response.status).toBe(400);
+    expect((await response.json() as { error: string }).error).toMatch(/unsupported file type/i);
+  });
+
+  it('should give up on an upload the client aborts and remove its temporary file', async () => {
+    const listUploadDirectories = async () => (await readdir(tmpdir())).filter(name => name.startsWith('document-upload-'));
+    const before = await listUploadDirectories();
+
+    const boundary = 'aborted-upload';
+    const upload = request(uploadUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': `multipart/form-data; boundary=${boundary}`, 'Content-Length': String(1024 * 1024) },
+    });
+    upload.on('error', () => undefined);
+    upload.write(`--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="report.txt"\r\n\r\nQuarterly`);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    upload.destroy();
+
+    await handling;
+
+    expect(await listUploadDirectories()).toEqual(before);
+    expect(await db.select().from(documentsTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject requests without a file part', async () => {
+    const body = new FormData();
+    body.append('file_type', 'txt');
+    const response = await fetch(uploadUrl, { method: 'POST', body });
+
+    expect(response.status).toBe(400);
+    expect((await response.json() as { error: string }).error).toMatch(/missing the "file" field/i);
+  });
+
+  it('should reject non-multipart requests', async () => {
+    const response = await fetch(uploadUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ filename: 'a.txt' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, criteriaTable, documentsTable, classificationResultsTable } from '../db/schema';
+import { classifyDocument } from '../handlers/classify_document';
+import { overrideClassification } from '../handlers/override_classification';
+import { getUnclassifiedDocuments } from '../handlers/get_unclassified_documents';
+import { getDocumentClassificationHistory } from '../handlers/get_document_classification_history';
+import { eq } from 'drizzle-orm';
+
+describe('overrideClassification', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async (content: string | null = 'Invoice for the service agreement') => {
+    const categories = await db.insert(categoriesTable)
+      .values([
+        { name: 'Invoices', color: '#3B82F6', description: null },
+        { name: 'Contracts', color: '#EF4444', description: null },
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(criteriaTable)
+      .values({ category_id: categories[0].id, name: 'Invoice', pattern: 'invoice', match_type: 'keyword', weight: '0.80' })
+      .execute();
+
+    const documents = await db.insert(documentsTable)
+      .values({ filename: 'contract.txt', file_type: 'txt', file_size: 64, content })
+      .returning()
+      .execute();
+
+    return { categories, document: documents[0] };
+  };
+
+  it('should record a manual result that supersedes the automatic one', async () => {
+    const { categories, document } = await createTestData();
+    const automatic = await classifyDocument({ document_id: document.id });
+
+    const result = await overrideClassification({
+      document_id: document.id,
+      category_id: categories[1].id,
+      reviewer: 'Dana',
+      reason: 'Signed service agreement, the invoice is only an attachment',
+    });
+
+    expect(result.category.name).toBe('Contracts');
+    expect(result.result.classification_method).toBe('Manual');
+    expect(result.result.category_id).toBe(categories[1].id);
+    expect(result.result.reviewer).toBe('Dana');
+    expect(result.result.override_reason).toBe('Signed service agreement, the invoice is only an attachment');
+    expect(result.result.supersedes_result_id).toBe(automatic.result.id);
+    expect(result.result.run_id).toBeNull();
+    expect(result.document.current_result_id).toBe(result.result.id);
+
+    const saved = await db.select()
+      .from(classificationResultsTable)
+      .where(eq(classificationResultsTable.id, result.result.id))
+      .execute();
+    expect(saved[0].reviewer).toBe('Dana');
+  });
+
+  it('should stay current when the document is classified again', async () => {
+    const { categories, document } = await createTestData();
+    await classifyDocument({ document_id: document.id });
+    const manual = await overrideClassification({
+      document_id: document.id,
+      category_id: categories[1].id,
+      reviewer: 'Dana',
+      reason: 'Contract',
+    });
+
+    const rerun = await classifyDocument({ document_id: document.id });
+
+    expect(rerun.category?.name).toBe('Invoices');
+    expect(rerun.document.current_result_id).toBe(manual.result.id);
+
+    const history = await getDocumentClassificationHistory(document.id);
+    expect(history.entries).toHaveLength(3);
+    expect(history.entries.find(entry => entry.is_current)?.results[0].result.id).toBe(manual.result.id);
+  });
+
+  it('should take unclassified documents out of the review list', async () => {
+    const { categories, document } = await createTestData(null);
+    await classifyDocument({ document_id: document.id });
+    expect(await getUnclassifiedDocuments()).toHaveLength(1);
+
+    await overrideClassification({
+      document_id: document.id,
+      category_id: categories[0].id,
+      reviewer: 'Dana',
+      reason: 'Scanned invoice without text',
+    });
+
+    expect(await getUnclassifiedDocuments()).toHaveLength(0);
+  });
+
+  it('should allow overriding a document that was never classified', async () => {
+    const { categories, document } = await createTestData();
+
+    const result = await overrideClassification({
+      document_id: document.id,
+      category_id: categories[0].id,
+      reviewer: 'Dana',
+      reason: 'Known invoice',
+    });
+
+    expect(result.result.supersedes_result_id).toBeNull();
+  });
+
+  it('should reject a superseded result of another document', async () => {
+    const { categories, document } = await createTestData();
+    const other = await db.insert(documentsTable)
+      .values({ filename: 'other.txt', file_type: 'txt', file_size: 10, content: 'Invoice' })
+      .returning()
+      .execute();
+    const otherResult = await classifyDocument({ document_id: other[0].id });
+
+    await expect(overrideClassification({
+      document_id: document.id,
+      category_id: categories[1].id,
+      reviewer: 'Dana',
+      reason: 'Contract',
+      supersedes_result_id: otherResult.result.id,
+    })).rejects.toThrow(/not found for this document/);
+  });
+
+  it('should throw for a missing document or category', async () => {
+    const { categories, document } = await createTestData();
+
+    await expect(overrideClassification({ document_id: 999999, category_id: categories[0].id, reviewer: 'Dana', reason: 'x' }))
+      .rejects.toThrow(/Document not found/);
+    await expect(overrideClassification({ document_id: document.id, category_id: 999999, reviewer: 'Dana', reason: 'x' }))
+      .rejects.toThrow(/Category with id 999999 not found/);
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, criteriaTable, documentsTable, classificationResultsTable, classificationRunsTable } from '../db/schema';
+import { previewClassificationInputSchema } from '../schema';
+import { previewClassification } from '../handlers/preview_classification';
+
+describe('previewClassification', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async () => {
+    const categories = await db.insert(categoriesTable)
+      .values([
+        { name: 'Invoices', color: '#3B82F6', description: null },
+        { name: 'Contracts', color: '#EF4444', description: null },
+        { name: 'Memos', color: '#10B981', description: null },
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(criteriaTable)
+      .values([
+        { category_id: categories[0].id, name: 'Invoice', pattern: 'invoice', match_type: 'keyword', weight: '0.80' },
+        { category_id: categories[0].id, name: 'Amount due', pattern: 'amount due', match_type: 'phrase', weight: '0.60' },
+        { category_id: categories[1].id, name: 'Agreement', pattern: 'agreement', match_type: 'keyword', weight: '0.90' },
+        { category_id: categories[1].id, name: 'Parties', pattern: 'parties', match_type: 'keyword', weight: '0.50' },
+      ])
+      .execute();
+
+    return categories;
+  };
+
+  it('should explain the score of every category for raw text', async () => {
+    const categories = await createTestData();
+
+    const result = await previewClassification({ text: 'Invoice for the service agreement between the parties' });
+
+    expect(result.document).toBeNull();
+    expect(result.unclassified_reason).toBeNull();
+    expect(result.categories.map(preview => preview.category.name)).toEqual(['Contracts', 'Invoices', 'Memos']);
+    expect(result.categories.map(preview => preview.rank)).toEqual([1, 2, 3]);
+    expect(result.categories.map(preview => preview.selected)).toEqual([true, false, false]);
+
+    const [contracts, invoices, memos] = result.categories;
+    expect(contracts.score).toBeCloseTo(1.4);
+    expect(contracts.max_score).toBeCloseTo(1.4);
+    expect(contracts.matched_criteria.map(criteria => criteria.name)).toEqual(['Agreement', 'Parties']);
+    expect(contracts.unmatched_criteria).toHaveLength(0);
+
+    // The losing category shows what it was missing
+    expect(invoices.score).toBeCloseTo(0.8);
+    expect(invoices.normalized_score).toBeLessThan(contracts.normalized_score);
+    expect(invoices.matched_criteria.map(criteria => criteria.name)).toEqual(['Invoice']);
+    expect(invoices.unmatched_criteria.map(criteria => criteria.name)).toEqual(['Amount due']);
+    expect(invoices.unmatched_criteria[0].weight).toEqual(0.6);
+
+    // Categories without criteria are still listed
+    expect(memos.category.id).toEqual(categories[2].id);
+    expect(memos.score).toEqual(0);
+    expect(memos.confidence_level).toEqual('low');
+  });
+
+  it('should preview a stored document without storing a result', async () => {
+    await createTestData();
+    const documents = await db.insert(documentsTable)
+      .values({ filename: 'invoice.txt', file_type: 'txt', file_size: 32, content: 'Invoice 42, amount due on receipt' })
+      .returning()
+      .execute();
+
+    const result = await previewClassification({ document_id: documents[0].id });
+
+    expect(result.document?.id).toEqual(documents[0].id);
+    expect(result.categories[0].category.name).toEqual('Invoices');
+    expect(result.categories[0].selected).toBe(true);
+    expect(result.categories[0].confidence_level).toEqual('medium');
+
+    expect(await db.select().from(classificationRunsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(classificationResultsTable).execute()).toHaveLength(0);
+  });
+
+  it('should return scores instead of throwing when nothing matches', async () => {
+    await createTestData();
+
+    const result = await previewClassification({ text: 'Nothing relevant here' });
+
+    expect(result.categories).toHaveLength(3);
+    expect(result.categories.every(preview => preview.score === 0 && !preview.selected)).toBe(true);
+    expect(result.unclassified_reason).toBe('no_match');
+    expect(result.categories[0].unmatched_criteria.length).toBeGreaterThan(0);
+  });
+
+  it('should mark every label above the threshold in multi-label mode', async () => {
+    await createTestData();
+
+    const result = await previewClassification({
+      text: 'Invoice for the service agreement between the parties',
+      mode: 'multi',
+      threshold: 0.2,
+    });
+
+    expect(result.categories.filter(preview => preview.selected).map(preview => preview.category.name))
+      .toEqual(['Contracts', 'Invoices']);
+  });
+
+  it('should show vetoed categories', async () => {
+    const categories = await createTestData();
+    await db.insert(criteriaTable)
+      .values({ category_id: categories[1].id, name: 'Draft', pattern: 'draft', match_type: 'keyword', weight: '1.00', is_veto: true })
+      .execute();
+
+    const result = await previewClassification({ text: 'Draft agreement between the parties, invoice attached' });
+
+    const contracts = result.categories.find(preview => preview.category.name === 'Contracts')!;
+    expect(contracts.vetoed).toBe(true);
+    expect(contracts.selected).toBe(false);
+    expect(result.categories[0].category.name).toEqual('Invoices');
+    expect(result.categories[0].selected).toBe(true);
+  });
+
+  it('should throw for a missing document', async () => {
+    await expect(previewClassification({ document_id: 999999 })).rejects.toThrow(/Document not found/);
+  });
+
+  it('should require exactly one of document_id and text', () => {
+    expect(previewClassificationInputSchema.safeParse({}).success).toBe(false);
+    expect(previewClassificationInputSchema.safeParse({ document_id: 1, text: 'invoice' }).success).toBe(false);
+    expect(previewClassificationInputSchema.safeParse({ text: 'invoice' }).success).toBe(true);
+  });
+});
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, documentsTable, classificationResultsTable, reviewQueueTable } from '../db/schema';
+import { classifyDocument } from '../handlers/classify_document';
+import { claimReviewItem } from '../handlers/claim_review_item';
+import { reassignReviewItem, DEFAULT_REASSIGN_REASON } from '../handlers/reassign_review_item';
+import { overrideClassification } from '../handlers/override_classification';
+import { getReviewQueue } from '../handlers/get_review_queue';
+import { eq } from 'drizzle-orm';
+
+describe('reassignReviewItem', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async () => {
+    const categories = await db.insert(categoriesTable)
+      .values({ name: 'Memos', color: '#10B981', description: null })
+      .returning()
+      .execute();
+    const documents = await db.insert(documentsTable)
+      .values({ filename: 'memo.txt', file_type: 'txt', file_size: 100, content: 'Team lunch on Friday' })
+      .returning()
+      .execute();
+    const response = await classifyDocument({ document_id: documents[0].id });
+    const queue = await getReviewQueue();
+    return { category: categories[0], item: queue[0].item, response };
+  };
+
+  it('should record a manual result and resolve the item', async () => {
+    const { category, item, response } = await createTestData();
+
+    const reassigned = await reassignReviewItem({ id: item.id, reviewer: 'Ana', category_id: category.id });
+
+    expect(reassigned.status).toEqual('reassigned');
+    expect(reassigned.resolved_by).toEqual('Ana');
+    expect(reassigned.resolution_result_id).not.toBeNull();
+
+    const results = await db.select()
+      .from(classificationResultsTable)
+      .where(eq(classificationResultsTable.id, reassigned.resolution_result_id!))
+      .execute();
+    expect(results[0].category_id).toEqual(category.id);
+    expect(results[0].classification_method).toEqual('Manual');
+    expect(results[0].override_reason).toEqual(DEFAULT_REASSIGN_REASON);
+    expect(results[0].supersedes_result_id).toEqual(response.result.id);
+
+    const documents = await db.select().from(documentsTable).where(eq(documentsTable.id, item.document_id)).execute();
+    expect(documents[0].current_result_id).toEqual(results[0].id);
+    expect(await getReviewQueue()).toHaveLength(0);
+  });
+
+  it('should record the given reason', async () => {
+    const { category, item } = await createTestData();
+    await claimReviewItem({ id: item.id, reviewer: 'Ana' });
+
+    const reassigned = await reassignReviewItem({ id: item.id, reviewer: 'Ana', category_id: category.id, reason: 'Internal memo' });
+
+    const results = await db.select()
+      .from(classificationResultsTable)
+      .where(eq(classificationResultsTable.id, reassigned.resolution_result_id!))
+      .execute();
+    expect(results[0].override_reason).toEqual('Internal memo');
+  });
+
+  it('should reject a missing category without resolving the item', async () => {
+    const { item } = await createTestData();
+
+    await expect(reassignReviewItem({ id: item.id, reviewer: 'Ana', category_id: 999999 })).rejects.toThrow(/not found/);
+
+    expect((await getReviewQueue())[0].item.id).toEqual(item.id);
+  });
+
+  it('should not overwrite an item another reviewer claims while it is being reassigned', async () => {
+    const { category, item, response } = await createTestData();
+
+    // Ben claims the item inside a transaction holding its row lock, so Ana's check sees it
+    // still pending but her override has to wait until Ben's commit
+    let reassignment: Promise<unknown> = Promise.resolve();
+    await db.transaction(async tx => {
+      await tx.update(reviewQueueTable)
+        .set({ status: 'claimed', claimed_by: 'Ben', claimed_at: new Date() })
+        .where(eq(reviewQueueTable.id, item.id))
+        .execute();
+      reassignment = reassignReviewItem({ id: item.id, reviewer: 'Ana', category_id: category.id }).catch(error => error);
+      await new Promise(resolve => setTimeout(resolve, 200));
+    });
+
+    expect(String(await reassignment)).toMatch(/was resolved or claimed by another reviewer/);
+    const stored = await db.select().from(reviewQueueTable).where(eq(reviewQueueTable.id, item.id)).execute();
+    expect(stored[0].status).toEqual('claimed');
+    expect(stored[0].claimed_by).toEqual('Ben');
+
+    // The manual result is rolled back with the item
+    const documents = await db.select().from(documentsTable).where(eq(documentsTable.id, item.document_id)).execute();
+    expect(documents[0].current_result_id).toEqual(response.result.id);
+    const results = await db.select()
+      .from(classificationResultsTable)
+      .where(eq(classificationResultsTable.document_id, item.document_id))
+      .execute();
+    expect(results).toHaveLength(1);
+  });
+
+  it('should reassign an item whose claim has expired', async () => {
+    const { category, item } = await createTestData();
+    await claimReviewItem({ id: item.id, reviewer: 'Ana' });
+    await db.update(reviewQueueTable)
+      .set({ claimed_at: new Date(0) })
+      .where(eq(reviewQueueTable.id, item.id))
+      .execute();
+
+    const reassigned = await reassignReviewItem({ id: item.id, reviewer: 'Ben', category_id: category.id });
+
+    expect(reassigned.status).toEqual('reassigned');
+    expect(reassigned.resolved_by).toEqual('Ben');
+  });
+
+  it('should resolve open items when a document is overridden directly', async () => {
+    const { category, item } = await createTestData();
+
+    await overrideClassification({ document_id: item.document_id, category_id: category.id, reviewer: 'Ben', reason: 'Memo' });
+
+    const resolved = await getReviewQueue({ status: 'reassigned' });
+    expect(resolved).toHaveLength(1);
+    expect(resolved[0].item.resolved_by).toEqual('Ben');
+  });
+});
@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, criteriaTable, documentsTable, reclassificationJobsTable } from '../db/schema';
+import { classifyDocument } from '../handlers/classify_document';
+import { overrideClassification } from '../handlers/override_classification';
+import { reclassifyDocuments, runReclassificationJob } from '../handlers/reclassify_documents';
+import { runPendingJobs, cancelJob } from '../lib/jobs';
+import { getReclassificationJob } from '../handlers/get_reclassification_job';
+import { eq } from 'drizzle-orm';
+
+describe('reclassifyDocuments', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async () => {
+    const categories = await db.insert(categoriesTable)
+      .values([
+        { name: 'Invoices', color: '#3B82F6', description: null },
+        { name: 'Contracts', color: '#EF4444', description: null },
+      ])
+      .returning()
+      .execute();
+
+    const criteria = await db.insert(criteriaTable)
+      .values([
+        { category_id: categories[0].id, name: 'Invoice', pattern: 'invoice', match_type: 'keyword', weight: '0.80' },
+        { category_id: categories[1].id, name: 'Agreement', pattern: 'agreement', match_type: 'keyword', weight: '0.50' },
+      ])
+      .returning()
+      .execute();
+
+    const documents = await db.insert(documentsTable)
+      .values([
+        { filename: 'invoice.txt', file_type: 'txt', file_size: 100, content: 'Invoice 42' },
+        { filename: 'mixed.txt', file_type: 'txt', file_size: 100, content: 'Invoice for the service agreement' },
+        { filename: 'memo.pdf', file_type: 'pdf', file_size: 100, content: 'Team lunch on Friday' },
+      ])
+      .returning()
+      .execute();
+
+    for (const document of documents) {
+      await classifyDocument({ document_id: document.id });
+    }
+
+    return { categories, criteria, documents };
+  };
+
+  const runJob = async (input: Parameters<typeof reclassifyDocuments>[0] = {}) => {
+    const job = await reclassifyDocuments(input);
+    await runPendingJobs();
+    return getReclassificationJob(job.id);
+  };
+
+  it('should queue a job and report it completed once every document is processed', async () => {
+    await createTestData();
+
+    const job = await reclassifyDocuments();
+    expect(job.status).toEqual('queued');
+    expect(job.filter).toEqual({});
+    expect(job.mode).toEqual('single');
+    expect(job.job_id).not.toBeNull();
+
+    await runPendingJobs();
+    const detail = await getReclassificationJob(job.id);
+
+    expect(detail.job.status).toEqual('completed');
+    expect(detail.job.total).toEqual(3);
+    expect(detail.job.processed).toEqual(3);
+    expect(detail.job.changed).toEqual(0);
+    expect(detail.job.failed).toEqual(0);
+    expect(detail.job.started_at).toBeInstanceOf(Date);
+    expect(detail.job.completed_at).toBeInstanceOf(Date);
+    expect(detail.changes).toHaveLength(0);
+  });
+
+  it('should list the documents whose category changed after a criteria edit', async () => {
+    const { categories, criteria, documents } = await createTestData();
+    await db.update(criteriaTable)
+      .set({ weight: '1.00' })
+      .where(eq(criteriaTable.id, criteria[1].id))
+      .execute();
+    await db.insert(criteriaTable)
+      .values({ category_id: categories[1].id, name: 'Lunch', pattern: 'lunch', match_type: 'keyword', weight: '0.50' })
+      .execute();
+
+    const detail = await runJob();
+
+    expect(detail.job.changed).toEqual(2);
+    expect(detail.changes.map(entry => entry.document.filename)).toEqual(['mixed.txt', 'memo.pdf']);
+
+    const [mixed, memo] = detail.changes;
+    expect(mixed.previous_category?.name).toEqual('Invoices');
+    expect(mixed.new_category?.name).toEqual('Contracts');
+    expect(memo.previous_category).toBeNull();
+    expect(memo.new_category?.name).toEqual('Contracts');
+
+    const stored = await db.select().from(documentsTable).where(eq(documentsTable.id, documents[1].id)).execute();
+    expect(stored[0].current_result_id).toEqual(mixed.change.new_result_id);
+  });
+
+  it('should keep the changes of a failed attempt when the job is retried', async () => {
+    const { criteria } = await createTestData();
+    await db.update(criteriaTable)
+      .set({ weight: '1.00' })
+      .where(eq(criteriaTable.id, criteria[1].id))
+      .execute();
+
+    // The first attempt reclassifies invoice.txt and mixed.txt, then fails before memo.pdf
+    const job = await reclassifyDocuments();
+    let checks = 0;
+    const failingContext = {
+      jobId: job.job_id!,
+      attempt: 1,
+      throwIfCancelled: async () => {
+        if (++checks > 2) throw new Error('Worker stopped');
+      },
+    };
+    await expect(runReclassificationJob(job.id, failingContext)).rejects.toThrow(/worker stopped/i);
+
+    // The retry finds mixed.txt already a contract, but still lists it as changed by the job
+    await runReclassificationJob(job.id, { jobId: job.job_id!, attempt: 2, throwIfCancelled: async () => {} });
+    const detail = await getReclassificationJob(job.id);
+
+    expect(detail.job.status).toEqual('completed');
+    expect(detail.job.total).toEqual(3);
+    expect(detail.job.changed).toEqual(1);
+    expect(detail.changes.map(entry => entry.document.filename)).toEqual(['mixed.txt']);
+    expect(detail.changes[0].previous_category?.name).toEqual('Invoices');
+    expect(detail.changes[0].new_category?.name).toEqual('Contracts');
+  });
+
+  it('should only process documents selected by the filter', async () => {
+    const { categories, documents } = await createTestData();
+
+    expect((await runJob({ filter: { file_type: 'pdf' } })).job.total).toEqual(1);
+    expect((await runJob({ filter: { category_id: categories[0].id } })).job.total).toEqual(2);
+    expect((await runJob({ filter: { category_id: null } })).job.total).toEqual(1);
+    expect((await runJob({ filter: { document_ids: [documents[0].id, documents[2].id] } })).job.total).toEqual(2);
+  });
+
+  it('should not count documents with a manual category as changed', async () => {
+    const { categories, documents } = await createTestData();
+    await overrideClassification({ document_id: documents[2].id, category_id: categories[0].id, reviewer: 'Ana', reason: 'Expense memo' });
+    await db.insert(criteriaTable)
+      .values({ category_id: categories[1].id, name: 'Lunch', pattern: 'lunch', match_type: 'keyword', weight: '0.50' })
+      .execute();
+
+    const detail = await runJob({ filter: { document_ids: [documents[2].id] } });
+
+    expect(detail.job.processed).toEqual(1);
+    expect(detail.job.changed).toEqual(0);
+  });
+
+  it('should store the multi-label threshold', async () => {
+    await createTestData();
+
+    const job = await reclassifyDocuments({ mode: 'multi', threshold: 0.3 });
+    await runPendingJobs();
+
+    const jobs = await db.select().from(reclassificationJobsTable).execute();
+    expect(jobs[0].mode).toEqual('multi');
+    expect(parseFloat(jobs[0].threshold!)).toEqual(0.3);
+    expect(job.threshold).toEqual(0.3);
+  });
+
+  it('should record a cancellation before the job started', async () => {
+    await createTestData();
+    const job = await reclassifyDocuments();
+
+    await cancelJob(job.job_id!);
+    await runPendingJobs();
+
+    const detail = await getReclassificationJob(job.id);
+    expect(detail.job.status).toEqual('cancelled');
+    expect(detail.job.processed).toEqual(0);
+  });
+
+  it('should throw for a missing job', async () => {
+    await expect(getReclassificationJob(999999)).rejects.toThrow(/not found/);
+  });
+});
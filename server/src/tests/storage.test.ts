@@ -0,0 +1,85 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { CreateBucketCommand, S3Client } from '@aws-sdk/client-s3';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { LocalStorageBackend, S3StorageBackend, type StorageBackend } from '../lib/storage';
+
+// Shared contract every storage backend must satisfy
+const describeBackend = (createBackend: () => StorageBackend) => {
+  it('should round-trip stored bytes', async () => {
+    const backend = createBackend();
+    const data = new Uint8Array([0, 1, 2, 250, 255]);
+
+    await backend.put('documents/roundtrip.bin', data, 'application/octet-stream');
+    const stored = await backend.get('documents/roundtrip.bin');
+
+    expect(Array.from(stored)).toEqual(Array.from(data));
+  });
+
+  it('should overwrite objects stored under the same key', async () => {
+    const backend = createBackend();
+
+    await backend.put('documents/overwrite.txt', Buffer.from('first'), 'text/plain');
+    await backend.put('documents/overwrite.txt', Buffer.from('second'), 'text/plain');
+
+    expect(Buffer.from(await backend.get('documents/overwrite.txt')).toString()).toEqual('second');
+  });
+
+  it('should delete objects', async () => {
+    const backend = createBackend();
+
+    await backend.put('documents/deleted.txt', Buffer.from('gone soon'), 'text/plain');
+    await backend.delete('documents/deleted.txt');
+
+    await expect(backend.get('documents/deleted.txt')).rejects.toThrow();
+  });
+};
+
+describe('LocalStorageBackend', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'storage-test-'));
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  describeBackend(() => new LocalStorageBackend(root));
+
+  it('should reject keys that escape the storage root', async () => {
+    const backend = new LocalStorageBackend(root);
+
+    await expect(backend.put('../outside.txt', Buffer.from('x'), 'text/plain')).rejects.toThrow(/invalid storage key/i);
+  });
+});
+
+// Runs against a local MinIO, e.g.:
+//   docker compose --profile s3 up minio
+//   S3_TEST_ENDPOINT=http://localhost:9000 bun test src/tests/storage.test.ts
+const s3Endpoint = process.env['S3_TEST_ENDPOINT'];
+
+describe.skipIf(!s3Endpoint)('S3StorageBackend', () => {
+  const config = {
+    bucket: `storage-test-${Date.now()}`,
+    region: 'us-east-1',
+    endpoint: s3Endpoint,
+    accessKeyId: process.env['S3_TEST_ACCESS_KEY_ID'] ?? 'minioadmin',
+    secretAccessKey: process.env['S3_TEST_SECRET_ACCESS_KEY'] ?? 'minioadmin',
+    forcePathStyle: true,
+  };
+
+  beforeAll(async () => {
+    const client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: true,
+      credentials: { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey },
+    });
+    await client.send(new CreateBucketCommand({ Bucket: config.bucket }));
+  });
+
+  describeBackend(() => new S3StorageBackend(config));
+});
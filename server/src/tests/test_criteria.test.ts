@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, categorySettingsTable, classificationResultsTable, criteriaTable } from '../db/schema';
+import { testCriteria } from '../handlers/test_criteria';
+
+describe('testCriteria', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createCategory = async () => {
+    const result = await db.insert(categoriesTable)
+      .values({ name: 'Contracts', color: '#3B82F6', description: null })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  it('should return every match with character offsets', async () => {
+    const result = await testCriteria({
+      sample_text: 'Invoice 12, then invoice 13.',
+      criteria: [{ pattern: 'invoice', match_type: 'keyword' }],
+    });
+
+    expect(result.criteria).toHaveLength(1);
+    expect(result.criteria[0].matches).toEqual([
+      { start: 0, end: 7, text: 'Invoice' },
+      { start: 17, end: 24, text: 'invoice' },
+    ]);
+    expect(result.criteria[0].error).toBeNull();
+    expect(result.criteria[0].timed_out).toBe(false);
+    expect(result.criteria[0].weight).toEqual(1);
+    expect(result.criteria[0].contribution).toEqual(1);
+    expect(result.score).toEqual(1);
+    expect(result.max_score).toEqual(1);
+    expect(result.normalized_score).toBeCloseTo(1 / 3); // Default fixed divisor of 3
+  });
+
+  it('should score a whole unsaved category definition', async () => {
+    const result = await testCriteria({
+      sample_text: 'Service agreement between the parties',
+      criteria: [
+        { name: 'Agreement', pattern: 'agreement', match_type: 'whole_word', weight: 0.6 },
+        { name: 'Signature', pattern: 'signed by', match_type: 'phrase', weight: 0.4 },
+        { name: 'Draft', pattern: 'draft', match_type: 'keyword', weight: -0.5 },
+      ],
+    });
+
+    expect(result.criteria.map(criteria => criteria.contribution)).toEqual([0.6, 0, 0]);
+    expect(result.criteria[1].matches).toHaveLength(0);
+    expect(result.score).toBeCloseTo(0.6);
+    expect(result.max_score).toBeCloseTo(1);
+    expect(result.normalized_score).toBeCloseTo(0.2);
+    expect(result.vetoed).toBe(false);
+  });
+
+  it('should report vetoes', async () => {
+    const result = await testCriteria({
+      sample_text: 'DRAFT agreement',
+      criteria: [
+        { pattern: 'agreement', match_type: 'keyword' },
+        { pattern: 'draft', match_type: 'keyword', is_veto: true },
+      ],
+    });
+
+    expect(result.vetoed).toBe(true);
+    expect(result.criteria[1].matches).toEqual([{ start: 0, end: 5, text: 'DRAFT' }]);
+  });
+
+  it('should report invalid criteria without failing the others', async () => {
+    const result = await testCriteria({
+      sample_text: 'invoice total',
+      criteria: [
+        { pattern: '(unclosed', match_type: 'regex' },
+        { pattern: '(a+)+$', match_type: 'regex' },
+        { pattern: 'total', match_type: 'keyword' },
+      ],
+    });
+
+    expect(result.criteria[0].error).toMatch(/not a valid regular expression/);
+    expect(result.criteria[1].error).toMatch(/backtrack catastrophically/);
+    expect(result.criteria[0].matches).toHaveLength(0);
+    expect(result.criteria[2].error).toBeNull();
+    expect(result.criteria[2].contribution).toEqual(1);
+    expect(result.max_score).toEqual(1);
+  });
+
+  it('should match metadata-scoped criteria against the sample metadata', async () => {
+    const result = await testCriteria({
+      sample_text: 'Please pay by Friday.',
+      sample_metadata: { subject: 'Invoice 2024-03', recipients: ['accounts@example.com', 'audit@example.com'] },
+      criteria: [
+        { pattern: 'invoice', match_type: 'keyword', scope: 'metadata', metadata_key: 'subject' },
+        { pattern: 'audit@', match_type: 'keyword', scope: 'metadata', metadata_key: 'recipients' },
+        { pattern: 'invoice', match_type: 'keyword', scope: 'metadata', metadata_key: 'title' },
+        { pattern: 'invoice', match_type: 'keyword', scope: 'metadata' },
+      ],
+    });
+
+    expect(result.criteria[0].matches).toEqual([{ start: 0, end: 7, text: 'Invoice' }]);
+    expect(result.criteria[1].matches).toEqual([{ start: 21, end: 27, text: 'audit@' }]); // Offsets in the joined recipient lines
+    expect(result.criteria[2].matches).toHaveLength(0); // The sample has no title
+    expect(result.criteria[3].error).toMatch(/requires a metadata_key/);
+    expect(result.score).toEqual(2);
+  });
+
+  it('should match file-scoped criteria against the sample file', async () => {
+    const result = await testCriteria({
+      sample_text: 'Page one\fPage two',
+      sample_file: { filename: 'scan_0042.pdf', file_type: 'pdf', file_size: 8192 },
+      criteria: [
+        { pattern: '^scan_', match_type: 'regex', scope: 'filename' },
+        { pattern: '', scope: 'size', size_min: 4096, size_max: 16384 },
+        { pattern: '', scope: 'size', size_max: 1024 },
+        { pattern: 'two', match_type: 'keyword', scope: 'last_page' },
+        { pattern: '', scope: 'size' },
+      ],
+    });
+
+    expect(result.criteria[0].matches).toEqual([{ start: 0, end: 5, text: 'scan_' }]);
+    expect(result.criteria[1].matches).toHaveLength(1); // A size criteria matches once when in range
+    expect(result.criteria[2].matches).toHaveLength(0);
+    expect(result.criteria[3].matches).toEqual([{ start: 5, end: 8, text: 'two' }]); // Offsets in the last page
+    expect(result.criteria[4].error).toMatch(/requires size_min, size_max or both/);
+  });
+
+  it('should resolve saved criteria referenced by composite rules', async () => {
+    const category = await createCategory();
+    const saved = await db.insert(criteriaTable)
+      .values({ category_id: category.id, name: 'Parties', pattern: 'parties', match_type: 'keyword', weight: '0.5' })
+      .returning()
+      .execute();
+
+    const result = await testCriteria({
+      sample_text: 'An agreement between the parties',
+      criteria: [{ pattern: `"agreement" AND @${saved[0].id}`, match_type: 'composite' }],
+    });
+
+    expect(result.criteria[0].matches.map(match => match.text)).toEqual(['agreement', 'parties']);
+    expect(result.criteria[0].contribution).toEqual(1);
+    expect(result.max_score).toEqual(1);
+  });
+
+  it('should use the settings of the given category', async () => {
+    const category = await createCategory();
+    await db.insert(categorySettingsTable)
+      .values({ category_id: category.id, normalization_mode: 'category_total' })
+      .execute();
+
+    const result = await testCriteria({
+      sample_text: 'agreement',
+      criteria: [{ pattern: 'agreement', match_type: 'keyword', weight: 0.4 }],
+      category_id: category.id,
+    });
+
+    expect(result.score).toBeCloseTo(0.4);
+    expect(result.normalized_score).toEqual(1);
+    expect(result.confidence_level).toEqual('high');
+  });
+
+  it('should throw for a missing category', async () => {
+    await expect(testCriteria({
+      sample_text: 'agreement',
+      criteria: [{ pattern: 'agreement' }],
+      category_id: 999999,
+    })).rejects.toThrow(/Category with id 999999 not found/);
+  });
+
+  it('should not store anything', async () => {
+    await createCategory();
+    await testCriteria({
+      sample_text: 'agreement',
+      criteria: [{ pattern: 'agreement', match_type: 'keyword' }],
+    });
+
+    expect(await db.select().from(classificationResultsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(criteriaTable).execute()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, categorySettingsTable } from '../db/schema';
+import { updateCategorySettings } from '../handlers/update_category_settings';
+import { eq } from 'drizzle-orm';
+
+describe('updateCategorySettings', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createCategory = async () => {
+    const categories = await db.insert(categoriesTable)
+      .values({ name: 'Contracts', color: '#EF4444' })
+      .returning()
+      .execute();
+    return categories[0];
+  };
+
+  it('should create overrides for a category', async () => {
+    const category = await createCategory();
+
+    const result = await updateCategorySettings({
+      category_id: category.id,
+      normalization_mode: 'category_total',
+      high_threshold: 0.8,
+    });
+
+    expect(result.category_id).toEqual(category.id);
+    expect(result.normalization_mode).toEqual('category_total');
+    expect(result.high_threshold).toEqual(0.8);
+    expect(result.medium_threshold).toBeNull();
+    expect(result.normalization_divisor).toBeNull();
+  });
+
+  it('should merge later updates and clear overrides set to null', async () => {
+    const category = await createCategory();
+
+    await updateCategorySettings({ category_id: category.id, normalization_mode: 'category_total', high_threshold: 0.8 });
+    const result = await updateCategorySettings({ category_id: category.id, high_threshold: null, medium_threshold: 0.5 });
+
+    expect(result.normalization_mode).toEqual('category_total'); // Kept
+    expect(result.high_threshold).toBeNull(); // Cleared
+    expect(result.medium_threshold).toEqual(0.5);
+
+    const rows = await db.select()
+      .from(categorySettingsTable)
+      .where(eq(categorySettingsTable.category_id, category.id))
+      .execute();
+    expect(rows).toHaveLength(1);
+  });
+
+  it('should validate thresholds against the inherited defaults', async () => {
+    const category = await createCategory();
+
+    // Default high threshold is 0.666
+    await expect(updateCategorySettings({ category_id: category.id, medium_threshold: 0.7 }))
+      .rejects.toThrow(/cannot be greater than the high threshold/i);
+  });
+
+  it('should throw for a non-existent category', async () => {
+    await expect(updateCategorySettings({ category_id: 9999, high_threshold: 0.9 }))
+      .rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, classificationSettingsTable } from '../db/schema';
+import { updateClassificationSettings } from '../handlers/update_classification_settings';
+import { updateCategorySettings } from '../handlers/update_category_settings';
+
+describe('updateClassificationSettings', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should update only the provided fields', async () => {
+    const result = await updateClassificationSettings({
+      normalization_mode: 'category_total',
+      high_threshold: 0.75,
+    });
+
+    expect(result.normalization_mode).toEqual('category_total');
+    expect(result.high_threshold).toEqual(0.75);
+    expect(result.medium_threshold).toEqual(0.333); // Unchanged default
+    expect(result.normalization_divisor).toEqual(3);
+  });
+
+  it('should persist the settings', async () => {
+    await updateClassificationSettings({ normalization_divisor: 5, medium_threshold: 0.4 });
+
+    const rows = await db.select().from(classificationSettingsTable).execute();
+    expect(rows).toHaveLength(1);
+    expect(parseFloat(rows[0].normalization_divisor)).toEqual(5);
+    expect(parseFloat(rows[0].medium_threshold)).toEqual(0.4);
+  });
+
+  it('should reject a medium threshold above the high threshold', async () => {
+    await expect(updateClassificationSettings({ medium_threshold: 0.9 }))
+      .rejects.toThrow(/cannot be greater than the high threshold/i);
+
+    await expect(updateClassificationSettings({ high_threshold: 0.5, medium_threshold: 0.6 }))
+      .rejects.toThrow(/cannot be greater than the high threshold/i);
+  });
+
+  it('should reject a global threshold that leaves a category override above it', async () => {
+    const categories = await db.insert(categoriesTable)
+      .values({ name: 'Invoices', color: '#3B82F6', description: null })
+      .returning()
+      .execute();
+    await updateCategorySettings({ category_id: categories[0].id, medium_threshold: 0.6 });
+
+    await expect(updateClassificationSettings({ high_threshold: 0.5 }))
+      .rejects.toThrow(/greater than the high threshold for category Invoices/i);
+
+    const rows = await db.select().from(classificationSettingsTable).execute();
+    expect(parseFloat(rows[0].high_threshold)).not.toEqual(0.5);
+    expect((await updateClassificationSettings({ high_threshold: 0.7 })).high_threshold).toEqual(0.7);
+  });
+});
@@ -214,4 +214,111 @@ describe('updateCriteria', () => {
     expect(result.created_at).toEqual(originalCreatedAt);
     expect(result.created_at).toBeInstanceOf(Date);
   });
-});
\ No newline at end of file
+
+  it('should update the match type', async () => {
+    const result = await updateCriteria({ id: criteriaId, pattern: 'c++', match_type: 'keyword' });
+
+    expect(result.pattern).toEqual('c++');
+    expect(result.match_type).toEqual('keyword');
+  });
+
+  it('should validate a new pattern against the stored match type', async () => {
+    // Stored criteria is a regex, so an unbalanced pattern is rejected
+    await expect(updateCriteria({ id: criteriaId, pattern: '(unbalanced' }))
+      .rejects.toThrow(/not a valid regular expression/i);
+
+    await updateCriteria({ id: criteriaId, pattern: '(unbalanced', match_type: 'phrase' });
+
+    // Switching back to regex revalidates the stored pattern
+    await expect(updateCriteria({ id: criteriaId, match_type: 'regex' }))
+      .rejects.toThrow(/not a valid regular expression/i);
+
+    const saved = await db.select()
+      .from(criteriaTable)
+      .where(eq(criteriaTable.id, criteriaId))
+      .execute();
+    expect(saved[0].match_type).toEqual('phrase');
+  });
+
+  it('should update scoring modes', async () => {
+    const result = await updateCriteria({ id: criteriaId, frequency_mode: 'diminishing', position_mode: 'leading', position_window: 200 });
+
+    expect(result.frequency_mode).toEqual('diminishing');
+    expect(result.position_mode).toEqual('leading');
+    expect(result.position_window).toEqual(200);
+
+    // Null resets the window to the default
+    const reset = await updateCriteria({ id: criteriaId, position_window: null });
+    expect(reset.position_window).toBeNull();
+    expect(reset.position_mode).toEqual('leading');
+  });
+
+  it('should update the scope', async () => {
+    await expect(updateCriteria({ id: criteriaId, scope: 'metadata' }))
+      .rejects.toThrow(/requires a metadata_key/);
+
+    const scoped = await updateCriteria({ id: criteriaId, scope: 'metadata', metadata_key: 'sender' });
+    expect(scoped.scope).toEqual('metadata');
+    expect(scoped.metadata_key).toEqual('sender');
+
+    // The key can change on its own, and moving back to content scope drops it
+    const rekeyed = await updateCriteria({ id: criteriaId, metadata_key: 'subject' });
+    expect(rekeyed.metadata_key).toEqual('subject');
+
+    const content = await updateCriteria({ id: criteriaId, scope: 'content' });
+    expect(content.scope).toEqual('content');
+    expect(content.metadata_key).toBeNull();
+
+    await expect(updateCriteria({ id: criteriaId, metadata_key: 'subject' }))
+      .rejects.toThrow(/does not take a metadata_key/);
+  });
+
+  it('should turn criteria into exclusions', async () => {
+    const negative = await updateCriteria({ id: criteriaId, weight: -0.4 });
+    expect(negative.weight).toEqual(-0.4);
+
+    const veto = await updateCriteria({ id: criteriaId, is_veto: true });
+    expect(veto.is_veto).toBe(true);
+    expect(veto.weight).toEqual(-0.4); // Unchanged
+  });
+
+  it('should validate composite rules on update', async () => {
+    await expect(updateCriteria({ id: criteriaId, pattern: `"x" AND @${criteriaId}`, match_type: 'composite' }))
+      .rejects.toThrow(/cannot reference itself/i);
+
+    await expect(updateCriteria({ id: criteriaId, pattern: '"x" OR', match_type: 'composite' }))
+      .rejects.toThrow(/invalid composite rule/i);
+
+    const result = await updateCriteria({ id: criteriaId, pattern: '"original" NEAR/2 "pattern"', match_type: 'composite' });
+    expect(result.match_type).toEqual('composite');
+  });
+
+  it('should not turn a referenced criteria into a composite rule', async () => {
+    await db.insert(criteriaTable)
+      .values({ category_id: categoryId, name: 'Rule', pattern: `@${criteriaId} AND "x"`, match_type: 'composite', weight: '0.50' })
+      .execute();
+
+    await expect(updateCriteria({ id: criteriaId, pattern: '"y"', match_type: 'composite' }))
+      .rejects.toThrow(/referenced by composite rule "Rule"/i);
+    await expect(updateCriteria({ id: criteriaId, scope: 'size', size_min: 1024 }))
+      .rejects.toThrow(/referenced by composite rule "Rule" and cannot move to size scope/i);
+  });
+
+  it('should update size bounds and drop them when leaving size scope', async () => {
+    await expect(updateCriteria({ id: criteriaId, scope: 'size' }))
+      .rejects.toThrow(/requires size_min, size_max or both/);
+
+    const sized = await updateCriteria({ id: criteriaId, scope: 'size', size_min: 1024 });
+    expect(sized.scope).toEqual('size');
+    expect(sized.size_min).toEqual(1024);
+    expect(sized.size_max).toBeNull();
+
+    await expect(updateCriteria({ id: criteriaId, size_max: 512 }))
+      .rejects.toThrow(/size_min cannot be larger than size_max/);
+
+    const filename = await updateCriteria({ id: criteriaId, scope: 'filename' });
+    expect(filename.scope).toEqual('filename');
+    expect(filename.size_min).toBeNull();
+    expect(filename.pattern).toEqual('original.*pattern');
+  });
+});
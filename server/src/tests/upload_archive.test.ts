@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { strToU8, zipSync } from 'fflate';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { documentsTable, documentBatchesTable, jobsTable } from '../db/schema';
+import { uploadArchive, runDocumentBatchImport } from '../handlers/upload_archive';
+import { getDocumentBatch } from '../handlers/get_document_batch';
+import { ArchiveError } from '../lib/archive';
+import { runPendingJobs } from '../lib/jobs';
+import { getStorage } from '../lib/storage';
+import { uploadArchiveInputSchema, MAX_BASE64_UPLOAD_LENGTH } from '../schema';
+import { eq } from 'drizzle-orm';
+
+const encode = (archive: Uint8Array) => Buffer.from(archive).toString('base64');
+
+// Upload, then let the worker import the batch
+const importArchive = async (filename: string, archive: Uint8Array) => {
+  const queued = await uploadArchive({ filename, file_data: encode(archive) });
+  await runPendingJobs();
+  return getDocumentBatch(queued.batch.id);
+};
+
+describe('uploadArchive', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a document for each supported entry in a new batch', async () => {
+    const archive = zipSync({
+      'invoices/march.txt': strToU8('Invoice for March'),
+      'contracts/lease.txt': strToU8('Lease agreement'),
+      'logo.png': strToU8('image bytes'),
+    });
+
+    const detail = await importArchive('bundle.zip', archive);
+
+    expect(detail.batch.status).toBe('completed');
+    expect(detail.batch.storage_key).toBeNull();
+    expect(detail.batch.completed_at).toBeInstanceOf(Date);
+    expect(detail.batch.filename).toBe('bundle.zip');
+    expect(detail.batch.file_size).toBe(archive.length);
+    expect(detail.batch.skipped_entries).toEqual([{ path: 'logo.png', reason: 'Unsupported file type' }]);
+    expect(detail.batch.created_at).toBeInstanceOf(Date);
+
+    expect(detail.documents.map(entry => entry.document.filename)).toEqual(['invoices/march.txt', 'contracts/lease.txt']);
+    expect(detail.documents.every(entry => entry.result === null)).toBe(true);
+    expect(detail.summary).toMatchObject({ total: 2, classified: 0, unclassified: 0, pending: 2 });
+
+    const saved = await db.select()
+      .from(documentsTable)
+      .where(eq(documentsTable.batch_id, detail.batch.id))
+      .execute();
+    expect(saved).toHaveLength(2);
+    expect(saved[0].content).toBe('Invoice for March');
+    expect(saved[0].file_size).toBe(17);
+
+    const stored = await getStorage().get(saved[0].storage_key!);
+    expect(new TextDecoder().decode(stored)).toBe('Invoice for March');
+  });
+
+  it('should record entries whose text cannot be extracted as skipped', async () => {
+    const archive = zipSync({
+      'notes.txt': strToU8('Meeting notes'),
+      'scan.pdf': strToU8('this is not a pdf'),
+    });
+
+    const detail = await importArchive('mixed.zip', archive);
+
+    expect(detail.documents.map(entry => entry.document.filename)).toEqual(['notes.txt']);
+    expect(detail.batch.skipped_entries).toHaveLength(1);
+    expect(detail.batch.skipped_entries[0].path).toBe('scan.pdf');
+    expect(detail.batch.skipped_entries[0].reason).toMatch(/^Could not be read/);
+  });
+
+  it('should queue the import and keep the upload until the job runs', async () => {
+    const archive = zipSync({ 'notes.txt': strToU8('Meeting notes') });
+
+    const queued = await uploadArchive({ filename: 'notes.zip', file_data: encode(archive) });
+
+    expect(queued.batch.status).toBe('queued');
+    expect(queued.batch.job_id).not.toBeNull();
+    expect(queued.documents).toHaveLength(0);
+    const staged = await getStorage().get(queued.batch.storage_key!);
+    expect(staged).toEqual(archive);
+
+    await runPendingJobs();
+    await expect(getStorage().get(queued.batch.storage_key!)).rejects.toThrow();
+  });
+
+  it('should not save documents twice when a failed import is retried', async () => {
+    const archive = zipSync({ 'a.txt': strToU8('First'), 'b.txt': strToU8('Second'), 'c.txt': strToU8('Third') });
+    const queued = await uploadArchive({ filename: 'letters.zip', file_data: encode(archive) });
+
+    // The first attempt saves a.txt and b.txt, then stops
+    let checks = 0;
+    const failingContext = {
+      jobId: queued.batch.job_id!,
+      attempt: 1,
+      throwIfCancelled: async () => {
+        if (++checks > 2) throw new Error('Worker stopped');
+      },
+    };
+    await expect(runDocumentBatchImport(queued.batch.id, 'archive', failingContext)).rejects.toThrow(/worker stopped/i);
+    expect((await getDocumentBatch(queued.batch.id)).batch.status).toBe('running');
+
+    await runDocumentBatchImport(queued.batch.id, 'archive', { jobId: queued.batch.job_id!, attempt: 2, throwIfCancelled: async () => {} });
+    const detail = await getDocumentBatch(queued.batch.id);
+
+    expect(detail.batch.status).toBe('completed');
+    expect(detail.documents.map(entry => entry.document.filename)).toEqual(['a.txt', 'b.txt', 'c.txt']);
+  });
+
+  it('should reject archives without supported documents', async () => {
+    const archive = zipSync({ 'photo.png': strToU8('image bytes') });
+
+    await expect(uploadArchive({ filename: 'photos.zip', file_data: encode(archive) })).rejects.toThrow(ArchiveError);
+    expect(await db.select().from(documentBatchesTable).execute()).toHaveLength(0);
+  });
+
+  it('should fail the batch at once when the archive turns out to hold no documents', async () => {
+    const archive = zipSync({ 'photos.zip': zipSync({ 'logo.png': strToU8('image bytes') }) });
+
+    const detail = await importArchive('nested.zip', archive);
+
+    expect(detail.batch.status).toBe('failed');
+    expect(detail.batch.error).toBe('Archive contains no supported documents');
+    const jobs = await db.select().from(jobsTable).where(eq(jobsTable.id, detail.batch.job_id!)).execute();
+    expect(jobs[0].status).toBe('dead');
+    expect(jobs[0].attempts).toBe(1);
+  });
+
+  it('should bound archive data to the upload limit in the input schema', () => {
+    const oversized = { filename: 'huge.zip', file_data: 'A'.repeat(MAX_BASE64_UPLOAD_LENGTH + 1) };
+
+    expect(uploadArchiveInputSchema.safeParse(oversized).success).toBe(false);
+  });
+
+  it('should reject data that is not a zip archive', async () => {
+    await expect(uploadArchive({ filename: 'fake.zip', file_data: encode(strToU8('plain text')) })).rejects.toThrow(/Not a valid zip archive/);
+  });
+});
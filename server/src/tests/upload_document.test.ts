@@ -2,9 +2,42 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { documentsTable } from '../db/schema';
-import { type UploadDocumentInput } from '../schema';
+import { type UploadDocumentInput, uploadDocumentInputSchema, MAX_BASE64_UPLOAD_LENGTH } from '../schema';
 import { uploadDocument } from '../handlers/upload_document';
+import { PAGE_SEPARATOR } from '../lib/extractors';
+import { ARCHIVE_LIMITS } from '../lib/archive';
 import { eq } from 'drizzle-orm';
+import { strToU8, zipSync } from 'fflate';
+import { createHash } from 'node:crypto';
+
+// Build a minimal single-font PDF with one text line per page
+const buildPdf = (pages: string[]): Buffer => {
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+
+  pages.forEach((text, i) => {
+    const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`);
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+  return Buffer.from(pdf, 'latin1');
+};
 
 // Test input for PDF document
 const testPdfInput: UploadDocumentInput = {
@@ -37,6 +70,34 @@ const testInputNoContent: UploadDocumentInput = {
   file_size: 1024
 };
 
+// Build a DOCX package from WordprocessingML body, header, footer and footnote markup
+const buildDocx = (parts: { body: string; header?: string; footer?: string; footnotes?: string; }): Buffer => {
+  const ns = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+  const sectionRefs = [
+    parts.header ? '<w:headerReference w:type="default" r:id="rIdHeader1"/>' : '',
+    parts.footer ? '<w:footerReference w:type="default" r:id="rIdFooter1"/>' : '',
+  ].join('');
+
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8('<?xml version="1.0"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"/>'),
+    'word/document.xml': strToU8(`<?xml version="1.0"?><w:document ${ns}><w:body>${parts.body}<w:sectPr>${sectionRefs}</w:sectPr></w:body></w:document>`),
+    'word/_rels/document.xml.rels': strToU8(
+      '<?xml version="1.0"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rIdHeader1" Type="header" Target="header1.xml"/>' +
+      '<Relationship Id="rIdFooter1" Type="footer" Target="footer1.xml"/>' +
+      '</Relationships>'
+    ),
+  };
+  if (parts.header) files['word/header1.xml'] = strToU8(`<w:hdr ${ns}>${parts.header}</w:hdr>`);
+  if (parts.footer) files['word/footer1.xml'] = strToU8(`<w:ftr ${ns}>${parts.footer}</w:ftr>`);
+  if (parts.footnotes) files['word/footnotes.xml'] = strToU8(`<w:footnotes ${ns}>${parts.footnotes}</w:footnotes>`);
+
+  return Buffer.from(zipSync(files));
+};
+
+const paragraph = (...runs: string[]): string =>
+  `<w:p><w:pPr><w:tabs><w:tab w:val="left" w:pos="720"/></w:tabs></w:pPr>${runs.map(run => `<w:r><w:t xml:space="preserve">${run}</w:t></w:r>`).join('')}</w:p>`;
+
 describe('uploadDocument', () => {
   beforeEach(createDB);
   afterEach(resetDB);
@@ -86,6 +147,9 @@ describe('uploadDocument', () => {
     expect(result.file_type).toEqual('pdf');
     expect(result.file_size).toEqual(1024);
     expect(result.content).toBeNull();
+    expect(result.storage_key).toBeNull();
+    expect(result.content_hash).toBeNull();
+    expect(result.mime_type).toBeNull();
     expect(result.id).toBeDefined();
     expect(result.uploaded_at).toBeInstanceOf(Date);
   });
@@ -194,4 +258,203 @@ describe('uploadDocument', () => {
 
     expect(document[0].file_size).toEqual(52428800);
   });
-});
\ No newline at end of file
+
+  it('should extract text from PDF file data page by page', async () => {
+    const pdf = buildPdf(['Invoice number 42', 'Payment due in 30 days']);
+
+    const result = await uploadDocument({
+      filename: 'invoice.pdf',
+      file_type: 'pdf',
+      file_size: pdf.length,
+      file_data: pdf.toString('base64')
+    });
+
+    expect(result.page_count).toEqual(2);
+    expect(result.content).toEqual(`Invoice number 42${PAGE_SEPARATOR}Payment due in 30 days`);
+
+    // Verify the original file was kept
+    expect(result.storage_key).toMatch(/^documents\/.+\.pdf$/);
+    expect(result.mime_type).toEqual('application/pdf');
+    expect(result.content_hash).toEqual(createHash('sha256').update(pdf).digest('hex'));
+
+    // Verify extracted content was persisted
+    const documents = await db.select()
+      .from(documentsTable)
+      .where(eq(documentsTable.id, result.id))
+      .execute();
+
+    expect(documents[0].content?.split(PAGE_SEPARATOR)).toEqual(['Invoice number 42', 'Payment due in 30 days']);
+    expect(documents[0].page_count).toEqual(2);
+  });
+
+  it('should prefer extracted text over provided content', async () => {
+    const pdf = buildPdf(['Extracted from the file']);
+
+    const result = await uploadDocument({
+      filename: 'mixed.pdf',
+      file_type: 'pdf',
+      file_size: pdf.length,
+      content: 'Client supplied text',
+      file_data: pdf.toString('base64')
+    });
+
+    expect(result.content).toEqual('Extracted from the file');
+  });
+
+  it('should decode TXT file data as UTF-8', async () => {
+    const data = Buffer.from('Grüße aus dem Büro', 'utf-8');
+
+    const result = await uploadDocument({
+      filename: 'greeting.txt',
+      file_type: 'txt',
+      file_size: data.length,
+      file_data: data.toString('base64')
+    });
+
+    expect(result.content).toEqual('Grüße aus dem Büro');
+    expect(result.page_count).toBeNull();
+  });
+
+  it('should store structural hints from the extractor', async () => {
+    const data = Buffer.from('<html><head><title>Price List</title></head><body><h1>Prices</h1><p>Widgets: 5</p></body></html>');
+
+    const result = await uploadDocument({
+      filename: 'prices.html',
+      file_type: 'html',
+      file_size: data.length,
+      file_data: data.toString('base64')
+    });
+
+    expect(result.content).toEqual('Prices\nWidgets: 5');
+    expect(result.metadata).toEqual({ title: 'Price List', headings: ['Prices'] });
+    expect(result.mime_type).toEqual('text/html');
+    expect(result.storage_key).toMatch(/^documents\/.+\.html$/);
+
+    const documents = await db.select()
+      .from(documentsTable)
+      .where(eq(documentsTable.id, result.id))
+      .execute();
+
+    expect(JSON.parse(documents[0].metadata!)).toEqual({ title: 'Price List', headings: ['Prices'] });
+  });
+
+  it('should leave metadata empty when only content is provided', async () => {
+    const result = await uploadDocument(testTxtInput);
+
+    expect(result.metadata).toBeNull();
+  });
+
+  it('should reject corrupt PDF data without saving the document', async () => {
+    const data = Buffer.from('this is not a pdf');
+
+    await expect(uploadDocument({
+      filename: 'broken.pdf',
+      file_type: 'pdf',
+      file_size: data.length,
+      file_data: data.toString('base64')
+    })).rejects.toThrow();
+
+    const documents = await db.select()
+      .from(documentsTable)
+      .execute();
+
+    expect(documents).toHaveLength(0);
+  });
+
+  it('should extract DOCX headers, body, tables, footnotes and footers in reading order', async () => {
+    const docx = buildDocx({
+      header: paragraph('ACME Legal Department'),
+      body: [
+        paragraph('Service ', 'Agreement'),
+        '<w:p><w:r><w:t>Between the parties &amp; their successors</w:t></w:r><w:r><w:footnoteReference w:id="1"/></w:r></w:p>',
+        '<w:tbl>',
+        '<w:tr><w:tc>' + paragraph('Fee') + '</w:tc><w:tc>' + paragraph('Amount') + '</w:tc></w:tr>',
+        '<w:tr><w:tc>' + paragraph('Retainer') + '</w:tc><w:tc>' + paragraph('$1,000') + '</w:tc></w:tr>',
+        '</w:tbl>',
+        paragraph('Signed in Berlin'),
+      ].join(''),
+      footnotes: [
+        '<w:footnote w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:footnote>',
+        '<w:footnote w:id="1">' + paragraph('Including affiliates.') + '</w:footnote>',
+      ].join(''),
+      footer: paragraph('Confidential'),
+    });
+
+    const result = await uploadDocument({
+      filename: 'agreement.docx',
+      file_type: 'docx',
+      file_size: docx.length,
+      file_data: docx.toString('base64')
+    });
+
+    expect(result.content).toEqual([
+      'ACME Legal Department',
+      '',
+      'Service Agreement',
+      'Between the parties & their successors[1]',
+      'Fee\tAmount',
+      'Retainer\t$1,000',
+      'Signed in Berlin',
+      '',
+      '[1] Including affiliates.',
+      '',
+      'Confidential',
+    ].join('\n'));
+    expect(result.page_count).toBeNull();
+  });
+
+  it('should reject DOCX data without a document part', async () => {
+    const data = Buffer.from(zipSync({ 'readme.txt': strToU8('not a word file') }));
+
+    await expect(uploadDocument({
+      filename: 'broken.docx',
+      file_type: 'docx',
+      file_size: data.length,
+      file_data: data.toString('base64')
+    })).rejects.toThrow(/missing word\/document.xml/i);
+  });
+
+  it('should bound file data to the upload limit in the input schema', () => {
+    const input = { filename: 'large.txt', file_type: 'txt', file_size: 1 };
+
+    expect(uploadDocumentInputSchema.safeParse({ ...input, file_data: 'A'.repeat(MAX_BASE64_UPLOAD_LENGTH) }).success).toBe(true);
+    expect(uploadDocumentInputSchema.safeParse({ ...input, file_data: 'A'.repeat(MAX_BASE64_UPLOAD_LENGTH + 1) }).success).toBe(false);
+  });
+
+  it('should reject file data whose size differs from the declared size', async () => {
+    const data = Buffer.from('Quarterly report', 'utf-8');
+
+    await expect(uploadDocument({
+      filename: 'report.txt',
+      file_type: 'txt',
+      file_size: data.length + 1,
+      file_data: data.toString('base64')
+    })).rejects.toThrow(/Declared file size 17 does not match the 16 bytes of file data/);
+
+    expect(await db.select().from(documentsTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject DOCX parts over the size limit before inflating them', async () => {
+    const data = Buffer.from(zipSync({ 'word/document.xml': new Uint8Array(ARCHIVE_LIMITS.maxEntrySize + 1) }));
+
+    await expect(uploadDocument({
+      filename: 'bomb.docx',
+      file_type: 'docx',
+      file_size: data.length,
+      file_data: data.toString('base64')
+    })).rejects.toThrow(/word\/document.xml exceeds the 10MB limit/);
+  });
+
+  it('should keep DOCX character references outside the Unicode range as written', async () => {
+    const docx = buildDocx({ body: '<w:p><w:r><w:t>Total &#x110000; &#8364;5</w:t></w:r></w:p>' });
+
+    const result = await uploadDocument({
+      filename: 'entities.docx',
+      file_type: 'docx',
+      file_size: docx.length,
+      file_data: docx.toString('base64')
+    });
+
+    expect(result.content).toEqual('Total &#x110000; €5');
+  });
+});